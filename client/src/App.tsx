@@ -9,6 +9,9 @@ import { SwipeSession } from './pages/SwipeSession';
 import { Results } from './pages/Results';
 import QuickSession from './pages/QuickSession';
 import { ShareSession } from './pages/ShareSession';
+import { SessionAdmin } from './pages/SessionAdmin';
+import { RunoffBallot } from './pages/RunoffBallot';
+import { ShoppingList } from './pages/ShoppingList';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
@@ -71,7 +74,9 @@ function AppRoutes() {
       {/* Participant routes (no auth required) */}
       <Route path="/join/:inviteCode" element={<JoinSession />} />
       <Route path="/session/:sessionId/share" element={<ShareSession />} />
+      <Route path="/session/:sessionId/admin" element={<SessionAdmin />} />
       <Route path="/session/:sessionId/swipe" element={<SwipeSession />} />
+      <Route path="/session/:sessionId/runoff" element={<RunoffBallot />} />
       <Route path="/results/:sessionId" element={<Results />} />
 
       {/* Protected routes */}
@@ -91,6 +96,14 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/session/:sessionId/shopping-list"
+        element={
+          <ProtectedRoute>
+            <ShoppingList />
+          </ProtectedRoute>
+        }
+      />
 
       {/* Fallback */}
       <Route path="*" element={<Navigate to="/" replace />} />
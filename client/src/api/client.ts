@@ -65,28 +65,126 @@ export const authApi = {
 };
 
 // Meals API
-export interface Meal {
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface Ingredient {
+  quantity: number | null;
+  unit: string | null;
+  name: string;
+}
+
+export interface MealRecipe {
+  ingredients?: Ingredient[];
+  steps?: string[];
+  prepMinutes?: number | null;
+  cookMinutes?: number | null;
+  difficulty?: Difficulty | null;
+  servings?: number | null;
+}
+
+export type MealType = 'meal' | 'restaurant';
+
+// One opening period; a close time at or before the open time runs past midnight
+export interface OpeningHours {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  open: string; // HH:MM
+  close: string; // HH:MM
+}
+
+export interface RestaurantInfo {
+  address?: string | null;
+  cuisine?: string | null;
+  priceTier?: number | null; // 1-4
+  hours?: OpeningHours[];
+  phone?: string | null;
+  websiteUrl?: string | null;
+}
+
+export type Allergen =
+  | 'gluten' | 'dairy' | 'eggs' | 'nuts' | 'peanuts' | 'soy' | 'fish' | 'shellfish' | 'sesame' | 'meat';
+
+export type Diet = 'vegetarian' | 'vegan';
+
+// Hard restrictions (allergies) hide meals; soft ones only flag them
+export interface DietaryRestriction {
+  code: Allergen | Diet;
+  hard: boolean;
+}
+
+export interface DietaryInfo {
+  allergens?: Allergen[];
+}
+
+// Optional fields accepted when creating or updating a meal
+export type MealDetails = MealRecipe & RestaurantInfo & DietaryInfo & { type?: MealType };
+
+// Resized copies served from /api/images; both are null when the meal has no photo
+export interface MealImage {
+  imageUrl?: string | null;
+  thumbnailUrl?: string | null;
+}
+
+export interface Meal extends MealRecipe, MealImage, RestaurantInfo, DietaryInfo {
   id: string;
   title: string;
   description: string | null;
   type: string;
+  openNow?: boolean | null; // null for meals and restaurants without hours
+  tags?: string[];
   pickCount: number;
   createdAt?: string;
   archived?: boolean;
 }
 
+export interface MealFilters {
+  search?: string;
+  tags?: string[];
+}
+
+function mealFilterQuery({ search, tags = [] }: MealFilters): string {
+  const params = new URLSearchParams();
+  if (search) params.set('search', search);
+  tags.forEach((tag) => params.append('tag', tag));
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+export type MealExportFormat = 'json' | 'csv' | 'markdown';
+export type MealImportFormat = 'json' | 'csv';
+
+export interface MealImportOptions {
+  dryRun?: boolean; // defaults to true: preview without importing
+  skipDuplicates?: boolean;
+}
+
+export interface MealImportRow {
+  row: number;
+  title: string;
+  status: 'new' | 'duplicate' | 'invalid';
+  error?: string;
+  duplicateOf?: { mealId: string | null; row: number | null; title: string };
+}
+
+export interface MealImportResult {
+  dryRun: boolean;
+  rows: MealImportRow[];
+  ignoredColumns: string[];
+  summary: { new: number; duplicate: number; invalid: number };
+  imported: number;
+}
+
 export const mealsApi = {
-  list: () => request<Meal[]>('/meals'),
+  list: (filters: MealFilters = {}) => request<Meal[]>(`/meals${mealFilterQuery(filters)}`),
 
   listAll: () => request<Meal[]>('/meals/all'),
 
-  create: (title: string, description?: string) =>
+  create: (title: string, description?: string, tags?: string[], details: MealDetails = {}) =>
     request<Meal>('/meals', {
       method: 'POST',
-      body: JSON.stringify({ title, description }),
+      body: JSON.stringify({ title, description, tags, ...details }),
     }),
 
-  update: (id: string, data: { title?: string; description?: string }) =>
+  update: (id: string, data: { title?: string; description?: string; tags?: string[] } & MealDetails) =>
     request<Meal>(`/meals/${id}`, {
       method: 'PATCH',
       body: JSON.stringify(data),
@@ -97,14 +195,293 @@ export const mealsApi = {
 
   restore: (id: string) =>
     request<{ message: string }>(`/meals/${id}/restore`, { method: 'POST' }),
+
+  // Sent as multipart form data, so this bypasses the JSON request helper
+  uploadImage: async (id: string, file: File): Promise<Required<MealImage>> => {
+    const body = new FormData();
+    body.append('image', file);
+
+    const response = await fetch(`${API_BASE}/meals/${id}/image`, {
+      method: 'POST',
+      credentials: 'include',
+      body,
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new ApiException((data as ApiError).error || 'An error occurred');
+    }
+
+    return data as Required<MealImage>;
+  },
+
+  removeImage: (id: string) =>
+    request<{ message: string }>(`/meals/${id}/image`, { method: 'DELETE' }),
+
+  // A plain link so the browser downloads the file with the session cookie
+  exportUrl: (format: MealExportFormat) => `${API_BASE}/meals/export?format=${format}`,
+
+  import: (format: MealImportFormat, content: string, options: MealImportOptions = {}) =>
+    request<MealImportResult>('/meals/import', {
+      method: 'POST',
+      body: JSON.stringify({ format, content, ...options }),
+    }),
+
+  // Creates the meal from the page's schema.org recipe, photo included when it can be downloaded
+  importRecipe: (url: string, tags?: string[]) =>
+    request<Meal>('/meals/import-recipe', {
+      method: 'POST',
+      body: JSON.stringify({ url, tags }),
+    }),
+};
+
+// Tags API
+export interface Tag {
+  id: string;
+  name: string;
+  mealCount: number;
+}
+
+export const tagsApi = {
+  list: () => request<Tag[]>('/tags'),
+
+  create: (name: string) =>
+    request<Tag>('/tags', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    }),
+
+  rename: (id: string, name: string) =>
+    request<{ id: string; name: string }>(`/tags/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ name }),
+    }),
+
+  delete: (id: string) =>
+    request<{ message: string }>(`/tags/${id}`, { method: 'DELETE' }),
+};
+
+// Playlists API
+export interface Playlist {
+  id: string;
+  name: string;
+  description: string | null;
+  mealCount: number;
+  updatedAt?: string;
+}
+
+export interface PlaylistDetails {
+  id: string;
+  name: string;
+  description: string | null;
+  meals: { id: string; title: string; description: string | null; archived: boolean }[];
+  updatedAt: string;
+}
+
+export const playlistsApi = {
+  list: () => request<Playlist[]>('/playlists'),
+
+  get: (id: string) => request<PlaylistDetails>(`/playlists/${id}`),
+
+  create: (name: string, mealIds: string[], description?: string) =>
+    request<Playlist & { mealIds: string[] }>('/playlists', {
+      method: 'POST',
+      body: JSON.stringify({ name, description, mealIds }),
+    }),
+
+  update: (id: string, data: { name?: string; description?: string; mealIds?: string[] }) =>
+    request<{ id: string; name: string; description: string | null }>(`/playlists/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  delete: (id: string) =>
+    request<{ message: string }>(`/playlists/${id}`, { method: 'DELETE' }),
+};
+
+// Session Templates API
+export interface SessionTemplate {
+  id: string;
+  name: string;
+  mealIds: string[];
+  playlistId: string | null;
+  playlistName: string | null;
+  scoringMode: ScoringMode;
+  maxParticipants: number | null;
+  schedule: string | null;
+  autoCloseMinutes: number | null;
+  active: boolean;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  sessionCount: number;
+}
+
+export interface SessionTemplateInput {
+  name?: string;
+  mealIds?: string[];
+  playlistId?: string | null;
+  scoringMode?: ScoringMode;
+  maxParticipants?: number | null;
+  schedule?: string | null;
+  autoCloseMinutes?: number | null;
+  active?: boolean;
+}
+
+export const templatesApi = {
+  list: () => request<SessionTemplate[]>('/templates'),
+
+  create: (data: SessionTemplateInput & { name: string }) =>
+    request<SessionTemplate>('/templates', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  update: (id: string, data: SessionTemplateInput) =>
+    request<SessionTemplate>(`/templates/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  delete: (id: string) =>
+    request<{ message: string }>(`/templates/${id}`, { method: 'DELETE' }),
+
+  run: (id: string) =>
+    request<{ id: string; inviteCode: string; status: string; scoringMode: ScoringMode; mealCount: number }>(
+      `/templates/${id}/run`,
+      { method: 'POST' }
+    ),
+};
+
+// Stats API
+export interface MealStats extends MealImage {
+  mealId: string;
+  title: string;
+  type: string;
+  pickCount: number;
+  sessionCount: number;
+  winCount: number;
+  winRate: number | null; // 0-100
+  averageApproval: number | null; // 0-100
+  lastPickedAt: string | null;
+}
+
+export interface ParticipationWeek {
+  weekStart: string; // YYYY-MM-DD
+  sessions: number;
+  participants: number;
+}
+
+export interface HostStats {
+  totals: {
+    sessions: number;
+    closedSessions: number;
+    participants: number;
+    mealsPicked: number;
+  };
+  mostPicked: MealStats[];
+  meals: MealStats[];
+  participation: ParticipationWeek[];
+  notRecentlyPicked: MealStats[];
+  notRecentWeeks: number;
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export interface PersonStats {
+  profileId: string;
+  displayName: string;
+  linkedAccount: boolean;
+  sessions: number;
+  yesCount: number;
+  maybeCount: number;
+  noCount: number;
+  noRate: number | null;
+  topNoTags: TagCount[];
+  topYesTags: TagCount[];
+  lastSeenAt: string;
+}
+
+export const statsApi = {
+  get: (weeks?: number) => request<HostStats>(`/stats${weeks ? `?weeks=${weeks}` : ''}`),
+
+  people: () => request<PersonStats[]>('/stats/people'),
+};
+
+// Webhooks API
+export type WebhookEvent =
+  | 'session.created'
+  | 'participant.joined'
+  | 'participant.submitted'
+  | 'session.closed'
+  | 'meal.selected';
+
+export interface Webhook {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[]; // empty means every event
+  active: boolean;
+  createdAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  event: WebhookEvent | 'ping';
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+  payload: Record<string, unknown>;
+}
+
+export interface WebhookInput {
+  url?: string;
+  events?: WebhookEvent[];
+  active?: boolean;
+}
+
+export const webhooksApi = {
+  list: () => request<Webhook[]>('/webhooks'),
+
+  create: (data: WebhookInput & { url: string }) =>
+    request<Webhook>('/webhooks', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
+  update: (id: string, data: WebhookInput) =>
+    request<Webhook>(`/webhooks/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }),
+
+  delete: (id: string) =>
+    request<{ message: string }>(`/webhooks/${id}`, { method: 'DELETE' }),
+
+  rotateSecret: (id: string) =>
+    request<Webhook>(`/webhooks/${id}/rotate-secret`, { method: 'POST' }),
+
+  deliveries: (id: string) => request<WebhookDelivery[]>(`/webhooks/${id}/deliveries`),
+
+  test: (id: string) => request<WebhookDelivery>(`/webhooks/${id}/test`, { method: 'POST' }),
 };
 
 // Sessions API
+export type ScoringMode = 'approval' | 'weighted-maybe' | 'veto' | 'borda';
+
 export interface Session {
   id: string;
   inviteCode: string;
-  status: 'open' | 'closed';
+  status: 'open' | 'runoff' | 'closed';
   selectedMealId: string | null;
+  scoringMode: ScoringMode;
+  closesAt?: string | null;
   mealCount: number;
   participantCount: number;
   createdAt: string;
@@ -112,17 +489,25 @@ export interface Session {
 }
 
 export interface SessionDetails extends Session {
+  maybeWeight: number;
+  autoCloseWhenComplete?: boolean;
   meals: Array<{ id: string; title: string; description: string | null }>;
   participants: Array<{
     id: string;
     displayName: string;
     submitted: boolean;
+    swiped?: number; // votes saved so far, submitted or not
+    total?: number; // meals in the participant's deck
     createdAt: string;
   }>;
   results: MatchResult[] | null;
+  runoff: {
+    candidates: RunoffCandidate[];
+    ballotsCast: number;
+  } | null;
 }
 
-export interface MatchResult {
+export interface MatchResult extends MealImage {
   mealId: string;
   title: string;
   description: string | null;
@@ -130,19 +515,78 @@ export interface MatchResult {
   maybeCount: number;
   totalVotes: number;
   percentage: number;
+  score: number;
+  scoringMode: ScoringMode;
   isUnanimous: boolean;
   voters?: Array<{ name: string; vote: number }>;
 }
 
+export interface SessionDeadlineOptions {
+  closesAt?: string; // ISO timestamp
+  autoCloseWhenComplete?: boolean;
+}
+
+export interface CreateSessionOptions extends SessionDeadlineOptions {
+  scoringMode?: ScoringMode;
+  maybeWeight?: number;
+  openNow?: boolean; // leave out restaurants known to be closed right now
+}
+
+export interface SuggestionOptions {
+  count?: number;
+  seed?: string; // reuse a previous seed to get the same pool back
+  tags?: string[];
+  type?: MealType;
+}
+
+export interface SuggestedMeal {
+  mealId: string;
+  title: string;
+  type: string;
+  tags: string[];
+  thumbnailUrl: string | null;
+  weight: number;
+  reasons: string[];
+}
+
+function suggestionQuery({ count, seed, tags = [], type }: SuggestionOptions): string {
+  const params = new URLSearchParams();
+  if (count) params.set('count', String(count));
+  if (seed) params.set('seed', seed);
+  if (type) params.set('type', type);
+  tags.forEach((tag) => params.append('tag', tag));
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
 export const sessionsApi = {
   list: () => request<Session[]>('/sessions'),
 
-  create: (mealIds: string[]) =>
-    request<{ id: string; inviteCode: string; status: string; mealCount: number }>(
+  suggest: (options: SuggestionOptions = {}) =>
+    request<{ seed: string; meals: SuggestedMeal[] }>(`/sessions/suggestions${suggestionQuery(options)}`),
+
+  create: (mealIds: string[], options: CreateSessionOptions = {}) =>
+    request<{
+      id: string;
+      inviteCode: string;
+      status: string;
+      scoringMode: ScoringMode;
+      mealCount: number;
+      closedMealIds?: string[];
+    }>(
+      '/sessions',
+      {
+        method: 'POST',
+        body: JSON.stringify({ mealIds, ...options }),
+      }
+    ),
+
+  createFromPlaylist: (playlistId: string, options: CreateSessionOptions = {}) =>
+    request<{ id: string; inviteCode: string; status: string; scoringMode: ScoringMode; mealCount: number }>(
       '/sessions',
       {
         method: 'POST',
-        body: JSON.stringify({ mealIds }),
+        body: JSON.stringify({ playlistId, ...options }),
       }
     ),
 
@@ -159,22 +603,95 @@ export const sessionsApi = {
       method: 'POST',
       body: JSON.stringify({ mealId }),
     }),
+
+  getShoppingList: (sessionId: string, people?: number) =>
+    request<ShoppingList>(`/sessions/${sessionId}/shopping-list${people ? `?people=${people}` : ''}`),
+
+  // Plain links so the browser downloads the file with the session cookie
+  shoppingListExportUrl: (sessionId: string, format: 'text' | 'markdown', people?: number) =>
+    `${API_BASE}/sessions/${sessionId}/shopping-list?format=${format}${people ? `&people=${people}` : ''}`,
+
+  listInvites: (sessionId: string) =>
+    request<{ invites: SessionInvite[] }>(`/sessions/${sessionId}/invites`),
+
+  invite: (sessionId: string, emails: string[]) =>
+    request<InviteResult>(`/sessions/${sessionId}/invites`, {
+      method: 'POST',
+      body: JSON.stringify({ emails }),
+    }),
+
+  remind: (sessionId: string) =>
+    request<{ reminded: number; invites: SessionInvite[] }>(`/sessions/${sessionId}/invites/remind`, {
+      method: 'POST',
+    }),
+
+  contacts: () => request<{ contacts: string[] }>('/sessions/contacts'),
 };
 
+export interface SessionInvite {
+  id: string;
+  email: string;
+  status: 'invited' | 'joined' | 'submitted';
+  invitedAt: string;
+  remindedAt: string | null;
+}
+
+export interface InviteResult {
+  sent: string[];
+  alreadyInvited: string[];
+  failed: string[]; // the email could not be delivered; the address can be retried
+  invites: SessionInvite[];
+}
+
+export interface ShoppingListItem {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+}
+
+export interface ShoppingList {
+  sessionId: string;
+  meal: { id: string; title: string };
+  people: number;
+  servings: number | null;
+  items: ShoppingListItem[];
+}
+
 // Participant API (public)
 export interface JoinSessionResponse {
   participantId: string;
   sessionId: string;
+  profileToken?: string | null; // keep to be recognised in later sessions
+  closesAt?: string | null;
+  hiddenMealCount?: number; // meals left out because of the participant's allergies
   meals: Array<{
     id: string;
     title: string;
     description: string | null;
+    type?: MealType;
+    openNow?: boolean | null;
+    dietaryWarnings?: Allergen[]; // allergens clashing with the participant's softer restrictions
     sessionMealId: string;
-  }>;
+  } & MealRecipe & MealImage & RestaurantInfo & DietaryInfo>;
+}
+
+// A participant's deck and saved votes, for carrying on where they left off (on any device)
+export interface ResumeResponse extends Omit<JoinSessionResponse, 'profileToken'> {
+  displayName: string;
+  submitted: boolean;
+  swipes: Record<string, number>; // mealId -> vote
+  position: number; // index of the first meal without a vote
+}
+
+export interface JoinOptions {
+  profileToken?: string; // from an earlier join on this device
+  remember?: boolean; // start a profile when there is no token yet
+  restrictions?: DietaryRestriction[];
+  inviteToken?: string; // from the link in an emailed invite
 }
 
 export interface ResultsResponse {
-  status: 'waiting' | 'closed';
+  status: 'waiting' | 'runoff' | 'closed';
   message?: string;
   results?: MatchResult[];
   selectedMeal?: {
@@ -187,14 +704,14 @@ export interface ResultsResponse {
 
 export const participantApi = {
   getSession: (inviteCode: string) =>
-    request<{ id: string; status: string; participantCount: number }>(
+    request<{ id: string; status: string; participantCount: number; closesAt?: string | null }>(
       `/join/${inviteCode}`
     ),
 
-  joinSession: (inviteCode: string, displayName: string) =>
+  joinSession: (inviteCode: string, displayName: string, options: JoinOptions = {}) =>
     request<JoinSessionResponse>(`/join/${inviteCode}`, {
       method: 'POST',
-      body: JSON.stringify({ displayName }),
+      body: JSON.stringify({ displayName, ...options }),
     }),
 
   submitSwipes: (
@@ -207,6 +724,15 @@ export const participantApi = {
       body: JSON.stringify({ participantId, swipes }),
     }),
 
+  saveSwipe: (sessionId: string, participantId: string, mealId: string, vote: number) =>
+    request<{ swiped: number; total: number }>(`/swipes/${sessionId}/${mealId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ participantId, vote }),
+    }),
+
+  resume: (sessionId: string, participantId: string) =>
+    request<ResumeResponse>(`/swipes/${sessionId}/resume?participantId=${encodeURIComponent(participantId)}`),
+
   getResults: (sessionId: string, isHost: boolean = false) =>
     request<ResultsResponse>(`/results/${sessionId}?host=${isHost}`),
 
@@ -214,10 +740,13 @@ export const participantApi = {
     request<{
       status: string;
       selectedMealId: string | null;
+      closesAt?: string | null;
       participants: Array<{
         id: string;
         displayName: string;
         submitted: boolean;
+        swiped?: number;
+        total?: number;
       }>;
     }>(`/session-status/${sessionId}`),
 
@@ -234,21 +763,124 @@ export interface QuickSessionResponse {
     id: string;
     inviteCode: string;
     status: string;
+    closesAt?: string | null;
   };
   participantId: string;
   creatorToken: string | null;
+  adminKey: string | null; // for the recovery link; only returned when the session is created
   meals: Array<{
     id: string;
     title: string;
     description: string | null;
+    type?: MealType;
     sessionMealId: string;
   }>;
 }
 
+// What the creator's recovery link shows
+export interface QuickSessionAdmin {
+  id: string;
+  inviteCode: string;
+  status: 'open' | 'runoff' | 'closed';
+  selectedMealId: string | null;
+  closesAt: string | null;
+  meals: Array<{ id: string; title: string; description: string | null }>;
+  participants: Array<{
+    id: string;
+    displayName: string;
+    submitted: boolean;
+    swiped?: number;
+    total?: number;
+  }>;
+  results: MatchResult[] | null;
+}
+
+export interface QuickSessionOptions extends SessionDeadlineOptions {
+  type?: MealType; // what the group is choosing between
+}
+
 export const quickSessionApi = {
-  create: (creatorName: string, meals: Array<{ title: string; description?: string }>) =>
+  create: (
+    creatorName: string,
+    meals: Array<{ title: string; description?: string }>,
+    scoringMode?: ScoringMode,
+    options: QuickSessionOptions = {}
+  ) =>
     request<QuickSessionResponse>('/quick-session', {
       method: 'POST',
-      body: JSON.stringify({ creatorName, meals }),
+      body: JSON.stringify({ creatorName, meals, scoringMode, ...options }),
     }),
+
+  // Move quick sessions started before signing in into the account
+  claim: (creatorTokens: string[]) =>
+    request<{ sessionIds: string[]; mealsAdded: number; mealsMerged: number }>('/quick-session/claim', {
+      method: 'POST',
+      body: JSON.stringify({ creatorTokens }),
+    }),
+
+  // Managing the session from the creator's recovery link
+  getAdmin: (sessionId: string, key: string) =>
+    request<QuickSessionAdmin>(`/quick-session/${sessionId}/admin?key=${encodeURIComponent(key)}`),
+
+  close: (sessionId: string, key: string) =>
+    request<{ message: string; results: MatchResult[] }>(`/quick-session/${sessionId}/admin/close`, {
+      method: 'POST',
+      body: JSON.stringify({ key }),
+    }),
+
+  selectMeal: (sessionId: string, key: string, mealId: string) =>
+    request<{ message: string }>(`/quick-session/${sessionId}/admin/select`, {
+      method: 'POST',
+      body: JSON.stringify({ key, mealId }),
+    }),
+
+  extend: (sessionId: string, key: string, closesAt: string | null) =>
+    request<{ closesAt: string | null }>(`/quick-session/${sessionId}/admin/extend`, {
+      method: 'POST',
+      body: JSON.stringify({ key, closesAt }),
+    }),
+};
+
+// Runoff ("Group Vote") API
+export interface RunoffCandidate {
+  mealId: string;
+  title: string;
+  description: string | null;
+  votes?: number; // Only revealed once the runoff is finished
+}
+
+export interface RunoffBallot {
+  status: 'open' | 'runoff' | 'closed';
+  candidates: RunoffCandidate[];
+  ballotsCast: number;
+  myVote: string | null;
+  selectedMealId: string | null;
+}
+
+export const runoffApi = {
+  start: (sessionId: string, topN?: number, creatorToken?: string) =>
+    request<{ message: string; candidates: RunoffCandidate[] }>(`/runoff/${sessionId}/start`, {
+      method: 'POST',
+      body: JSON.stringify({ topN, creatorToken }),
+    }),
+
+  getBallot: (sessionId: string, participantId?: string) =>
+    request<RunoffBallot>(
+      `/runoff/${sessionId}${participantId ? `?participantId=${participantId}` : ''}`
+    ),
+
+  vote: (sessionId: string, participantId: string, mealId: string) =>
+    request<{ message: string }>(`/runoff/${sessionId}/vote`, {
+      method: 'POST',
+      body: JSON.stringify({ participantId, mealId }),
+    }),
+
+  finish: (sessionId: string, creatorToken?: string) =>
+    request<{ message: string; selectedMealId: string; tiedMealIds: string[] }>(
+      `/runoff/${sessionId}/finish`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ creatorToken }),
+      }
+    ),
 };
@@ -0,0 +1,37 @@
+import { Allergen } from '../api/client';
+import { ALLERGENS, ALLERGEN_LABELS } from './DietaryDetails';
+
+interface AllergenPickerProps {
+  value: Allergen[];
+  onChange: (value: Allergen[]) => void;
+}
+
+export default function AllergenPicker({ value, onChange }: AllergenPickerProps) {
+  const toggle = (allergen: Allergen) => {
+    onChange(value.includes(allergen) ? value.filter((a) => a !== allergen) : [...value, allergen]);
+  };
+
+  return (
+    <fieldset>
+      <legend className="block text-sm font-medium text-gray-700 mb-1">Contains (optional)</legend>
+      <div className="flex flex-wrap gap-2">
+        {ALLERGENS.map((allergen) => (
+          <button
+            key={allergen}
+            type="button"
+            aria-pressed={value.includes(allergen)}
+            onClick={() => toggle(allergen)}
+            className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+              value.includes(allergen)
+                ? 'bg-yellow-100 border-yellow-300 text-yellow-800'
+                : 'border-gray-300 text-gray-600 hover:border-gray-400'
+            }`}
+          >
+            {ALLERGEN_LABELS[allergen]}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">Guests with a matching allergy won't be offered this meal.</p>
+    </fieldset>
+  );
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, act } from '@testing-library/react';
+import Countdown from './Countdown';
+
+describe('Countdown', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T12:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should show minutes and seconds left', () => {
+    render(<Countdown closesAt="2026-01-01T12:10:05.000Z" />);
+
+    expect(screen.getByRole('timer').textContent).toBe('Voting closes in 10:05');
+  });
+
+  it('should show hours for longer deadlines', () => {
+    render(<Countdown closesAt="2026-01-01T14:30:00.000Z" />);
+
+    expect(screen.getByRole('timer').textContent).toBe('Voting closes in 2h 30m');
+  });
+
+  it('should tick down and call onExpire at the deadline', () => {
+    const onExpire = vi.fn();
+    render(<Countdown closesAt="2026-01-01T12:00:03.000Z" onExpire={onExpire} />);
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(screen.getByRole('timer').textContent).toBe('Voting closes in 0:02');
+    expect(onExpire).not.toHaveBeenCalled();
+
+    act(() => {
+      vi.advanceTimersByTime(2000);
+    });
+    expect(screen.getByRole('timer').textContent).toBe('Voting has closed');
+    expect(onExpire).toHaveBeenCalledTimes(1);
+  });
+});
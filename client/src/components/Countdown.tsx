@@ -0,0 +1,60 @@
+import { useState, useEffect, useRef } from 'react';
+
+interface CountdownProps {
+  closesAt: string;
+  onExpire?: () => void;
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  }
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+export default function Countdown({ closesAt, onExpire }: CountdownProps) {
+  const deadline = new Date(closesAt).getTime();
+  const [remaining, setRemaining] = useState(() => deadline - Date.now());
+
+  // Keep the latest callback without restarting the timer
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    const tick = () => {
+      const left = deadline - Date.now();
+      setRemaining(left);
+      if (left <= 0) {
+        clearInterval(timer);
+        onExpireRef.current?.();
+      }
+    };
+
+    const timer = setInterval(tick, 1000);
+    tick();
+
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  if (remaining <= 0) {
+    return (
+      <p className="text-sm font-medium text-red-600" role="timer">
+        Voting has closed
+      </p>
+    );
+  }
+
+  // Highlight the last five minutes
+  const urgent = remaining < 5 * 60 * 1000;
+
+  return (
+    <p className={`text-sm font-medium ${urgent ? 'text-red-600' : 'text-gray-600'}`} role="timer">
+      Voting closes in {formatRemaining(remaining)}
+    </p>
+  );
+}
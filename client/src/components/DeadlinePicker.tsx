@@ -0,0 +1,62 @@
+export interface DeadlineChoice {
+  minutes: number | null;
+  autoCloseWhenComplete: boolean;
+}
+
+export const NO_DEADLINE: DeadlineChoice = { minutes: null, autoCloseWhenComplete: false };
+
+const DEADLINE_OPTIONS: Array<{ minutes: number | null; label: string }> = [
+  { minutes: null, label: 'No deadline' },
+  { minutes: 15, label: 'In 15 minutes' },
+  { minutes: 30, label: 'In 30 minutes' },
+  { minutes: 60, label: 'In 1 hour' },
+  { minutes: 120, label: 'In 2 hours' },
+  { minutes: 24 * 60, label: 'In 1 day' },
+];
+
+// Only include the fields that were chosen so requests stay unchanged by default
+export function toDeadlineOptions(
+  choice: DeadlineChoice,
+  now: Date = new Date()
+): { closesAt?: string; autoCloseWhenComplete?: boolean } {
+  return {
+    ...(choice.minutes ? { closesAt: new Date(now.getTime() + choice.minutes * 60 * 1000).toISOString() } : {}),
+    ...(choice.autoCloseWhenComplete ? { autoCloseWhenComplete: true } : {}),
+  };
+}
+
+interface DeadlinePickerProps {
+  value: DeadlineChoice;
+  onChange: (value: DeadlineChoice) => void;
+}
+
+export default function DeadlinePicker({ value, onChange }: DeadlinePickerProps) {
+  return (
+    <div className="space-y-2">
+      <label htmlFor="deadline" className="block text-sm font-medium text-gray-700">
+        Voting closes
+      </label>
+      <select
+        id="deadline"
+        value={value.minutes ?? ''}
+        onChange={(e) => onChange({ ...value, minutes: e.target.value ? parseInt(e.target.value, 10) : null })}
+        className="input"
+      >
+        {DEADLINE_OPTIONS.map((option) => (
+          <option key={option.label} value={option.minutes ?? ''}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value.autoCloseWhenComplete}
+          onChange={(e) => onChange({ ...value, autoCloseWhenComplete: e.target.checked })}
+          className="w-4 h-4 text-primary-600"
+        />
+        Close as soon as everyone who joined has voted
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { Allergen, Diet } from '../api/client';
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  gluten: 'Gluten',
+  dairy: 'Dairy',
+  eggs: 'Eggs',
+  nuts: 'Tree nuts',
+  peanuts: 'Peanuts',
+  soy: 'Soy',
+  fish: 'Fish',
+  shellfish: 'Shellfish',
+  sesame: 'Sesame',
+  meat: 'Meat',
+};
+
+export const DIET_LABELS: Record<Diet, string> = {
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+};
+
+export const ALLERGENS = Object.keys(ALLERGEN_LABELS) as Allergen[];
+
+export function formatAllergens(allergens: Allergen[]): string {
+  return allergens.map((a) => ALLERGEN_LABELS[a]).join(', ');
+}
+
+interface AllergenBadgesProps {
+  allergens?: Allergen[];
+  warnings?: Allergen[]; // clashes with the viewer's restrictions, shown first and in red
+}
+
+export default function AllergenBadges({ allergens = [], warnings = [] }: AllergenBadgesProps) {
+  if (allergens.length === 0 && warnings.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {warnings.length > 0 && (
+        <span className="text-xs px-2 py-0.5 rounded-full font-medium bg-red-100 text-red-700" role="note">
+          ⚠ Contains {formatAllergens(warnings)}
+        </span>
+      )}
+      {allergens
+        .filter((a) => !warnings.includes(a))
+        .map((a) => (
+          <span key={a} className="text-xs px-2 py-0.5 rounded-full bg-yellow-50 text-yellow-700">
+            {ALLERGEN_LABELS[a]}
+          </span>
+        ))}
+    </div>
+  );
+}
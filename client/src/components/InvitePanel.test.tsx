@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import InvitePanel from './InvitePanel';
+import { sessionsApi } from '../api/client';
+
+vi.mock('../api/client', () => ({
+  sessionsApi: {
+    listInvites: vi.fn(),
+    invite: vi.fn(),
+    remind: vi.fn(),
+    contacts: vi.fn(),
+  },
+}));
+
+const invited = {
+  id: 'i1',
+  email: 'alex@example.com',
+  status: 'invited' as const,
+  invitedAt: '2026-01-01T12:00:00.000Z',
+  remindedAt: null,
+};
+
+describe('InvitePanel', () => {
+  const onError = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sessionsApi.listInvites).mockResolvedValue({ invites: [] });
+    vi.mocked(sessionsApi.contacts).mockResolvedValue({ contacts: [] });
+  });
+
+  it('should send invites to each address entered', async () => {
+    vi.mocked(sessionsApi.invite).mockResolvedValue({
+      sent: ['alex@example.com', 'sam@example.com'],
+      alreadyInvited: [],
+      failed: [],
+      invites: [invited, { ...invited, id: 'i2', email: 'sam@example.com', status: 'joined' }],
+    });
+
+    render(<InvitePanel sessionId="s1" onError={onError} />);
+
+    fireEvent.change(screen.getByLabelText('Email addresses'), {
+      target: { value: 'alex@example.com, sam@example.com' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Send Invites' }));
+
+    await waitFor(() => {
+      expect(sessionsApi.invite).toHaveBeenCalledWith('s1', ['alex@example.com', 'sam@example.com']);
+    });
+    expect(await screen.findByText('Sent 2 invites.')).toBeInTheDocument();
+    expect(screen.getByText('Swiping')).toBeInTheDocument();
+  });
+
+  it('should remind people who have not voted', async () => {
+    vi.mocked(sessionsApi.listInvites).mockResolvedValue({ invites: [invited] });
+    vi.mocked(sessionsApi.remind).mockResolvedValue({ reminded: 1, invites: [invited] });
+
+    render(<InvitePanel sessionId="s1" onError={onError} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Send Reminder' }));
+
+    expect(await screen.findByText('Reminded 1 person.')).toBeInTheDocument();
+    expect(sessionsApi.remind).toHaveBeenCalledWith('s1');
+  });
+
+  it('should offer past contacts who are not invited yet', async () => {
+    vi.mocked(sessionsApi.listInvites).mockResolvedValue({ invites: [invited] });
+    vi.mocked(sessionsApi.contacts).mockResolvedValue({ contacts: ['alex@example.com', 'jo@example.com'] });
+
+    render(<InvitePanel sessionId="s1" onError={onError} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: '+ jo@example.com' }));
+
+    expect(screen.getByLabelText('Email addresses')).toHaveValue('jo@example.com');
+    expect(screen.queryByRole('button', { name: '+ alex@example.com' })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from 'react';
+import { sessionsApi, SessionInvite } from '../api/client';
+
+interface InvitePanelProps {
+  sessionId: string;
+  refreshKey?: string; // changes when participants join or submit, so statuses stay current
+  onError: (message: string) => void;
+}
+
+const STATUS_STYLES: Record<SessionInvite['status'], string> = {
+  invited: 'bg-gray-100 text-gray-700',
+  joined: 'bg-yellow-100 text-yellow-700',
+  submitted: 'bg-green-100 text-green-700',
+};
+
+const STATUS_LABELS: Record<SessionInvite['status'], string> = {
+  invited: 'Invited',
+  joined: 'Swiping',
+  submitted: 'Voted ✓',
+};
+
+function parseEmails(value: string): string[] {
+  return value.split(/[\s,;]+/).map((e) => e.trim()).filter(Boolean);
+}
+
+export default function InvitePanel({ sessionId, refreshKey, onError }: InvitePanelProps) {
+  const [invites, setInvites] = useState<SessionInvite[]>([]);
+  const [contacts, setContacts] = useState<string[]>([]);
+  const [emails, setEmails] = useState('');
+  const [sending, setSending] = useState(false);
+  const [notice, setNotice] = useState('');
+
+  const loadInvites = useCallback(async () => {
+    try {
+      const data = await sessionsApi.listInvites(sessionId);
+      setInvites(data.invites);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to load invites');
+    }
+  }, [sessionId, onError]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites, refreshKey]);
+
+  useEffect(() => {
+    sessionsApi.contacts().then((data) => setContacts(data.contacts)).catch(() => setContacts([]));
+  }, []);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const list = parseEmails(emails);
+    if (list.length === 0) return;
+
+    setSending(true);
+    setNotice('');
+    try {
+      const result = await sessionsApi.invite(sessionId, list);
+      setInvites(result.invites);
+      setEmails(result.failed.join(', '));
+      setNotice(
+        [
+          result.sent.length > 0 && `Sent ${result.sent.length} invite${result.sent.length === 1 ? '' : 's'}.`,
+          result.alreadyInvited.length > 0 && `Already invited: ${result.alreadyInvited.join(', ')}.`,
+          result.failed.length > 0 && `Couldn't email ${result.failed.join(', ')}.`,
+        ].filter(Boolean).join(' ')
+      );
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to send invites');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRemind = async () => {
+    setSending(true);
+    setNotice('');
+    try {
+      const result = await sessionsApi.remind(sessionId);
+      setInvites(result.invites);
+      setNotice(`Reminded ${result.reminded} ${result.reminded === 1 ? 'person' : 'people'}.`);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to send reminders');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const addContact = (email: string) => {
+    setEmails((current) => [...parseEmails(current), email].join(', '));
+  };
+
+  const invitedEmails = new Set(invites.map((i) => i.email));
+  const pendingCount = invites.filter((i) => i.status !== 'submitted').length;
+  const suggestedContacts = contacts.filter((c) => !invitedEmails.has(c) && !parseEmails(emails).includes(c));
+
+  return (
+    <section className="card mb-6">
+      <h2 className="text-xl font-bold mb-4">Invite by Email</h2>
+      <form onSubmit={handleInvite} className="flex gap-2">
+        <input
+          type="text"
+          value={emails}
+          onChange={(e) => setEmails(e.target.value)}
+          placeholder="alex@example.com, sam@example.com"
+          aria-label="Email addresses"
+          className="input flex-1"
+        />
+        <button type="submit" className="btn btn-primary" disabled={sending || parseEmails(emails).length === 0}>
+          Send Invites
+        </button>
+      </form>
+
+      {suggestedContacts.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+          <span className="text-gray-500">Invited before:</span>
+          {suggestedContacts.slice(0, 8).map((email) => (
+            <button
+              key={email}
+              type="button"
+              onClick={() => addContact(email)}
+              className="px-2 py-0.5 rounded-full border border-gray-300 text-gray-600 hover:border-gray-400"
+            >
+              + {email}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {notice && <p className="text-sm text-gray-600 mt-3">{notice}</p>}
+
+      {invites.length > 0 && (
+        <div className="mt-4 border-t pt-4">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="font-medium">Invited:</h3>
+            <button
+              type="button"
+              onClick={handleRemind}
+              className="btn btn-secondary text-sm"
+              disabled={sending || pendingCount === 0}
+            >
+              Send Reminder
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {invites.map((invite) => (
+              <li key={invite.id} className="flex justify-between items-center text-sm">
+                <span>{invite.email}</span>
+                <span className={`px-2 py-0.5 rounded-full ${STATUS_STYLES[invite.status]}`}>
+                  {STATUS_LABELS[invite.status]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,93 @@
+import { Meal } from '../api/client';
+
+export interface MealFilter {
+  search: string;
+  tags: string[];
+}
+
+export const EMPTY_MEAL_FILTER: MealFilter = { search: '', tags: [] };
+
+// Meals must match the search text and carry every selected tag
+export function filterMeals(meals: Meal[], filter: MealFilter): Meal[] {
+  const search = filter.search.trim().toLowerCase();
+
+  return meals.filter((meal) => {
+    if (search) {
+      const haystack = `${meal.title} ${meal.description || ''}`.toLowerCase();
+      if (!haystack.includes(search)) return false;
+    }
+    const mealTags = meal.tags || [];
+    return filter.tags.every((tag) => mealTags.includes(tag));
+  });
+}
+
+export function collectTags(meals: Meal[]): string[] {
+  const tags = new Set<string>();
+  meals.forEach((meal) => meal.tags?.forEach((tag) => tags.add(tag)));
+  return Array.from(tags).sort();
+}
+
+interface MealFilterBarProps {
+  filter: MealFilter;
+  onChange: (filter: MealFilter) => void;
+  availableTags: string[];
+}
+
+export default function MealFilterBar({ filter, onChange, availableTags }: MealFilterBarProps) {
+  const toggleTag = (tag: string) => {
+    onChange({
+      ...filter,
+      tags: filter.tags.includes(tag)
+        ? filter.tags.filter((t) => t !== tag)
+        : [...filter.tags, tag],
+    });
+  };
+
+  const isFiltering = filter.search.trim() !== '' || filter.tags.length > 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="search"
+          value={filter.search}
+          onChange={(e) => onChange({ ...filter, search: e.target.value })}
+          className="input flex-1"
+          placeholder="Search meals"
+          aria-label="Search meals"
+        />
+        {isFiltering && (
+          <button
+            type="button"
+            onClick={() => onChange(EMPTY_MEAL_FILTER)}
+            className="text-sm text-gray-600 hover:text-gray-900"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {availableTags.length > 0 && (
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by tag">
+          {availableTags.map((tag) => {
+            const active = filter.tags.includes(tag);
+            return (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => toggleTag(tag)}
+                aria-pressed={active}
+                className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                  active
+                    ? 'bg-primary-600 border-primary-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {tag}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
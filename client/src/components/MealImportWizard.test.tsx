@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import MealImportWizard from './MealImportWizard';
+import { mealsApi } from '../api/client';
+
+vi.mock('../api/client', () => ({
+  mealsApi: {
+    import: vi.fn(),
+  },
+}));
+
+const CSV = 'title,tags\nPad thai,noodles\nPizza,\nSushi,\n,oops';
+
+const mockPreview = {
+  dryRun: true,
+  rows: [
+    { row: 2, title: 'Pad thai', status: 'new' as const },
+    { row: 3, title: 'Pizza', status: 'duplicate' as const, duplicateOf: { mealId: 'm1', row: null, title: 'pizza' } },
+    { row: 4, title: 'Sushi', status: 'new' as const },
+    { row: 5, title: '', status: 'invalid' as const, error: 'Title is required' },
+  ],
+  ignoredColumns: ['Spice'],
+  summary: { new: 2, duplicate: 1, invalid: 1 },
+  imported: 0,
+};
+
+describe('MealImportWizard', () => {
+  const onClose = vi.fn();
+  const onImported = vi.fn();
+  const onError = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function renderWizard() {
+    render(<MealImportWizard onClose={onClose} onImported={onImported} onError={onError} />);
+  }
+
+  it('should preview pasted CSV with duplicates and problems', async () => {
+    vi.mocked(mealsApi.import).mockResolvedValue(mockPreview);
+    renderWizard();
+
+    fireEvent.change(screen.getByLabelText('Or paste the contents'), { target: { value: CSV } });
+    fireEvent.click(screen.getByRole('button', { name: 'Preview' }));
+
+    expect(await screen.findByText('Already in your library as "pizza"')).toBeInTheDocument();
+    expect(screen.getByText('Title is required')).toBeInTheDocument();
+    expect(screen.getByText('Ignored columns: Spice')).toBeInTheDocument();
+    expect(mealsApi.import).toHaveBeenCalledWith('csv', CSV, { dryRun: true });
+  });
+
+  it('should import the new rows, and duplicates when asked', async () => {
+    vi.mocked(mealsApi.import)
+      .mockResolvedValueOnce(mockPreview)
+      .mockResolvedValueOnce({ ...mockPreview, dryRun: false, imported: 3 });
+    renderWizard();
+
+    fireEvent.change(screen.getByLabelText('Or paste the contents'), { target: { value: CSV } });
+    fireEvent.click(screen.getByRole('button', { name: 'Preview' }));
+    expect(await screen.findByRole('button', { name: 'Import 2 Meals' })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Import duplicates anyway'));
+    fireEvent.click(screen.getByRole('button', { name: 'Import 3 Meals' }));
+
+    expect(await screen.findByText('Imported 3 meals.')).toBeInTheDocument();
+    expect(mealsApi.import).toHaveBeenLastCalledWith('csv', CSV, { dryRun: false, skipDuplicates: false });
+    expect(onImported).toHaveBeenCalledWith(3);
+  });
+
+  it('should detect pasted JSON and report unreadable files', async () => {
+    vi.mocked(mealsApi.import).mockRejectedValue(new Error('The file is not valid JSON'));
+    renderWizard();
+
+    fireEvent.change(screen.getByLabelText('Or paste the contents'), { target: { value: '[{"title": ' } });
+    expect(screen.getByLabelText('JSON')).toBeChecked();
+    fireEvent.click(screen.getByRole('button', { name: 'Preview' }));
+
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledWith('The file is not valid JSON');
+    });
+  });
+});
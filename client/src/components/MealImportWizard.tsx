@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { mealsApi, MealImportFormat, MealImportResult, MealImportRow } from '../api/client';
+
+interface MealImportWizardProps {
+  onClose: () => void;
+  onImported: (count: number) => void;
+  onError: (message: string) => void;
+}
+
+const STATUS_STYLES: Record<MealImportRow['status'], string> = {
+  new: 'bg-green-100 text-green-700',
+  duplicate: 'bg-yellow-100 text-yellow-700',
+  invalid: 'bg-red-100 text-red-700',
+};
+
+function guessFormat(fileName: string, content: string): MealImportFormat {
+  if (/\.json$/i.test(fileName)) return 'json';
+  if (/\.csv$/i.test(fileName)) return 'csv';
+  return /^\s*[[{]/.test(content) ? 'json' : 'csv';
+}
+
+function describeRow(row: MealImportRow): string {
+  if (row.error) return row.error;
+  if (row.duplicateOf) {
+    return row.duplicateOf.row !== null
+      ? `Same as row ${row.duplicateOf.row}`
+      : `Already in your library as "${row.duplicateOf.title}"`;
+  }
+  return '';
+}
+
+export default function MealImportWizard({ onClose, onImported, onError }: MealImportWizardProps) {
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<MealImportFormat>('csv');
+  const [preview, setPreview] = useState<MealImportResult | null>(null);
+  const [importDuplicates, setImportDuplicates] = useState(false);
+  const [imported, setImported] = useState<number | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setContent(text);
+    setFormat(guessFormat(file.name, text));
+  };
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+
+    setWorking(true);
+    try {
+      setPreview(await mealsApi.import(format, content, { dryRun: true }));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setWorking(true);
+    try {
+      const result = await mealsApi.import(format, content, {
+        dryRun: false,
+        skipDuplicates: !importDuplicates,
+      });
+      setImported(result.imported);
+      onImported(result.imported);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to import meals');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const importCount = preview ? preview.summary.new + (importDuplicates ? preview.summary.duplicate : 0) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="card w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-4">Import Meals</h3>
+
+        {imported !== null ? (
+          <div className="space-y-4">
+            <p>
+              Imported {imported} meal{imported === 1 ? '' : 's'}.
+            </p>
+            <div className="flex justify-end">
+              <button onClick={onClose} className="btn btn-primary">
+                Done
+              </button>
+            </div>
+          </div>
+        ) : preview ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {preview.summary.new} new · {preview.summary.duplicate} duplicate
+              {preview.summary.duplicate === 1 ? '' : 's'} · {preview.summary.invalid} with problems
+            </p>
+            {preview.ignoredColumns.length > 0 && (
+              <p className="text-sm text-gray-500">Ignored columns: {preview.ignoredColumns.join(', ')}</p>
+            )}
+
+            <div className="border rounded-lg max-h-80 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-500 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Row</th>
+                    <th className="px-3 py-2 font-medium">Title</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                    <th className="px-3 py-2 font-medium">Notes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((row) => (
+                    <tr key={row.row} className="border-t">
+                      <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                      <td className="px-3 py-2">{row.title || <span className="text-gray-400">(no title)</span>}</td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[row.status]}`}>
+                          {row.status}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">{describeRow(row)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {preview.summary.duplicate > 0 && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={importDuplicates}
+                  onChange={(e) => setImportDuplicates(e.target.checked)}
+                />
+                Import duplicates anyway
+              </label>
+            )}
+            {preview.summary.invalid > 0 && (
+              <p className="text-sm text-gray-500">Rows with problems are left out; fix them and import again.</p>
+            )}
+
+            <div className="flex justify-between">
+              <button onClick={() => setPreview(null)} className="btn btn-secondary" disabled={working}>
+                Back
+              </button>
+              <div className="flex gap-3">
+                <button onClick={onClose} className="btn btn-secondary">
+                  Cancel
+                </button>
+                <button onClick={handleImport} className="btn btn-primary" disabled={working || importCount === 0}>
+                  Import {importCount} Meal{importCount === 1 ? '' : 's'}
+                </button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handlePreview} className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Upload a CSV from a spreadsheet (with a "title" column, plus any of description, type, tags, cuisine,
+              ingredients, steps and the other meal fields) or a JSON export. You'll see a preview before anything is
+              added.
+            </p>
+            <div>
+              <label htmlFor="import-file" className="block text-sm font-medium text-gray-700 mb-1">
+                File
+              </label>
+              <input
+                id="import-file"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="block text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="import-content" className="block text-sm font-medium text-gray-700 mb-1">
+                {fileName ? `Contents of ${fileName}` : 'Or paste the contents'}
+              </label>
+              <textarea
+                id="import-content"
+                value={content}
+                onChange={(e) => {
+                  setContent(e.target.value);
+                  if (!fileName) setFormat(guessFormat('', e.target.value));
+                }}
+                rows={6}
+                className="input font-mono text-xs"
+                placeholder={'title,tags,cuisine\nPad thai,"thai; noodles",Thai'}
+              />
+            </div>
+            <div className="flex gap-4 text-sm">
+              {(['csv', 'json'] as const).map((option) => (
+                <label key={option} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="import-format"
+                    checked={format === option}
+                    onChange={() => setFormat(option)}
+                  />
+                  {option.toUpperCase()}
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end gap-3">
+              <button type="button" onClick={onClose} className="btn btn-secondary">
+                Cancel
+              </button>
+              <button type="submit" className="btn btn-primary" disabled={working || !content.trim()}>
+                Preview
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { MealType } from '../api/client';
+
+interface MealTypeToggleProps {
+  value: MealType;
+  onChange: (value: MealType) => void;
+  labels?: Record<MealType, string>;
+}
+
+const DEFAULT_LABELS: Record<MealType, string> = { meal: 'Meal', restaurant: 'Restaurant' };
+
+export default function MealTypeToggle({ value, onChange, labels = DEFAULT_LABELS }: MealTypeToggleProps) {
+  return (
+    <div className="inline-flex rounded-lg border border-gray-300 p-0.5" role="radiogroup" aria-label="Type">
+      {(Object.keys(labels) as MealType[]).map((type) => (
+        <button
+          key={type}
+          type="button"
+          role="radio"
+          aria-checked={value === type}
+          onClick={() => onChange(type)}
+          className={`px-4 py-1.5 text-sm font-medium rounded-md transition-colors ${
+            value === type ? 'bg-primary-600 text-white' : 'text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          {labels[type]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+interface PhotoInputProps {
+  id: string;
+  thumbnailUrl?: string | null;
+  onChange: (file: File | null) => void;
+  onRemove?: () => void;
+}
+
+// Formats the server can resize; anything else is rejected on upload
+const ACCEPTED_TYPES = 'image/jpeg,image/png,image/webp,image/gif';
+
+export default function PhotoInput({ id, thumbnailUrl, onChange, onRemove }: PhotoInputProps) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+        Photo (optional)
+      </label>
+      {thumbnailUrl && (
+        <div className="flex items-center gap-3 mb-2">
+          <img src={thumbnailUrl} alt="Current photo" className="w-16 h-16 rounded-lg object-cover" />
+          {onRemove && (
+            <button type="button" onClick={onRemove} className="text-sm text-red-600 hover:underline">
+              Remove photo
+            </button>
+          )}
+        </div>
+      )}
+      <input
+        id={id}
+        type="file"
+        accept={ACCEPTED_TYPES}
+        onChange={(e) => onChange(e.target.files?.[0] ?? null)}
+        className="block w-full text-sm text-gray-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700"
+      />
+      <p className="text-xs text-gray-500 mt-1">JPEG, PNG, WebP or GIF up to 10 MB</p>
+    </div>
+  );
+}
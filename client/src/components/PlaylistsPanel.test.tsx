@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { BrowserRouter } from 'react-router-dom';
+import PlaylistsPanel from './PlaylistsPanel';
+import { playlistsApi, sessionsApi } from '../api/client';
+
+vi.mock('../api/client', () => ({
+  playlistsApi: {
+    list: vi.fn(),
+    get: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  sessionsApi: {
+    createFromPlaylist: vi.fn(),
+  },
+}));
+
+const mockNavigate = vi.fn();
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useNavigate: () => mockNavigate,
+  };
+});
+
+const mockMeals = [
+  { id: '1', title: 'Pizza', description: null, type: 'meal', pickCount: 0 },
+  { id: '2', title: 'Tacos', description: null, type: 'meal', pickCount: 0 },
+  { id: '3', title: 'Pasta', description: null, type: 'meal', pickCount: 0 },
+];
+
+const mockPlaylist = {
+  id: 'playlist1',
+  name: 'Weeknight Quick',
+  description: null,
+  mealCount: 2,
+};
+
+describe('PlaylistsPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should start a session from a playlist in one tap', async () => {
+    vi.mocked(playlistsApi.list).mockResolvedValue([mockPlaylist]);
+    vi.mocked(sessionsApi.createFromPlaylist).mockResolvedValue({
+      id: 'session1',
+      inviteCode: 'ABC123',
+      status: 'open',
+      scoringMode: 'approval',
+      mealCount: 2,
+    });
+
+    render(
+      <BrowserRouter>
+        <PlaylistsPanel meals={mockMeals} onError={vi.fn()} />
+      </BrowserRouter>
+    );
+
+    fireEvent.click(await screen.findByLabelText('Start session from Weeknight Quick'));
+
+    await waitFor(() => {
+      expect(sessionsApi.createFromPlaylist).toHaveBeenCalledWith('playlist1');
+      expect(mockNavigate).toHaveBeenCalledWith('/session/session1');
+    });
+  });
+
+  it('should disable starting an empty playlist', async () => {
+    vi.mocked(playlistsApi.list).mockResolvedValue([{ ...mockPlaylist, mealCount: 0 }]);
+
+    render(
+      <BrowserRouter>
+        <PlaylistsPanel meals={mockMeals} onError={vi.fn()} />
+      </BrowserRouter>
+    );
+
+    const button = await screen.findByLabelText('Start session from Weeknight Quick');
+    expect((button as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('should create a playlist with meals in the chosen order', async () => {
+    vi.mocked(playlistsApi.list).mockResolvedValue([]);
+    vi.mocked(playlistsApi.create).mockResolvedValue({ ...mockPlaylist, mealIds: ['3', '1'] });
+
+    render(
+      <BrowserRouter>
+        <PlaylistsPanel meals={mockMeals} onError={vi.fn()} />
+      </BrowserRouter>
+    );
+
+    fireEvent.click(await screen.findByText('New Playlist'));
+    fireEvent.change(screen.getByLabelText('Name *'), { target: { value: 'Friday' } });
+
+    fireEvent.click(screen.getByLabelText('Add Pizza'));
+    fireEvent.click(screen.getByLabelText('Add Pasta'));
+    fireEvent.click(screen.getByLabelText('Move Pasta up'));
+
+    fireEvent.click(screen.getByText('Save Playlist'));
+
+    await waitFor(() => {
+      expect(playlistsApi.create).toHaveBeenCalledWith('Friday', ['3', '1'], undefined);
+    });
+  });
+
+  it('should report load errors to the parent', async () => {
+    const onError = vi.fn();
+    vi.mocked(playlistsApi.list).mockRejectedValue(new Error('Network down'));
+
+    render(
+      <BrowserRouter>
+        <PlaylistsPanel meals={mockMeals} onError={onError} />
+      </BrowserRouter>
+    );
+
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledWith('Network down');
+    });
+  });
+});
@@ -0,0 +1,306 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { playlistsApi, sessionsApi, Meal, Playlist } from '../api/client';
+import ConfirmModal from './ConfirmModal';
+import MealFilterBar, { MealFilter, EMPTY_MEAL_FILTER, filterMeals, collectTags } from './MealFilterBar';
+
+interface PlaylistsPanelProps {
+  meals: Meal[];
+  onError: (message: string) => void;
+}
+
+export default function PlaylistsPanel({ meals, onError }: PlaylistsPanelProps) {
+  const navigate = useNavigate();
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [startingId, setStartingId] = useState<string | null>(null);
+
+  // Editor modal state (editingId null = creating a new playlist)
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [mealIds, setMealIds] = useState<string[]>([]);
+  const [filter, setFilter] = useState<MealFilter>(EMPTY_MEAL_FILTER);
+  const [saving, setSaving] = useState(false);
+
+  const [playlistToDelete, setPlaylistToDelete] = useState<Playlist | null>(null);
+
+  const loadPlaylists = useCallback(async () => {
+    try {
+      setPlaylists(await playlistsApi.list());
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to load playlists');
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    loadPlaylists();
+  }, [loadPlaylists]);
+
+  const handleStart = async (playlist: Playlist) => {
+    setStartingId(playlist.id);
+    try {
+      const session = await sessionsApi.createFromPlaylist(playlist.id);
+      navigate(`/session/${session.id}`);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to create session');
+      setStartingId(null);
+    }
+  };
+
+  const openNewPlaylist = () => {
+    setEditingId(null);
+    setName('');
+    setDescription('');
+    setMealIds([]);
+    setFilter(EMPTY_MEAL_FILTER);
+    setShowEditor(true);
+  };
+
+  const openEditPlaylist = async (playlist: Playlist) => {
+    try {
+      const details = await playlistsApi.get(playlist.id);
+      setEditingId(playlist.id);
+      setName(details.name);
+      setDescription(details.description || '');
+      // Archived meals can't be picked any more, so drop them when editing
+      setMealIds(details.meals.filter((m) => !m.archived).map((m) => m.id));
+      setFilter(EMPTY_MEAL_FILTER);
+      setShowEditor(true);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to load playlist');
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      if (editingId) {
+        await playlistsApi.update(editingId, { name, description, mealIds });
+      } else {
+        await playlistsApi.create(name, mealIds, description || undefined);
+      }
+      setShowEditor(false);
+      await loadPlaylists();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to save playlist');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!playlistToDelete) return;
+
+    try {
+      await playlistsApi.delete(playlistToDelete.id);
+      setPlaylists(playlists.filter((p) => p.id !== playlistToDelete.id));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to delete playlist');
+    } finally {
+      setPlaylistToDelete(null);
+    }
+  };
+
+  const moveMeal = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= mealIds.length) return;
+
+    const reordered = [...mealIds];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setMealIds(reordered);
+  };
+
+  const mealsById = new Map(meals.map((m) => [m.id, m]));
+  const availableMeals = filterMeals(
+    meals.filter((m) => !mealIds.includes(m.id)),
+    filter
+  );
+
+  return (
+    <section className="mb-12">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold">Playlists</h2>
+        {meals.length > 0 && (
+          <button onClick={openNewPlaylist} className="btn btn-secondary">
+            New Playlist
+          </button>
+        )}
+      </div>
+
+      {playlists.length === 0 ? (
+        <div className="card text-center py-8">
+          <p className="text-gray-500">
+            Save meals you often pick together, like "Weeknight Quick", to start a session in one tap.
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2">
+          {playlists.map((playlist) => (
+            <div key={playlist.id} className="card">
+              <div className="flex justify-between items-start gap-3">
+                <div className="flex-1">
+                  <h3 className="font-semibold text-lg">{playlist.name}</h3>
+                  {playlist.description && (
+                    <p className="text-gray-600 text-sm mt-1">{playlist.description}</p>
+                  )}
+                  <p className="text-xs text-gray-400 mt-2">
+                    {playlist.mealCount} meal{playlist.mealCount !== 1 ? 's' : ''}
+                  </p>
+                </div>
+                <div className="flex gap-3 text-sm">
+                  <button
+                    onClick={() => openEditPlaylist(playlist)}
+                    className="text-gray-500 hover:text-primary-600"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => setPlaylistToDelete(playlist)}
+                    className="text-gray-500 hover:text-red-600"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+              <button
+                onClick={() => handleStart(playlist)}
+                disabled={playlist.mealCount === 0 || startingId !== null}
+                className="btn btn-success w-full mt-4"
+                aria-label={`Start session from ${playlist.name}`}
+              >
+                {startingId === playlist.id ? 'Starting...' : 'Start Session'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Playlist Editor Modal */}
+      {showEditor && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <div className="card w-full max-w-md max-h-[90vh] overflow-hidden flex flex-col">
+            <h3 className="text-xl font-bold mb-4">{editingId ? 'Edit Playlist' : 'New Playlist'}</h3>
+            <form onSubmit={handleSave} className="flex-1 overflow-y-auto space-y-4">
+              <div>
+                <label htmlFor="playlist-name" className="block text-sm font-medium text-gray-700 mb-1">
+                  Name *
+                </label>
+                <input
+                  id="playlist-name"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="input"
+                  placeholder="e.g., Weeknight Quick"
+                  required
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label htmlFor="playlist-description" className="block text-sm font-medium text-gray-700 mb-1">
+                  Description (optional)
+                </label>
+                <input
+                  id="playlist-description"
+                  type="text"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  className="input"
+                />
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  Meals in order ({mealIds.length})
+                </p>
+                {mealIds.length === 0 ? (
+                  <p className="text-sm text-gray-500">Add meals from your library below.</p>
+                ) : (
+                  <ol className="space-y-2">
+                    {mealIds.map((id, index) => (
+                      <li key={id} className="flex items-center gap-2 p-2 rounded-lg border">
+                        <span className="text-xs text-gray-400 w-5">{index + 1}.</span>
+                        <span className="flex-1 font-medium">{mealsById.get(id)?.title}</span>
+                        <button
+                          type="button"
+                          onClick={() => moveMeal(index, -1)}
+                          disabled={index === 0}
+                          className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                          aria-label={`Move ${mealsById.get(id)?.title} up`}
+                        >
+                          ↑
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveMeal(index, 1)}
+                          disabled={index === mealIds.length - 1}
+                          className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                          aria-label={`Move ${mealsById.get(id)?.title} down`}
+                        >
+                          ↓
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setMealIds(mealIds.filter((m) => m !== id))}
+                          className="px-1 font-bold text-gray-500 hover:text-red-600"
+                          aria-label={`Remove ${mealsById.get(id)?.title}`}
+                        >
+                          ×
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Add from library</p>
+                <MealFilterBar filter={filter} onChange={setFilter} availableTags={collectTags(meals)} />
+                <div className="space-y-2 mt-2">
+                  {availableMeals.map((meal) => (
+                    <button
+                      key={meal.id}
+                      type="button"
+                      onClick={() => setMealIds([...mealIds, meal.id])}
+                      className="w-full flex justify-between items-center p-2 rounded-lg border text-left hover:bg-gray-50"
+                      aria-label={`Add ${meal.title}`}
+                    >
+                      <span>{meal.title}</span>
+                      <span className="text-primary-600 font-bold">+</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setShowEditor(false)}
+                  className="btn btn-secondary flex-1"
+                >
+                  Cancel
+                </button>
+                <button type="submit" disabled={saving || !name.trim()} className="btn btn-primary flex-1">
+                  {saving ? 'Saving...' : 'Save Playlist'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={playlistToDelete !== null}
+        title="Delete Playlist?"
+        message={`Delete "${playlistToDelete?.name}"? The meals stay in your library.`}
+        confirmText="Delete"
+        isDanger
+        onConfirm={handleDelete}
+        onCancel={() => setPlaylistToDelete(null)}
+      />
+    </section>
+  );
+}
@@ -0,0 +1,95 @@
+import { Ingredient, MealRecipe } from '../api/client';
+
+const FRACTIONS: Array<[number, string]> = [
+  [0.25, '¼'],
+  [1 / 3, '⅓'],
+  [0.5, '½'],
+  [2 / 3, '⅔'],
+  [0.75, '¾'],
+];
+
+const DIFFICULTY_LABELS = { easy: 'Easy', medium: 'Medium', hard: 'Hard' };
+
+export function hasRecipe(recipe: MealRecipe): boolean {
+  return (
+    (recipe.ingredients?.length ?? 0) > 0 ||
+    (recipe.steps?.length ?? 0) > 0 ||
+    recipe.prepMinutes != null ||
+    recipe.cookMinutes != null ||
+    recipe.difficulty != null ||
+    recipe.servings != null
+  );
+}
+
+// Show common kitchen fractions the way a recipe card would: 1.5 -> "1½"
+export function formatQuantity(quantity: number): string {
+  const whole = Math.floor(quantity);
+  const fraction = FRACTIONS.find(([value]) => Math.abs(quantity - whole - value) < 0.01);
+  if (fraction) return `${whole > 0 ? whole : ''}${fraction[1]}`;
+  return String(Math.round(quantity * 100) / 100);
+}
+
+export function formatIngredient({ quantity, unit, name }: Ingredient): string {
+  return [quantity != null ? formatQuantity(quantity) : null, unit, name].filter(Boolean).join(' ');
+}
+
+export function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+export function describeRecipe(recipe: MealRecipe): string {
+  return [
+    recipe.prepMinutes != null ? `Prep ${formatMinutes(recipe.prepMinutes)}` : null,
+    recipe.cookMinutes != null ? `Cook ${formatMinutes(recipe.cookMinutes)}` : null,
+    recipe.difficulty ? DIFFICULTY_LABELS[recipe.difficulty] : null,
+    recipe.servings != null ? `Serves ${recipe.servings}` : null,
+  ].filter(Boolean).join(' · ');
+}
+
+interface RecipeDetailsProps {
+  recipe: MealRecipe;
+  compact?: boolean;
+}
+
+export default function RecipeDetails({ recipe, compact = false }: RecipeDetailsProps) {
+  const summary = describeRecipe(recipe);
+  const ingredients = recipe.ingredients ?? [];
+  const steps = recipe.steps ?? [];
+  const headingClass = compact ? 'text-sm font-semibold mt-3 mb-1' : 'font-semibold mt-4 mb-2';
+  const textClass = compact ? 'text-sm text-gray-700' : 'text-gray-700';
+
+  if (!hasRecipe(recipe)) {
+    return <p className="text-gray-500 text-sm">No recipe details yet.</p>;
+  }
+
+  return (
+    <div>
+      {summary && <p className="text-sm text-gray-500">{summary}</p>}
+
+      {ingredients.length > 0 && (
+        <>
+          <h4 className={headingClass}>Ingredients</h4>
+          <ul className={`list-disc pl-5 space-y-0.5 ${textClass}`}>
+            {ingredients.map((ingredient, index) => (
+              <li key={index}>{formatIngredient(ingredient)}</li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {steps.length > 0 && (
+        <>
+          <h4 className={headingClass}>Steps</h4>
+          <ol className={`list-decimal pl-5 space-y-1 ${textClass}`}>
+            {steps.map((step, index) => (
+              <li key={index}>{step}</li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { parseQuantity, toRecipeDraft, fromRecipeDraft } from './RecipeEditor';
+
+describe('RecipeEditor - Quantities', () => {
+  it('should parse decimals and fractions', () => {
+    expect(parseQuantity('2')).toBe(2);
+    expect(parseQuantity('0.5')).toBe(0.5);
+    expect(parseQuantity('1/4')).toBe(0.25);
+    expect(parseQuantity(' 1 1/2 ')).toBe(1.5);
+  });
+
+  it('should ignore quantities it cannot read', () => {
+    expect(parseQuantity('')).toBeNull();
+    expect(parseQuantity('a pinch')).toBeNull();
+    expect(parseQuantity('1/0')).toBeNull();
+    expect(parseQuantity('0')).toBeNull();
+  });
+});
+
+describe('RecipeEditor - Drafts', () => {
+  it('should round-trip a recipe through the form draft', () => {
+    const recipe = {
+      ingredients: [
+        { quantity: 1.5, unit: 'cup', name: 'flour' },
+        { quantity: null, unit: null, name: 'salt' },
+      ],
+      steps: ['Mix'],
+      prepMinutes: 10,
+      cookMinutes: null,
+      difficulty: 'hard' as const,
+      servings: 4,
+    };
+
+    const draft = toRecipeDraft(recipe);
+    expect(draft.ingredients[0].quantity).toBe('1 1/2');
+    expect(fromRecipeDraft(draft)).toEqual(recipe);
+  });
+
+  it('should drop blank ingredient rows and steps', () => {
+    const recipe = fromRecipeDraft({
+      ingredients: [{ quantity: '2', unit: '', name: '  ' }],
+      steps: ['', '  '],
+      prepMinutes: '',
+      cookMinutes: '',
+      difficulty: '',
+      servings: '',
+    });
+
+    expect(recipe.ingredients).toEqual([]);
+    expect(recipe.steps).toEqual([]);
+  });
+});
@@ -0,0 +1,246 @@
+import { Difficulty, MealRecipe } from '../api/client';
+
+// Form state keeps numbers as text so half-typed values like "1 1/" survive re-renders
+export interface RecipeDraft {
+  ingredients: Array<{ quantity: string; unit: string; name: string }>;
+  steps: string[];
+  prepMinutes: string;
+  cookMinutes: string;
+  difficulty: Difficulty | '';
+  servings: string;
+}
+
+export const EMPTY_RECIPE_DRAFT: RecipeDraft = {
+  ingredients: [],
+  steps: [],
+  prepMinutes: '',
+  cookMinutes: '',
+  difficulty: '',
+  servings: '',
+};
+
+// Accepts "2", "0.5", "1/2" and "1 1/2"
+export function parseQuantity(text: string): number | null {
+  const match = text.trim().match(/^(?:(\d+(?:\.\d+)?)|(?:(\d+)\s+)?(\d+)\/(\d+))$/);
+  if (!match) return null;
+
+  const [, decimal, whole, numerator, denominator] = match;
+  if (decimal) return parseFloat(decimal) || null;
+  if (parseInt(denominator, 10) === 0) return null;
+  return (whole ? parseInt(whole, 10) : 0) + parseInt(numerator, 10) / parseInt(denominator, 10) || null;
+}
+
+function parseWholeNumber(text: string): number | null {
+  const value = parseInt(text, 10);
+  return Number.isNaN(value) ? null : value;
+}
+
+// Inverse of parseQuantity for the fractions cooks actually type
+const FRACTION_TEXT: Array<[number, string]> = [
+  [0.25, '1/4'],
+  [1 / 3, '1/3'],
+  [0.5, '1/2'],
+  [2 / 3, '2/3'],
+  [0.75, '3/4'],
+];
+
+function quantityToText(quantity: number): string {
+  const whole = Math.floor(quantity);
+  const fraction = FRACTION_TEXT.find(([value]) => Math.abs(quantity - whole - value) < 0.01);
+  if (!fraction) return String(Math.round(quantity * 100) / 100);
+  return whole > 0 ? `${whole} ${fraction[1]}` : fraction[1];
+}
+
+export function toRecipeDraft(recipe: MealRecipe): RecipeDraft {
+  return {
+    ingredients: (recipe.ingredients ?? []).map((i) => ({
+      quantity: i.quantity != null ? quantityToText(i.quantity) : '',
+      unit: i.unit ?? '',
+      name: i.name,
+    })),
+    steps: recipe.steps ?? [],
+    prepMinutes: recipe.prepMinutes != null ? String(recipe.prepMinutes) : '',
+    cookMinutes: recipe.cookMinutes != null ? String(recipe.cookMinutes) : '',
+    difficulty: recipe.difficulty ?? '',
+    servings: recipe.servings != null ? String(recipe.servings) : '',
+  };
+}
+
+// Drop blank rows; every field is included so an edit can also clear values
+export function fromRecipeDraft(draft: RecipeDraft): Required<MealRecipe> {
+  return {
+    ingredients: draft.ingredients
+      .filter((i) => i.name.trim())
+      .map((i) => ({ quantity: parseQuantity(i.quantity), unit: i.unit.trim() || null, name: i.name.trim() })),
+    steps: draft.steps.map((s) => s.trim()).filter((s) => s.length > 0),
+    prepMinutes: parseWholeNumber(draft.prepMinutes),
+    cookMinutes: parseWholeNumber(draft.cookMinutes),
+    difficulty: draft.difficulty || null,
+    servings: parseWholeNumber(draft.servings),
+  };
+}
+
+interface RecipeEditorProps {
+  value: RecipeDraft;
+  onChange: (value: RecipeDraft) => void;
+}
+
+export default function RecipeEditor({ value, onChange }: RecipeEditorProps) {
+  const updateIngredient = (index: number, field: 'quantity' | 'unit' | 'name', text: string) => {
+    onChange({
+      ...value,
+      ingredients: value.ingredients.map((i, n) => (n === index ? { ...i, [field]: text } : i)),
+    });
+  };
+
+  const updateStep = (index: number, text: string) => {
+    onChange({ ...value, steps: value.steps.map((s, n) => (n === index ? text : s)) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-3">
+        <div className="flex-1">
+          <label htmlFor="recipe-prep" className="block text-sm font-medium text-gray-700 mb-1">
+            Prep (min)
+          </label>
+          <input
+            id="recipe-prep"
+            type="number"
+            min={0}
+            value={value.prepMinutes}
+            onChange={(e) => onChange({ ...value, prepMinutes: e.target.value })}
+            className="input"
+          />
+        </div>
+        <div className="flex-1">
+          <label htmlFor="recipe-cook" className="block text-sm font-medium text-gray-700 mb-1">
+            Cook (min)
+          </label>
+          <input
+            id="recipe-cook"
+            type="number"
+            min={0}
+            value={value.cookMinutes}
+            onChange={(e) => onChange({ ...value, cookMinutes: e.target.value })}
+            className="input"
+          />
+        </div>
+        <div className="flex-1">
+          <label htmlFor="recipe-servings" className="block text-sm font-medium text-gray-700 mb-1">
+            Serves
+          </label>
+          <input
+            id="recipe-servings"
+            type="number"
+            min={1}
+            value={value.servings}
+            onChange={(e) => onChange({ ...value, servings: e.target.value })}
+            className="input"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <div className="flex-1">
+          <label htmlFor="recipe-difficulty" className="block text-sm font-medium text-gray-700 mb-1">
+            Difficulty
+          </label>
+          <select
+            id="recipe-difficulty"
+            value={value.difficulty}
+            onChange={(e) => onChange({ ...value, difficulty: e.target.value as Difficulty | '' })}
+            className="input"
+          >
+            <option value="">—</option>
+            <option value="easy">Easy</option>
+            <option value="medium">Medium</option>
+            <option value="hard">Hard</option>
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Ingredients</p>
+        <div className="space-y-2">
+          {value.ingredients.map((ingredient, index) => (
+            <div key={index} className="flex gap-2">
+              <input
+                type="text"
+                value={ingredient.quantity}
+                onChange={(e) => updateIngredient(index, 'quantity', e.target.value)}
+                className="input w-16"
+                placeholder="1/2"
+                aria-label={`Ingredient ${index + 1} quantity`}
+              />
+              <input
+                type="text"
+                value={ingredient.unit}
+                onChange={(e) => updateIngredient(index, 'unit', e.target.value)}
+                className="input w-20"
+                placeholder="cup"
+                aria-label={`Ingredient ${index + 1} unit`}
+              />
+              <input
+                type="text"
+                value={ingredient.name}
+                onChange={(e) => updateIngredient(index, 'name', e.target.value)}
+                className="input flex-1"
+                placeholder="flour"
+                aria-label={`Ingredient ${index + 1} name`}
+              />
+              <button
+                type="button"
+                onClick={() => onChange({ ...value, ingredients: value.ingredients.filter((_, n) => n !== index) })}
+                className="px-1 font-bold text-gray-500 hover:text-red-600"
+                aria-label={`Remove ingredient ${index + 1}`}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange({ ...value, ingredients: [...value.ingredients, { quantity: '', unit: '', name: '' }] })}
+          className="text-sm text-primary-600 hover:text-primary-700 font-medium mt-2"
+        >
+          + Add ingredient
+        </button>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Steps</p>
+        <ol className="space-y-2">
+          {value.steps.map((step, index) => (
+            <li key={index} className="flex gap-2 items-start">
+              <span className="text-xs text-gray-400 w-5 mt-3">{index + 1}.</span>
+              <textarea
+                value={step}
+                onChange={(e) => updateStep(index, e.target.value)}
+                className="input flex-1"
+                rows={2}
+                aria-label={`Step ${index + 1}`}
+              />
+              <button
+                type="button"
+                onClick={() => onChange({ ...value, steps: value.steps.filter((_, n) => n !== index) })}
+                className="px-1 mt-2 font-bold text-gray-500 hover:text-red-600"
+                aria-label={`Remove step ${index + 1}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+        <button
+          type="button"
+          onClick={() => onChange({ ...value, steps: [...value.steps, ''] })}
+          className="text-sm text-primary-600 hover:text-primary-700 font-medium mt-2"
+        >
+          + Add step
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import RecipeLinkImport from './RecipeLinkImport';
+import { mealsApi } from '../api/client';
+
+vi.mock('../api/client', () => ({
+  mealsApi: {
+    importRecipe: vi.fn(),
+  },
+}));
+
+const URL = 'https://example.com/recipes/pancakes';
+
+describe('RecipeLinkImport', () => {
+  const onImported = vi.fn();
+  const onError = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should import the linked recipe with the chosen tags', async () => {
+    const meal = { id: 'm1', title: "Grandma's Fluffy Pancakes", description: null, type: 'meal', tags: ['brunch'], pickCount: 0 };
+    vi.mocked(mealsApi.importRecipe).mockResolvedValue(meal);
+    render(<RecipeLinkImport tags={['brunch']} onImported={onImported} onError={onError} />);
+
+    fireEvent.change(screen.getByLabelText('From a recipe link'), { target: { value: URL } });
+    fireEvent.click(screen.getByRole('button', { name: 'Import' }));
+
+    await waitFor(() => {
+      expect(onImported).toHaveBeenCalledWith(meal);
+    });
+    expect(mealsApi.importRecipe).toHaveBeenCalledWith(URL, ['brunch']);
+  });
+
+  it('should report pages without a recipe', async () => {
+    vi.mocked(mealsApi.importRecipe).mockRejectedValue(new Error('No recipe found on that page'));
+    render(<RecipeLinkImport tags={[]} onImported={onImported} onError={onError} />);
+
+    fireEvent.change(screen.getByLabelText('From a recipe link'), { target: { value: URL } });
+    fireEvent.keyDown(screen.getByLabelText('From a recipe link'), { key: 'Enter' });
+
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledWith('No recipe found on that page');
+    });
+    expect(mealsApi.importRecipe).toHaveBeenCalledWith(URL, undefined);
+    expect(onImported).not.toHaveBeenCalled();
+  });
+});
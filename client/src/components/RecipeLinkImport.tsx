@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { mealsApi, Meal } from '../api/client';
+
+interface RecipeLinkImportProps {
+  tags: string[];
+  onImported: (meal: Meal) => void;
+  onError: (message: string) => void;
+}
+
+// Lives inside the Add Meal form, so it submits with a button click rather than a nested form
+export default function RecipeLinkImport({ tags, onImported, onError }: RecipeLinkImportProps) {
+  const [url, setUrl] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  const handleImport = async () => {
+    if (!url.trim()) return;
+
+    setImporting(true);
+    try {
+      onImported(await mealsApi.importRecipe(url.trim(), tags.length > 0 ? tags : undefined));
+      setUrl('');
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to import recipe');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="border rounded-lg p-3 bg-gray-50">
+      <label htmlFor="recipe-link" className="block text-sm font-medium text-gray-700 mb-1">
+        From a recipe link
+      </label>
+      <div className="flex gap-2">
+        <input
+          id="recipe-link"
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleImport();
+            }
+          }}
+          className="input flex-1"
+          placeholder="https://..."
+        />
+        <button
+          type="button"
+          onClick={handleImport}
+          className="btn btn-secondary"
+          disabled={importing || !url.trim()}
+        >
+          {importing ? 'Importing...' : 'Import'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Fills in the title, description, photo, ingredients and steps from most recipe sites.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { OpeningHours, RestaurantInfo } from '../api/client';
+
+export const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function hasRestaurantDetails(info: RestaurantInfo): boolean {
+  return Boolean(
+    info.address || info.cuisine || info.priceTier != null || info.phone || info.websiteUrl || (info.hours?.length ?? 0) > 0
+  );
+}
+
+export function formatPriceTier(priceTier: number): string {
+  return '$'.repeat(priceTier);
+}
+
+// Outbound search link; works for any address text without an API key
+export function mapUrl(address: string): string {
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(address)}`;
+}
+
+export function describeRestaurant(info: RestaurantInfo): string {
+  return [info.cuisine, info.priceTier != null ? formatPriceTier(info.priceTier) : null].filter(Boolean).join(' · ');
+}
+
+// One line per day that has hours: "Mon 11:00–14:00, 17:00–22:00"
+export function formatHours(hours: OpeningHours[]): string[] {
+  return DAY_NAMES.flatMap((name, day) => {
+    const periods = hours.filter((h) => h.day === day);
+    if (periods.length === 0) return [];
+    return [`${name} ${periods.map((p) => `${p.open}–${p.close}`).join(', ')}`];
+  });
+}
+
+export function OpenNowBadge({ openNow }: { openNow?: boolean | null }) {
+  if (openNow == null) return null;
+  return (
+    <span
+      className={`text-xs px-2 py-0.5 rounded-full font-medium ${
+        openNow ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+      }`}
+    >
+      {openNow ? 'Open now' : 'Closed'}
+    </span>
+  );
+}
+
+interface RestaurantDetailsProps {
+  info: RestaurantInfo;
+  compact?: boolean;
+}
+
+export default function RestaurantDetails({ info, compact = false }: RestaurantDetailsProps) {
+  const summary = describeRestaurant(info);
+  const hours = formatHours(info.hours ?? []);
+  const headingClass = compact ? 'text-sm font-semibold mt-3 mb-1' : 'font-semibold mt-4 mb-2';
+  const textClass = compact ? 'text-sm text-gray-700' : 'text-gray-700';
+
+  if (!hasRestaurantDetails(info)) {
+    return <p className="text-gray-500 text-sm">No restaurant details yet.</p>;
+  }
+
+  return (
+    <div>
+      {summary && <p className="text-sm text-gray-500">{summary}</p>}
+
+      {info.address && (
+        <p className={`${textClass} mt-2`}>
+          {info.address}{' '}
+          <a
+            href={mapUrl(info.address)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary-600 underline whitespace-nowrap"
+          >
+            Open in Maps
+          </a>
+        </p>
+      )}
+
+      {(info.phone || info.websiteUrl) && (
+        <p className={`${textClass} mt-1 flex flex-wrap gap-x-3`}>
+          {info.phone && (
+            <a href={`tel:${info.phone.replace(/[^\d+]/g, '')}`} className="text-primary-600 underline">
+              {info.phone}
+            </a>
+          )}
+          {info.websiteUrl && (
+            <a href={info.websiteUrl} target="_blank" rel="noopener noreferrer" className="text-primary-600 underline">
+              Website
+            </a>
+          )}
+        </p>
+      )}
+
+      {hours.length > 0 && (
+        <>
+          <h4 className={headingClass}>Hours</h4>
+          <ul className={`space-y-0.5 ${textClass}`}>
+            {hours.map((line) => (
+              <li key={line}>{line}</li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
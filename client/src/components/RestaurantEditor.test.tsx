@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { toRestaurantDraft, fromRestaurantDraft, EMPTY_RESTAURANT_DRAFT } from './RestaurantEditor';
+import { formatHours, describeRestaurant } from './RestaurantDetails';
+
+describe('RestaurantEditor - Drafts', () => {
+  it('should round-trip restaurant details through the form draft', () => {
+    const info = {
+      address: '12 High St',
+      cuisine: 'Thai',
+      priceTier: 3,
+      hours: [
+        { day: 1, open: '11:00', close: '14:00' },
+        { day: 1, open: '17:00', close: '22:00' },
+      ],
+      phone: '555 0100',
+      websiteUrl: 'https://example.com',
+    };
+
+    expect(fromRestaurantDraft(toRestaurantDraft(info))).toEqual(info);
+  });
+
+  it('should clear blank fields and drop half-filled hours', () => {
+    expect(fromRestaurantDraft({
+      ...EMPTY_RESTAURANT_DRAFT,
+      address: '  ',
+      hours: [{ day: '2', open: '09:00', close: '' }],
+    })).toEqual({
+      address: null,
+      cuisine: null,
+      priceTier: null,
+      hours: [],
+      phone: null,
+      websiteUrl: null,
+    });
+  });
+});
+
+describe('RestaurantDetails - Formatting', () => {
+  it('should group opening hours by day', () => {
+    expect(formatHours([
+      { day: 5, open: '18:00', close: '02:00' },
+      { day: 1, open: '11:00', close: '14:00' },
+      { day: 1, open: '17:00', close: '22:00' },
+    ])).toEqual(['Mon 11:00–14:00, 17:00–22:00', 'Fri 18:00–02:00']);
+  });
+
+  it('should describe cuisine and price tier', () => {
+    expect(describeRestaurant({ cuisine: 'Pizza', priceTier: 2 })).toBe('Pizza · $$');
+    expect(describeRestaurant({ priceTier: 4 })).toBe('$$$$');
+    expect(describeRestaurant({})).toBe('');
+  });
+});
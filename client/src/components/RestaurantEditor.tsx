@@ -0,0 +1,196 @@
+import { RestaurantInfo } from '../api/client';
+import { DAY_NAMES } from './RestaurantDetails';
+
+// Form state keeps every field as text, like the recipe editor
+export interface RestaurantDraft {
+  address: string;
+  cuisine: string;
+  priceTier: string;
+  hours: Array<{ day: string; open: string; close: string }>;
+  phone: string;
+  websiteUrl: string;
+}
+
+export const EMPTY_RESTAURANT_DRAFT: RestaurantDraft = {
+  address: '',
+  cuisine: '',
+  priceTier: '',
+  hours: [],
+  phone: '',
+  websiteUrl: '',
+};
+
+export function toRestaurantDraft(info: RestaurantInfo): RestaurantDraft {
+  return {
+    address: info.address ?? '',
+    cuisine: info.cuisine ?? '',
+    priceTier: info.priceTier != null ? String(info.priceTier) : '',
+    hours: (info.hours ?? []).map((h) => ({ day: String(h.day), open: h.open, close: h.close })),
+    phone: info.phone ?? '',
+    websiteUrl: info.websiteUrl ?? '',
+  };
+}
+
+// Drop half-filled hour rows; every field is included so an edit can also clear values
+export function fromRestaurantDraft(draft: RestaurantDraft): Required<RestaurantInfo> {
+  return {
+    address: draft.address.trim() || null,
+    cuisine: draft.cuisine.trim() || null,
+    priceTier: draft.priceTier ? parseInt(draft.priceTier, 10) : null,
+    hours: draft.hours
+      .filter((h) => h.open && h.close)
+      .map((h) => ({ day: parseInt(h.day, 10), open: h.open, close: h.close })),
+    phone: draft.phone.trim() || null,
+    websiteUrl: draft.websiteUrl.trim() || null,
+  };
+}
+
+interface RestaurantEditorProps {
+  value: RestaurantDraft;
+  onChange: (value: RestaurantDraft) => void;
+}
+
+export default function RestaurantEditor({ value, onChange }: RestaurantEditorProps) {
+  const updateHours = (index: number, field: 'day' | 'open' | 'close', text: string) => {
+    onChange({ ...value, hours: value.hours.map((h, n) => (n === index ? { ...h, [field]: text } : h)) });
+  };
+
+  // New rows continue from the last day so a week can be filled in quickly
+  const addHours = () => {
+    const last = value.hours[value.hours.length - 1];
+    const day = last ? String((parseInt(last.day, 10) + 1) % 7) : '1';
+    onChange({ ...value, hours: [...value.hours, { day, open: last?.open ?? '', close: last?.close ?? '' }] });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="restaurant-address" className="block text-sm font-medium text-gray-700 mb-1">
+          Address
+        </label>
+        <input
+          id="restaurant-address"
+          type="text"
+          value={value.address}
+          onChange={(e) => onChange({ ...value, address: e.target.value })}
+          className="input"
+          placeholder="e.g., 12 High St, Springfield"
+        />
+      </div>
+
+      <div className="flex gap-3">
+        <div className="flex-1">
+          <label htmlFor="restaurant-cuisine" className="block text-sm font-medium text-gray-700 mb-1">
+            Cuisine
+          </label>
+          <input
+            id="restaurant-cuisine"
+            type="text"
+            value={value.cuisine}
+            onChange={(e) => onChange({ ...value, cuisine: e.target.value })}
+            className="input"
+            placeholder="e.g., Thai"
+          />
+        </div>
+        <div className="w-28">
+          <label htmlFor="restaurant-price" className="block text-sm font-medium text-gray-700 mb-1">
+            Price
+          </label>
+          <select
+            id="restaurant-price"
+            value={value.priceTier}
+            onChange={(e) => onChange({ ...value, priceTier: e.target.value })}
+            className="input"
+          >
+            <option value="">—</option>
+            <option value="1">$</option>
+            <option value="2">$$</option>
+            <option value="3">$$$</option>
+            <option value="4">$$$$</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <div className="flex-1">
+          <label htmlFor="restaurant-phone" className="block text-sm font-medium text-gray-700 mb-1">
+            Phone
+          </label>
+          <input
+            id="restaurant-phone"
+            type="tel"
+            value={value.phone}
+            onChange={(e) => onChange({ ...value, phone: e.target.value })}
+            className="input"
+          />
+        </div>
+        <div className="flex-1">
+          <label htmlFor="restaurant-website" className="block text-sm font-medium text-gray-700 mb-1">
+            Website
+          </label>
+          <input
+            id="restaurant-website"
+            type="url"
+            value={value.websiteUrl}
+            onChange={(e) => onChange({ ...value, websiteUrl: e.target.value })}
+            className="input"
+            placeholder="https://"
+          />
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Opening hours</p>
+        <div className="space-y-2">
+          {value.hours.map((period, index) => (
+            <div key={index} className="flex gap-2 items-center">
+              <select
+                value={period.day}
+                onChange={(e) => updateHours(index, 'day', e.target.value)}
+                className="input w-20"
+                aria-label={`Hours ${index + 1} day`}
+              >
+                {DAY_NAMES.map((name, day) => (
+                  <option key={name} value={day}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="time"
+                value={period.open}
+                onChange={(e) => updateHours(index, 'open', e.target.value)}
+                className="input flex-1"
+                aria-label={`Hours ${index + 1} opens`}
+              />
+              <span className="text-gray-400">–</span>
+              <input
+                type="time"
+                value={period.close}
+                onChange={(e) => updateHours(index, 'close', e.target.value)}
+                className="input flex-1"
+                aria-label={`Hours ${index + 1} closes`}
+              />
+              <button
+                type="button"
+                onClick={() => onChange({ ...value, hours: value.hours.filter((_, n) => n !== index) })}
+                className="px-1 font-bold text-gray-500 hover:text-red-600"
+                aria-label={`Remove hours ${index + 1}`}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={addHours}
+          className="text-sm text-primary-600 hover:text-primary-700 font-medium mt-2"
+        >
+          + Add hours
+        </button>
+        <p className="text-xs text-gray-500 mt-1">A closing time before the opening time runs past midnight.</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { Allergen, Diet, DietaryRestriction } from '../api/client';
+import { ALLERGENS, ALLERGEN_LABELS, DIET_LABELS } from './DietaryDetails';
+
+interface RestrictionPickerProps {
+  value: DietaryRestriction[];
+  onChange: (value: DietaryRestriction[]) => void;
+}
+
+const OPTIONS: Array<{ code: Allergen | Diet; label: string }> = [
+  ...(Object.keys(DIET_LABELS) as Diet[]).map((code) => ({ code, label: DIET_LABELS[code] })),
+  ...ALLERGENS.map((code) => ({ code, label: `No ${ALLERGEN_LABELS[code].toLowerCase()}` })),
+];
+
+export default function RestrictionPicker({ value, onChange }: RestrictionPickerProps) {
+  const levelOf = (code: Allergen | Diet) => {
+    const restriction = value.find((r) => r.code === code);
+    return restriction ? (restriction.hard ? 'hard' : 'soft') : '';
+  };
+
+  const setLevel = (code: Allergen | Diet, level: string) => {
+    const rest = value.filter((r) => r.code !== code);
+    onChange(level ? [...rest, { code, hard: level === 'hard' }] : rest);
+  };
+
+  return (
+    <details className="border rounded-lg p-3" open={value.length > 0}>
+      <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+        Dietary needs (optional){value.length > 0 && ` · ${value.length} set`}
+      </summary>
+      <p className="text-xs text-gray-500 mt-2 mb-3">
+        Allergies hide matching meals and stop them being picked; preferences just flag them.
+      </p>
+      <div className="space-y-2">
+        {OPTIONS.map(({ code, label }) => (
+          <div key={code} className="flex items-center justify-between gap-3 text-sm">
+            <label htmlFor={`restriction-${code}`}>{label}</label>
+            <select
+              id={`restriction-${code}`}
+              value={levelOf(code)}
+              onChange={(e) => setLevel(code, e.target.value)}
+              className="input w-auto py-1 text-sm"
+            >
+              <option value="">—</option>
+              <option value="soft">Prefer to avoid</option>
+              <option value="hard">Allergy / strict</option>
+            </select>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import StatsPanel, { weeksSince, describeHabits } from './StatsPanel';
+import { statsApi } from '../api/client';
+
+vi.mock('../api/client', () => ({
+  statsApi: {
+    get: vi.fn(),
+    people: vi.fn(),
+  },
+}));
+
+const meal = (overrides: Record<string, unknown>) => ({
+  mealId: 'm1',
+  title: 'Pizza',
+  type: 'meal',
+  imageUrl: null,
+  thumbnailUrl: null,
+  pickCount: 0,
+  sessionCount: 0,
+  winCount: 0,
+  winRate: null,
+  averageApproval: null,
+  lastPickedAt: null,
+  ...overrides,
+});
+
+const mockStats = {
+  totals: { sessions: 12, closedSessions: 10, participants: 41, mealsPicked: 9 },
+  mostPicked: [meal({ pickCount: 6 }), meal({ mealId: 'm2', title: 'Tacos', pickCount: 3 })],
+  meals: [
+    meal({ sessionCount: 8, winCount: 6, winRate: 75, averageApproval: 90 }),
+    meal({ mealId: 'm3', title: 'Salad', sessionCount: 9, winCount: 0, winRate: 0, averageApproval: 35 }),
+    meal({ mealId: 'm4', title: 'Soup' }),
+  ],
+  participation: [
+    { weekStart: '2026-03-09', sessions: 1, participants: 4 },
+    { weekStart: '2026-03-16', sessions: 2, participants: 7 },
+  ],
+  notRecentlyPicked: [meal({ mealId: 'm5', title: 'Lasagne', lastPickedAt: '2026-01-01 12:00:00' })],
+  notRecentWeeks: 4,
+};
+
+const alex = {
+  profileId: 'p1',
+  displayName: 'Alex',
+  linkedAccount: false,
+  sessions: 5,
+  yesCount: 6,
+  maybeCount: 2,
+  noCount: 12,
+  noRate: 60,
+  topNoTags: [{ tag: 'fish', count: 9 }, { tag: 'spicy', count: 1 }],
+  topYesTags: [{ tag: 'pasta', count: 4 }],
+  lastSeenAt: '2026-03-18 19:00:00',
+};
+
+describe('StatsPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(statsApi.get).mockResolvedValue(mockStats);
+    vi.mocked(statsApi.people).mockResolvedValue([alex]);
+  });
+
+  it('should show per-person habits', async () => {
+    render(<StatsPanel onError={vi.fn()} />);
+
+    expect(await screen.findByText('Alex')).toBeDefined();
+    expect(screen.getByText('5 sessions · says no 60% of the time')).toBeDefined();
+    expect(screen.getByText('Said no to fish 9 times · Said no to spicy 1 time · Usually up for pasta')).toBeDefined();
+  });
+
+  it('should describe habits without tags as nothing', () => {
+    expect(describeHabits({ ...alex, topNoTags: [], topYesTags: [] })).toEqual([]);
+  });
+
+  it('should show totals, most picked and how loved each meal is', async () => {
+    render(<StatsPanel onError={vi.fn()} />);
+
+    expect(await screen.findByText('41')).toBeDefined();
+    expect(screen.getByText('Tacos')).toBeDefined();
+    expect(screen.getByText('picked 6 of 8 sessions')).toBeDefined();
+    expect(screen.getByText('picked 0 of 9 sessions')).toBeDefined();
+    // Meals never offered in a closed session are left out of the comparison
+    expect(screen.queryByText('Soup')).toBeNull();
+    expect(screen.getByText('Lasagne')).toBeDefined();
+  });
+
+  it('should reload with a different "not recently" threshold', async () => {
+    render(<StatsPanel onError={vi.fn()} />);
+
+    await screen.findByText('41');
+    expect(statsApi.get).toHaveBeenCalledWith(4);
+
+    fireEvent.change(screen.getByLabelText('Not picked for'), { target: { value: '8' } });
+
+    await waitFor(() => {
+      expect(statsApi.get).toHaveBeenCalledWith(8);
+    });
+  });
+
+  it('should report load errors', async () => {
+    const onError = vi.fn();
+    vi.mocked(statsApi.get).mockRejectedValue(new Error('Not authenticated'));
+
+    render(<StatsPanel onError={onError} />);
+
+    await waitFor(() => {
+      expect(onError).toHaveBeenCalledWith('Not authenticated');
+    });
+  });
+
+  it('should count whole weeks since a pick', () => {
+    expect(weeksSince('2026-03-01 12:00:00', new Date('2026-03-20T12:00:00Z'))).toBe(2);
+  });
+});
@@ -0,0 +1,248 @@
+import { useState, useEffect, useCallback } from 'react';
+import { statsApi, HostStats, MealStats, ParticipationWeek, PersonStats } from '../api/client';
+
+interface StatsPanelProps {
+  onError: (message: string) => void;
+}
+
+const NOT_RECENT_CHOICES = [2, 4, 8, 12];
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Server timestamps are SQLite UTC strings without a zone marker
+export function weeksSince(timestamp: string, now: Date = new Date()): number {
+  const date = new Date(timestamp.includes('T') ? timestamp : `${timestamp.replace(' ', 'T')}Z`);
+  return Math.floor((now.getTime() - date.getTime()) / WEEK_MS);
+}
+
+function StatTile({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="card text-center py-4">
+      <p className="text-3xl font-bold text-primary-600">{value}</p>
+      <p className="text-sm text-gray-500 mt-1">{label}</p>
+    </div>
+  );
+}
+
+function BarRow({ label, value, max, suffix = '', color }: {
+  label: string;
+  value: number;
+  max: number;
+  suffix?: string;
+  color: string;
+}) {
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <span className="w-24 flex-shrink-0 text-gray-600">{label}</span>
+      <div className="flex-1 h-3 bg-gray-100 rounded-full overflow-hidden">
+        <div className={`h-full rounded-full ${color}`} style={{ width: `${max > 0 ? (value / max) * 100 : 0}%` }} />
+      </div>
+      <span className="w-12 text-right font-medium">{value}{suffix}</span>
+    </div>
+  );
+}
+
+// Win rate next to approval separates dishes the group loves from ones that only get added
+function LovedChart({ meals }: { meals: MealStats[] }) {
+  const rated = meals.filter((m) => m.sessionCount > 0);
+
+  if (rated.length === 0) {
+    return <p className="text-gray-500 text-sm">Close a few sessions to see how each meal does.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {rated.map((meal) => (
+        <div key={meal.mealId}>
+          <p className="font-medium mb-1">
+            {meal.title}{' '}
+            <span className="text-xs text-gray-500">
+              picked {meal.winCount} of {meal.sessionCount} session{meal.sessionCount === 1 ? '' : 's'}
+            </span>
+          </p>
+          <div className="space-y-1">
+            <BarRow label="Win rate" value={meal.winRate ?? 0} max={100} suffix="%" color="bg-primary-500" />
+            <BarRow
+              label="Approval"
+              value={meal.averageApproval ?? 0}
+              max={100}
+              suffix="%"
+              color="bg-green-500"
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ParticipationChart({ weeks }: { weeks: ParticipationWeek[] }) {
+  const max = Math.max(1, ...weeks.map((w) => w.participants));
+
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-32" role="img" aria-label="Participants per week">
+        {weeks.map((week) => (
+          <div key={week.weekStart} className="flex-1 flex flex-col items-center justify-end h-full">
+            {week.participants > 0 && <span className="text-xs text-gray-500">{week.participants}</span>}
+            <div
+              className="w-full bg-primary-400 rounded-t"
+              style={{ height: `${(week.participants / max) * 100}%` }}
+              title={`Week of ${week.weekStart}: ${week.sessions} sessions, ${week.participants} participants`}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>{weeks[0]?.weekStart}</span>
+        <span>{weeks[weeks.length - 1]?.weekStart}</span>
+      </div>
+    </div>
+  );
+}
+
+export function describeHabits(person: PersonStats): string[] {
+  return [
+    ...person.topNoTags.map(({ tag, count }) => `Said no to ${tag} ${count} time${count === 1 ? '' : 's'}`),
+    ...person.topYesTags.slice(0, 1).map(({ tag }) => `Usually up for ${tag}`),
+  ];
+}
+
+function PeopleList({ people }: { people: PersonStats[] }) {
+  if (people.length === 0) {
+    return (
+      <p className="text-gray-500 text-sm">
+        Guests who tick "Remember me" when joining, and signed-in friends, show up here.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y">
+      {people.map((person) => (
+        <li key={person.profileId} className="py-3">
+          <div className="flex justify-between items-baseline">
+            <span className="font-medium">
+              {person.displayName}
+              {person.linkedAccount && <span className="ml-2 text-xs text-primary-600">account</span>}
+            </span>
+            <span className="text-sm text-gray-500">
+              {person.sessions} session{person.sessions === 1 ? '' : 's'}
+              {person.noRate !== null && ` · says no ${person.noRate}% of the time`}
+            </span>
+          </div>
+          {describeHabits(person).length > 0 && (
+            <p className="text-sm text-gray-600 mt-1">{describeHabits(person).join(' · ')}</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function StatsPanel({ onError }: StatsPanelProps) {
+  const [stats, setStats] = useState<HostStats | null>(null);
+  const [weeks, setWeeks] = useState(4);
+  const [people, setPeople] = useState<PersonStats[]>([]);
+
+  const loadStats = useCallback(async () => {
+    try {
+      setStats(await statsApi.get(weeks));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to load stats');
+    }
+  }, [weeks, onError]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  useEffect(() => {
+    statsApi
+      .people()
+      .then(setPeople)
+      .catch((err) => onError(err instanceof Error ? err.message : 'Failed to load people'));
+  }, [onError]);
+
+  if (!stats) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+      </div>
+    );
+  }
+
+  const topPickCount = stats.mostPicked[0]?.pickCount ?? 0;
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <StatTile label="Sessions" value={stats.totals.sessions} />
+        <StatTile label="Closed" value={stats.totals.closedSessions} />
+        <StatTile label="Participants" value={stats.totals.participants} />
+        <StatTile label="Meals picked" value={stats.totals.mealsPicked} />
+      </div>
+
+      <section className="card">
+        <h3 className="text-lg font-bold mb-4">Most Picked</h3>
+        {stats.mostPicked.length === 0 ? (
+          <p className="text-gray-500 text-sm">No meals picked yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {stats.mostPicked.map((meal) => (
+              <BarRow key={meal.mealId} label={meal.title} value={meal.pickCount} max={topPickCount} color="bg-primary-500" />
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="card">
+        <h3 className="text-lg font-bold mb-1">Loved or Just Added?</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Win rate is how often a meal was picked when it was offered; approval is the share of yes and maybe votes.
+        </p>
+        <LovedChart meals={stats.meals} />
+      </section>
+
+      <section className="card">
+        <h3 className="text-lg font-bold mb-4">Participation</h3>
+        <ParticipationChart weeks={stats.participation} />
+      </section>
+
+      <section className="card">
+        <h3 className="text-lg font-bold mb-1">People</h3>
+        <p className="text-sm text-gray-500 mb-4">Pickiest first, based on every session they joined.</p>
+        <PeopleList people={people} />
+      </section>
+
+      <section className="card">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold">Haven't Had It In A While</h3>
+          <select
+            value={weeks}
+            onChange={(e) => setWeeks(parseInt(e.target.value, 10))}
+            className="input w-auto text-sm"
+            aria-label="Not picked for"
+          >
+            {NOT_RECENT_CHOICES.map((n) => (
+              <option key={n} value={n}>
+                {n}+ weeks
+              </option>
+            ))}
+          </select>
+        </div>
+        {stats.notRecentlyPicked.length === 0 ? (
+          <p className="text-gray-500 text-sm">Every past favourite has been picked in the last {stats.notRecentWeeks} weeks.</p>
+        ) : (
+          <ul className="divide-y">
+            {stats.notRecentlyPicked.map((meal) => (
+              <li key={meal.mealId} className="py-2 flex justify-between">
+                <span>{meal.title}</span>
+                <span className="text-sm text-gray-500">{weeksSince(meal.lastPickedAt!)} weeks ago</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { sessionsApi, SuggestedMeal } from '../api/client';
+
+interface SuggestionPickerProps {
+  preferredTags: string[];
+  onSuggest: (mealIds: string[]) => void;
+  onError: (message: string) => void;
+}
+
+const DEFAULT_COUNT = 8;
+
+export default function SuggestionPicker({ preferredTags, onSuggest, onError }: SuggestionPickerProps) {
+  const [count, setCount] = useState(DEFAULT_COUNT);
+  const [suggestion, setSuggestion] = useState<{ seed: string; meals: SuggestedMeal[] } | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const suggest = async () => {
+    setLoading(true);
+    try {
+      const result = await sessionsApi.suggest({
+        count,
+        ...(preferredTags.length > 0 ? { tags: preferredTags } : {}),
+      });
+      setSuggestion(result);
+      onSuggest(result.meals.map((m) => m.mealId));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to suggest meals');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 rounded-lg bg-primary-50 p-3">
+      <div className="flex items-center gap-2">
+        <label htmlFor="suggest-count" className="text-sm font-medium text-gray-700">
+          Suggest
+        </label>
+        <input
+          id="suggest-count"
+          type="number"
+          min={1}
+          max={50}
+          value={count}
+          onChange={(e) => setCount(Math.max(1, parseInt(e.target.value, 10) || 1))}
+          className="input w-20 py-1"
+          aria-label="Number of meals to suggest"
+        />
+        <span className="text-sm text-gray-700">meals</span>
+        <button type="button" onClick={suggest} disabled={loading} className="btn btn-secondary ml-auto py-1 text-sm">
+          {suggestion ? 'Shuffle' : 'Suggest'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Favours well-liked meals you haven't had lately
+        {preferredTags.length > 0 && ` and ones tagged ${preferredTags.join(', ')}`}. Adjust the picks below.
+      </p>
+
+      {suggestion && (
+        <ul className="mt-2 space-y-1 text-sm" aria-label="Suggested meals">
+          {suggestion.meals.length === 0 && <li className="text-gray-500">No meals to suggest yet.</li>}
+          {suggestion.meals.map((meal) => (
+            <li key={meal.mealId}>
+              <span className="font-medium">{meal.title}</span>
+              {meal.reasons.length > 0 && <span className="text-gray-500"> · {meal.reasons.join(' · ')}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
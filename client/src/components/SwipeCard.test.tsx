@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { SwipeCard } from './SwipeCard';
 
 describe('SwipeCard', () => {
@@ -60,3 +60,102 @@ describe('SwipeCard', () => {
     expect(buttons.length).toBe(2); // One for left, one for right
   });
 });
+
+describe('SwipeCard - Recipe', () => {
+  const recipe = {
+    ingredients: [{ quantity: 2, unit: null, name: 'eggs' }],
+    steps: ['Scramble'],
+    prepMinutes: 5,
+    difficulty: 'easy' as const,
+  };
+
+  it('should show timings on the front and flip to the recipe', () => {
+    render(<SwipeCard title="Eggs" description={null} recipe={recipe} onSwipe={vi.fn()} progress="1 / 1" />);
+
+    expect(screen.getAllByText('Prep 5 min · Easy').length).toBeGreaterThan(0);
+    expect(screen.getByTestId('recipe-side').getAttribute('aria-hidden')).toBe('true');
+
+    fireEvent.click(screen.getByText('Tap to see recipe'));
+
+    expect(screen.getByTestId('recipe-side').getAttribute('aria-hidden')).toBe('false');
+    expect(screen.getByText('2 eggs')).toBeDefined();
+    expect(screen.getByText('Scramble')).toBeDefined();
+
+    fireEvent.click(screen.getByText('Back to card'));
+    expect(screen.getByTestId('recipe-side').getAttribute('aria-hidden')).toBe('true');
+  });
+
+  it('should not offer to flip without ingredients or steps', () => {
+    render(<SwipeCard title="Eggs" description={null} recipe={{ prepMinutes: 5 }} onSwipe={vi.fn()} progress="1 / 1" />);
+
+    expect(screen.queryByText('Tap to see recipe')).toBeNull();
+    expect(screen.queryByTestId('recipe-side')).toBeNull();
+  });
+});
+
+describe('SwipeCard - Photo', () => {
+  it('should show the meal photo behind the title', () => {
+    const { container } = render(
+      <SwipeCard title="Eggs" description={null} imageUrl="/api/images/abc-card.webp" onSwipe={vi.fn()} progress="1 / 1" />
+    );
+
+    expect(container.querySelector('img')?.getAttribute('src')).toBe('/api/images/abc-card.webp');
+    expect(screen.getByText('Eggs')).toBeDefined();
+  });
+
+  it('should render without a photo', () => {
+    const { container } = render(<SwipeCard title="Eggs" description={null} onSwipe={vi.fn()} progress="1 / 1" />);
+
+    expect(container.querySelector('img')).toBeNull();
+  });
+});
+
+describe('SwipeCard - Restaurant', () => {
+  const restaurant = {
+    address: '12 High St',
+    cuisine: 'Thai',
+    priceTier: 2,
+    hours: [{ day: 1, open: '11:00', close: '22:00' }],
+    phone: '555 0100',
+    openNow: false,
+  };
+
+  it('should show restaurant details with a map link', () => {
+    render(<SwipeCard title="Noodle Bar" description={null} restaurant={restaurant} onSwipe={vi.fn()} progress="1 / 1" />);
+
+    expect(screen.getByText('Restaurant')).toBeDefined();
+    expect(screen.getByText('Closed')).toBeDefined();
+    expect(screen.getAllByText('Thai · $$').length).toBeGreaterThan(0);
+    const mapLink = screen.getByText('12 High St · Map').closest('a');
+    expect(mapLink?.getAttribute('href')).toBe('https://www.google.com/maps/search/?api=1&query=12%20High%20St');
+  });
+
+  it('should flip to hours and contact details', () => {
+    render(<SwipeCard title="Noodle Bar" description={null} restaurant={restaurant} onSwipe={vi.fn()} progress="1 / 1" />);
+
+    fireEvent.click(screen.getByText('Tap for hours & contact'));
+
+    expect(screen.getByTestId('recipe-side').getAttribute('aria-hidden')).toBe('false');
+    expect(screen.getByText('Mon 11:00–22:00')).toBeDefined();
+    expect(screen.getByText('555 0100').getAttribute('href')).toBe('tel:5550100');
+  });
+});
+
+describe('SwipeCard - Allergens', () => {
+  it('should list allergens and call out ones the participant avoids', () => {
+    render(
+      <SwipeCard
+        title="Carbonara"
+        description={null}
+        allergens={['gluten', 'dairy', 'eggs']}
+        dietaryWarnings={['dairy', 'eggs']}
+        onSwipe={vi.fn()}
+        progress="1 / 1"
+      />
+    );
+
+    expect(screen.getByRole('note').textContent).toBe('⚠ Contains Dairy, Eggs');
+    expect(screen.getByText('Gluten')).toBeDefined();
+    expect(screen.queryByText('Dairy')).toBeNull();
+  });
+});
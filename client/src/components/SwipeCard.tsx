@@ -1,8 +1,18 @@
+import { useState } from 'react';
 import { motion, useMotionValue, useTransform, PanInfo } from 'framer-motion';
+import { MealRecipe, RestaurantInfo, Allergen } from '../api/client';
+import RecipeDetails, { describeRecipe } from './RecipeDetails';
+import RestaurantDetails, { describeRestaurant, mapUrl, OpenNowBadge } from './RestaurantDetails';
+import AllergenBadges from './DietaryDetails';
 
 interface SwipeCardProps {
   title: string;
   description: string | null;
+  recipe?: MealRecipe;
+  restaurant?: RestaurantInfo & { openNow?: boolean | null }; // set for restaurant options
+  imageUrl?: string | null;
+  allergens?: Allergen[];
+  dietaryWarnings?: Allergen[]; // allergens the participant said they'd rather avoid
   onSwipe: (direction: 'left' | 'right') => void;
   progress: string;
   hintStyle?: 'bounce' | 'arrows' | 'text';
@@ -12,8 +22,25 @@ const SWIPE_THRESHOLD = 50;
 const VELOCITY_THRESHOLD = 300;
 const ROTATION_RANGE = 12;
 
-export function SwipeCard({ title, description, onSwipe, progress, hintStyle = 'bounce' }: SwipeCardProps) {
+export function SwipeCard({
+  title,
+  description,
+  recipe = {},
+  restaurant,
+  imageUrl,
+  allergens,
+  dietaryWarnings,
+  onSwipe,
+  progress,
+  hintStyle = 'bounce',
+}: SwipeCardProps) {
   const x = useMotionValue(0);
+  const [flipped, setFlipped] = useState(false);
+  // Timings and cuisine fit on the front, so only flip when there is more to show
+  const canFlip = restaurant
+    ? (restaurant.hours?.length ?? 0) > 0 || Boolean(restaurant.phone || restaurant.websiteUrl)
+    : (recipe.ingredients?.length ?? 0) > 0 || (recipe.steps?.length ?? 0) > 0;
+  const summary = restaurant ? describeRestaurant(restaurant) : describeRecipe(recipe);
 
   // Transform x movement into rotation (responds faster with smaller range)
   const rotate = useTransform(x, [-100, 0, 100], [-ROTATION_RANGE, 0, ROTATION_RANGE]);
@@ -103,6 +130,7 @@ export function SwipeCard({ title, description, onSwipe, progress, hintStyle = '
         dragConstraints={{ left: 0, right: 0 }}
         dragElastic={0.9}
         onDragEnd={handleDragEnd}
+        onTap={() => canFlip && setFlipped(!flipped)}
         whileTap={{ scale: 1.02 }}
         initial={hintStyle === 'bounce' ? { x: 0 } : undefined}
         animate={
@@ -138,13 +166,88 @@ export function SwipeCard({ title, description, onSwipe, progress, hintStyle = '
           YUM!
         </motion.div>
 
-        {/* Content */}
-        <div className="absolute inset-0 flex flex-col items-center justify-center p-6 pointer-events-none">
-          <h2 className="text-2xl font-bold text-center mb-2">{title}</h2>
-          {description && (
-            <p className="text-gray-600 text-center">{description}</p>
+        {/* Content - tapping flips between the meal and its recipe */}
+        <motion.div
+          className="absolute inset-0"
+          style={{ transformStyle: 'preserve-3d' }}
+          animate={{ rotateY: flipped ? 180 : 0 }}
+          transition={{ duration: 0.4 }}
+        >
+          <div
+            className={`absolute inset-0 flex flex-col items-center p-6 pointer-events-none rounded-2xl overflow-hidden ${
+              imageUrl ? 'justify-end text-white' : 'justify-center'
+            }`}
+            style={{ backfaceVisibility: 'hidden' }}
+            aria-hidden={flipped}
+          >
+            {/* Photo fills the card, with a gradient so the title stays readable */}
+            {imageUrl && (
+              <>
+                <img src={imageUrl} alt="" draggable={false} className="absolute inset-0 w-full h-full object-cover" />
+                <div className="absolute inset-0 bg-gradient-to-t from-black/75 via-black/25 to-transparent" />
+              </>
+            )}
+            {restaurant && (
+              <div className="relative flex items-center gap-2 mb-2">
+                <span className="text-xs uppercase tracking-wide font-semibold px-2 py-0.5 rounded-full bg-primary-100 text-primary-700">
+                  Restaurant
+                </span>
+                <OpenNowBadge openNow={restaurant.openNow} />
+              </div>
+            )}
+            <h2 className="relative text-2xl font-bold text-center mb-2">{title}</h2>
+            {description && (
+              <p className={`relative text-center ${imageUrl ? 'text-gray-100' : 'text-gray-600'}`}>{description}</p>
+            )}
+            {summary && (
+              <p className={`relative text-xs text-center mt-2 ${imageUrl ? 'text-gray-200' : 'text-gray-500'}`}>{summary}</p>
+            )}
+            <div className="relative mt-2 flex justify-center">
+              <AllergenBadges allergens={allergens} warnings={dietaryWarnings} />
+            </div>
+            {restaurant?.address && (
+              <a
+                href={mapUrl(restaurant.address)}
+                target="_blank"
+                rel="noopener noreferrer"
+                onPointerDown={(e) => e.stopPropagation()}
+                className={`relative mt-2 text-xs underline pointer-events-auto ${imageUrl ? 'text-white' : 'text-primary-600'}`}
+              >
+                {restaurant.address} · Map
+              </a>
+            )}
+            {canFlip && (
+              <button
+                type="button"
+                onClick={() => setFlipped(true)}
+                onPointerDown={(e) => e.stopPropagation()}
+                className={`relative mt-3 text-xs underline pointer-events-auto ${imageUrl ? 'text-white' : 'text-primary-600'}`}
+              >
+                {restaurant ? 'Tap for hours & contact' : 'Tap to see recipe'}
+              </button>
+            )}
+          </div>
+
+          {canFlip && (
+            <div
+              className="absolute inset-0 p-5 overflow-y-auto"
+              style={{ backfaceVisibility: 'hidden', transform: 'rotateY(180deg)' }}
+              aria-hidden={!flipped}
+              data-testid="recipe-side"
+            >
+              <h3 className="font-bold text-lg mb-1">{title}</h3>
+              {restaurant ? <RestaurantDetails info={restaurant} compact /> : <RecipeDetails recipe={recipe} compact />}
+              <button
+                type="button"
+                onClick={() => setFlipped(false)}
+                onPointerDown={(e) => e.stopPropagation()}
+                className="mt-3 text-xs text-primary-600 underline"
+              >
+                Back to card
+              </button>
+            </div>
           )}
-        </div>
+        </motion.div>
       </motion.div>
 
       {/* Button fallbacks - smaller and more subtle */}
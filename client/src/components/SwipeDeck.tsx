@@ -1,8 +1,12 @@
 import { useState, useEffect } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { SwipeCard } from './SwipeCard';
+import { MealRecipe, MealImage, RestaurantInfo, DietaryInfo, Allergen } from '../api/client';
 
-interface Meal {
+interface Meal extends MealRecipe, MealImage, RestaurantInfo, DietaryInfo {
+  type?: string;
+  openNow?: boolean | null;
+  dietaryWarnings?: Allergen[];
   id: string;
   title: string;
   description: string | null;
@@ -115,8 +119,11 @@ export function SwipeDeck({
                 onClick={() => handleReviewChange(meal.id)}
                 className={`w-full p-4 rounded-lg border-2 text-left transition-colors ${borderColor}`}
               >
-                <div className="flex justify-between items-center">
-                  <div>
+                <div className="flex justify-between items-center gap-3">
+                  {meal.thumbnailUrl && (
+                    <img src={meal.thumbnailUrl} alt="" className="w-12 h-12 rounded-md object-cover flex-shrink-0" />
+                  )}
+                  <div className="flex-1">
                     <p className="font-semibold">{meal.title}</p>
                     {meal.description && (
                       <p className="text-sm text-gray-500 mt-1">{meal.description}</p>
@@ -132,8 +139,11 @@ export function SwipeDeck({
                 key={meal.id}
                 className={`w-full p-4 rounded-lg border-2 ${borderColor}`}
               >
-                <div className="flex justify-between items-center">
-                  <div>
+                <div className="flex justify-between items-center gap-3">
+                  {meal.thumbnailUrl && (
+                    <img src={meal.thumbnailUrl} alt="" className="w-12 h-12 rounded-md object-cover flex-shrink-0" />
+                  )}
+                  <div className="flex-1">
                     <p className="font-semibold">{meal.title}</p>
                     {meal.description && (
                       <p className="text-sm text-gray-500 mt-1">{meal.description}</p>
@@ -196,6 +206,11 @@ export function SwipeDeck({
             <SwipeCard
               title={currentMeal.title}
               description={currentMeal.description}
+              recipe={currentMeal}
+              restaurant={currentMeal.type === 'restaurant' ? currentMeal : undefined}
+              imageUrl={currentMeal.imageUrl}
+              allergens={currentMeal.allergens}
+              dietaryWarnings={currentMeal.dietaryWarnings}
               onSwipe={handleSwipe}
               progress={`${currentIndex + 1} / ${meals.length}`}
               hintStyle={hintStyle}
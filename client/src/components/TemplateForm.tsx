@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { ScoringMode, SessionTemplate, SessionTemplateInput } from '../api/client';
+
+type Repeat = 'none' | 'weekdays' | 'daily' | 'weekly' | 'custom';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const SCORING_LABELS: Record<ScoringMode, string> = {
+  approval: 'Approval',
+  'weighted-maybe': 'Weighted maybe',
+  veto: 'Veto',
+  borda: 'Ranked',
+};
+
+const SIMPLE_SCHEDULE = /^(\d{1,2}) (\d{1,2}) \* \* (1-5|\*|[0-6])$/;
+
+function pad(n: number | string): string {
+  return String(n).padStart(2, '0');
+}
+
+// Split a cron expression back into the simple form fields when it fits one
+function parseSchedule(schedule: string | null): { repeat: Repeat; time: string; weekday: string } {
+  if (!schedule) return { repeat: 'none', time: '11:00', weekday: '1' };
+
+  const match = schedule.match(SIMPLE_SCHEDULE);
+  if (!match) return { repeat: 'custom', time: '11:00', weekday: '1' };
+
+  const [, minute, hour, days] = match;
+  const time = `${pad(hour)}:${pad(minute)}`;
+  if (days === '1-5') return { repeat: 'weekdays', time, weekday: '1' };
+  if (days === '*') return { repeat: 'daily', time, weekday: '1' };
+  return { repeat: 'weekly', time, weekday: days };
+}
+
+function buildSchedule(repeat: Repeat, time: string, weekday: string, custom: string): string | null {
+  if (repeat === 'none') return null;
+  if (repeat === 'custom') return custom.trim() || null;
+
+  const [hour, minute] = time.split(':').map((part) => parseInt(part, 10));
+  const days = repeat === 'weekdays' ? '1-5' : repeat === 'daily' ? '*' : weekday;
+  return `${minute} ${hour} * * ${days}`;
+}
+
+export function describeSchedule(schedule: string | null): string {
+  if (!schedule) return 'Not scheduled';
+
+  const { repeat, time, weekday } = parseSchedule(schedule);
+  if (repeat === 'weekdays') return `Every weekday at ${time}`;
+  if (repeat === 'daily') return `Every day at ${time}`;
+  if (repeat === 'weekly') return `Every ${WEEKDAYS[parseInt(weekday, 10)]} at ${time}`;
+  return `Cron: ${schedule}`;
+}
+
+interface TemplateFormProps {
+  // Existing template to edit, or the meal pool and scoring for a new one
+  template?: SessionTemplate;
+  draft?: { mealIds: string[]; scoringMode: ScoringMode };
+  error?: string;
+  onSave: (data: SessionTemplateInput & { name: string }) => Promise<void>;
+  onCancel: () => void;
+}
+
+export default function TemplateForm({ template, draft, error, onSave, onCancel }: TemplateFormProps) {
+  const initialSchedule = parseSchedule(template?.schedule ?? null);
+
+  const [name, setName] = useState(template?.name ?? '');
+  const [scoringMode, setScoringMode] = useState<ScoringMode>(template?.scoringMode ?? draft?.scoringMode ?? 'approval');
+  const [repeat, setRepeat] = useState<Repeat>(initialSchedule.repeat);
+  const [time, setTime] = useState(initialSchedule.time);
+  const [weekday, setWeekday] = useState(initialSchedule.weekday);
+  const [customSchedule, setCustomSchedule] = useState(
+    initialSchedule.repeat === 'custom' ? template?.schedule ?? '' : ''
+  );
+  const [autoClose, setAutoClose] = useState(template?.autoCloseMinutes ? String(template.autoCloseMinutes) : '');
+  const [maxParticipants, setMaxParticipants] = useState(
+    template?.maxParticipants ? String(template.maxParticipants) : ''
+  );
+  const [saving, setSaving] = useState(false);
+
+  const mealCount = template ? template.mealIds.length : draft?.mealIds.length ?? 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      await onSave({
+        name,
+        scoringMode,
+        schedule: buildSchedule(repeat, time, weekday, customSchedule),
+        autoCloseMinutes: autoClose ? parseInt(autoClose, 10) : null,
+        maxParticipants: maxParticipants ? parseInt(maxParticipants, 10) : null,
+        ...(draft ? { mealIds: draft.mealIds } : {}),
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="card w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-1">{template ? 'Edit Template' : 'Save as Template'}</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          {template?.playlistName
+            ? `Uses the "${template.playlistName}" playlist`
+            : `${mealCount} meal${mealCount !== 1 ? 's' : ''}`}
+        </p>
+        {error && (
+          <div className="bg-red-50 text-red-600 px-3 py-2 rounded-lg text-sm mb-4">{error}</div>
+        )}
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="template-name" className="block text-sm font-medium text-gray-700 mb-1">
+              Name *
+            </label>
+            <input
+              id="template-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="input"
+              placeholder="e.g., Office Lunch"
+              required
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label htmlFor="template-scoring" className="block text-sm font-medium text-gray-700 mb-1">
+              Scoring
+            </label>
+            <select
+              id="template-scoring"
+              value={scoringMode}
+              onChange={(e) => setScoringMode(e.target.value as ScoringMode)}
+              className="input"
+            >
+              {(Object.keys(SCORING_LABELS) as ScoringMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {SCORING_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="template-repeat" className="block text-sm font-medium text-gray-700 mb-1">
+              Repeat
+            </label>
+            <select
+              id="template-repeat"
+              value={repeat}
+              onChange={(e) => setRepeat(e.target.value as Repeat)}
+              className="input"
+            >
+              <option value="none">Don't repeat</option>
+              <option value="weekdays">Every weekday</option>
+              <option value="daily">Every day</option>
+              <option value="weekly">Every week</option>
+              <option value="custom">Custom (cron)</option>
+            </select>
+          </div>
+
+          {(repeat === 'weekdays' || repeat === 'daily' || repeat === 'weekly') && (
+            <div className="flex gap-3">
+              {repeat === 'weekly' && (
+                <select
+                  value={weekday}
+                  onChange={(e) => setWeekday(e.target.value)}
+                  className="input flex-1"
+                  aria-label="Day of week"
+                >
+                  {WEEKDAYS.map((day, index) => (
+                    <option key={day} value={String(index)}>
+                      {day}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <input
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                className="input flex-1"
+                aria-label="Start time"
+                required
+              />
+            </div>
+          )}
+
+          {repeat === 'custom' && (
+            <div>
+              <input
+                type="text"
+                value={customSchedule}
+                onChange={(e) => setCustomSchedule(e.target.value)}
+                className="input font-mono"
+                placeholder="0 11 * * 1-5"
+                aria-label="Cron schedule"
+                required
+              />
+              <p className="text-xs text-gray-500 mt-1">minute hour day-of-month month day-of-week</p>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <label htmlFor="template-auto-close" className="block text-sm font-medium text-gray-700 mb-1">
+                Auto-close after (min)
+              </label>
+              <input
+                id="template-auto-close"
+                type="number"
+                min={1}
+                value={autoClose}
+                onChange={(e) => setAutoClose(e.target.value)}
+                className="input"
+                placeholder="Never"
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="template-cap" className="block text-sm font-medium text-gray-700 mb-1">
+                Participant cap
+              </label>
+              <input
+                id="template-cap"
+                type="number"
+                min={1}
+                value={maxParticipants}
+                onChange={(e) => setMaxParticipants(e.target.value)}
+                className="input"
+                placeholder="No limit"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <button type="button" onClick={onCancel} className="btn btn-secondary flex-1">
+              Cancel
+            </button>
+            <button type="submit" disabled={saving || !name.trim()} className="btn btn-primary flex-1">
+              {saving ? 'Saving...' : 'Save Template'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
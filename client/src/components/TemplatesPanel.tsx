@@ -0,0 +1,187 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { templatesApi, ScoringMode, SessionTemplate, SessionTemplateInput } from '../api/client';
+import ConfirmModal from './ConfirmModal';
+import TemplateForm, { describeSchedule } from './TemplateForm';
+
+interface TemplatesPanelProps {
+  // Meal pool and scoring from the Create Session dialog to save as a new template
+  draft: { mealIds: string[]; scoringMode: ScoringMode } | null;
+  onDraftClosed: () => void;
+  onError: (message: string) => void;
+}
+
+export default function TemplatesPanel({ draft, onDraftClosed, onError }: TemplatesPanelProps) {
+  const navigate = useNavigate();
+  const [templates, setTemplates] = useState<SessionTemplate[]>([]);
+  const [editing, setEditing] = useState<SessionTemplate | null>(null);
+  const [formError, setFormError] = useState('');
+  const [startingId, setStartingId] = useState<string | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<SessionTemplate | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setTemplates(await templatesApi.list());
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to load templates');
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const closeForm = () => {
+    setFormError('');
+    if (editing) {
+      setEditing(null);
+    } else {
+      onDraftClosed();
+    }
+  };
+
+  const handleSave = async (data: SessionTemplateInput & { name: string }) => {
+    setFormError('');
+    try {
+      if (editing) {
+        await templatesApi.update(editing.id, data);
+      } else {
+        await templatesApi.create(data);
+      }
+      closeForm();
+      await loadTemplates();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save template');
+    }
+  };
+
+  const handleStart = async (template: SessionTemplate) => {
+    setStartingId(template.id);
+    try {
+      const session = await templatesApi.run(template.id);
+      navigate(`/session/${session.id}`);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to start session');
+      setStartingId(null);
+    }
+  };
+
+  const toggleActive = async (template: SessionTemplate) => {
+    try {
+      const updated = await templatesApi.update(template.id, { active: !template.active });
+      setTemplates(templates.map((t) =>
+        t.id === template.id ? { ...t, active: updated.active, nextRunAt: updated.nextRunAt } : t
+      ));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to update template');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!templateToDelete) return;
+
+    try {
+      await templatesApi.delete(templateToDelete.id);
+      setTemplates(templates.filter((t) => t.id !== templateToDelete.id));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to delete template');
+    } finally {
+      setTemplateToDelete(null);
+    }
+  };
+
+  if (templates.length === 0 && !draft) {
+    return null;
+  }
+
+  return (
+    <section className="mb-12">
+      {templates.length > 0 && (
+        <>
+          <h2 className="text-2xl font-bold mb-4">Templates</h2>
+          <div className="space-y-4">
+            {templates.map((template) => (
+              <div key={template.id} className="card">
+                <div className="flex justify-between items-start gap-3">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold text-lg">{template.name}</h3>
+                      {template.schedule && !template.active && (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                          paused
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {template.playlistName
+                        ? `Playlist: ${template.playlistName}`
+                        : `${template.mealIds.length} meal${template.mealIds.length !== 1 ? 's' : ''}`}
+                      {template.autoCloseMinutes ? ` · closes after ${template.autoCloseMinutes} min` : ''}
+                      {template.maxParticipants ? ` · up to ${template.maxParticipants} people` : ''}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-2">
+                      {describeSchedule(template.schedule)}
+                      {template.active && template.nextRunAt
+                        ? ` · next ${new Date(template.nextRunAt).toLocaleString()}`
+                        : ''}
+                    </p>
+                  </div>
+                  <div className="flex gap-3 text-sm">
+                    {template.schedule && (
+                      <button
+                        onClick={() => toggleActive(template)}
+                        className="text-gray-500 hover:text-primary-600"
+                      >
+                        {template.active ? 'Pause' : 'Resume'}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setEditing(template)}
+                      className="text-gray-500 hover:text-primary-600"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => setTemplateToDelete(template)}
+                      className="text-gray-500 hover:text-red-600"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleStart(template)}
+                  disabled={startingId !== null}
+                  className="btn btn-success w-full mt-4"
+                  aria-label={`Start session from ${template.name} now`}
+                >
+                  {startingId === template.id ? 'Starting...' : 'Start Now'}
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {(editing || draft) && (
+        <TemplateForm
+          template={editing ?? undefined}
+          draft={editing ? undefined : draft ?? undefined}
+          error={formError}
+          onSave={handleSave}
+          onCancel={closeForm}
+        />
+      )}
+
+      <ConfirmModal
+        isOpen={templateToDelete !== null}
+        title="Delete Template?"
+        message={`Delete "${templateToDelete?.name}"? Sessions it already created are kept.`}
+        confirmText="Delete"
+        isDanger
+        onConfirm={handleDelete}
+        onCancel={() => setTemplateToDelete(null)}
+      />
+    </section>
+  );
+}
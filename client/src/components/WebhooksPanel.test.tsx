@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import WebhooksPanel from './WebhooksPanel';
+import { webhooksApi } from '../api/client';
+
+vi.mock('../api/client', () => ({
+  webhooksApi: {
+    list: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    rotateSecret: vi.fn(),
+    deliveries: vi.fn(),
+    test: vi.fn(),
+  },
+}));
+
+const mockWebhook = {
+  id: 'w1',
+  url: 'https://chat.example.com/hook',
+  secret: 'abc123',
+  events: ['session.closed' as const],
+  active: true,
+  createdAt: '2026-01-01T12:00:00.000Z',
+};
+
+const mockDelivery = {
+  id: 'd1',
+  event: 'session.closed' as const,
+  status: 'pending' as const,
+  attempts: 2,
+  responseStatus: 500,
+  error: 'Receiver responded with HTTP 500',
+  nextAttemptAt: '2026-01-01T12:10:00.000Z',
+  createdAt: '2026-01-01T12:00:00.000Z',
+  deliveredAt: null,
+  payload: { event: 'session.closed' },
+};
+
+describe('WebhooksPanel', () => {
+  const onError = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(webhooksApi.list).mockResolvedValue([]);
+  });
+
+  it('should add a webhook for the chosen events', async () => {
+    vi.mocked(webhooksApi.create).mockResolvedValue(mockWebhook);
+
+    render(<WebhooksPanel onError={onError} />);
+
+    fireEvent.change(screen.getByLabelText('Webhook URL'), { target: { value: 'https://chat.example.com/hook' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Session closed' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Add Webhook' }));
+
+    await waitFor(() => {
+      expect(webhooksApi.create).toHaveBeenCalledWith({
+        url: 'https://chat.example.com/hook',
+        events: ['session.closed'],
+      });
+    });
+    expect(await screen.findByText('https://chat.example.com/hook')).toBeInTheDocument();
+  });
+
+  it('should show the delivery log with retry details', async () => {
+    vi.mocked(webhooksApi.list).mockResolvedValue([mockWebhook]);
+    vi.mocked(webhooksApi.deliveries).mockResolvedValue([mockDelivery]);
+
+    render(<WebhooksPanel onError={onError} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Show deliveries' }));
+
+    expect(await screen.findByText('pending')).toBeInTheDocument();
+    expect(screen.getByText('Receiver responded with HTTP 500')).toBeInTheDocument();
+    expect(webhooksApi.deliveries).toHaveBeenCalledWith('w1');
+  });
+
+  it('should send a test ping and open the log', async () => {
+    vi.mocked(webhooksApi.list).mockResolvedValue([mockWebhook]);
+    vi.mocked(webhooksApi.test).mockResolvedValue({ ...mockDelivery, event: 'ping', status: 'delivered' });
+    vi.mocked(webhooksApi.deliveries).mockResolvedValue([{ ...mockDelivery, event: 'ping', status: 'delivered' }]);
+
+    render(<WebhooksPanel onError={onError} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Send Test' }));
+
+    expect(await screen.findByText('delivered')).toBeInTheDocument();
+    expect(webhooksApi.test).toHaveBeenCalledWith('w1');
+  });
+});
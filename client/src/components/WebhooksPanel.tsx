@@ -0,0 +1,279 @@
+import { useState, useEffect, useCallback } from 'react';
+import { webhooksApi, Webhook, WebhookDelivery, WebhookEvent } from '../api/client';
+import ConfirmModal from './ConfirmModal';
+
+interface WebhooksPanelProps {
+  onError: (message: string) => void;
+}
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  'session.created': 'Session created',
+  'participant.joined': 'Participant joined',
+  'participant.submitted': 'Participant voted',
+  'session.closed': 'Session closed',
+  'meal.selected': 'Meal selected',
+};
+
+const EVENTS = Object.keys(EVENT_LABELS) as WebhookEvent[];
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-700',
+  delivered: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+function describeEvents(events: WebhookEvent[]): string {
+  return events.length === 0 ? 'All events' : events.map((e) => EVENT_LABELS[e]).join(', ');
+}
+
+function DeliveryLog({ deliveries }: { deliveries: WebhookDelivery[] }) {
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-gray-500">Nothing sent yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {deliveries.map((delivery) => (
+        <li key={delivery.id} className="text-sm">
+          <details>
+            <summary className="flex items-center gap-2 cursor-pointer">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[delivery.status]}`}>
+                {delivery.status}
+              </span>
+              <span className="font-mono">{delivery.event}</span>
+              <span className="text-gray-500">
+                {delivery.responseStatus ?? '—'} · {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+              </span>
+              <span className="text-gray-400 ml-auto">{new Date(delivery.createdAt).toLocaleString()}</span>
+            </summary>
+            <div className="mt-2 pl-2 space-y-1">
+              {delivery.error && <p className="text-red-600">{delivery.error}</p>}
+              {delivery.nextAttemptAt && (
+                <p className="text-gray-500">Next retry {new Date(delivery.nextAttemptAt).toLocaleString()}</p>
+              )}
+              <pre className="bg-gray-50 rounded p-2 text-xs overflow-x-auto">
+                {JSON.stringify(delivery.payload, null, 2)}
+              </pre>
+            </div>
+          </details>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function WebhooksPanel({ onError }: WebhooksPanelProps) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [logFor, setLogFor] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [webhookToDelete, setWebhookToDelete] = useState<Webhook | null>(null);
+
+  const loadWebhooks = useCallback(async () => {
+    try {
+      setWebhooks(await webhooksApi.list());
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to load webhooks');
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const showLog = async (webhookId: string) => {
+    setLogFor(webhookId);
+    try {
+      setDeliveries(await webhooksApi.deliveries(webhookId));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to load deliveries');
+    }
+  };
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents(events.includes(event) ? events.filter((e) => e !== event) : [...events, event]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+
+    setSaving(true);
+    try {
+      const webhook = await webhooksApi.create({ url: url.trim(), events });
+      setWebhooks([...webhooks, webhook]);
+      setUrl('');
+      setEvents([]);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to add webhook');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const replaceWebhook = (updated: Webhook) => {
+    setWebhooks(webhooks.map((w) => (w.id === updated.id ? updated : w)));
+  };
+
+  const toggleActive = async (webhook: Webhook) => {
+    try {
+      replaceWebhook(await webhooksApi.update(webhook.id, { active: !webhook.active }));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to update webhook');
+    }
+  };
+
+  const rotateSecret = async (webhook: Webhook) => {
+    try {
+      replaceWebhook(await webhooksApi.rotateSecret(webhook.id));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to rotate secret');
+    }
+  };
+
+  const sendTest = async (webhook: Webhook) => {
+    try {
+      await webhooksApi.test(webhook.id);
+      await showLog(webhook.id);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to send test');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!webhookToDelete) return;
+
+    try {
+      await webhooksApi.delete(webhookToDelete.id);
+      setWebhooks(webhooks.filter((w) => w.id !== webhookToDelete.id));
+      if (logFor === webhookToDelete.id) setLogFor(null);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to delete webhook');
+    } finally {
+      setWebhookToDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <section className="card">
+        <h2 className="text-xl font-bold mb-1">Add a Webhook</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          We'll POST a signed JSON payload to this URL when things happen in your sessions.
+        </p>
+        <form onSubmit={handleCreate} className="space-y-4">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/mealmatch-hook"
+            aria-label="Webhook URL"
+            className="input"
+            required
+          />
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-1">Events (none selected = all)</legend>
+            <div className="flex flex-wrap gap-2">
+              {EVENTS.map((event) => (
+                <button
+                  key={event}
+                  type="button"
+                  aria-pressed={events.includes(event)}
+                  onClick={() => toggleEvent(event)}
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                    events.includes(event)
+                      ? 'bg-primary-100 border-primary-300 text-primary-800'
+                      : 'border-gray-300 text-gray-600 hover:border-gray-400'
+                  }`}
+                >
+                  {EVENT_LABELS[event]}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+          <button type="submit" className="btn btn-primary" disabled={saving || !url.trim()}>
+            Add Webhook
+          </button>
+        </form>
+      </section>
+
+      {webhooks.length > 0 && (
+        <section>
+          <h2 className="text-2xl font-bold mb-4">Webhooks</h2>
+          <div className="space-y-4">
+            {webhooks.map((webhook) => (
+              <div key={webhook.id} className="card">
+                <div className="flex justify-between items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold break-all">{webhook.url}</h3>
+                      {!webhook.active && (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                          paused
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">{describeEvents(webhook.events)}</p>
+                    <details className="text-xs text-gray-500 mt-2">
+                      <summary className="cursor-pointer">Signing secret</summary>
+                      <code className="block mt-1 font-mono break-all">{webhook.secret}</code>
+                    </details>
+                  </div>
+                  <div className="flex flex-wrap gap-3 text-sm justify-end">
+                    <button onClick={() => sendTest(webhook)} className="text-gray-500 hover:text-primary-600">
+                      Send Test
+                    </button>
+                    <button onClick={() => toggleActive(webhook)} className="text-gray-500 hover:text-primary-600">
+                      {webhook.active ? 'Pause' : 'Resume'}
+                    </button>
+                    <button onClick={() => rotateSecret(webhook)} className="text-gray-500 hover:text-primary-600">
+                      Rotate Secret
+                    </button>
+                    <button onClick={() => setWebhookToDelete(webhook)} className="text-gray-500 hover:text-red-600">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                <div className="mt-4 border-t pt-3">
+                  {logFor === webhook.id ? (
+                    <>
+                      <div className="flex justify-between items-center mb-2">
+                        <h4 className="font-medium">Recent deliveries</h4>
+                        <div className="flex gap-3 text-sm">
+                          <button onClick={() => showLog(webhook.id)} className="text-primary-600 hover:underline">
+                            Refresh
+                          </button>
+                          <button onClick={() => setLogFor(null)} className="text-gray-500 hover:underline">
+                            Hide
+                          </button>
+                        </div>
+                      </div>
+                      <DeliveryLog deliveries={deliveries} />
+                    </>
+                  ) : (
+                    <button onClick={() => showLog(webhook.id)} className="text-sm text-primary-600 hover:underline">
+                      Show deliveries
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <ConfirmModal
+        isOpen={webhookToDelete !== null}
+        title="Delete Webhook?"
+        message={`Stop sending events to ${webhookToDelete?.url} and delete its delivery log?`}
+        confirmText="Delete"
+        isDanger
+        onConfirm={handleDelete}
+        onCancel={() => setWebhookToDelete(null)}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,19 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { authApi, User } from '../api/client';
+import { authApi, quickSessionApi, User } from '../api/client';
+import { getCreatorTokens, forgetCreatorTokens } from './useLocalStorage';
+
+// Quick sessions started on this device before signing in join the account
+async function claimQuickSessions() {
+  const tokens = getCreatorTokens();
+  if (tokens.length === 0) return;
+
+  try {
+    await quickSessionApi.claim(tokens);
+    forgetCreatorTokens(tokens);
+  } catch (error) {
+    console.error('Error claiming quick sessions:', error); // tried again at the next sign-in
+  }
+}
 
 interface AuthContextType {
   user: User | null;
@@ -25,11 +39,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const login = async (email: string, password: string) => {
     const user = await authApi.login(email, password);
+    await claimQuickSessions();
     setUser(user);
   };
 
   const register = async (email: string, password: string) => {
     const user = await authApi.register(email, password);
+    await claimQuickSessions();
     setUser(user);
   };
 
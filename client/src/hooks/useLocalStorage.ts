@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { DietaryRestriction } from '../api/client';
 
 export function useLocalStorage<T>(key: string, initialValue: T) {
   // Get stored value or use initial value
@@ -60,3 +61,49 @@ export function useSwipeProgress(sessionId: string, participantName: string) {
 
   return { progress, saveProgress, clearProgress };
 }
+
+// Guest profile remembered on this device so the host sees the same person across sessions,
+// along with their dietary needs so they don't have to enter them every time
+export interface GuestProfile {
+  token: string;
+  displayName: string;
+  restrictions?: DietaryRestriction[];
+}
+
+export function useGuestProfile() {
+  const key = 'mealmatch_guest_profile';
+  const [profile, setProfile] = useLocalStorage<GuestProfile | null>(key, null);
+
+  const forgetProfile = () => {
+    setProfile(null);
+    window.localStorage.removeItem(key);
+  };
+
+  return { profile, saveProfile: setProfile, forgetProfile };
+}
+
+// Creator tokens of the quick sessions started on this device without an account. They outlive the tab,
+// so the sessions can be claimed into an account at the next sign-in.
+const CREATOR_TOKENS_KEY = 'mealmatch_creator_tokens';
+
+export function getCreatorTokens(): string[] {
+  try {
+    const tokens = JSON.parse(window.localStorage.getItem(CREATOR_TOKENS_KEY) || '[]');
+    return Array.isArray(tokens) ? tokens : [];
+  } catch {
+    return [];
+  }
+}
+
+export function rememberCreatorToken(token: string) {
+  window.localStorage.setItem(CREATOR_TOKENS_KEY, JSON.stringify([...getCreatorTokens(), token]));
+}
+
+export function forgetCreatorTokens(tokens: string[]) {
+  const remaining = getCreatorTokens().filter((token) => !tokens.includes(token));
+  if (remaining.length > 0) {
+    window.localStorage.setItem(CREATOR_TOKENS_KEY, JSON.stringify(remaining));
+  } else {
+    window.localStorage.removeItem(CREATOR_TOKENS_KEY);
+  }
+}
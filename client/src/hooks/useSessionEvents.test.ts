@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useSessionEvents } from './useSessionEvents';
+
+// Minimal EventSource stand-in (jsdom does not provide one)
+class MockEventSource {
+  static instances: MockEventSource[] = [];
+  url: string;
+  closed = false;
+  listeners = new Map<string, (e: MessageEvent) => void>();
+
+  constructor(url: string) {
+    this.url = url;
+    MockEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (e: MessageEvent) => void) {
+    this.listeners.set(type, listener);
+  }
+
+  removeEventListener(type: string) {
+    this.listeners.delete(type);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  emit(type: string, data: unknown) {
+    this.listeners.get(type)?.({ data: JSON.stringify(data) } as MessageEvent);
+  }
+}
+
+describe('useSessionEvents', () => {
+  beforeEach(() => {
+    MockEventSource.instances = [];
+    (globalThis as any).EventSource = MockEventSource;
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).EventSource;
+  });
+
+  it('should open a stream for the session', () => {
+    renderHook(() => useSessionEvents('session123', vi.fn()));
+
+    expect(MockEventSource.instances).toHaveLength(1);
+    expect(MockEventSource.instances[0].url).toBe('/api/events/session123');
+  });
+
+  it('should pass parsed events to the handler', () => {
+    const onEvent = vi.fn();
+    renderHook(() => useSessionEvents('session123', onEvent));
+
+    MockEventSource.instances[0].emit('participant-submitted', {
+      sessionId: 'session123',
+      participantId: 'p1',
+    });
+
+    expect(onEvent).toHaveBeenCalledWith({
+      type: 'participant-submitted',
+      data: { sessionId: 'session123', participantId: 'p1' },
+    });
+  });
+
+  it('should pass on deadline changes, including removed deadlines', () => {
+    const onEvent = vi.fn();
+    renderHook(() => useSessionEvents('session123', onEvent));
+
+    MockEventSource.instances[0].emit('deadline-changed', { sessionId: 'session123', closesAt: null });
+
+    expect(onEvent).toHaveBeenCalledWith({
+      type: 'deadline-changed',
+      data: { sessionId: 'session123', closesAt: null },
+    });
+  });
+
+  it('should call onOpen every time the stream connects, so missed events can be refetched', () => {
+    const onOpen = vi.fn();
+    renderHook(() => useSessionEvents('session123', vi.fn(), true, onOpen));
+    const source = MockEventSource.instances[0];
+
+    source.listeners.get('open')?.({} as MessageEvent);
+    expect(onOpen).toHaveBeenCalledTimes(1);
+
+    // EventSource reconnects on its own after a dropped connection
+    source.listeners.get('open')?.({} as MessageEvent);
+    expect(onOpen).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not open a stream when disabled', () => {
+    renderHook(() => useSessionEvents('session123', vi.fn(), false));
+
+    expect(MockEventSource.instances).toHaveLength(0);
+  });
+
+  it('should close the stream on unmount', () => {
+    const { unmount } = renderHook(() => useSessionEvents('session123', vi.fn()));
+
+    unmount();
+
+    expect(MockEventSource.instances[0].closed).toBe(true);
+  });
+});
@@ -0,0 +1,80 @@
+import { useEffect, useRef } from 'react';
+
+export type SessionEventType =
+  | 'participant-joined'
+  | 'participant-submitted'
+  | 'participant-progress'
+  | 'session-closed'
+  | 'meal-selected'
+  | 'runoff-started'
+  | 'runoff-vote'
+  | 'deadline-changed';
+
+export interface SessionEvent {
+  type: SessionEventType;
+  data: {
+    sessionId: string;
+    participant?: { id: string; displayName: string; submitted: boolean };
+    participantId?: string;
+    mealId?: string;
+    mealIds?: string[];
+    ballotsCast?: number;
+    swiped?: number; // participant-progress: votes saved so far out of total
+    total?: number;
+    closesAt?: string | null; // deadline-changed: the new deadline, null when it was removed
+  };
+}
+
+const EVENT_TYPES: SessionEventType[] = [
+  'participant-joined',
+  'participant-submitted',
+  'participant-progress',
+  'session-closed',
+  'meal-selected',
+  'runoff-started',
+  'runoff-vote',
+  'deadline-changed',
+];
+
+// Subscribe to live session updates pushed by the server (Server-Sent Events).
+// The server keeps no backlog, so onOpen runs whenever the stream (re)connects: refetch there to pick
+// up whatever happened before the first connection or while the browser was reconnecting.
+export function useSessionEvents(
+  sessionId: string | undefined,
+  onEvent: (event: SessionEvent) => void,
+  enabled: boolean = true,
+  onOpen?: () => void
+) {
+  // Keep the latest handlers without reopening the stream on every render
+  const handlerRef = useRef(onEvent);
+  handlerRef.current = onEvent;
+  const openRef = useRef(onOpen);
+  openRef.current = onOpen;
+
+  useEffect(() => {
+    if (!sessionId || !enabled || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(`/api/events/${sessionId}`, { withCredentials: true });
+
+    const listeners = EVENT_TYPES.map((type) => {
+      const listener = (e: MessageEvent) => {
+        try {
+          handlerRef.current({ type, data: JSON.parse(e.data) });
+        } catch (error) {
+          console.error('Error parsing session event:', error);
+        }
+      };
+      source.addEventListener(type, listener);
+      return { type, listener };
+    });
+
+    const openListener = () => openRef.current?.();
+    source.addEventListener('open', openListener);
+
+    return () => {
+      listeners.forEach(({ type, listener }) => source.removeEventListener(type, listener));
+      source.removeEventListener('open', openListener);
+      source.close();
+    };
+  }, [sessionId, enabled]);
+}
@@ -1,8 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { Dashboard } from './Dashboard';
-import { mealsApi, sessionsApi } from '../api/client';
+import { mealsApi, sessionsApi, templatesApi } from '../api/client';
 
 vi.mock('../hooks/useAuth', () => ({
   useAuth: () => ({
@@ -17,10 +17,36 @@ vi.mock('../api/client', () => ({
     create: vi.fn(),
     update: vi.fn(),
     delete: vi.fn(),
+    uploadImage: vi.fn(),
+    removeImage: vi.fn(),
+    exportUrl: (format: string) => `/api/meals/export?format=${format}`,
+    import: vi.fn(),
   },
   sessionsApi: {
     list: vi.fn(),
     create: vi.fn(),
+    suggest: vi.fn(),
+  },
+  playlistsApi: {
+    list: vi.fn().mockResolvedValue([]),
+  },
+  templatesApi: {
+    list: vi.fn().mockResolvedValue([]),
+    create: vi.fn(),
+  },
+  webhooksApi: {
+    list: vi.fn().mockResolvedValue([]),
+  },
+  statsApi: {
+    people: vi.fn().mockResolvedValue([]),
+    get: vi.fn().mockResolvedValue({
+      totals: { sessions: 7, closedSessions: 6, participants: 19, mealsPicked: 5 },
+      mostPicked: [],
+      meals: [],
+      participation: [],
+      notRecentlyPicked: [],
+      notRecentWeeks: 4,
+    }),
   },
 }));
 
@@ -903,3 +929,669 @@ describe('Dashboard - Quick Add Meal in Create Session', () => {
     });
   });
 });
+
+describe('Dashboard - Session Scoring Mode', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mealsApi.list).mockResolvedValue(mockMeals);
+    vi.mocked(sessionsApi.list).mockResolvedValue([]);
+  });
+
+  it('should create session with the chosen scoring mode', async () => {
+    vi.mocked(sessionsApi.create).mockResolvedValue({
+      id: 'session1',
+      inviteCode: 'ABC123',
+      status: 'open',
+      scoringMode: 'veto',
+      mealCount: mockMeals.length,
+    });
+
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Create Session')).toBeDefined();
+    });
+
+    fireEvent.click(screen.getByText('Create Session'));
+
+    fireEvent.change(screen.getByLabelText('Scoring'), { target: { value: 'veto' } });
+    expect(screen.getByText('Any no rules a meal out')).toBeDefined();
+
+    fireEvent.click(screen.getByText(`Create (${mockMeals.length} meals)`));
+
+    await waitFor(() => {
+      expect(sessionsApi.create).toHaveBeenCalledWith(
+        mockMeals.map((m) => m.id),
+        { scoringMode: 'veto' }
+      );
+    });
+  });
+
+  it('should pass a voting deadline when one is chosen', async () => {
+    vi.mocked(sessionsApi.create).mockResolvedValue({
+      id: 'session1',
+      inviteCode: 'ABC123',
+      status: 'open',
+      scoringMode: 'approval',
+      mealCount: mockMeals.length,
+    });
+
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Create Session')).toBeDefined();
+    });
+
+    fireEvent.click(screen.getByText('Create Session'));
+
+    fireEvent.change(screen.getByLabelText('Voting closes'), { target: { value: '30' } });
+    fireEvent.click(screen.getByLabelText('Close as soon as everyone who joined has voted'));
+
+    const before = Date.now();
+    fireEvent.click(screen.getByText(`Create (${mockMeals.length} meals)`));
+
+    await waitFor(() => {
+      expect(sessionsApi.create).toHaveBeenCalled();
+    });
+
+    const [, options] = vi.mocked(sessionsApi.create).mock.calls[0];
+    expect(options?.autoCloseWhenComplete).toBe(true);
+    const closesAt = new Date(options!.closesAt!).getTime();
+    expect(closesAt).toBeGreaterThanOrEqual(before + 30 * 60 * 1000);
+    expect(closesAt).toBeLessThan(before + 31 * 60 * 1000);
+  });
+});
+
+describe('Dashboard - Tags and Filtering', () => {
+  const taggedMeals = [
+    { ...mockMeals[0], tags: ['italian', 'quick'] },
+    { ...mockMeals[1], tags: ['mexican', 'quick'] },
+    { ...mockMeals[2], tags: ['italian'] },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mealsApi.list).mockResolvedValue(taggedMeals);
+    vi.mocked(sessionsApi.list).mockResolvedValue([]);
+  });
+
+  it('should filter the meal library by search text', async () => {
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Pizza');
+
+    fireEvent.change(screen.getByLabelText('Search meals'), { target: { value: 'spaghetti' } });
+
+    // Filtered-out cards animate away before leaving the DOM
+    await waitFor(() => {
+      expect(screen.queryByText('Pizza')).toBeNull();
+      expect(screen.queryByText('Tacos')).toBeNull();
+    });
+    expect(screen.getByText('Pasta')).toBeDefined();
+  });
+
+  it('should require every selected tag', async () => {
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Pizza');
+
+    fireEvent.click(screen.getByRole('button', { name: 'italian' }));
+    await waitFor(() => {
+      expect(screen.queryByText('Tacos')).toBeNull();
+    });
+    expect(screen.getByText('Pizza')).toBeDefined();
+    expect(screen.getByText('Pasta')).toBeDefined();
+
+    fireEvent.click(screen.getByRole('button', { name: 'quick' }));
+    await waitFor(() => {
+      expect(screen.queryByText('Pasta')).toBeNull();
+    });
+    expect(screen.getByText('Pizza')).toBeDefined();
+  });
+
+  it('should only clear the meals shown by the picker filter', async () => {
+    vi.mocked(sessionsApi.create).mockResolvedValue({
+      id: 'session1',
+      inviteCode: 'ABC123',
+      status: 'open',
+      scoringMode: 'approval',
+      mealCount: 1,
+    });
+
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Pizza');
+    fireEvent.click(screen.getByText('Create Session'));
+
+    // The picker has its own filter bar after the library's
+    const tagGroups = screen.getAllByRole('group', { name: 'Filter by tag' });
+    const pickerTags = tagGroups[tagGroups.length - 1];
+    fireEvent.click(within(pickerTags).getByRole('button', { name: 'italian' }));
+    fireEvent.click(screen.getByText('Clear shown'));
+
+    fireEvent.click(screen.getByText('Create (1 meals)'));
+
+    await waitFor(() => {
+      expect(sessionsApi.create).toHaveBeenCalledWith(['2'], { scoringMode: 'approval' });
+    });
+  });
+
+  it('should send tags when adding a meal', async () => {
+    vi.mocked(mealsApi.create).mockResolvedValue({
+      id: '4',
+      title: 'Curry',
+      description: null,
+      type: 'meal',
+      tags: ['spicy'],
+      pickCount: 0,
+    });
+
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Pizza');
+    fireEvent.click(screen.getByRole('button', { name: 'Add Meal' }));
+
+    fireEvent.change(screen.getByPlaceholderText('e.g., Tacos'), { target: { value: 'Curry' } });
+    const tagInput = screen.getByLabelText('Tags');
+    fireEvent.change(tagInput, { target: { value: 'Spicy' } });
+    fireEvent.keyDown(tagInput, { key: 'Enter' });
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Add Meal' }).pop()!);
+
+    await waitFor(() => {
+      expect(mealsApi.create).toHaveBeenCalledWith('Curry', undefined, ['spicy']);
+    });
+  });
+});
+
+describe('Dashboard - Session Templates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mealsApi.list).mockResolvedValue(mockMeals);
+    vi.mocked(sessionsApi.list).mockResolvedValue([]);
+  });
+
+  it('should save the selected meals as a weekday template', async () => {
+    vi.mocked(templatesApi.create).mockResolvedValue({
+      id: 'template1',
+      name: 'Office Lunch',
+      mealIds: ['1', '2', '3'],
+      playlistId: null,
+      playlistName: null,
+      scoringMode: 'approval',
+      maxParticipants: null,
+      schedule: '0 11 * * 1-5',
+      autoCloseMinutes: 45,
+      active: true,
+      lastRunAt: null,
+      nextRunAt: null,
+      sessionCount: 0,
+    });
+
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Pizza');
+    fireEvent.click(screen.getByText('Create Session'));
+    fireEvent.click(screen.getByText('Save as Template (reuse or schedule)'));
+
+    fireEvent.change(screen.getByLabelText('Name *'), { target: { value: 'Office Lunch' } });
+    fireEvent.change(screen.getByLabelText('Repeat'), { target: { value: 'weekdays' } });
+    fireEvent.change(screen.getByLabelText('Start time'), { target: { value: '11:00' } });
+    fireEvent.change(screen.getByLabelText('Auto-close after (min)'), { target: { value: '45' } });
+    fireEvent.click(screen.getByText('Save Template'));
+
+    await waitFor(() => {
+      expect(templatesApi.create).toHaveBeenCalledWith({
+        name: 'Office Lunch',
+        scoringMode: 'approval',
+        schedule: '0 11 * * 1-5',
+        autoCloseMinutes: 45,
+        maxParticipants: null,
+        mealIds: ['1', '2', '3'],
+      });
+    });
+  });
+});
+
+describe('Dashboard - Recipes', () => {
+  const recipeMeal = {
+    ...mockMeals[0],
+    ingredients: [
+      { quantity: 1.5, unit: 'cup', name: 'flour' },
+      { quantity: null, unit: null, name: 'salt' },
+    ],
+    steps: ['Mix', 'Bake'],
+    prepMinutes: 15,
+    cookMinutes: 90,
+    difficulty: 'medium' as const,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mealsApi.list).mockResolvedValue([recipeMeal, ...mockMeals.slice(1)]);
+    vi.mocked(sessionsApi.list).mockResolvedValue([]);
+  });
+
+  it('should show the recipe in the meal detail view', async () => {
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    expect(await screen.findByText('Prep 15 min · Cook 1 h 30 min · Medium')).toBeDefined();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Pizza' }));
+
+    expect(screen.getByText('1½ cup flour')).toBeDefined();
+    expect(screen.getByText('salt')).toBeDefined();
+    expect(screen.getByText('Bake')).toBeDefined();
+  });
+
+  it('should send recipe details when adding a meal', async () => {
+    vi.mocked(mealsApi.create).mockResolvedValue({
+      id: '4',
+      title: 'Pancakes',
+      description: null,
+      type: 'meal',
+      pickCount: 0,
+    });
+
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Pizza');
+    fireEvent.click(screen.getByRole('button', { name: 'Add Meal' }));
+
+    fireEvent.change(screen.getByPlaceholderText('e.g., Tacos'), { target: { value: 'Pancakes' } });
+    fireEvent.change(screen.getByLabelText('Prep (min)'), { target: { value: '10' } });
+    fireEvent.change(screen.getByLabelText('Difficulty'), { target: { value: 'easy' } });
+    fireEvent.click(screen.getByText('+ Add ingredient'));
+    fireEvent.change(screen.getByLabelText('Ingredient 1 quantity'), { target: { value: '1 1/2' } });
+    fireEvent.change(screen.getByLabelText('Ingredient 1 unit'), { target: { value: 'cup' } });
+    fireEvent.change(screen.getByLabelText('Ingredient 1 name'), { target: { value: 'milk' } });
+    fireEvent.click(screen.getByText('+ Add step'));
+    fireEvent.change(screen.getByLabelText('Step 1'), { target: { value: 'Whisk' } });
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Add Meal' }).pop()!);
+
+    await waitFor(() => {
+      expect(mealsApi.create).toHaveBeenCalledWith('Pancakes', undefined, undefined, {
+        ingredients: [{ quantity: 1.5, unit: 'cup', name: 'milk' }],
+        steps: ['Whisk'],
+        prepMinutes: 10,
+        cookMinutes: null,
+        difficulty: 'easy',
+        servings: null,
+      });
+    });
+  });
+
+  it('should only send recipe fields when they changed', async () => {
+    vi.mocked(mealsApi.update).mockResolvedValue({ ...recipeMeal, title: 'Pizza Night' });
+
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Pizza');
+    fireEvent.click(screen.getAllByTitle('Edit meal')[0]);
+    fireEvent.change(screen.getByDisplayValue('Pizza'), { target: { value: 'Pizza Night' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(mealsApi.update).toHaveBeenCalledWith('1', {
+        title: 'Pizza Night',
+        description: recipeMeal.description,
+      });
+    });
+  });
+});
+
+describe('Dashboard - Photos', () => {
+  const photoMeal = {
+    ...mockMeals[0],
+    imageUrl: '/api/images/abc-card.webp',
+    thumbnailUrl: '/api/images/abc-thumbnail.webp',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mealsApi.list).mockResolvedValue([photoMeal, ...mockMeals.slice(1)]);
+    vi.mocked(sessionsApi.list).mockResolvedValue([]);
+  });
+
+  it('should upload the chosen photo after adding a meal', async () => {
+    vi.mocked(mealsApi.create).mockResolvedValue({
+      id: '4',
+      title: 'Curry',
+      description: null,
+      type: 'meal',
+      pickCount: 0,
+    });
+    vi.mocked(mealsApi.uploadImage).mockResolvedValue({
+      imageUrl: '/api/images/new-card.webp',
+      thumbnailUrl: '/api/images/new-thumbnail.webp',
+    });
+    const file = new File(['photo'], 'curry.jpg', { type: 'image/jpeg' });
+
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Pizza');
+    fireEvent.click(screen.getByRole('button', { name: 'Add Meal' }));
+    fireEvent.change(screen.getByPlaceholderText('e.g., Tacos'), { target: { value: 'Curry' } });
+    fireEvent.change(screen.getByLabelText('Photo (optional)'), { target: { files: [file] } });
+    fireEvent.click(screen.getAllByRole('button', { name: 'Add Meal' }).pop()!);
+
+    await waitFor(() => {
+      expect(mealsApi.uploadImage).toHaveBeenCalledWith('4', file);
+    });
+    expect(mealsApi.create).toHaveBeenCalledWith('Curry', undefined, undefined);
+  });
+
+  it('should remove the photo when editing a meal', async () => {
+    vi.mocked(mealsApi.update).mockResolvedValue(photoMeal);
+    vi.mocked(mealsApi.removeImage).mockResolvedValue({ message: 'Image removed successfully' });
+
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Pizza');
+    fireEvent.click(screen.getAllByTitle('Edit meal')[0]);
+    expect(screen.getByAltText('Current photo').getAttribute('src')).toBe(photoMeal.thumbnailUrl);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove photo' }));
+    expect(screen.queryByAltText('Current photo')).toBeNull();
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(mealsApi.removeImage).toHaveBeenCalledWith('1');
+    });
+    expect(mealsApi.uploadImage).not.toHaveBeenCalled();
+  });
+});
+
+describe('Dashboard - Restaurants', () => {
+  const restaurantMeal = {
+    id: '9',
+    title: 'Noodle Bar',
+    description: null,
+    type: 'restaurant',
+    cuisine: 'Thai',
+    priceTier: 2,
+    hours: [{ day: 1, open: '11:00', close: '22:00' }],
+    openNow: false,
+    pickCount: 0,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mealsApi.list).mockResolvedValue([restaurantMeal, ...mockMeals]);
+    vi.mocked(sessionsApi.list).mockResolvedValue([]);
+  });
+
+  it('should show cuisine, price and open status on restaurant cards', async () => {
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    expect(await screen.findByText('Thai · $$')).toBeDefined();
+    expect(screen.getByText('Closed')).toBeDefined();
+  });
+
+  it('should send restaurant details when adding a restaurant', async () => {
+    vi.mocked(mealsApi.create).mockResolvedValue({ ...restaurantMeal, id: '10', title: 'Taco Stand' });
+
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Pizza');
+    fireEvent.click(screen.getByRole('button', { name: 'Add Meal' }));
+    fireEvent.click(screen.getByRole('radio', { name: 'Restaurant' }));
+
+    fireEvent.change(screen.getByPlaceholderText('e.g., Tacos'), { target: { value: 'Taco Stand' } });
+    fireEvent.change(screen.getByLabelText('Address'), { target: { value: '1 Main St' } });
+    fireEvent.change(screen.getByLabelText('Price'), { target: { value: '1' } });
+    fireEvent.click(screen.getByText('+ Add hours'));
+    fireEvent.change(screen.getByLabelText('Hours 1 opens'), { target: { value: '17:00' } });
+    fireEvent.change(screen.getByLabelText('Hours 1 closes'), { target: { value: '01:00' } });
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Add Meal' }).pop()!);
+
+    await waitFor(() => {
+      expect(mealsApi.create).toHaveBeenCalledWith('Taco Stand', undefined, undefined, {
+        type: 'restaurant',
+        address: '1 Main St',
+        cuisine: null,
+        priceTier: 1,
+        hours: [{ day: 1, open: '17:00', close: '01:00' }],
+        phone: null,
+        websiteUrl: null,
+      });
+    });
+  });
+
+  it('should ask the server to skip closed restaurants', async () => {
+    vi.mocked(sessionsApi.create).mockResolvedValue({
+      id: 'session1',
+      inviteCode: 'ABC123',
+      status: 'open',
+      scoringMode: 'approval',
+      mealCount: 3,
+      closedMealIds: ['9'],
+    });
+
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Pizza');
+    fireEvent.click(screen.getByText('Create Session'));
+    fireEvent.click(screen.getByLabelText('Only include restaurants that are open now'));
+    fireEvent.click(screen.getByText(`Create (${mockMeals.length + 1} meals)`));
+
+    await waitFor(() => {
+      expect(sessionsApi.create).toHaveBeenCalledWith(['9', ...mockMeals.map((m) => m.id)], {
+        scoringMode: 'approval',
+        openNow: true,
+      });
+    });
+  });
+});
+
+describe('Dashboard - Stats tab', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mealsApi.list).mockResolvedValue(mockMeals);
+    vi.mocked(sessionsApi.list).mockResolvedValue([]);
+  });
+
+  it('should switch between the library and stats', async () => {
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Pizza');
+    fireEvent.click(screen.getByRole('tab', { name: 'Stats' }));
+
+    expect(await screen.findByText('19')).toBeDefined();
+    expect(screen.queryByText('Pizza')).toBeNull();
+
+    fireEvent.click(screen.getByRole('tab', { name: 'Library' }));
+    expect(screen.getByText('Pizza')).toBeDefined();
+  });
+});
+
+describe('Dashboard - Session suggestions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mealsApi.list).mockResolvedValue(mockMeals);
+    vi.mocked(sessionsApi.list).mockResolvedValue([]);
+  });
+
+  it('should preselect the suggested pool and let the host adjust it', async () => {
+    vi.mocked(sessionsApi.suggest).mockResolvedValue({
+      seed: 'abc123',
+      meals: [
+        { mealId: '3', title: 'Pasta', type: 'meal', tags: [], thumbnailUrl: null, weight: 1.26, reasons: ['Not voted on yet'] },
+        { mealId: '1', title: 'Pizza', type: 'meal', tags: [], thumbnailUrl: null, weight: 0.9, reasons: [] },
+      ],
+    });
+    vi.mocked(sessionsApi.create).mockResolvedValue({
+      id: 'session1',
+      inviteCode: 'ABC123',
+      status: 'open',
+      scoringMode: 'approval',
+      mealCount: 1,
+    });
+
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Create Session')).toBeDefined();
+    });
+    fireEvent.click(screen.getByText('Create Session'));
+
+    fireEvent.change(screen.getByLabelText('Number of meals to suggest'), { target: { value: '2' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Suggest' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Create (2 meals)')).toBeDefined();
+    });
+    expect(sessionsApi.suggest).toHaveBeenCalledWith({ count: 2 });
+    expect(screen.getByText(/Not voted on yet/)).toBeDefined();
+    expect(screen.getByRole('button', { name: 'Shuffle' })).toBeDefined();
+
+    // Untick Pizza in the picker before creating
+    const pizzaCheckbox = screen.getAllByRole('checkbox').find(
+      (box) => box.closest('label')?.textContent?.includes('Pizza')
+    )!;
+    fireEvent.click(pizzaCheckbox);
+    fireEvent.click(screen.getByText('Create (1 meals)'));
+
+    await waitFor(() => {
+      expect(sessionsApi.create).toHaveBeenCalledWith(['3'], { scoringMode: 'approval' });
+    });
+  });
+});
+
+describe('Dashboard - Allergens', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mealsApi.list).mockResolvedValue([
+      { ...mockMeals[0], allergens: ['gluten', 'dairy'] },
+      ...mockMeals.slice(1),
+    ]);
+    vi.mocked(sessionsApi.list).mockResolvedValue([]);
+  });
+
+  it('should list allergens on meal cards', async () => {
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    expect(await screen.findByText('Contains Gluten, Dairy')).toBeDefined();
+  });
+
+  it('should save allergens picked when adding a meal', async () => {
+    vi.mocked(mealsApi.create).mockResolvedValue({
+      id: '4',
+      title: 'Satay',
+      description: null,
+      type: 'meal',
+      allergens: ['peanuts'],
+      pickCount: 0,
+    });
+
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Pizza');
+    fireEvent.click(screen.getByRole('button', { name: 'Add Meal' }));
+    fireEvent.change(screen.getByPlaceholderText('e.g., Tacos'), { target: { value: 'Satay' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Peanuts' }));
+    expect(screen.getByRole('button', { name: 'Peanuts' }).getAttribute('aria-pressed')).toBe('true');
+    fireEvent.click(screen.getAllByRole('button', { name: 'Add Meal' }).pop()!);
+
+    await waitFor(() => {
+      expect(mealsApi.create).toHaveBeenCalledWith('Satay', undefined, undefined, { allergens: ['peanuts'] });
+    });
+  });
+
+  it('should only send allergens when they change while editing', async () => {
+    vi.mocked(mealsApi.update).mockResolvedValue({ ...mockMeals[0], allergens: ['gluten'] });
+
+    render(
+      <BrowserRouter>
+        <Dashboard />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Pizza');
+    fireEvent.click(screen.getAllByTitle('Edit meal')[0]);
+    fireEvent.click(screen.getByRole('button', { name: 'Dairy' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(mealsApi.update).toHaveBeenCalledWith('1', expect.objectContaining({ allergens: ['gluten'] }));
+    });
+  });
+});
@@ -2,8 +2,40 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuth } from '../hooks/useAuth';
-import { mealsApi, sessionsApi, Meal, Session } from '../api/client';
+import { mealsApi, sessionsApi, Meal, Session, ScoringMode, MealType, MealDetails, Allergen } from '../api/client';
 import ConfirmModal from '../components/ConfirmModal';
+import TagInput from '../components/TagInput';
+import RecipeEditor, { RecipeDraft, EMPTY_RECIPE_DRAFT, toRecipeDraft, fromRecipeDraft } from '../components/RecipeEditor';
+import RecipeDetails, { hasRecipe, describeRecipe } from '../components/RecipeDetails';
+import PhotoInput from '../components/PhotoInput';
+import MealTypeToggle from '../components/MealTypeToggle';
+import RestaurantEditor, {
+  RestaurantDraft,
+  EMPTY_RESTAURANT_DRAFT,
+  toRestaurantDraft,
+  fromRestaurantDraft,
+} from '../components/RestaurantEditor';
+import RestaurantDetails, { describeRestaurant, OpenNowBadge } from '../components/RestaurantDetails';
+import AllergenPicker from '../components/AllergenPicker';
+import AllergenBadges, { formatAllergens } from '../components/DietaryDetails';
+import PlaylistsPanel from '../components/PlaylistsPanel';
+import TemplatesPanel from '../components/TemplatesPanel';
+import StatsPanel from '../components/StatsPanel';
+import WebhooksPanel from '../components/WebhooksPanel';
+import MealImportWizard from '../components/MealImportWizard';
+import RecipeLinkImport from '../components/RecipeLinkImport';
+import SuggestionPicker from '../components/SuggestionPicker';
+import DeadlinePicker, { DeadlineChoice, NO_DEADLINE, toDeadlineOptions } from '../components/DeadlinePicker';
+import MealFilterBar, { MealFilter, EMPTY_MEAL_FILTER, filterMeals, collectTags } from '../components/MealFilterBar';
+
+const SCORING_MODES: Array<{ value: ScoringMode; label: string; description: string }> = [
+  { value: 'approval', label: 'Approval', description: 'Yes and maybe count the same' },
+  { value: 'weighted-maybe', label: 'Weighted maybe', description: 'A maybe counts as half a yes' },
+  { value: 'veto', label: 'Veto', description: 'Any no rules a meal out' },
+  { value: 'borda', label: 'Ranked', description: 'Meals earn a point for every meal ranked below them' },
+];
+
+const TAB_LABELS = { library: 'Library', stats: 'Stats', webhooks: 'Webhooks' } as const;
 
 export function Dashboard() {
   const { user, logout } = useAuth();
@@ -15,12 +47,27 @@ export function Dashboard() {
 
   // Modal states
   const [showAddMeal, setShowAddMeal] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [showCreateSession, setShowCreateSession] = useState(false);
   const [newMealTitle, setNewMealTitle] = useState('');
   const [newMealDescription, setNewMealDescription] = useState('');
+  const [newMealTags, setNewMealTags] = useState<string[]>([]);
+  const [newMealRecipe, setNewMealRecipe] = useState<RecipeDraft>(EMPTY_RECIPE_DRAFT);
+  const [newMealImage, setNewMealImage] = useState<File | null>(null);
+  const [newMealType, setNewMealType] = useState<MealType>('meal');
+  const [newMealRestaurant, setNewMealRestaurant] = useState<RestaurantDraft>(EMPTY_RESTAURANT_DRAFT);
+  const [newMealAllergens, setNewMealAllergens] = useState<Allergen[]>([]);
   const [selectedMealIds, setSelectedMealIds] = useState<string[]>([]);
+  const [scoringMode, setScoringMode] = useState<ScoringMode>('approval');
+  const [deadline, setDeadline] = useState<DeadlineChoice>(NO_DEADLINE);
+  const [openNowOnly, setOpenNowOnly] = useState(false);
+  const [templateDraft, setTemplateDraft] = useState<{ mealIds: string[]; scoringMode: ScoringMode } | null>(null);
   const [quickAddTitle, setQuickAddTitle] = useState('');
 
+  // Meal library and session picker filters
+  const [libraryFilter, setLibraryFilter] = useState<MealFilter>(EMPTY_MEAL_FILTER);
+  const [pickerFilter, setPickerFilter] = useState<MealFilter>(EMPTY_MEAL_FILTER);
+
   // Edit mode states
   const [editMode, setEditMode] = useState(false);
   const [selectedForDeletion, setSelectedForDeletion] = useState<string[]>([]);
@@ -34,6 +81,18 @@ export function Dashboard() {
   const [editingMeal, setEditingMeal] = useState<Meal | null>(null);
   const [editTitle, setEditTitle] = useState('');
   const [editDescription, setEditDescription] = useState('');
+  const [editTags, setEditTags] = useState<string[]>([]);
+  const [editRecipe, setEditRecipe] = useState<RecipeDraft>(EMPTY_RECIPE_DRAFT);
+  const [editImage, setEditImage] = useState<File | null>(null);
+  const [removeEditImage, setRemoveEditImage] = useState(false);
+  const [editType, setEditType] = useState<MealType>('meal');
+  const [editRestaurant, setEditRestaurant] = useState<RestaurantDraft>(EMPTY_RESTAURANT_DRAFT);
+  const [editAllergens, setEditAllergens] = useState<Allergen[]>([]);
+
+  const [activeTab, setActiveTab] = useState<'library' | 'stats' | 'webhooks'>('library');
+
+  // Meal detail modal
+  const [viewingMeal, setViewingMeal] = useState<Meal | null>(null);
 
   // Animation states
   const [deletingMealIds, setDeletingMealIds] = useState<string[]>([]);
@@ -57,23 +116,68 @@ export function Dashboard() {
     }
   };
 
+  const handleImported = async (count: number) => {
+    if (count === 0) return;
+    try {
+      setMeals(await mealsApi.list());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load meals');
+    }
+  };
+
   const handleAddMeal = async (e: React.FormEvent) => {
     e.preventDefault();
+    const recipe = fromRecipeDraft(newMealRecipe);
+
     try {
-      const meal = await mealsApi.create(newMealTitle, newMealDescription || undefined);
-      setMeals([meal, ...meals]);
-      setNewMealTitle('');
-      setNewMealDescription('');
-      setShowAddMeal(false);
+      const tags = newMealTags.length > 0 ? newMealTags : undefined;
+      const details: MealDetails = {
+        ...(newMealType === 'restaurant'
+          ? { type: 'restaurant', ...fromRestaurantDraft(newMealRestaurant) }
+          : hasRecipe(recipe) ? recipe : {}),
+        ...(newMealAllergens.length > 0 ? { allergens: newMealAllergens } : {}),
+      };
+      let meal = Object.keys(details).length > 0
+        ? await mealsApi.create(newMealTitle, newMealDescription || undefined, tags, details)
+        : await mealsApi.create(newMealTitle, newMealDescription || undefined, tags);
+      if (newMealImage) {
+        // The photo can only be uploaded once the meal exists
+        try {
+          meal = { ...meal, ...(await mealsApi.uploadImage(meal.id, newMealImage)) };
+        } catch (err) {
+          setError(err instanceof Error ? `Meal added, but the photo failed: ${err.message}` : 'Failed to upload photo');
+        }
+      }
+      handleMealAdded(meal);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to add meal');
     }
   };
 
+  const handleMealAdded = (meal: Meal) => {
+    setMeals((current) => [meal, ...current]);
+    setNewMealTitle('');
+    setNewMealDescription('');
+    setNewMealTags([]);
+    setNewMealRecipe(EMPTY_RECIPE_DRAFT);
+    setNewMealImage(null);
+    setNewMealType('meal');
+    setNewMealRestaurant(EMPTY_RESTAURANT_DRAFT);
+    setNewMealAllergens([]);
+    setShowAddMeal(false);
+  };
+
   const openEditMeal = (meal: Meal) => {
     setEditingMeal(meal);
     setEditTitle(meal.title);
     setEditDescription(meal.description || '');
+    setEditTags(meal.tags || []);
+    setEditRecipe(toRecipeDraft(meal));
+    setEditImage(null);
+    setRemoveEditImage(false);
+    setEditType(meal.type === 'restaurant' ? 'restaurant' : 'meal');
+    setEditRestaurant(toRestaurantDraft(meal));
+    setEditAllergens(meal.allergens ?? []);
     setShowEditMeal(true);
   };
 
@@ -81,20 +185,63 @@ export function Dashboard() {
     e.preventDefault();
     if (!editingMeal) return;
 
+    const originalTags = editingMeal.tags || [];
+    const tagsChanged =
+      editTags.length !== originalTags.length || editTags.some((t) => !originalTags.includes(t));
+    const recipe = fromRecipeDraft(editRecipe);
+    const recipeChanged =
+      JSON.stringify(recipe) !== JSON.stringify(fromRecipeDraft(toRecipeDraft(editingMeal)));
+    const typeChanged = editType !== editingMeal.type;
+    const restaurant = fromRestaurantDraft(editRestaurant);
+    const restaurantChanged =
+      JSON.stringify(restaurant) !== JSON.stringify(fromRestaurantDraft(toRestaurantDraft(editingMeal)));
+    const originalAllergens = editingMeal.allergens ?? [];
+    const allergensChanged =
+      editAllergens.length !== originalAllergens.length || editAllergens.some((a) => !originalAllergens.includes(a));
+
     try {
-      await mealsApi.update(editingMeal.id, {
+      const updated = await mealsApi.update(editingMeal.id, {
         title: editTitle,
         description: editDescription || undefined,
+        ...(tagsChanged ? { tags: editTags } : {}),
+        ...(recipeChanged ? recipe : {}),
+        ...(typeChanged ? { type: editType } : {}),
+        ...(restaurantChanged ? restaurant : {}),
+        ...(allergensChanged ? { allergens: editAllergens } : {}),
       });
+      let image = {};
+      if (editImage) {
+        image = await mealsApi.uploadImage(editingMeal.id, editImage);
+      } else if (removeEditImage && editingMeal.imageUrl) {
+        await mealsApi.removeImage(editingMeal.id);
+        image = { imageUrl: null, thumbnailUrl: null };
+      }
       setMeals(meals.map((m) =>
         m.id === editingMeal.id
-          ? { ...m, title: editTitle, description: editDescription || null }
+          ? {
+              ...m,
+              title: editTitle,
+              description: editDescription || null,
+              tags: updated?.tags ?? editTags,
+              ...(recipeChanged ? recipe : {}),
+              ...(restaurantChanged ? restaurant : {}),
+              allergens: updated?.allergens ?? editAllergens,
+              type: editType,
+              openNow: updated?.openNow ?? m.openNow,
+              ...image,
+            }
           : m
       ));
       setShowEditMeal(false);
       setEditingMeal(null);
       setEditTitle('');
       setEditDescription('');
+      setEditTags([]);
+      setEditRecipe(EMPTY_RECIPE_DRAFT);
+      setEditImage(null);
+      setRemoveEditImage(false);
+      setEditRestaurant(EMPTY_RESTAURANT_DRAFT);
+      setEditAllergens([]);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update meal');
     }
@@ -174,7 +321,11 @@ export function Dashboard() {
     }
 
     try {
-      const session = await sessionsApi.create(selectedMealIds);
+      const session = await sessionsApi.create(selectedMealIds, {
+        scoringMode,
+        ...toDeadlineOptions(deadline),
+        ...(openNowOnly && selectedRestaurantCount > 0 ? { openNow: true } : {}),
+      });
       navigate(`/session/${session.id}`);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create session');
@@ -188,15 +339,34 @@ export function Dashboard() {
 
   const openCreateSession = () => {
     setSelectedMealIds(meals.map((m) => m.id)); // Select all by default
+    setScoringMode('approval');
+    setDeadline(NO_DEADLINE);
+    setOpenNowOnly(false);
+    setPickerFilter(EMPTY_MEAL_FILTER);
     setShowCreateSession(true);
   };
 
+  const openSaveAsTemplate = () => {
+    setTemplateDraft({ mealIds: selectedMealIds, scoringMode });
+    setShowCreateSession(false);
+  };
+
   const toggleMealSelection = (id: string) => {
     setSelectedMealIds((prev) =>
       prev.includes(id) ? prev.filter((mId) => mId !== id) : [...prev, id]
     );
   };
 
+  // Bulk selection only touches the meals currently shown by the picker filter
+  const selectShownMeals = (shown: Meal[]) => {
+    setSelectedMealIds((prev) => Array.from(new Set([...prev, ...shown.map((m) => m.id)])));
+  };
+
+  const clearShownMeals = (shown: Meal[]) => {
+    const shownIds = shown.map((m) => m.id);
+    setSelectedMealIds((prev) => prev.filter((id) => !shownIds.includes(id)));
+  };
+
   const handleQuickAddMeal = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!quickAddTitle.trim()) return;
@@ -211,6 +381,13 @@ export function Dashboard() {
     }
   };
 
+  const availableTags = collectTags(meals);
+  const libraryMeals = filterMeals(meals, libraryFilter);
+  const pickerMeals = filterMeals(meals, pickerFilter);
+  const selectedRestaurantCount = meals.filter(
+    (m) => m.type === 'restaurant' && selectedMealIds.includes(m.id)
+  ).length;
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -244,204 +421,325 @@ export function Dashboard() {
           </div>
         )}
 
-        {/* Meals Section */}
-        <section className="mb-12">
-          <div className="flex justify-between items-center mb-4">
-            <div className="flex items-center gap-3">
-              <h2 className="text-2xl font-bold">My Meals</h2>
-              {meals.length > 0 && (
-                <>
-                  <button
-                    onClick={toggleEditMode}
-                    className="text-sm text-primary-600 hover:text-primary-700 font-medium"
-                  >
-                    {editMode ? 'Done' : 'Edit'}
-                  </button>
-                  {editMode && selectedForDeletion.length > 0 && (
-                    <button
-                      onClick={confirmBulkDelete}
-                      className="text-sm text-red-600 hover:text-red-700 font-medium"
-                    >
-                      Delete Selected ({selectedForDeletion.length})
+        {/* Tabs */}
+        <div className="flex gap-6 border-b mb-8" role="tablist">
+          {(['library', 'stats', 'webhooks'] as const).map((tab) => (
+            <button
+              key={tab}
+              role="tab"
+              aria-selected={activeTab === tab}
+              onClick={() => setActiveTab(tab)}
+              className={`pb-2 -mb-px font-medium border-b-2 transition-colors ${
+                activeTab === tab
+                  ? 'border-primary-600 text-primary-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-900'
+              }`}
+            >
+              {TAB_LABELS[tab]}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === 'stats' ? (
+          <StatsPanel onError={setError} />
+        ) : activeTab === 'webhooks' ? (
+          <WebhooksPanel onError={setError} />
+        ) : (
+          <>
+            {/* Meals Section */}
+            <section className="mb-12">
+              <div className="flex justify-between items-center mb-4">
+                <div className="flex items-center gap-3">
+                  <h2 className="text-2xl font-bold">My Meals</h2>
+                  {meals.length > 0 && (
+                    <>
+                      <button
+                        onClick={toggleEditMode}
+                        className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+                      >
+                        {editMode ? 'Done' : 'Edit'}
+                      </button>
+                      {editMode && selectedForDeletion.length > 0 && (
+                        <button
+                          onClick={confirmBulkDelete}
+                          className="text-sm text-red-600 hover:text-red-700 font-medium"
+                        >
+                          Delete Selected ({selectedForDeletion.length})
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+                {!editMode && (
+                  <div className="flex gap-2">
+                    <button onClick={() => setShowImport(true)} className="btn btn-secondary">
+                      Import
                     </button>
+                    <button onClick={() => setShowAddMeal(true)} className="btn btn-primary">
+                      Add Meal
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {meals.length === 0 ? (
+                <div className="card text-center py-12">
+                  <p className="text-gray-500 mb-4">No meals yet. Add some to get started!</p>
+                  <div className="flex justify-center gap-3">
+                    <button onClick={() => setShowAddMeal(true)} className="btn btn-primary">
+                      Add Your First Meal
+                    </button>
+                    <button onClick={() => setShowImport(true)} className="btn btn-secondary">
+                      Import from a File
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="mb-4">
+                    <MealFilterBar
+                      filter={libraryFilter}
+                      onChange={setLibraryFilter}
+                      availableTags={availableTags}
+                    />
+                  </div>
+                  {libraryMeals.length === 0 && (
+                    <div className="card text-center py-8">
+                      <p className="text-gray-500">No meals match your filters.</p>
+                    </div>
                   )}
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <AnimatePresence mode="popLayout">
+                      {libraryMeals.map((meal) => {
+                        const isDeleting = deletingMealIds.includes(meal.id);
+                        const isSingleDelete = deletingMealIds.length === 1 && isDeleting;
+
+                        return (
+                          <motion.div
+                            key={meal.id}
+                            layout
+                            initial={{ opacity: 1 }}
+                            exit={
+                              isSingleDelete
+                                ? {
+                                    x: -100,
+                                    opacity: 0,
+                                    transition: { duration: 0.3 },
+                                  }
+                                : {
+                                    opacity: 0,
+                                    transition: { duration: 0.3 },
+                                  }
+                            }
+                            className={`card transition-colors duration-150 ${
+                              isDeleting ? 'bg-red-50' : ''
+                            }`}
+                          >
+                            <div className="flex justify-between items-start gap-3">
+                              {editMode && (
+                                <input
+                                  type="checkbox"
+                                  checked={selectedForDeletion.includes(meal.id)}
+                                  onChange={() => toggleMealForDeletion(meal.id)}
+                                  className="w-5 h-5 mt-1 text-primary-600 cursor-pointer"
+                                />
+                              )}
+                              {meal.thumbnailUrl && (
+                                <img src={meal.thumbnailUrl} alt="" className="w-14 h-14 rounded-lg object-cover flex-shrink-0" />
+                              )}
+                              <div className="flex-1">
+                                {editMode ? (
+                                  <h3 className="font-semibold text-lg">{meal.title}</h3>
+                                ) : (
+                                  <h3 className="font-semibold text-lg">
+                                    <button
+                                      onClick={() => setViewingMeal(meal)}
+                                      className="text-left hover:text-primary-600"
+                                    >
+                                      {meal.title}
+                                    </button>
+                                  </h3>
+                                )}
+                                {meal.description && (
+                                  <p className="text-gray-600 text-sm mt-1">{meal.description}</p>
+                                )}
+                                {meal.type === 'restaurant' ? (
+                                  <div className="flex items-center gap-2 mt-1">
+                                    <span className="text-xs text-gray-500">
+                                      {describeRestaurant(meal) || 'Restaurant'}
+                                    </span>
+                                    <OpenNowBadge openNow={meal.openNow} />
+                                  </div>
+                                ) : (
+                                  describeRecipe(meal) && (
+                                    <p className="text-xs text-gray-500 mt-1">{describeRecipe(meal)}</p>
+                                  )
+                                )}
+                                {meal.allergens && meal.allergens.length > 0 && (
+                                  <p className="text-xs text-yellow-700 mt-1">Contains {formatAllergens(meal.allergens)}</p>
+                                )}
+                                {meal.tags && meal.tags.length > 0 && (
+                                  <div className="flex flex-wrap gap-1 mt-2">
+                                    {meal.tags.map((tag) => (
+                                      <span
+                                        key={tag}
+                                        className="px-2 py-0.5 rounded-full bg-primary-50 text-primary-700 text-xs"
+                                      >
+                                        {tag}
+                                      </span>
+                                    ))}
+                                  </div>
+                                )}
+                                {meal.pickCount > 0 && (
+                                  <p className="text-xs text-gray-400 mt-2">
+                                    Selected {meal.pickCount} time{meal.pickCount !== 1 ? 's' : ''}
+                                  </p>
+                                )}
+                              </div>
+                              {!editMode && (
+                                <div className="flex gap-2">
+                                  <button
+                                    onClick={() => openEditMeal(meal)}
+                                    className="text-gray-400 hover:text-primary-500"
+                                    title="Edit meal"
+                                  >
+                                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                                    </svg>
+                                  </button>
+                                  <button
+                                    onClick={() => confirmDeleteSingleMeal(meal)}
+                                    className="text-gray-400 hover:text-red-500"
+                                    title="Archive meal"
+                                  >
+                                    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                    </svg>
+                                  </button>
+                                </div>
+                              )}
+                            </div>
+                          </motion.div>
+                        );
+                      })}
+                    </AnimatePresence>
+                  </div>
+                  <p className="text-sm text-gray-500 mt-4">
+                    Export library:{' '}
+                    {(['json', 'csv', 'markdown'] as const).map((format, i) => (
+                      <span key={format}>
+                        {i > 0 && ' · '}
+                        <a href={mealsApi.exportUrl(format)} download className="text-primary-600 hover:underline">
+                          {format === 'markdown' ? 'Markdown' : format.toUpperCase()}
+                        </a>
+                      </span>
+                    ))}
+                  </p>
                 </>
               )}
-            </div>
-            {!editMode && (
-              <button onClick={() => setShowAddMeal(true)} className="btn btn-primary">
-                Add Meal
-              </button>
-            )}
-          </div>
+            </section>
 
-          {meals.length === 0 ? (
-            <div className="card text-center py-12">
-              <p className="text-gray-500 mb-4">No meals yet. Add some to get started!</p>
-              <button onClick={() => setShowAddMeal(true)} className="btn btn-primary">
-                Add Your First Meal
-              </button>
-            </div>
-          ) : (
-            <div className="grid gap-4 sm:grid-cols-2">
-              <AnimatePresence mode="popLayout">
-                {meals.map((meal) => {
-                  const isDeleting = deletingMealIds.includes(meal.id);
-                  const isSingleDelete = deletingMealIds.length === 1 && isDeleting;
-
-                  return (
-                    <motion.div
-                      key={meal.id}
-                      layout
-                      initial={{ opacity: 1 }}
-                      exit={
-                        isSingleDelete
-                          ? {
-                              x: -100,
-                              opacity: 0,
-                              transition: { duration: 0.3 },
-                            }
-                          : {
-                              opacity: 0,
-                              transition: { duration: 0.3 },
-                            }
-                      }
-                      className={`card transition-colors duration-150 ${
-                        isDeleting ? 'bg-red-50' : ''
-                      }`}
-                    >
-                      <div className="flex justify-between items-start gap-3">
-                        {editMode && (
-                          <input
-                            type="checkbox"
-                            checked={selectedForDeletion.includes(meal.id)}
-                            onChange={() => toggleMealForDeletion(meal.id)}
-                            className="w-5 h-5 mt-1 text-primary-600 cursor-pointer"
-                          />
-                        )}
-                        <div className="flex-1">
-                          <h3 className="font-semibold text-lg">{meal.title}</h3>
-                          {meal.description && (
-                            <p className="text-gray-600 text-sm mt-1">{meal.description}</p>
-                          )}
-                          {meal.pickCount > 0 && (
-                            <p className="text-xs text-gray-400 mt-2">
-                              Selected {meal.pickCount} time{meal.pickCount !== 1 ? 's' : ''}
-                            </p>
-                          )}
-                        </div>
-                        {!editMode && (
-                          <div className="flex gap-2">
-                            <button
-                              onClick={() => openEditMeal(meal)}
-                              className="text-gray-400 hover:text-primary-500"
-                              title="Edit meal"
-                            >
-                              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
-                              </svg>
-                            </button>
-                            <button
-                              onClick={() => confirmDeleteSingleMeal(meal)}
-                              className="text-gray-400 hover:text-red-500"
-                              title="Archive meal"
-                            >
-                              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                              </svg>
-                            </button>
-                          </div>
-                        )}
-                      </div>
-                    </motion.div>
-                  );
-                })}
-              </AnimatePresence>
-            </div>
-          )}
-        </section>
+            {/* Create Session Buttons */}
+            <section className="mb-12">
+              <div className="grid grid-cols-2 gap-4">
+                <button
+                  onClick={() => navigate('/')}
+                  className="btn btn-secondary py-4 text-lg"
+                >
+                  Quick Session
+                </button>
+                {meals.length > 0 ? (
+                  <button
+                    onClick={openCreateSession}
+                    className="btn btn-success py-4 text-lg"
+                  >
+                    Create Session
+                  </button>
+                ) : null}
+              </div>
+              {meals.length === 0 ? (
+                <p className="text-sm text-gray-600 mt-2 text-center">
+                  Add meals to create a session from your library, or use Quick Session to start immediately.
+                </p>
+              ) : null}
+            </section>
 
-        {/* Create Session Buttons */}
-        <section className="mb-12">
-          <div className="grid grid-cols-2 gap-4">
-            <button
-              onClick={() => navigate('/')}
-              className="btn btn-secondary py-4 text-lg"
-            >
-              Quick Session
-            </button>
-            {meals.length > 0 ? (
-              <button
-                onClick={openCreateSession}
-                className="btn btn-success py-4 text-lg"
-              >
-                Create Session
-              </button>
-            ) : null}
-          </div>
-          {meals.length === 0 ? (
-            <p className="text-sm text-gray-600 mt-2 text-center">
-              Add meals to create a session from your library, or use Quick Session to start immediately.
-            </p>
-          ) : null}
-        </section>
+            {/* Playlists Section */}
+            <PlaylistsPanel meals={meals} onError={setError} />
 
-        {/* Sessions Section */}
-        <section>
-          <h2 className="text-2xl font-bold mb-4">Recent Sessions</h2>
+            {/* Templates Section */}
+            <TemplatesPanel
+              draft={templateDraft}
+              onDraftClosed={() => setTemplateDraft(null)}
+              onError={setError}
+            />
 
-          {sessions.length === 0 ? (
-            <div className="card text-center py-8">
-              <p className="text-gray-500">No sessions yet.</p>
-            </div>
-          ) : (
-            <div className="space-y-4">
-              {sessions.map((session) => (
-                <div
-                  key={session.id}
-                  className="card cursor-pointer hover:shadow-xl transition-shadow"
-                  onClick={() => navigate(`/session/${session.id}`)}
-                >
-                  <div className="flex justify-between items-center">
-                    <div>
-                      <div className="flex items-center gap-2">
-                        <span className="font-mono font-bold text-lg">{session.inviteCode}</span>
-                        <span
-                          className={`px-2 py-0.5 rounded text-xs font-medium ${
-                            session.status === 'open'
-                              ? 'bg-green-100 text-green-700'
-                              : 'bg-gray-100 text-gray-700'
-                          }`}
+            {/* Sessions Section */}
+            <section>
+              <h2 className="text-2xl font-bold mb-4">Recent Sessions</h2>
+
+              {sessions.length === 0 ? (
+                <div className="card text-center py-8">
+                  <p className="text-gray-500">No sessions yet.</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {sessions.map((session) => (
+                    <div
+                      key={session.id}
+                      className="card cursor-pointer hover:shadow-xl transition-shadow"
+                      onClick={() => navigate(`/session/${session.id}`)}
+                    >
+                      <div className="flex justify-between items-center">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono font-bold text-lg">{session.inviteCode}</span>
+                            <span
+                              className={`px-2 py-0.5 rounded text-xs font-medium ${
+                                session.status === 'open'
+                                  ? 'bg-green-100 text-green-700'
+                                  : 'bg-gray-100 text-gray-700'
+                              }`}
+                            >
+                              {session.status}
+                            </span>
+                          </div>
+                          <p className="text-sm text-gray-500 mt-1">
+                            {session.mealCount} meals · {session.participantCount} participants
+                          </p>
+                        </div>
+                        <svg
+                          className="w-5 h-5 text-gray-400"
+                          fill="none"
+                          viewBox="0 0 24 24"
+                          stroke="currentColor"
                         >
-                          {session.status}
-                        </span>
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                        </svg>
                       </div>
-                      <p className="text-sm text-gray-500 mt-1">
-                        {session.mealCount} meals · {session.participantCount} participants
-                      </p>
                     </div>
-                    <svg
-                      className="w-5 h-5 text-gray-400"
-                      fill="none"
-                      viewBox="0 0 24 24"
-                      stroke="currentColor"
-                    >
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                    </svg>
-                  </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          )}
-        </section>
+              )}
+            </section>
+          </>
+        )}
       </main>
 
+      {showImport && (
+        <MealImportWizard onClose={() => setShowImport(false)} onImported={handleImported} onError={setError} />
+      )}
+
       {/* Add Meal Modal */}
       {showAddMeal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
-          <div className="card w-full max-w-md">
+          <div className="card w-full max-w-md max-h-[90vh] overflow-y-auto">
             <h3 className="text-xl font-bold mb-4">Add New Meal</h3>
             <form onSubmit={handleAddMeal} className="space-y-4">
+              <MealTypeToggle value={newMealType} onChange={setNewMealType} />
+              {newMealType === 'meal' && (
+                <RecipeLinkImport tags={newMealTags} onImported={handleMealAdded} onError={setError} />
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Title *
@@ -468,6 +766,33 @@ export function Dashboard() {
                   placeholder="e.g., Beef tacos with all the fixings"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tags (optional)
+                </label>
+                <TagInput tags={newMealTags} onChange={setNewMealTags} suggestions={availableTags} />
+              </div>
+              <PhotoInput id="new-meal-photo" onChange={setNewMealImage} />
+              <AllergenPicker value={newMealAllergens} onChange={setNewMealAllergens} />
+              {newMealType === 'restaurant' ? (
+                <details className="border rounded-lg p-3" open>
+                  <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+                    Restaurant details (optional)
+                  </summary>
+                  <div className="mt-3">
+                    <RestaurantEditor value={newMealRestaurant} onChange={setNewMealRestaurant} />
+                  </div>
+                </details>
+              ) : (
+                <details className="border rounded-lg p-3">
+                  <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+                    Recipe (optional)
+                  </summary>
+                  <div className="mt-3">
+                    <RecipeEditor value={newMealRecipe} onChange={setNewMealRecipe} />
+                  </div>
+                </details>
+              )}
               <div className="flex gap-3">
                 <button
                   type="button"
@@ -485,12 +810,52 @@ export function Dashboard() {
         </div>
       )}
 
+      {/* Meal Detail Modal */}
+      {viewingMeal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <div className="card w-full max-w-md max-h-[90vh] overflow-y-auto">
+            {viewingMeal.imageUrl && (
+              <img src={viewingMeal.imageUrl} alt={viewingMeal.title} className="w-full h-48 rounded-lg object-cover mb-4" />
+            )}
+            <h3 className="text-xl font-bold mb-1">{viewingMeal.title}</h3>
+            {viewingMeal.description && (
+              <p className="text-gray-600 mb-3">{viewingMeal.description}</p>
+            )}
+            {viewingMeal.allergens && viewingMeal.allergens.length > 0 && (
+              <div className="mb-3">
+                <AllergenBadges allergens={viewingMeal.allergens} />
+              </div>
+            )}
+            {viewingMeal.type === 'restaurant' ? (
+              <RestaurantDetails info={viewingMeal} />
+            ) : (
+              <RecipeDetails recipe={viewingMeal} />
+            )}
+            <div className="flex gap-3 mt-6">
+              <button onClick={() => setViewingMeal(null)} className="btn btn-secondary flex-1">
+                Close
+              </button>
+              <button
+                onClick={() => {
+                  openEditMeal(viewingMeal);
+                  setViewingMeal(null);
+                }}
+                className="btn btn-primary flex-1"
+              >
+                Edit
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Edit Meal Modal */}
       {showEditMeal && editingMeal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
-          <div className="card w-full max-w-md">
+          <div className="card w-full max-w-md max-h-[90vh] overflow-y-auto">
             <h3 className="text-xl font-bold mb-4">Edit Meal</h3>
             <form onSubmit={handleUpdateMeal} className="space-y-4">
+              <MealTypeToggle value={editType} onChange={setEditType} />
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Title *
@@ -517,6 +882,38 @@ export function Dashboard() {
                   placeholder="e.g., Beef tacos with all the fixings"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Tags (optional)
+                </label>
+                <TagInput tags={editTags} onChange={setEditTags} suggestions={availableTags} />
+              </div>
+              <PhotoInput
+                id="edit-meal-photo"
+                thumbnailUrl={removeEditImage ? null : editingMeal.thumbnailUrl}
+                onChange={setEditImage}
+                onRemove={() => setRemoveEditImage(true)}
+              />
+              <AllergenPicker value={editAllergens} onChange={setEditAllergens} />
+              {editType === 'restaurant' ? (
+                <details className="border rounded-lg p-3" open>
+                  <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+                    Restaurant details (optional)
+                  </summary>
+                  <div className="mt-3">
+                    <RestaurantEditor value={editRestaurant} onChange={setEditRestaurant} />
+                  </div>
+                </details>
+              ) : (
+                <details className="border rounded-lg p-3" open={hasRecipe(editingMeal)}>
+                  <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+                    Recipe (optional)
+                  </summary>
+                  <div className="mt-3">
+                    <RecipeEditor value={editRecipe} onChange={setEditRecipe} />
+                  </div>
+                </details>
+              )}
               <div className="flex gap-3">
                 <button
                   type="button"
@@ -563,10 +960,40 @@ export function Dashboard() {
               </div>
             </form>
 
+            <SuggestionPicker
+              preferredTags={pickerFilter.tags}
+              onSuggest={setSelectedMealIds}
+              onError={setError}
+            />
+
             <p className="text-gray-600 text-sm mb-4">
               Select meals to include in this session:
             </p>
 
+            <div className="mb-3">
+              <MealFilterBar
+                filter={pickerFilter}
+                onChange={setPickerFilter}
+                availableTags={availableTags}
+              />
+              <div className="flex gap-4 mt-2 text-sm">
+                <button
+                  type="button"
+                  onClick={() => selectShownMeals(pickerMeals)}
+                  className="text-primary-600 hover:text-primary-700 font-medium"
+                >
+                  Select shown
+                </button>
+                <button
+                  type="button"
+                  onClick={() => clearShownMeals(pickerMeals)}
+                  className="text-gray-600 hover:text-gray-900"
+                >
+                  Clear shown
+                </button>
+              </div>
+            </div>
+
             {meals.length > 30 && (
               <div className="bg-yellow-50 text-yellow-700 px-3 py-2 rounded text-sm mb-4">
                 With {meals.length} meals, sessions may take longer to complete.
@@ -574,7 +1001,7 @@ export function Dashboard() {
             )}
 
             <div className="flex-1 overflow-y-auto space-y-2 mb-4">
-              {meals.map((meal) => (
+              {pickerMeals.map((meal) => (
                 <label
                   key={meal.id}
                   className="flex items-center gap-3 p-3 rounded-lg border cursor-pointer hover:bg-gray-50"
@@ -586,10 +1013,56 @@ export function Dashboard() {
                     className="w-4 h-4 text-primary-600"
                   />
                   <span className="font-medium">{meal.title}</span>
+                  <OpenNowBadge openNow={meal.openNow} />
                 </label>
               ))}
             </div>
 
+            {selectedRestaurantCount > 0 && (
+              <label className="flex items-center gap-2 mb-4 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={openNowOnly}
+                  onChange={(e) => setOpenNowOnly(e.target.checked)}
+                  className="w-4 h-4 text-primary-600"
+                />
+                Only include restaurants that are open now
+              </label>
+            )}
+
+            <div className="mb-4">
+              <label htmlFor="scoring-mode" className="block text-sm font-medium text-gray-700 mb-1">
+                Scoring
+              </label>
+              <select
+                id="scoring-mode"
+                value={scoringMode}
+                onChange={(e) => setScoringMode(e.target.value as ScoringMode)}
+                className="input"
+              >
+                {SCORING_MODES.map((mode) => (
+                  <option key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                {SCORING_MODES.find((mode) => mode.value === scoringMode)?.description}
+              </p>
+            </div>
+
+            <div className="mb-4">
+              <DeadlinePicker value={deadline} onChange={setDeadline} />
+            </div>
+
+            <button
+              onClick={openSaveAsTemplate}
+              disabled={selectedMealIds.length === 0}
+              className="text-sm text-primary-600 hover:text-primary-700 font-medium mb-4 self-start disabled:opacity-50"
+            >
+              Save as Template (reuse or schedule)
+            </button>
+
             <div className="flex gap-3">
               <button
                 onClick={() => setShowCreateSession(false)}
@@ -1,16 +1,27 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { participantApi } from '../api/client';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { participantApi, DietaryRestriction, JoinOptions } from '../api/client';
+import Countdown from '../components/Countdown';
+import RestrictionPicker from '../components/RestrictionPicker';
+import { useGuestProfile } from '../hooks/useLocalStorage';
+import { useSessionEvents, SessionEvent } from '../hooks/useSessionEvents';
 
 export function JoinSession() {
   const { inviteCode } = useParams<{ inviteCode: string }>();
   const navigate = useNavigate();
-  const [displayName, setDisplayName] = useState('');
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite'); // set when arriving from an emailed invite
+  const { profile, saveProfile, forgetProfile } = useGuestProfile();
+  const [displayName, setDisplayName] = useState(profile?.displayName ?? '');
+  const [remember, setRemember] = useState(!!profile);
+  const [restrictions, setRestrictions] = useState<DietaryRestriction[]>(profile?.restrictions ?? []);
   const [loading, setLoading] = useState(true);
   const [joining, setJoining] = useState(false);
   const [error, setError] = useState('');
   const [sessionClosed, setSessionClosed] = useState(false);
   const [participantCount, setParticipantCount] = useState(0);
+  const [closesAt, setClosesAt] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | undefined>();
 
   useEffect(() => {
     checkSession();
@@ -21,7 +32,9 @@ export function JoinSession() {
 
     try {
       const session = await participantApi.getSession(inviteCode);
+      setSessionId(session.id);
       setParticipantCount(session.participantCount);
+      setClosesAt(session.closesAt ?? null);
     } catch (err) {
       if (err instanceof Error) {
         if (err.message.includes('ended')) {
@@ -35,6 +48,15 @@ export function JoinSession() {
     }
   };
 
+  // Keep the deadline current while deciding whether to join
+  useSessionEvents(sessionId, (event: SessionEvent) => {
+    if (event.type === 'deadline-changed') {
+      setClosesAt(event.data.closesAt ?? null);
+    } else if (event.type === 'session-closed') {
+      setSessionClosed(true);
+    }
+  }, !sessionClosed, checkSession);
+
   const handleJoin = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!inviteCode || !displayName.trim()) return;
@@ -43,7 +65,20 @@ export function JoinSession() {
     setError('');
 
     try {
-      const response = await participantApi.joinSession(inviteCode, displayName.trim());
+      const options: JoinOptions = {
+        ...(remember ? (profile ? { profileToken: profile.token } : { remember: true }) : {}),
+        ...(restrictions.length > 0 ? { restrictions } : {}),
+        ...(inviteToken ? { inviteToken } : {}),
+      };
+      const response = Object.keys(options).length > 0
+        ? await participantApi.joinSession(inviteCode, displayName.trim(), options)
+        : await participantApi.joinSession(inviteCode, displayName.trim());
+
+      if (remember && response.profileToken) {
+        saveProfile({ token: response.profileToken, displayName: displayName.trim(), restrictions });
+      } else if (!remember && profile) {
+        forgetProfile();
+      }
 
       // Store participant info in session storage
       sessionStorage.setItem(
@@ -52,6 +87,8 @@ export function JoinSession() {
           participantId: response.participantId,
           displayName: displayName.trim(),
           meals: response.meals,
+          closesAt: response.closesAt ?? null,
+          hiddenMealCount: response.hiddenMealCount ?? 0,
         })
       );
 
@@ -113,6 +150,11 @@ export function JoinSession() {
                 {participantCount} {participantCount === 1 ? 'person has' : 'people have'} joined
               </p>
             )}
+            {closesAt && (
+              <div className="mt-2">
+                <Countdown closesAt={closesAt} onExpire={() => setSessionClosed(true)} />
+              </div>
+            )}
           </div>
 
           <form onSubmit={handleJoin} className="space-y-4">
@@ -133,6 +175,23 @@ export function JoinSession() {
               />
             </div>
 
+            <RestrictionPicker value={restrictions} onChange={setRestrictions} />
+
+            <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={remember}
+                onChange={(e) => setRemember(e.target.checked)}
+                className="w-4 h-4 mt-0.5 text-primary-600"
+              />
+              <span>
+                Remember me on this device
+                <span className="block text-xs text-gray-500">
+                  The host will see your votes across sessions under one name.
+                </span>
+              </span>
+            </label>
+
             <button
               type="submit"
               disabled={joining || !displayName.trim()}
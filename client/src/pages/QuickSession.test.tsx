@@ -117,6 +117,7 @@ describe('QuickSession', () => {
       },
       participantId: 'participant-123',
       creatorToken: 'token-123',
+      adminKey: 'key-123',
       meals: [
         { id: 'meal-1', title: 'Pizza', description: null, sessionMealId: 'sm-1' },
         { id: 'meal-2', title: 'Tacos', description: null, sessionMealId: 'sm-2' }
@@ -145,6 +146,7 @@ describe('QuickSession', () => {
       expect(sessionStorage.getItem('sessionId')).toBe('session-123');
       expect(sessionStorage.getItem('participantId')).toBe('participant-123');
       expect(sessionStorage.getItem('creatorToken')).toBe('token-123');
+      expect(sessionStorage.getItem('adminKey')).toBe('key-123');
       expect(mockNavigate).toHaveBeenCalledWith('/session/session-123/share');
     });
   });
@@ -169,4 +171,32 @@ describe('QuickSession', () => {
       expect(screen.getByText('Network error')).toBeInTheDocument();
     });
   });
+
+  it('should create a restaurant session when choosing where to eat', async () => {
+    vi.mocked(client.quickSessionApi.create).mockResolvedValue({
+      session: { id: 'session-456', inviteCode: 'XYZ789', status: 'open' },
+      participantId: 'participant-456',
+      creatorToken: null,
+      adminKey: null,
+      meals: [{ id: 'meal-1', title: 'Noodle Bar', description: null, type: 'restaurant', sessionMealId: 'sm-1' }],
+    });
+
+    renderQuickSession();
+
+    fireEvent.change(screen.getByLabelText('Your Name'), { target: { value: 'Test User' } });
+    fireEvent.click(screen.getByRole('radio', { name: 'Where to eat' }));
+    expect(screen.getByText('Restaurant Options')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByPlaceholderText('Restaurant 1'), { target: { value: 'Noodle Bar' } });
+    fireEvent.click(screen.getByText('Create Session'));
+
+    await waitFor(() => {
+      expect(client.quickSessionApi.create).toHaveBeenCalledWith(
+        'Test User',
+        [{ title: 'Noodle Bar' }],
+        undefined,
+        { type: 'restaurant' }
+      );
+    });
+  });
 });
@@ -1,6 +1,9 @@
 import { useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { quickSessionApi } from '../api/client';
+import { quickSessionApi, MealType, QuickSessionOptions } from '../api/client';
+import DeadlinePicker, { DeadlineChoice, NO_DEADLINE, toDeadlineOptions } from '../components/DeadlinePicker';
+import MealTypeToggle from '../components/MealTypeToggle';
+import { rememberCreatorToken } from '../hooks/useLocalStorage';
 
 interface MealInput {
   id: string;
@@ -15,6 +18,8 @@ export default function QuickSession() {
   ]);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  const [deadline, setDeadline] = useState<DeadlineChoice>(NO_DEADLINE);
+  const [type, setType] = useState<MealType>('meal');
   const mealInputRefs = useRef<Map<string, HTMLInputElement>>(new Map());
 
   const addMeal = () => {
@@ -62,19 +67,23 @@ export default function QuickSession() {
 
     const validMeals = meals.filter(m => m.title.trim());
     if (validMeals.length === 0) {
-      setError('Please add at least one meal option');
+      setError(type === 'restaurant' ? 'Please add at least one restaurant' : 'Please add at least one meal option');
       return;
     }
 
     setLoading(true);
 
     try {
-      const response = await quickSessionApi.create(
-        creatorName.trim(),
-        validMeals.map(m => ({
-          title: m.title.trim()
-        }))
-      );
+      const mealInputs = validMeals.map(m => ({
+        title: m.title.trim()
+      }));
+      const options: QuickSessionOptions = {
+        ...toDeadlineOptions(deadline),
+        ...(type === 'restaurant' ? { type } : {}),
+      };
+      const response = Object.keys(options).length > 0
+        ? await quickSessionApi.create(creatorName.trim(), mealInputs, undefined, options)
+        : await quickSessionApi.create(creatorName.trim(), mealInputs);
 
       // Store session info in the format SwipeSession expects
       sessionStorage.setItem(
@@ -82,7 +91,8 @@ export default function QuickSession() {
         JSON.stringify({
           participantId: response.participantId,
           displayName: creatorName.trim(),
-          meals: response.meals
+          meals: response.meals,
+          closesAt: response.session.closesAt ?? null
         })
       );
       sessionStorage.setItem('sessionId', response.session.id);
@@ -90,6 +100,10 @@ export default function QuickSession() {
       sessionStorage.setItem('inviteCode', response.session.inviteCode);
       if (response.creatorToken) {
         sessionStorage.setItem('creatorToken', response.creatorToken);
+        rememberCreatorToken(response.creatorToken);
+      }
+      if (response.adminKey) {
+        sessionStorage.setItem('adminKey', response.adminKey);
       }
 
       // Navigate to share page so creator can share the link
@@ -138,9 +152,18 @@ export default function QuickSession() {
             />
           </div>
 
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">What are you deciding?</p>
+            <MealTypeToggle
+              value={type}
+              onChange={setType}
+              labels={{ meal: 'What to cook', restaurant: 'Where to eat' }}
+            />
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Meal Options
+              {type === 'restaurant' ? 'Restaurant Options' : 'Meal Options'}
             </label>
             <div className="space-y-3">
               {meals.map((meal, index) => (
@@ -154,7 +177,7 @@ export default function QuickSession() {
                     value={meal.title}
                     onChange={(e) => updateMeal(meal.id, e.target.value)}
                     onKeyDown={(e) => handleMealKeyDown(e, meal.id, index)}
-                    placeholder={`Option ${index + 1}`}
+                    placeholder={type === 'restaurant' ? `Restaurant ${index + 1}` : `Option ${index + 1}`}
                     className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
                   />
                   {meals.length > 1 ? (
@@ -178,6 +201,8 @@ export default function QuickSession() {
             </button>
           </div>
 
+          <DeadlinePicker value={deadline} onChange={setDeadline} />
+
           <button
             onClick={handleCreateSession}
             disabled={loading}
@@ -1,8 +1,8 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { Results } from './Results';
-import { participantApi } from '../api/client';
+import { participantApi, quickSessionApi } from '../api/client';
 
 // Mock the API
 vi.mock('../api/client', () => ({
@@ -11,15 +11,16 @@ vi.mock('../api/client', () => ({
     getSessionStatus: vi.fn(),
     closeSession: vi.fn(),
   },
-  mealsApi: {
-    create: vi.fn(),
+  quickSessionApi: {
+    claim: vi.fn(),
   },
 }));
 
 // Mock useAuth
+let mockUser: { id: string; email: string } | null = null;
 vi.mock('../hooks/useAuth', () => ({
   useAuth: () => ({
-    user: null,
+    user: mockUser,
     logout: vi.fn(),
   }),
 }));
@@ -178,3 +179,46 @@ describe('Results - Update Choices', () => {
     expect(screen.queryByText('Update Your Choices')).toBeNull();
   });
 });
+
+describe('Results - Saving a Quick Session', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sessionStorage.clear();
+    localStorage.clear();
+    mockUser = { id: 'host1', email: 'dee@test.com' };
+
+    sessionStorage.setItem('creatorToken', 'token-1');
+    sessionStorage.setItem('sessionId', 'session123');
+    localStorage.setItem('mealmatch_creator_tokens', JSON.stringify(['token-0', 'token-1']));
+
+    (participantApi.getResults as any).mockResolvedValue({
+      status: 'closed',
+      results: [
+        { mealId: '1', title: 'Pizza', description: null, yesCount: 2, maybeCount: 0, totalVotes: 2, percentage: 100, isUnanimous: true },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    mockUser = null;
+  });
+
+  it('should claim the session into the account when a signed-in creator saves it', async () => {
+    vi.mocked(quickSessionApi.claim).mockResolvedValue({ sessionIds: ['session123'], mealsAdded: 1, mealsMerged: 0 });
+
+    render(
+      <BrowserRouter>
+        <Results />
+      </BrowserRouter>
+    );
+
+    fireEvent.click(await screen.findByText('Save Meals'));
+
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/dashboard');
+    });
+    expect(quickSessionApi.claim).toHaveBeenCalledWith(['token-1']);
+    expect(sessionStorage.getItem('creatorToken')).toBeNull();
+    expect(JSON.parse(localStorage.getItem('mealmatch_creator_tokens')!)).toEqual(['token-0']);
+  });
+});
@@ -1,12 +1,16 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
-import { participantApi, ResultsResponse, MatchResult, mealsApi } from '../api/client';
+import { participantApi, ResultsResponse, MatchResult, quickSessionApi, runoffApi } from '../api/client';
 import { useAuth } from '../hooks/useAuth';
+import { useSessionEvents, SessionEvent } from '../hooks/useSessionEvents';
+import { forgetCreatorTokens } from '../hooks/useLocalStorage';
 
 interface Participant {
   id: string;
   displayName: string;
   submitted: boolean;
+  swiped?: number;
+  total?: number;
 }
 
 export function Results() {
@@ -22,8 +26,8 @@ export function Results() {
   const [savingMeals, setSavingMeals] = useState(false);
   const [showCloseConfirm, setShowCloseConfirm] = useState(false);
   const [closing, setClosing] = useState(false);
+  const [runoffBusy, setRunoffBusy] = useState(false);
   const [copied, setCopied] = useState(false);
-  const pollTimeoutRef = useRef<number | null>(null);
 
   // Check if user is the creator
   useEffect(() => {
@@ -41,12 +45,11 @@ export function Results() {
       const data = await participantApi.getResults(sessionId, !!user);
       setResults(data);
 
-      // If still waiting, poll for session status (includes participants)
+      // If still waiting, load participants once; live updates arrive as session events
       if (data.status === 'waiting') {
         const statusData = await participantApi.getSessionStatus(sessionId);
         setParticipants(statusData.participants);
-        pollTimeoutRef.current = window.setTimeout(loadResults, 3000);
-      } else {
+      } else if (data.status === 'closed') {
         // Session closed - clear participant session data
         sessionStorage.removeItem(`session_${sessionId}`);
 
@@ -62,14 +65,39 @@ export function Results() {
     }
   }, [sessionId, user, isCreator]);
 
-  // Cleanup polling on unmount
-  useEffect(() => {
-    return () => {
-      if (pollTimeoutRef.current) {
-        clearTimeout(pollTimeoutRef.current);
+  const handleSessionEvent = (event: SessionEvent) => {
+    switch (event.type) {
+      case 'participant-joined': {
+        const joined = event.data.participant;
+        if (joined) {
+          setParticipants(prev =>
+            prev.some(p => p.id === joined.id) ? prev : [...prev, joined]
+          );
+        }
+        break;
       }
-    };
-  }, []);
+      case 'participant-submitted':
+        setParticipants(prev =>
+          prev.map(p => (p.id === event.data.participantId ? { ...p, submitted: true } : p))
+        );
+        break;
+      case 'participant-progress':
+        setParticipants(prev =>
+          prev.map(p =>
+            p.id === event.data.participantId ? { ...p, swiped: event.data.swiped, total: event.data.total } : p
+          )
+        );
+        break;
+      case 'session-closed':
+      case 'meal-selected':
+      case 'runoff-started':
+        loadResults();
+        break;
+    }
+  };
+
+  // Listen for live updates while waiting, and for the host's pick once closed
+  useSessionEvents(sessionId, handleSessionEvent, !!results && !results.selectedMeal, loadResults);
 
   const handleCloseSession = async () => {
     if (!sessionId) return;
@@ -90,22 +118,58 @@ export function Results() {
     }
   };
 
+  const handleStartRunoff = async () => {
+    if (!sessionId) return;
+
+    const creatorToken = sessionStorage.getItem('creatorToken');
+    if (!creatorToken) return;
+
+    setRunoffBusy(true);
+    try {
+      await runoffApi.start(sessionId, undefined, creatorToken);
+      setShowCloseConfirm(false);
+      await loadResults();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start group vote');
+    } finally {
+      setRunoffBusy(false);
+    }
+  };
+
+  const handleFinishRunoff = async () => {
+    if (!sessionId) return;
+
+    const creatorToken = sessionStorage.getItem('creatorToken');
+    if (!creatorToken) return;
+
+    setRunoffBusy(true);
+    try {
+      await runoffApi.finish(sessionId, creatorToken);
+      await loadResults();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to finish group vote');
+    } finally {
+      setRunoffBusy(false);
+    }
+  };
+
   useEffect(() => {
     loadResults();
   }, [loadResults]);
 
   const handleSaveMeals = async () => {
-    if (!results?.results) return;
+    const creatorToken = sessionStorage.getItem('creatorToken');
+    if (!creatorToken) return;
 
     setSavingMeals(true);
     try {
-      // Save all meals to the user's library
-      for (const result of results.results) {
-        await mealsApi.create(result.title, result.description || undefined);
-      }
+      // Move the session and its meals into the account; meals already in the library aren't duplicated
+      await quickSessionApi.claim([creatorToken]);
+      forgetCreatorTokens([creatorToken]);
 
       // Clear creator token
       sessionStorage.removeItem('creatorToken');
+      sessionStorage.removeItem('adminKey');
       sessionStorage.removeItem('sessionId');
       setShowSavePrompt(false);
 
@@ -119,7 +183,10 @@ export function Results() {
   };
 
   const handleDismissPrompt = () => {
+    const creatorToken = sessionStorage.getItem('creatorToken');
+    if (creatorToken) forgetCreatorTokens([creatorToken]);
     sessionStorage.removeItem('creatorToken');
+    sessionStorage.removeItem('adminKey');
     sessionStorage.removeItem('sessionId');
     setShowSavePrompt(false);
   };
@@ -223,7 +290,7 @@ export function Results() {
                         <svg className="w-4 h-4 animate-pulse" fill="currentColor" viewBox="0 0 24 24">
                           <circle cx="12" cy="12" r="4" />
                         </svg>
-                        Swiping...
+                        Swiping...{p.swiped ? ` ${p.swiped}/${p.total}` : ''}
                       </span>
                     )}
                   </div>
@@ -302,12 +369,19 @@ export function Results() {
                   </button>
                   <button
                     onClick={handleCloseSession}
-                    disabled={closing}
+                    disabled={closing || runoffBusy}
                     className="flex-1 px-4 py-2 bg-primary-600 hover:bg-primary-700 disabled:bg-gray-400 text-white rounded-lg transition-colors"
                   >
                     {closing ? 'Closing...' : 'End Session'}
                   </button>
                 </div>
+                <button
+                  onClick={handleStartRunoff}
+                  disabled={closing || runoffBusy}
+                  className="w-full mt-3 px-4 py-2 border border-primary-600 text-primary-600 hover:bg-primary-50 disabled:text-gray-400 disabled:border-gray-300 rounded-lg transition-colors"
+                >
+                  {runoffBusy ? 'Starting...' : 'End & Start Group Vote on Top Matches'}
+                </button>
               </div>
             </div>
           ) : null}
@@ -328,6 +402,35 @@ export function Results() {
           <p className="text-gray-600 mt-2">Here's what everyone thought!</p>
         </div>
 
+        {/* Group vote in progress */}
+        {results.status === 'runoff' && (
+          <div className="card bg-primary-50 border-2 border-primary-500 mb-8">
+            <div className="text-center">
+              <span className="text-4xl">🗳️</span>
+              <h2 className="text-xl font-bold mt-2">Group Vote in Progress</h2>
+              <p className="text-gray-600 mt-1 mb-4">
+                Everyone picks their #1 from the top matches. Ties are settled at random.
+              </p>
+              <div className="flex gap-3 justify-center">
+                {canUpdateChoices() && (
+                  <Link to={`/session/${sessionId}/runoff`} className="btn btn-primary">
+                    Vote for Your #1
+                  </Link>
+                )}
+                {isCreator && (
+                  <button
+                    onClick={handleFinishRunoff}
+                    disabled={runoffBusy}
+                    className="btn btn-success"
+                  >
+                    {runoffBusy ? 'Revealing...' : 'Reveal Winner'}
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Selected meal banner */}
         {results.selectedMeal && (
           <div className="card bg-green-50 border-2 border-green-500 mb-8">
@@ -401,7 +504,7 @@ export function Results() {
             <div className="text-center">
               <h3 className="font-bold text-lg">Save these meals to your library?</h3>
               <p className="text-gray-600 mt-1 mb-4">
-                Add all meals from this session to your permanent collection.
+                Keep this session in your account and add its meals to your collection.
               </p>
               <div className="flex gap-3 justify-center">
                 <button
@@ -456,9 +559,11 @@ interface ResultCardProps {
 
 function ResultCard({ result }: ResultCardProps) {
   const [showVoters, setShowVoters] = useState(false);
+  // Bar reflects the session's scoring strategy (equal to percentage for approval)
+  const barValue = result.score ?? result.percentage;
   const getBarColor = () => {
-    if (result.percentage >= 75) return 'bg-green-500';
-    if (result.percentage >= 50) return 'bg-yellow-500';
+    if (barValue >= 75) return 'bg-green-500';
+    if (barValue >= 50) return 'bg-yellow-500';
     return 'bg-red-500';
   };
 
@@ -470,8 +575,11 @@ function ResultCard({ result }: ResultCardProps) {
         result.isUnanimous ? 'ring-2 ring-yellow-400 bg-yellow-50' : ''
       }`}
     >
-      <div className="flex justify-between items-start mb-3">
-        <div>
+      <div className="flex justify-between items-start gap-3 mb-3">
+        {result.thumbnailUrl && (
+          <img src={result.thumbnailUrl} alt="" className="w-16 h-16 rounded-lg object-cover flex-shrink-0" />
+        )}
+        <div className="flex-1">
           <h3 className="font-semibold text-lg">{result.title}</h3>
           {result.description && (
             <p className="text-gray-600 text-sm mt-1">{result.description}</p>
@@ -490,12 +598,14 @@ function ResultCard({ result }: ResultCardProps) {
           <span className="text-gray-600">
             {result.yesCount} yes{result.maybeCount > 0 ? `, ${result.maybeCount} maybe` : ''} / {result.totalVotes} total
           </span>
-          <span className="font-medium">{result.percentage}%</span>
+          <span className="font-medium">
+            {result.scoringMode && result.scoringMode !== 'approval' ? `Score ${result.score}` : `${result.percentage}%`}
+          </span>
         </div>
         <div className="h-3 bg-gray-200 rounded-full overflow-hidden">
           <div
             className={`h-full transition-all duration-500 ${getBarColor()}`}
-            style={{ width: `${result.percentage}%` }}
+            style={{ width: `${barValue}%` }}
           />
         </div>
       </div>
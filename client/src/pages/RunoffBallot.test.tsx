@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { BrowserRouter } from 'react-router-dom';
+import { RunoffBallot } from './RunoffBallot';
+import { runoffApi } from '../api/client';
+
+// Mock the API
+vi.mock('../api/client', () => ({
+  runoffApi: {
+    getBallot: vi.fn(),
+    vote: vi.fn(),
+  },
+}));
+
+// Mock useParams
+const mockNavigate = vi.fn();
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useParams: () => ({ sessionId: 'session123' }),
+    useNavigate: () => mockNavigate,
+  };
+});
+
+const mockBallot = {
+  status: 'runoff' as const,
+  candidates: [
+    { mealId: 'meal1', title: 'Pizza', description: null },
+    { mealId: 'meal2', title: 'Tacos', description: 'Fish tacos' },
+  ],
+  ballotsCast: 1,
+  myVote: null,
+  selectedMealId: null,
+};
+
+describe('RunoffBallot', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sessionStorage.clear();
+    sessionStorage.setItem('session_session123', JSON.stringify({
+      participantId: 'participant123',
+      displayName: 'John',
+      meals: [],
+    }));
+  });
+
+  it('should list the runoff candidates', async () => {
+    vi.mocked(runoffApi.getBallot).mockResolvedValue(mockBallot);
+
+    render(
+      <BrowserRouter>
+        <RunoffBallot />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Group Vote');
+
+    expect(runoffApi.getBallot).toHaveBeenCalledWith('session123', 'participant123');
+    expect(screen.getByText('Pizza')).toBeDefined();
+    expect(screen.getByText('Tacos')).toBeDefined();
+    expect(screen.getByText('1 vote cast so far')).toBeDefined();
+  });
+
+  it('should cast a single-choice vote', async () => {
+    vi.mocked(runoffApi.getBallot).mockResolvedValue(mockBallot);
+    vi.mocked(runoffApi.vote).mockResolvedValue({ message: 'Vote recorded' });
+
+    render(
+      <BrowserRouter>
+        <RunoffBallot />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Group Vote');
+
+    fireEvent.click(screen.getByText('Tacos'));
+    fireEvent.click(screen.getByText('Cast Vote'));
+
+    await waitFor(() => {
+      expect(runoffApi.vote).toHaveBeenCalledWith('session123', 'participant123', 'meal2');
+    });
+
+    await screen.findByText('Change Vote');
+  });
+
+  it('should redirect to results when the runoff is already finished', async () => {
+    vi.mocked(runoffApi.getBallot).mockResolvedValue({
+      ...mockBallot,
+      status: 'closed',
+      selectedMealId: 'meal1',
+    });
+
+    render(
+      <BrowserRouter>
+        <RunoffBallot />
+      </BrowserRouter>
+    );
+
+    await waitFor(() => {
+      expect(mockNavigate).toHaveBeenCalledWith('/results/session123');
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { runoffApi, RunoffBallot as Ballot } from '../api/client';
+import { useSessionEvents, SessionEvent } from '../hooks/useSessionEvents';
+
+export function RunoffBallot() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const [ballot, setBallot] = useState<Ballot | null>(null);
+  const [choice, setChoice] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [voting, setVoting] = useState(false);
+  const [error, setError] = useState('');
+
+  // Participant identity comes from joining the session on this device
+  const stored = sessionId ? sessionStorage.getItem(`session_${sessionId}`) : null;
+  const participantId: string | undefined = stored ? JSON.parse(stored).participantId : undefined;
+
+  const loadBallot = useCallback(async () => {
+    if (!sessionId) return;
+
+    try {
+      const data = await runoffApi.getBallot(sessionId, participantId);
+      setBallot(data);
+      setChoice((prev) => prev ?? data.myVote);
+
+      if (data.status === 'closed') {
+        navigate(`/results/${sessionId}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load group vote');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, participantId, navigate]);
+
+  useEffect(() => {
+    loadBallot();
+  }, [loadBallot]);
+
+  useSessionEvents(sessionId, (event: SessionEvent) => {
+    if (event.type === 'runoff-vote' && event.data.ballotsCast !== undefined) {
+      const ballotsCast = event.data.ballotsCast;
+      setBallot((prev) => (prev ? { ...prev, ballotsCast } : prev));
+    } else if (event.type === 'session-closed' || event.type === 'meal-selected') {
+      navigate(`/results/${sessionId}`);
+    }
+  }, true, loadBallot);
+
+  const handleVote = async () => {
+    if (!sessionId || !participantId || !choice) return;
+
+    setVoting(true);
+    setError('');
+
+    try {
+      await runoffApi.vote(sessionId, participantId, choice);
+      setBallot((prev) => (prev ? { ...prev, myVote: choice } : prev));
+    } catch (err) {
+      if (err && typeof err === 'object' && 'sessionClosed' in err && err.sessionClosed) {
+        navigate(`/results/${sessionId}`);
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'Failed to cast vote');
+    } finally {
+      setVoting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+      </div>
+    );
+  }
+
+  if (!ballot) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="card text-center max-w-md">
+          <div className="text-6xl mb-4">😕</div>
+          <h1 className="text-2xl font-bold mb-2">Error</h1>
+          <p className="text-gray-600">{error || 'Group vote not found'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const hasVoted = !!ballot.myVote;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-md mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-primary-600">Group Vote</h1>
+          <p className="text-gray-600 mt-2">Pick your #1 from the top matches</p>
+          <p className="text-sm text-gray-500 mt-1">
+            {ballot.ballotsCast} {ballot.ballotsCast === 1 ? 'vote' : 'votes'} cast so far
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg mb-6 text-center">
+            {error}
+          </div>
+        )}
+
+        {!participantId ? (
+          <div className="card text-center">
+            <p className="text-gray-600">
+              Only people who swiped in this session on this device can take part in the group vote.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3 mb-6" role="radiogroup" aria-label="Runoff candidates">
+              {ballot.candidates.map((candidate) => {
+                const selected = choice === candidate.mealId;
+                return (
+                  <button
+                    key={candidate.mealId}
+                    role="radio"
+                    aria-checked={selected}
+                    onClick={() => setChoice(candidate.mealId)}
+                    className={`w-full p-4 rounded-lg border-2 text-left transition-colors ${
+                      selected ? 'border-primary-600 bg-primary-50' : 'border-gray-200 bg-white hover:bg-gray-50'
+                    }`}
+                  >
+                    <p className="font-semibold">{candidate.title}</p>
+                    {candidate.description && (
+                      <p className="text-sm text-gray-500 mt-1">{candidate.description}</p>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            <button
+              onClick={handleVote}
+              disabled={!choice || voting || choice === ballot.myVote}
+              className="btn btn-primary w-full py-3"
+            >
+              {voting ? 'Voting...' : hasVoted ? 'Change Vote' : 'Cast Vote'}
+            </button>
+
+            {hasVoted && (
+              <p className="text-center text-sm text-green-600 mt-4">
+                Your vote is in! Waiting for the host to reveal the winner...
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter, Routes, Route } from 'react-router-dom';
+import { SessionAdmin } from './SessionAdmin';
+import { quickSessionApi, QuickSessionAdmin } from '../api/client';
+
+vi.mock('../api/client', () => ({
+  quickSessionApi: {
+    getAdmin: vi.fn(),
+    close: vi.fn(),
+    selectMeal: vi.fn(),
+    extend: vi.fn(),
+  },
+}));
+
+const openSession: QuickSessionAdmin = {
+  id: 'session123',
+  inviteCode: 'ABC123',
+  status: 'open',
+  selectedMealId: null,
+  closesAt: null,
+  meals: [
+    { id: 'm1', title: 'Pho', description: null },
+    { id: 'm2', title: 'Curry', description: null },
+  ],
+  participants: [
+    { id: 'p1', displayName: 'Dee', submitted: true, swiped: 2, total: 2 },
+    { id: 'p2', displayName: 'Eli', submitted: false, swiped: 1, total: 2 },
+  ],
+  results: null,
+};
+
+const result = (mealId: string, title: string, yesCount: number) => ({
+  mealId,
+  title,
+  description: null,
+  yesCount,
+  maybeCount: 0,
+  totalVotes: 2,
+  percentage: yesCount * 50,
+  score: yesCount * 50,
+  scoringMode: 'approval' as const,
+  isUnanimous: yesCount === 2,
+});
+
+function renderAdmin() {
+  render(
+    <MemoryRouter initialEntries={['/session/session123/admin?key=secret']}>
+      <Routes>
+        <Route path="/session/:sessionId/admin" element={<SessionAdmin />} />
+      </Routes>
+    </MemoryRouter>
+  );
+}
+
+describe('SessionAdmin', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should show progress and close voting with the link key', async () => {
+    vi.mocked(quickSessionApi.getAdmin).mockResolvedValue(openSession);
+    vi.mocked(quickSessionApi.close).mockResolvedValue({ message: 'Session closed successfully', results: [] });
+    renderAdmin();
+
+    expect(await screen.findByText('1 of 2 participants have voted')).toBeDefined();
+    expect(screen.getByText('Eli 1/2')).toBeDefined();
+    expect(quickSessionApi.getAdmin).toHaveBeenCalledWith('session123', 'secret');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close Session' }));
+
+    await waitFor(() => {
+      expect(quickSessionApi.close).toHaveBeenCalledWith('session123', 'secret');
+    });
+  });
+
+  it('should extend the deadline', async () => {
+    vi.mocked(quickSessionApi.getAdmin).mockResolvedValue(openSession);
+    vi.mocked(quickSessionApi.extend).mockResolvedValue({ closesAt: null });
+    renderAdmin();
+
+    fireEvent.change(await screen.findByLabelText('Change the deadline'), { target: { value: '60' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(quickSessionApi.extend).toHaveBeenCalled();
+    });
+    const [, key, closesAt] = vi.mocked(quickSessionApi.extend).mock.calls[0];
+    expect(key).toBe('secret');
+    const minutesAway = (new Date(closesAt!).getTime() - Date.now()) / 60000;
+    expect(minutesAway).toBeGreaterThan(59);
+    expect(minutesAway).toBeLessThanOrEqual(60);
+  });
+
+  it('should select a meal once voting has closed', async () => {
+    vi.mocked(quickSessionApi.getAdmin).mockResolvedValue({
+      ...openSession,
+      status: 'closed',
+      results: [result('m2', 'Curry', 2), result('m1', 'Pho', 1)],
+    });
+    vi.mocked(quickSessionApi.selectMeal).mockResolvedValue({ message: 'Meal selected successfully' });
+    renderAdmin();
+
+    await screen.findByText('Curry');
+    fireEvent.click(screen.getAllByRole('button', { name: 'Select' })[0]);
+
+    await waitFor(() => {
+      expect(quickSessionApi.selectMeal).toHaveBeenCalledWith('session123', 'secret', 'm2');
+    });
+  });
+
+  it('should explain links that no longer work', async () => {
+    vi.mocked(quickSessionApi.getAdmin).mockRejectedValue(new Error('Session not found or link invalid'));
+    renderAdmin();
+
+    expect(await screen.findByText('Session not found or link invalid')).toBeDefined();
+  });
+});
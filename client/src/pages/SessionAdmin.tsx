@@ -0,0 +1,217 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
+import { quickSessionApi, QuickSessionAdmin } from '../api/client';
+import Countdown from '../components/Countdown';
+import { useSessionEvents } from '../hooks/useSessionEvents';
+
+const EXTEND_OPTIONS: Array<{ minutes: number | null; label: string }> = [
+  { minutes: 15, label: '15 minutes from now' },
+  { minutes: 30, label: '30 minutes from now' },
+  { minutes: 60, label: '1 hour from now' },
+  { minutes: 24 * 60, label: '1 day from now' },
+  { minutes: null, label: 'No deadline' },
+];
+
+// Lets an anonymous creator manage their quick session from the recovery link shown at creation
+export function SessionAdmin() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [searchParams] = useSearchParams();
+  const key = searchParams.get('key') || '';
+  const [admin, setAdmin] = useState<QuickSessionAdmin | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [extendMinutes, setExtendMinutes] = useState<number | null>(15);
+
+  const loadAdmin = useCallback(async () => {
+    if (!sessionId) return;
+
+    try {
+      setAdmin(await quickSessionApi.getAdmin(sessionId, key));
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load session');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, key]);
+
+  useEffect(() => {
+    loadAdmin();
+  }, [loadAdmin]);
+
+  useSessionEvents(sessionId, () => loadAdmin(), !!admin && !admin.selectedMealId, loadAdmin);
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      await loadAdmin();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!sessionId) return;
+    runAction(() => quickSessionApi.close(sessionId, key), 'Failed to close session');
+  };
+
+  const handleSelect = (mealId: string) => {
+    if (!sessionId) return;
+    runAction(() => quickSessionApi.selectMeal(sessionId, key, mealId), 'Failed to select meal');
+  };
+
+  const handleExtend = () => {
+    if (!sessionId) return;
+    const closesAt = extendMinutes ? new Date(Date.now() + extendMinutes * 60 * 1000).toISOString() : null;
+    runAction(() => quickSessionApi.extend(sessionId, key, closesAt), 'Failed to change the deadline');
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+      </div>
+    );
+  }
+
+  if (!admin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="card text-center max-w-md">
+          <p className="text-red-600 mb-4">{error || 'Session not found'}</p>
+          <Link to="/" className="btn btn-primary">
+            Go Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const submittedCount = admin.participants.filter((p) => p.submitted).length;
+  const selectedMeal = admin.results?.find((r) => r.mealId === admin.selectedMealId);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <main className="max-w-2xl mx-auto space-y-6">
+        <header>
+          <h1 className="text-2xl font-bold">Manage Session</h1>
+          <p className="text-gray-600">
+            Invite code <span className="font-mono font-semibold">{admin.inviteCode}</span>
+          </p>
+        </header>
+
+        {error && <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">{error}</div>}
+
+        {admin.status === 'open' && (
+          <section className="card space-y-4">
+            <div className="flex justify-between items-center">
+              <div>
+                <h2 className="text-xl font-bold">Voting is open</h2>
+                <p className="text-gray-600 mt-1">
+                  {submittedCount} of {admin.participants.length} participants have voted
+                </p>
+                {admin.closesAt && <Countdown closesAt={admin.closesAt} onExpire={loadAdmin} />}
+              </div>
+              <button onClick={handleClose} className="btn btn-danger" disabled={busy}>
+                Close Session
+              </button>
+            </div>
+
+            {admin.participants.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {admin.participants.map((p) => (
+                  <span
+                    key={p.id}
+                    className={`px-3 py-1 rounded-full text-sm ${
+                      p.submitted ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
+                    }`}
+                  >
+                    {p.displayName}
+                    {p.submitted ? ' ✓' : p.swiped ? ` ${p.swiped}/${p.total}` : ' ...'}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="border-t pt-4">
+              <label htmlFor="extend" className="block text-sm font-medium text-gray-700 mb-1">
+                Change the deadline
+              </label>
+              <div className="flex gap-2">
+                <select
+                  id="extend"
+                  value={extendMinutes ?? ''}
+                  onChange={(e) => setExtendMinutes(e.target.value ? parseInt(e.target.value, 10) : null)}
+                  className="input flex-1"
+                >
+                  {EXTEND_OPTIONS.map((option) => (
+                    <option key={option.label} value={option.minutes ?? ''}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button onClick={handleExtend} className="btn btn-secondary" disabled={busy}>
+                  {busy ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          </section>
+        )}
+
+        {admin.status === 'runoff' && (
+          <section className="card">
+            <h2 className="text-xl font-bold">Group vote in progress</h2>
+            <p className="text-gray-600 mt-1">The winner is picked when the group vote finishes.</p>
+          </section>
+        )}
+
+        {admin.status === 'closed' && admin.results && (
+          <section className="card">
+            <h2 className="text-xl font-bold mb-4">Results</h2>
+
+            {selectedMeal && (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4">
+                <p className="text-green-700 font-medium">Selected: {selectedMeal.title}</p>
+              </div>
+            )}
+
+            {admin.results.length === 0 ? (
+              <p className="text-gray-500">Nobody voted before the session closed.</p>
+            ) : (
+              <div className="space-y-3">
+                {admin.results.map((result) => (
+                  <div
+                    key={result.mealId}
+                    className={`border rounded-lg p-4 flex justify-between items-center ${
+                      result.mealId === admin.selectedMealId ? 'border-green-500 bg-green-50' : ''
+                    }`}
+                  >
+                    <div>
+                      <h3 className="font-semibold">{result.title}</h3>
+                      <p className="text-sm text-gray-600">
+                        {result.yesCount}/{result.totalVotes} agreed
+                      </p>
+                    </div>
+                    {!admin.selectedMealId && (
+                      <button
+                        onClick={() => handleSelect(result.mealId)}
+                        className="btn btn-success"
+                        disabled={busy}
+                      >
+                        Select
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
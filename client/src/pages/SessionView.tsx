@@ -1,7 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { sessionsApi, SessionDetails, MatchResult } from '../api/client';
+import { sessionsApi, runoffApi, SessionDetails, MatchResult } from '../api/client';
 import ConfirmModal from '../components/ConfirmModal';
+import InvitePanel from '../components/InvitePanel';
+import Countdown from '../components/Countdown';
+import { useSessionEvents, SessionEvent } from '../hooks/useSessionEvents';
 
 export function SessionView() {
   const { sessionId } = useParams<{ sessionId: string }>();
@@ -15,6 +18,25 @@ export function SessionView() {
     loadSession();
   }, [sessionId]);
 
+  // Refresh when participants join or vote, or when the session closes elsewhere.
+  // Progress arrives with every swipe and deadlines carry their new value, so those update in place instead.
+  const handleSessionEvent = (event: SessionEvent) => {
+    if (event.type === 'deadline-changed') {
+      setSession((current) => current && { ...current, closesAt: event.data.closesAt ?? null });
+      return;
+    }
+    if (event.type !== 'participant-progress') {
+      loadSession();
+      return;
+    }
+    const { participantId, swiped, total } = event.data;
+    setSession((current) => current && {
+      ...current,
+      participants: current.participants.map((p) => (p.id === participantId ? { ...p, swiped, total } : p)),
+    });
+  };
+  useSessionEvents(sessionId, handleSessionEvent, !!session && !session.selectedMealId, () => loadSession());
+
   const loadSession = async () => {
     if (!sessionId) return;
 
@@ -64,6 +86,28 @@ export function SessionView() {
     }
   };
 
+  const handleStartRunoff = async () => {
+    if (!sessionId) return;
+
+    try {
+      await runoffApi.start(sessionId);
+      loadSession();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start group vote');
+    }
+  };
+
+  const handleFinishRunoff = async () => {
+    if (!sessionId) return;
+
+    try {
+      await runoffApi.finish(sessionId);
+      loadSession();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to finish group vote');
+    }
+  };
+
   const handleSelectMeal = async (mealId: string) => {
     if (!sessionId) return;
 
@@ -113,10 +157,12 @@ export function SessionView() {
             className={`px-3 py-1 rounded text-sm font-medium ${
               session.status === 'open'
                 ? 'bg-green-100 text-green-700'
+                : session.status === 'runoff'
+                ? 'bg-primary-100 text-primary-700'
                 : 'bg-gray-100 text-gray-700'
             }`}
           >
-            {session.status}
+            {session.status === 'runoff' ? 'group vote' : session.status}
           </span>
         </div>
       </header>
@@ -149,6 +195,14 @@ export function SessionView() {
           </p>
         </section>
 
+        {session.status === 'open' && (
+          <InvitePanel
+            sessionId={session.id}
+            refreshKey={`${session.participants.length}:${submittedCount}`}
+            onError={setError}
+          />
+        )}
+
         {/* Status Section */}
         {session.status === 'open' && (
           <section className="card mb-6">
@@ -158,13 +212,23 @@ export function SessionView() {
                 <p className="text-gray-600 mt-1">
                   {submittedCount} of {session.participants.length} participants have voted
                 </p>
+                {session.closesAt && <Countdown closesAt={session.closesAt} onExpire={loadSession} />}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleStartRunoff}
+                  className="btn btn-secondary"
+                  disabled={submittedCount === 0}
+                >
+                  Start Group Vote
+                </button>
+                <button
+                  onClick={handleCloseSession}
+                  className="btn btn-danger"
+                >
+                  Close Session
+                </button>
               </div>
-              <button
-                onClick={handleCloseSession}
-                className="btn btn-danger"
-              >
-                Close Session
-              </button>
             </div>
 
             {session.participants.length > 0 && (
@@ -181,7 +245,7 @@ export function SessionView() {
                       }`}
                     >
                       {p.displayName}
-                      {p.submitted ? ' ✓' : ' ...'}
+                      {p.submitted ? ' ✓' : p.swiped ? ` ${p.swiped}/${p.total}` : ' ...'}
                     </span>
                   ))}
                 </div>
@@ -194,17 +258,60 @@ export function SessionView() {
           </section>
         )}
 
+        {/* Group Vote Section */}
+        {session.status === 'runoff' && session.runoff && (
+          <section className="card mb-6">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h2 className="text-xl font-bold">Group Vote</h2>
+                <p className="text-gray-600 mt-1">
+                  {session.runoff.ballotsCast} of {session.participants.length} participants have picked their #1
+                </p>
+              </div>
+              <button onClick={handleFinishRunoff} className="btn btn-success">
+                Reveal Winner
+              </button>
+            </div>
+            <div className="space-y-2">
+              {session.runoff.candidates.map((candidate) => (
+                <div key={candidate.mealId} className="flex justify-between border rounded-lg p-3">
+                  <span className="font-medium">{candidate.title}</span>
+                  <span className="text-gray-600">
+                    {candidate.votes} vote{candidate.votes !== 1 ? 's' : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-gray-500 mt-3">Ties are settled at random.</p>
+          </section>
+        )}
+
         {/* Results Section */}
-        {session.status === 'closed' && session.results && (
+        {session.status !== 'open' && session.results && (
           <section className="card mb-6">
-            <h2 className="text-xl font-bold mb-4">Results</h2>
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold">Results</h2>
+              {session.status === 'closed' && !session.selectedMealId && session.results.length > 1 && (
+                <button onClick={handleStartRunoff} className="btn btn-secondary">
+                  Start Group Vote
+                </button>
+              )}
+            </div>
 
             {session.selectedMealId && (
               <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4">
-                <p className="text-green-700 font-medium">
-                  Selected:{' '}
-                  {session.results.find((r) => r.mealId === session.selectedMealId)?.title}
-                </p>
+                <div className="flex justify-between items-center gap-3">
+                  <p className="text-green-700 font-medium">
+                    Selected:{' '}
+                    {session.results.find((r) => r.mealId === session.selectedMealId)?.title}
+                  </p>
+                  <Link
+                    to={`/session/${session.id}/shopping-list`}
+                    className="text-sm text-green-700 font-medium hover:underline whitespace-nowrap"
+                  >
+                    Shopping list →
+                  </Link>
+                </div>
               </div>
             )}
 
@@ -216,7 +323,7 @@ export function SessionView() {
                   isSelected={result.mealId === session.selectedMealId}
                   onSelect={() => handleSelectMeal(result.mealId)}
                   showVoters
-                  canSelect={!session.selectedMealId}
+                  canSelect={session.status === 'closed' && !session.selectedMealId}
                 />
               ))}
             </div>
@@ -290,18 +397,20 @@ function ResultCard({ result, isSelected, onSelect, showVoters, canSelect }: Res
               <span className="text-gray-600">
                 {result.yesCount}/{result.totalVotes} agreed
               </span>
-              <span className="font-medium">{result.percentage}%</span>
+              <span className="font-medium">
+                {result.scoringMode !== 'approval' ? `Score ${result.score}` : `${result.percentage}%`}
+              </span>
             </div>
             <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
               <div
                 className={`h-full ${
-                  result.percentage >= 75
+                  result.score >= 75
                     ? 'bg-green-500'
-                    : result.percentage >= 50
+                    : result.score >= 50
                     ? 'bg-yellow-500'
                     : 'bg-red-500'
                 }`}
-                style={{ width: `${result.percentage}%` }}
+                style={{ width: `${result.score}%` }}
               />
             </div>
           </div>
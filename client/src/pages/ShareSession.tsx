@@ -1,18 +1,54 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
+import { participantApi } from '../api/client';
+import { useSessionEvents, SessionEvent } from '../hooks/useSessionEvents';
 
 export function ShareSession() {
   const { sessionId } = useParams<{ sessionId: string }>();
   const navigate = useNavigate();
   const [inviteCode, setInviteCode] = useState('');
   const [copied, setCopied] = useState(false);
+  const [adminKey, setAdminKey] = useState<string | null>(null);
+  const [adminLinkCopied, setAdminLinkCopied] = useState(false);
+  const [joinedNames, setJoinedNames] = useState<string[]>([]);
 
   useEffect(() => {
     const code = sessionStorage.getItem('inviteCode');
     if (code) {
       setInviteCode(code);
     }
-  }, []);
+    // Anonymous creators get a recovery link; only this browser ever sees it
+    if (sessionStorage.getItem('sessionId') === sessionId) {
+      setAdminKey(sessionStorage.getItem('adminKey'));
+    }
+  }, [sessionId]);
+
+  const loadStatus = useCallback(() => {
+    if (!sessionId) return;
+
+    participantApi.getSessionStatus(sessionId)
+      .then((status) => {
+        if (status.status === 'closed') {
+          navigate(`/results/${sessionId}`);
+          return;
+        }
+        setJoinedNames(status.participants.map((p) => p.displayName));
+      })
+      .catch(() => setJoinedNames([]));
+  }, [sessionId, navigate]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  useSessionEvents(sessionId, (event: SessionEvent) => {
+    if (event.type === 'participant-joined' && event.data.participant) {
+      const { displayName } = event.data.participant;
+      setJoinedNames((prev) => [...prev, displayName]);
+    } else if (event.type === 'session-closed') {
+      navigate(`/results/${sessionId}`);
+    }
+  }, true, loadStatus);
 
   const shareUrl = `${window.location.origin}/join/${inviteCode}`;
 
@@ -34,6 +70,14 @@ export function ShareSession() {
     }
   };
 
+  const adminUrl = adminKey ? `${window.location.origin}/session/${sessionId}/admin?key=${adminKey}` : '';
+
+  const handleCopyAdminLink = async () => {
+    await navigator.clipboard.writeText(adminUrl);
+    setAdminLinkCopied(true);
+    setTimeout(() => setAdminLinkCopied(false), 2000);
+  };
+
   const handleShare = async () => {
     if (navigator.share) {
       try {
@@ -109,6 +153,46 @@ export function ShareSession() {
           </button>
         </div>
 
+        {joinedNames.length > 0 ? (
+          <div className="mt-6">
+            <p className="text-sm text-gray-600 mb-2">
+              {joinedNames.length} {joinedNames.length === 1 ? 'person has' : 'people have'} joined
+            </p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {joinedNames.map((name, i) => (
+                <span key={i} className="px-3 py-1 rounded-full text-sm bg-green-100 text-green-700">
+                  {name}
+                </span>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
+        {adminKey && (
+          <div className="mt-6 text-left bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <p className="text-sm font-semibold text-yellow-800 mb-1">Save your admin link</p>
+            <p className="text-xs text-yellow-700 mb-2">
+              It lets you close voting, pick the meal or extend the deadline from any device, even after closing
+              this tab. Keep it to yourself.
+            </p>
+            <div className="bg-white rounded-lg p-2 flex items-center gap-2">
+              <input
+                type="text"
+                value={adminUrl}
+                readOnly
+                aria-label="Admin link"
+                className="flex-1 bg-transparent text-xs text-gray-700 outline-none truncate"
+              />
+              <button
+                onClick={handleCopyAdminLink}
+                className="text-orange-600 hover:text-orange-700 font-medium text-sm whitespace-nowrap"
+              >
+                {adminLinkCopied ? 'Copied!' : 'Copy'}
+              </button>
+            </div>
+          </div>
+        )}
+
         <p className="mt-6 text-sm text-gray-500">
           Others can join anytime before you close the session
         </p>
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { BrowserRouter } from 'react-router-dom';
+import { ShoppingList } from './ShoppingList';
+import { sessionsApi } from '../api/client';
+
+vi.mock('../api/client', () => ({
+  sessionsApi: {
+    getShoppingList: vi.fn(),
+    shoppingListExportUrl: (id: string, format: string, people?: number) =>
+      `/api/sessions/${id}/shopping-list?format=${format}${people ? `&people=${people}` : ''}`,
+  },
+}));
+
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useParams: () => ({ sessionId: 'session1' }),
+  };
+});
+
+const mockList = {
+  sessionId: 'session1',
+  meal: { id: 'meal1', title: 'Pancakes' },
+  people: 4,
+  servings: 2,
+  items: [
+    { name: 'eggs', quantity: 4, unit: null },
+    { name: 'milk', quantity: 1.5, unit: 'cup' },
+    { name: 'salt', quantity: null, unit: null },
+  ],
+};
+
+describe('ShoppingList', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sessionsApi.getShoppingList).mockResolvedValue(mockList);
+  });
+
+  it('should list the scaled ingredients for the selected meal', async () => {
+    render(
+      <BrowserRouter>
+        <ShoppingList />
+      </BrowserRouter>
+    );
+
+    expect(await screen.findByText('Pancakes')).toBeDefined();
+    expect(screen.getByText('4 eggs')).toBeDefined();
+    expect(screen.getByText('1½ cup milk')).toBeDefined();
+    expect(screen.getByText('salt')).toBeDefined();
+    expect(screen.getByText('Recipe serves 2')).toBeDefined();
+    expect(sessionsApi.getShoppingList).toHaveBeenCalledWith('session1', undefined);
+  });
+
+  it('should reload for a different headcount and update export links', async () => {
+    render(
+      <BrowserRouter>
+        <ShoppingList />
+      </BrowserRouter>
+    );
+
+    await screen.findByText('Pancakes');
+    fireEvent.change(screen.getByLabelText('Cooking for'), { target: { value: '6' } });
+
+    await waitFor(() => {
+      expect(sessionsApi.getShoppingList).toHaveBeenCalledWith('session1', 6);
+    });
+    expect(screen.getByText('Download Markdown').getAttribute('href')).toBe(
+      '/api/sessions/session1/shopping-list?format=markdown&people=6'
+    );
+  });
+
+  it('should explain when no meal has been selected', async () => {
+    vi.mocked(sessionsApi.getShoppingList).mockRejectedValue(
+      new Error('Select a meal before making a shopping list')
+    );
+
+    render(
+      <BrowserRouter>
+        <ShoppingList />
+      </BrowserRouter>
+    );
+
+    expect(await screen.findByText('Select a meal before making a shopping list')).toBeDefined();
+  });
+});
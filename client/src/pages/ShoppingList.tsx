@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { sessionsApi, ShoppingList as ShoppingListData } from '../api/client';
+import { formatIngredient } from '../components/RecipeDetails';
+
+export function ShoppingList() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const [list, setList] = useState<ShoppingListData | null>(null);
+  const [people, setPeople] = useState<number | undefined>(undefined);
+  const [checked, setChecked] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadList = useCallback(async () => {
+    if (!sessionId) return;
+
+    try {
+      setList(await sessionsApi.getShoppingList(sessionId, people));
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load shopping list');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, people]);
+
+  useEffect(() => {
+    loadList();
+  }, [loadList]);
+
+  const toggleItem = (name: string) => {
+    setChecked((prev) => (prev.includes(name) ? prev.filter((n) => n !== name) : [...prev, name]));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600" />
+      </div>
+    );
+  }
+
+  if (!list) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="card text-center">
+          <p className="text-red-600 mb-4">{error || 'Shopping list not found'}</p>
+          <Link to={`/session/${sessionId}`} className="btn btn-primary">
+            Back to Session
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      <header className="bg-white shadow-sm print:hidden">
+        <div className="max-w-2xl mx-auto px-4 py-4">
+          <Link to={`/session/${sessionId}`} className="text-primary-600 hover:underline flex items-center gap-1">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Session
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 py-8">
+        <section className="card print:shadow-none print:p-0">
+          <h1 className="text-2xl font-bold">Shopping List</h1>
+          <p className="text-gray-600 mt-1">{list.meal.title}</p>
+
+          <div className="flex items-center gap-3 mt-4 print:hidden">
+            <label htmlFor="people" className="text-sm font-medium text-gray-700">
+              Cooking for
+            </label>
+            <input
+              id="people"
+              type="number"
+              min={1}
+              max={100}
+              value={people ?? list.people}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                if (value >= 1 && value <= 100) setPeople(value);
+              }}
+              className="input w-20"
+            />
+            <span className="text-sm text-gray-500">
+              {list.servings ? `Recipe serves ${list.servings}` : 'Recipe amounts are per person'}
+            </span>
+          </div>
+          <p className="hidden print:block text-sm text-gray-600">
+            For {list.people} {list.people === 1 ? 'person' : 'people'}
+          </p>
+
+          {error && <p className="text-red-600 text-sm mt-3">{error}</p>}
+
+          {list.items.length === 0 ? (
+            <p className="text-gray-500 mt-6">
+              No ingredients recorded for this meal. Add them from the meal's recipe on your dashboard.
+            </p>
+          ) : (
+            <ul className="mt-6 divide-y">
+              {list.items.map((item) => (
+                <li key={item.name} className="py-2">
+                  <label className="flex items-center gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={checked.includes(item.name)}
+                      onChange={() => toggleItem(item.name)}
+                      className="w-5 h-5 text-primary-600"
+                    />
+                    <span className={checked.includes(item.name) ? 'line-through text-gray-400' : ''}>
+                      {formatIngredient(item)}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex flex-wrap gap-3 mt-8 print:hidden">
+            <button onClick={() => window.print()} className="btn btn-primary">
+              Print
+            </button>
+            <a
+              href={sessionsApi.shoppingListExportUrl(list.sessionId, 'text', people)}
+              className="btn btn-secondary"
+              download
+            >
+              Download Text
+            </a>
+            <a
+              href={sessionsApi.shoppingListExportUrl(list.sessionId, 'markdown', people)}
+              className="btn btn-secondary"
+              download
+            >
+              Download Markdown
+            </a>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
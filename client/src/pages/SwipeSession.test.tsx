@@ -1,21 +1,26 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { SwipeSession } from './SwipeSession';
+import { participantApi } from '../api/client';
 
 // Mock the API
 vi.mock('../api/client', () => ({
   participantApi: {
     submitSwipes: vi.fn(),
+    saveSwipe: vi.fn(),
+    resume: vi.fn(),
+    getSessionStatus: vi.fn(),
   },
 }));
 
 // Mock SwipeDeck component
 vi.mock('../components/SwipeDeck', () => ({
-  SwipeDeck: ({ editMode, hintStyle, onComplete }: any) => (
+  SwipeDeck: ({ editMode, hintStyle, initialIndex, onComplete }: any) => (
     <div data-testid="swipe-deck">
       <div data-testid="edit-mode">{editMode ? 'edit' : 'normal'}</div>
       <div data-testid="hint-style">{hintStyle}</div>
+      <div data-testid="initial-index">{initialIndex}</div>
       <button onClick={() => onComplete({ '1': 1, '2': 0 })}>Complete</button>
     </div>
   ),
@@ -213,3 +218,123 @@ describe('SwipeSession - Visual Improvements', () => {
     expect(screen.getByTestId('hint-style').textContent).toBe('arrows');
   });
 });
+
+describe('SwipeSession - Resuming', () => {
+  const meals = [
+    { id: '1', title: 'Pizza', description: 'Yum', sessionMealId: 'sm1' },
+    { id: '2', title: 'Burger', description: 'Good', sessionMealId: 'sm2' },
+    { id: '3', title: 'Sushi', description: null, sessionMealId: 'sm3' },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sessionStorage.clear();
+  });
+
+  afterEach(() => {
+    window.history.pushState({}, '', '/');
+  });
+
+  it('should pick up from the votes saved on the server', async () => {
+    sessionStorage.setItem('session_session123', JSON.stringify({ participantId: 'p1', displayName: 'John', meals }));
+    vi.mocked(participantApi.resume).mockResolvedValue({
+      participantId: 'p1',
+      sessionId: 'session123',
+      displayName: 'John',
+      meals,
+      submitted: false,
+      swipes: { '1': 1, '2': 0 },
+      position: 2,
+    });
+
+    render(
+      <BrowserRouter>
+        <SwipeSession />
+      </BrowserRouter>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('initial-index').textContent).toBe('2');
+    });
+    expect(participantApi.resume).toHaveBeenCalledWith('session123', 'p1');
+  });
+
+  it('should restore the session on another device from a resume link', async () => {
+    window.history.pushState({}, '', '/session/session123/swipe?participant=p1');
+    vi.mocked(participantApi.resume).mockResolvedValue({
+      participantId: 'p1',
+      sessionId: 'session123',
+      displayName: 'John',
+      meals,
+      closesAt: null,
+      hiddenMealCount: 0,
+      submitted: false,
+      swipes: { '1': 2 },
+      position: 1,
+    });
+
+    render(
+      <BrowserRouter>
+        <SwipeSession />
+      </BrowserRouter>
+    );
+
+    expect(await screen.findByText(/Hey John!/i)).toBeDefined();
+    expect(screen.getByTestId('initial-index').textContent).toBe('1');
+    expect(JSON.parse(sessionStorage.getItem('session_session123')!).participantId).toBe('p1');
+  });
+});
+
+describe('SwipeSession - Deadline', () => {
+  const stored = {
+    participantId: 'participant123',
+    displayName: 'John',
+    meals: [{ id: '1', title: 'Pizza', description: 'Yum', sessionMealId: 'sm1' }],
+    closesAt: new Date(Date.now() - 1000).toISOString(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sessionStorage.clear();
+    window.history.pushState({}, '', '/session/session123/swipe');
+    sessionStorage.setItem('session_session123', JSON.stringify(stored));
+  });
+
+  it('should keep swiping when the deadline was extended', async () => {
+    const extended = new Date(Date.now() + 30 * 60 * 1000).toISOString();
+    vi.mocked(participantApi.getSessionStatus).mockResolvedValue({
+      status: 'open',
+      selectedMealId: null,
+      closesAt: extended,
+      participants: [],
+    });
+
+    render(
+      <BrowserRouter>
+        <SwipeSession />
+      </BrowserRouter>
+    );
+
+    expect(await screen.findByText(/Voting closes in/i)).toBeDefined();
+    expect(screen.queryByText('Session Ended')).toBeNull();
+    expect(JSON.parse(sessionStorage.getItem('session_session123')!).closesAt).toBe(extended);
+  });
+
+  it('should end swiping once the session has closed', async () => {
+    vi.mocked(participantApi.getSessionStatus).mockResolvedValue({
+      status: 'closed',
+      selectedMealId: null,
+      closesAt: stored.closesAt,
+      participants: [],
+    });
+
+    render(
+      <BrowserRouter>
+        <SwipeSession />
+      </BrowserRouter>
+    );
+
+    expect(await screen.findByText('Session Ended')).toBeDefined();
+    expect(sessionStorage.getItem('session_session123')).toBeNull();
+  });
+});
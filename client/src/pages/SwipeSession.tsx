@@ -1,8 +1,10 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate, useLocation } from 'react-router-dom';
-import { participantApi } from '../api/client';
+import { useParams, useNavigate, useLocation, useSearchParams } from 'react-router-dom';
+import { participantApi, MealRecipe, MealImage, RestaurantInfo, DietaryInfo, Allergen } from '../api/client';
 import { SwipeDeck } from '../components/SwipeDeck';
 import { useSwipeProgress } from '../hooks/useLocalStorage';
+import Countdown from '../components/Countdown';
+import { useSessionEvents, SessionEvent } from '../hooks/useSessionEvents';
 
 interface SessionData {
   participantId: string;
@@ -11,8 +13,13 @@ interface SessionData {
     id: string;
     title: string;
     description: string | null;
+    type?: string;
+    openNow?: boolean | null;
+    dietaryWarnings?: Allergen[];
     sessionMealId: string;
-  }>;
+  } & MealRecipe & MealImage & RestaurantInfo & DietaryInfo>;
+  closesAt?: string | null;
+  hiddenMealCount?: number;
 }
 
 export function SwipeSession() {
@@ -26,6 +33,12 @@ export function SwipeSession() {
   const [error, setError] = useState('');
   const [sessionClosed, setSessionClosed] = useState(false);
   const [hintStyle, setHintStyle] = useState<'bounce' | 'arrows' | 'text'>('bounce');
+  const [searchParams] = useSearchParams();
+  const resumeParticipantId = searchParams.get('participant');
+  // Votes saved on the server, which may have been made on another device
+  const [serverProgress, setServerProgress] = useState<{ swipes: Record<string, number>; position: number } | null>(null);
+  const [deckKey, setDeckKey] = useState(0);
+  const [linkCopied, setLinkCopied] = useState(false);
 
   // Initialize progress hook with placeholder values first
   const displayName = sessionData?.displayName || '';
@@ -38,22 +51,75 @@ export function SwipeSession() {
     loadSessionData();
   }, [sessionId]);
 
+  // The creator can move or remove the deadline while people are swiping
+  useSessionEvents(sessionId, (event: SessionEvent) => {
+    if (event.type !== 'deadline-changed') return;
+    setSessionData((current) => {
+      if (!current) return current;
+      const data = { ...current, closesAt: event.data.closesAt ?? null };
+      sessionStorage.setItem(`session_${sessionId}`, JSON.stringify(data));
+      return data;
+    });
+  }, !!sessionData && !sessionClosed);
+
   const loadSessionData = () => {
     if (!sessionId) return;
 
     // Try to get session data from storage
     const stored = sessionStorage.getItem(`session_${sessionId}`);
-    if (stored) {
-      setSessionData(JSON.parse(stored));
+    const storedData: SessionData | null = stored ? JSON.parse(stored) : null;
+    if (storedData && (!resumeParticipantId || storedData.participantId === resumeParticipantId)) {
+      setSessionData(storedData);
+      syncProgress(storedData.participantId, false);
+    } else if (resumeParticipantId) {
+      // Opened from a "continue on another device" link
+      syncProgress(resumeParticipantId, true);
     } else {
       // No session data - redirect to join
       setError('Session data not found. Please rejoin the session.');
     }
   };
 
+  const syncProgress = async (participantId: string, restoreSession: boolean) => {
+    if (!sessionId) return;
+
+    try {
+      const resumed = await participantApi.resume(sessionId, participantId);
+      if (restoreSession) {
+        const data: SessionData = {
+          participantId: resumed.participantId,
+          displayName: resumed.displayName,
+          meals: resumed.meals,
+          closesAt: resumed.closesAt,
+          hiddenMealCount: resumed.hiddenMealCount,
+        };
+        sessionStorage.setItem(`session_${sessionId}`, JSON.stringify(data));
+        setSessionData(data);
+      }
+
+      if (resumed.submitted && !editMode) {
+        navigate(`/results/${sessionId}`);
+        return;
+      }
+      if (Object.keys(resumed.swipes).length > 0) {
+        setServerProgress({ swipes: resumed.swipes, position: resumed.position });
+        setDeckKey((key) => key + 1); // restart the deck from the saved position
+      }
+    } catch (err) {
+      if (err && typeof err === 'object' && 'sessionClosed' in err && err.sessionClosed) {
+        clearProgress();
+        sessionStorage.removeItem(`session_${sessionId}`);
+        setSessionClosed(true);
+      } else if (restoreSession) {
+        setError(err instanceof Error ? err.message : 'Failed to load your votes');
+      }
+      // Otherwise carry on with the progress saved on this device
+    }
+  };
+
   const handleSwipe = (
-    _mealId: string,
-    _vote: number,
+    mealId: string,
+    vote: number,
     allSwipes: Record<string, number>
   ) => {
     if (!sessionData || !sessionId) return;
@@ -63,6 +129,23 @@ export function SwipeSession() {
 
     // Save progress to local storage
     saveProgress(sessionData.participantId, allSwipes, currentIndex);
+
+    // And on the server, so the host sees progress and the votes follow the participant to other devices.
+    // Changes to a submitted ballot wait for "Update" instead.
+    if (!editMode) {
+      participantApi.saveSwipe(sessionId, sessionData.participantId, mealId, vote).catch(() => {
+        // Not fatal: every vote is sent again on submit
+      });
+    }
+  };
+
+  const handleCopyResumeLink = async () => {
+    if (!sessionData || !sessionId) return;
+
+    const resumeUrl = `${window.location.origin}/session/${sessionId}/swipe?participant=${sessionData.participantId}`;
+    await navigator.clipboard.writeText(resumeUrl);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
   };
 
   const handleComplete = async (swipes: Record<string, number>) => {
@@ -103,6 +186,28 @@ export function SwipeSession() {
     }
   };
 
+  // The server closes the session at the deadline; stop swiping and clear saved progress.
+  // Check first, since the creator may have extended the deadline after this page loaded.
+  const handleDeadline = async () => {
+    if (!sessionId || !sessionData) return;
+
+    try {
+      const status = await participantApi.getSessionStatus(sessionId);
+      if (status.status === 'open') {
+        const data = { ...sessionData, closesAt: status.closesAt ?? null };
+        sessionStorage.setItem(`session_${sessionId}`, JSON.stringify(data));
+        setSessionData(data);
+        return;
+      }
+    } catch {
+      // Assume the deadline held
+    }
+
+    clearProgress();
+    sessionStorage.removeItem(`session_${sessionId}`);
+    setSessionClosed(true);
+  };
+
   if (sessionClosed) {
     return (
       <div className="min-h-screen flex items-center justify-center px-4">
@@ -170,9 +275,11 @@ export function SwipeSession() {
     );
   }
 
-  // Get initial state from progress if available
-  const initialSwipes = progress?.swipes || {};
-  const initialIndex = editMode ? sessionData.meals.length : (progress?.currentIndex || 0);
+  // Get initial state from the server's saved votes, or this device's progress
+  const initialSwipes = serverProgress?.swipes || progress?.swipes || {};
+  const initialIndex = editMode
+    ? sessionData.meals.length
+    : (serverProgress?.position ?? (progress?.currentIndex || 0));
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-200 to-gray-300 py-6 px-4">
@@ -183,9 +290,20 @@ export function SwipeSession() {
           <p className="text-gray-600 text-sm mt-1">
             {editMode ? `Update your choices, ${sessionData.displayName}!` : `Hey ${sessionData.displayName}! Swipe right on meals you'd like.`}
           </p>
+          {sessionData.closesAt && (
+            <div className="mt-2">
+              <Countdown closesAt={sessionData.closesAt} onExpire={handleDeadline} />
+            </div>
+          )}
+          {!!sessionData.hiddenMealCount && (
+            <p className="text-xs text-gray-500 mt-2">
+              {sessionData.hiddenMealCount} {sessionData.hiddenMealCount === 1 ? 'meal is' : 'meals are'} hidden
+              because of your allergies.
+            </p>
+          )}
 
           {/* Dev toggle for swipe hint styles */}
-          <div className="mt-3">
+          <div className="mt-3 flex justify-center gap-2">
             <button
               onClick={() => {
                 setHintStyle(prev =>
@@ -196,6 +314,14 @@ export function SwipeSession() {
             >
               Hint: {hintStyle}
             </button>
+            {!editMode && (
+              <button
+                onClick={handleCopyResumeLink}
+                className="text-xs px-3 py-1 bg-white rounded-full shadow-md border border-gray-300 hover:bg-gray-50 transition-colors"
+              >
+                {linkCopied ? 'Link copied!' : 'Continue on another device'}
+              </button>
+            )}
           </div>
         </div>
 
@@ -207,6 +333,7 @@ export function SwipeSession() {
 
         {/* Swipe deck */}
         <SwipeDeck
+          key={deckKey}
           meals={sessionData.meals}
           initialSwipes={initialSwipes}
           initialIndex={initialIndex}
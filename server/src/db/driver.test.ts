@@ -0,0 +1,85 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { SqlDriver, DriverName, getDriverName, openDriver } from './driver';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), `mealmatch-driver-${uuidv4()}`));
+
+function tempFile(): string {
+  return path.join(dir, `${uuidv4()}.db`);
+}
+
+function createMeals(driver: SqlDriver): void {
+  driver.exec(`
+    CREATE TABLE meals (id TEXT PRIMARY KEY, title TEXT, note TEXT, archived INTEGER DEFAULT 0, rating REAL);
+    CREATE INDEX idx_meals_title ON meals(title);
+  `);
+}
+
+describe('Database Drivers', () => {
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should pick the native driver unless told otherwise', () => {
+    expect(getDriverName({})).toBe('sqlite');
+    expect(getDriverName({ VITEST: 'true' })).toBe('sqljs');
+    expect(getDriverName({ VITEST: 'true', DATABASE_DRIVER: 'sqlite' })).toBe('sqlite');
+    expect(getDriverName({ DATABASE_DRIVER: 'sqljs' })).toBe('sqljs');
+    expect(getDriverName({ DATABASE_DRIVER: 'postgres' })).toBe('sqlite');
+  });
+
+  for (const name of ['sqlite', 'sqljs'] as DriverName[]) {
+    it(`should read and write the same way with ${name}`, async () => {
+      const driver = await openDriver(name, tempFile());
+      createMeals(driver);
+
+      driver.run('INSERT INTO meals (id, title, note, archived, rating) VALUES (?, ?, ?, ?, ?)', ['m1', 'Pho', 7, true, 4.5]);
+      driver.run('INSERT INTO meals (id, title, note) VALUES (?, ?, ?)', ['m2', 'Laksa', null]);
+
+      expect(driver.get('SELECT * FROM meals WHERE id = ?', ['m1'])).toEqual({
+        id: 'm1', title: 'Pho', note: '7', archived: 1, rating: 4.5,
+      });
+      expect(driver.get('SELECT * FROM meals WHERE id = ?', ['missing'])).toBeUndefined();
+      expect(driver.all<{ title: string }>('SELECT title FROM meals ORDER BY title').map(m => m.title))
+        .toEqual(['Laksa', 'Pho']);
+      expect(driver.get('SELECT note FROM meals WHERE id = ?', ['m2'])).toEqual({ note: null });
+      expect(() => driver.run('INSERT INTO meals (id) VALUES (?)', ['m1'])).toThrow('UNIQUE constraint failed');
+
+      driver.close();
+    });
+  }
+
+  it('should keep writes on disk in WAL mode with the native driver', async () => {
+    const file = tempFile();
+    const driver = await openDriver('sqlite', file);
+    createMeals(driver);
+
+    expect(driver.get('PRAGMA journal_mode')).toEqual({ journal_mode: 'wal' });
+
+    driver.exec('BEGIN');
+    driver.run('INSERT INTO meals (id, title) VALUES (?, ?)', ['m1', 'Pho']);
+    driver.exec('ROLLBACK');
+    driver.run('INSERT INTO meals (id, title) VALUES (?, ?)', ['m2', 'Laksa']);
+    driver.close();
+
+    const reopened = await openDriver('sqlite', file);
+    expect(reopened.all('SELECT id FROM meals')).toEqual([{ id: 'm2' }]);
+    reopened.close();
+  });
+
+  it('should open a database saved by sql.js with the native driver', async () => {
+    const file = tempFile();
+    const sqlJs = await openDriver('sqljs', file);
+    createMeals(sqlJs);
+    sqlJs.run('INSERT INTO meals (id, title) VALUES (?, ?)', ['m1', 'Pho']);
+    sqlJs.save();
+    sqlJs.close();
+
+    const native = await openDriver('sqlite', file);
+    expect(native.get('SELECT title FROM meals WHERE id = ?', ['m1'])).toEqual({ title: 'Pho' });
+    native.close();
+  });
+});
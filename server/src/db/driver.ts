@@ -0,0 +1,142 @@
+import fs from 'fs';
+import initSqlJs from 'sql.js';
+import BetterSqlite3 from 'better-sqlite3';
+
+export type DriverName = 'sqlite' | 'sqljs';
+
+// What the rest of the server needs from a SQLite connection
+export interface SqlDriver {
+  readonly name: DriverName;
+  // One statement, with ? parameters
+  run(sql: string, params?: unknown[]): void;
+  // Any number of statements, no parameters (schema setup)
+  exec(sql: string): void;
+  get<T>(sql: string, params?: unknown[]): T | undefined;
+  all<T>(sql: string, params?: unknown[]): T[];
+  // Make committed writes durable; only the in-memory driver has anything to do
+  save(): void;
+  close(): void;
+}
+
+const STATEMENT_CACHE_SIZE = 200;
+
+// The native driver is the default. sql.js keeps the whole database in memory and rewrites the file
+// on every save, which is fine for tests but not for a server; DATABASE_DRIVER=sqljs opts back in.
+export function getDriverName(env: NodeJS.ProcessEnv = process.env): DriverName {
+  if (env.DATABASE_DRIVER === 'sqljs' || env.DATABASE_DRIVER === 'sqlite') return env.DATABASE_DRIVER;
+  return env.VITEST ? 'sqljs' : 'sqlite';
+}
+
+export async function openDriver(name: DriverName, filePath: string): Promise<SqlDriver> {
+  return name === 'sqljs' ? openSqlJs(filePath) : openSqlite(filePath);
+}
+
+// better-sqlite3 binds every JS number as REAL and rejects booleans; bind them the way sql.js does
+function bindable(params: unknown[]): unknown[] {
+  return params.map(value => {
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'number' && Number.isSafeInteger(value)) return BigInt(value);
+    return value;
+  });
+}
+
+// File-backed SQLite through better-sqlite3: WAL journaling, writes go straight to disk
+export function openSqlite(filePath: string): SqlDriver {
+  const database = new BetterSqlite3(filePath);
+  database.pragma('journal_mode = WAL');
+  database.pragma('synchronous = NORMAL');
+  database.pragma('busy_timeout = 5000');
+  // better-sqlite3 turns foreign keys on, sql.js leaves them off; quick sessions rely on the latter
+  // (their temp_ host IDs are in no hosts row)
+  database.pragma('foreign_keys = OFF');
+
+  const statements = new Map<string, BetterSqlite3.Statement>();
+  const prepare = (sql: string): BetterSqlite3.Statement => {
+    let stmt = statements.get(sql);
+    if (!stmt) {
+      stmt = database.prepare(sql);
+      if (statements.size >= STATEMENT_CACHE_SIZE) {
+        statements.delete(statements.keys().next().value!);
+      }
+      statements.set(sql, stmt);
+    }
+    return stmt;
+  };
+
+  return {
+    name: 'sqlite',
+    run(sql, params = []) {
+      const stmt = prepare(sql);
+      if (stmt.reader) {
+        stmt.all(...bindable(params));
+      } else {
+        stmt.run(...bindable(params));
+      }
+    },
+    exec(sql) {
+      database.exec(sql);
+    },
+    get<T>(sql: string, params: unknown[] = []) {
+      return prepare(sql).get(...bindable(params)) as T | undefined;
+    },
+    all<T>(sql: string, params: unknown[] = []) {
+      return prepare(sql).all(...bindable(params)) as T[];
+    },
+    save() {
+      // Every committed write is already on disk
+    },
+    close() {
+      statements.clear();
+      database.close();
+    },
+  };
+}
+
+// sql.js (SQLite compiled to WebAssembly), held in memory and written out whole on save.
+// ':memory:' never touches the disk.
+export async function openSqlJs(filePath: string): Promise<SqlDriver> {
+  const SQL = await initSqlJs();
+  const inMemory = filePath === ':memory:';
+  const database = !inMemory && fs.existsSync(filePath)
+    ? new SQL.Database(fs.readFileSync(filePath))
+    : new SQL.Database();
+
+  return {
+    name: 'sqljs',
+    run(sql, params = []) {
+      database.run(sql, params);
+    },
+    exec(sql) {
+      database.exec(sql);
+    },
+    get<T>(sql: string, params: unknown[] = []) {
+      const stmt = database.prepare(sql);
+      try {
+        stmt.bind(params);
+        return stmt.step() ? stmt.getAsObject() as T : undefined;
+      } finally {
+        stmt.free();
+      }
+    },
+    all<T>(sql: string, params: unknown[] = []) {
+      const stmt = database.prepare(sql);
+      try {
+        stmt.bind(params);
+        const rows: T[] = [];
+        while (stmt.step()) {
+          rows.push(stmt.getAsObject() as T);
+        }
+        return rows;
+      } finally {
+        stmt.free();
+      }
+    },
+    save() {
+      if (inMemory) return;
+      fs.writeFileSync(filePath, Buffer.from(database.export()));
+    },
+    close() {
+      database.close();
+    },
+  };
+}
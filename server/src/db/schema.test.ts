@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { v4 as uuidv4 } from 'uuid';
+import { initializeDatabase, runQuery, getOne, runTransaction } from './schema';
+
+function addHost(id: string, email: string): void {
+  runQuery('INSERT INTO hosts (id, email, password_hash) VALUES (?, ?, ?)', [id, email, 'hash']);
+}
+
+describe('Database Transactions', () => {
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  it('should keep every write when the transaction succeeds', () => {
+    const hostId = `tx-host-${uuidv4()}`;
+    const mealId = `tx-meal-${uuidv4()}`;
+
+    const count = runTransaction(() => {
+      addHost(hostId, `${hostId}@test.com`);
+      runQuery('INSERT INTO meals (id, host_id, title) VALUES (?, ?, ?)', [mealId, hostId, 'Soup']);
+      return getOne<{ count: number }>('SELECT COUNT(*) as count FROM meals WHERE host_id = ?', [hostId])!.count;
+    });
+
+    expect(count).toBe(1);
+    expect(getOne('SELECT id FROM meals WHERE id = ?', [mealId])).toBeDefined();
+  });
+
+  it('should undo every write when the transaction throws, nested ones included', () => {
+    const hostId = `tx-host-${uuidv4()}`;
+    const mealId = `tx-meal-${uuidv4()}`;
+
+    expect(() => runTransaction(() => {
+      addHost(hostId, `${hostId}@test.com`);
+      runTransaction(() => {
+        runQuery('INSERT INTO meals (id, host_id, title) VALUES (?, ?, ?)', [mealId, hostId, 'Stew']);
+      });
+      addHost(`${hostId}-again`, `${hostId}@test.com`); // same email
+    })).toThrow('UNIQUE constraint failed');
+
+    expect(getOne('SELECT id FROM hosts WHERE id = ?', [hostId])).toBeUndefined();
+    expect(getOne('SELECT id FROM meals WHERE id = ?', [mealId])).toBeUndefined();
+
+    // Later writes are saved as usual
+    const laterId = `tx-host-${uuidv4()}`;
+    addHost(laterId, `${laterId}@test.com`);
+    expect(getOne('SELECT id FROM hosts WHERE id = ?', [laterId])).toBeDefined();
+  });
+});
@@ -1,29 +1,26 @@
-import initSqlJs, { Database } from 'sql.js';
 import fs from 'fs';
 import path from 'path';
+import { SqlDriver, getDriverName, openDriver } from './driver';
 
-let db: Database | null = null;
+let db: SqlDriver | null = null;
 
 const DATABASE_PATH = process.env.DATABASE_PATH || path.join(__dirname, '../../data/database.db');
 
-export async function initializeDatabase(): Promise<Database> {
+export async function initializeDatabase(): Promise<SqlDriver> {
   if (db) return db;
 
-  const SQL = await initSqlJs();
-
   // Ensure data directory exists
   const dataDir = path.dirname(DATABASE_PATH);
   if (!fs.existsSync(dataDir)) {
     fs.mkdirSync(dataDir, { recursive: true });
   }
 
-  // Load existing database or create new one
-  if (fs.existsSync(DATABASE_PATH)) {
-    const buffer = fs.readFileSync(DATABASE_PATH);
-    db = new SQL.Database(buffer);
+  // Both drivers read the same file format, so a database written by either opens with the other
+  const exists = fs.existsSync(DATABASE_PATH);
+  db = await openDriver(getDriverName(), DATABASE_PATH);
+  if (exists) {
     runMigrations(db);
   } else {
-    db = new SQL.Database();
     createTables(db);
     saveDatabase();
   }
@@ -31,7 +28,7 @@ export async function initializeDatabase(): Promise<Database> {
   return db;
 }
 
-function runMigrations(database: Database): void {
+function runMigrations(database: SqlDriver): void {
   // Add temporary and creator_token columns to meals table if they don't exist
   try {
     database.run('ALTER TABLE meals ADD COLUMN temporary INTEGER DEFAULT 0');
@@ -45,11 +42,201 @@ function runMigrations(database: Database): void {
     // Column already exists, ignore
   }
 
+  // Add scoring strategy columns to sessions table if they don't exist
+  try {
+    database.run("ALTER TABLE sessions ADD COLUMN scoring_mode TEXT DEFAULT 'approval'");
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE sessions ADD COLUMN maybe_weight REAL DEFAULT 0.5');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  // Record how the final meal was chosen (host pick or runoff, with any tie)
+  try {
+    database.run("ALTER TABLE session_history ADD COLUMN selection_method TEXT DEFAULT 'host'");
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE session_history ADD COLUMN tied_meal_ids TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  // Sessions created from templates: origin, participant cap and auto-close deadline
+  try {
+    database.run('ALTER TABLE sessions ADD COLUMN template_id TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE sessions ADD COLUMN max_participants INTEGER');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE sessions ADD COLUMN closes_at DATETIME');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  // Host opt-in: close as soon as every participant has submitted
+  try {
+    database.run('ALTER TABLE sessions ADD COLUMN auto_close_when_complete INTEGER DEFAULT 0');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  // Recipe details: JSON ingredient and step lists, timings and difficulty
+  try {
+    database.run('ALTER TABLE meals ADD COLUMN ingredients TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE meals ADD COLUMN steps TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE meals ADD COLUMN prep_minutes INTEGER');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE meals ADD COLUMN cook_minutes INTEGER');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE meals ADD COLUMN difficulty TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  // How many people a recipe's quantities feed, for scaling shopping lists
+  try {
+    database.run('ALTER TABLE meals ADD COLUMN servings INTEGER');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  // Uploaded photo, stored on disk under the data directory
+  try {
+    database.run('ALTER TABLE meals ADD COLUMN image_id TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  // Restaurant details: location, cuisine, price tier (1-4), JSON opening hours and contact info
+  try {
+    database.run('ALTER TABLE meals ADD COLUMN address TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE meals ADD COLUMN cuisine TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE meals ADD COLUMN price_tier INTEGER');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE meals ADD COLUMN opening_hours TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE meals ADD COLUMN phone TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE meals ADD COLUMN website_url TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE participants ADD COLUMN profile_id TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE meals ADD COLUMN allergens TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE participants ADD COLUMN restrictions TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE participants ADD COLUMN deck_order TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE swipes ADD COLUMN draft INTEGER DEFAULT 0');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  try {
+    database.run('ALTER TABLE sessions ADD COLUMN creator_token TEXT');
+  } catch (e) {
+    // Column already exists, ignore
+  }
+
+  // Quick sessions made before the token lived on the session row kept it only on their meals
+  database.run(`
+    UPDATE sessions SET creator_token = (
+      SELECT m.creator_token FROM meals m
+      JOIN session_meals sm ON sm.meal_id = m.id
+      WHERE sm.session_id = sessions.id AND m.creator_token IS NOT NULL
+      LIMIT 1
+    )
+    WHERE creator_token IS NULL AND substr(host_id, 1, 5) = 'temp_'
+  `);
+
+  createRunoffTables(database);
+  createTagTables(database);
+  createPlaylistTables(database);
+  createTemplateTables(database);
+  createProfileTables(database);
+  createInviteTables(database);
+  createWebhookTables(database);
+  createChatTables(database);
+
   saveDatabase();
 }
 
-function createTables(database: Database): void {
-  database.run(`
+function createTables(database: SqlDriver): void {
+  database.exec(`
     -- Host accounts
     CREATE TABLE IF NOT EXISTS hosts (
       id TEXT PRIMARY KEY,
@@ -69,6 +256,20 @@ function createTables(database: Database): void {
       pick_count INTEGER DEFAULT 0,
       temporary INTEGER DEFAULT 0,
       creator_token TEXT,
+      ingredients TEXT, -- JSON array of { quantity, unit, name }
+      steps TEXT, -- JSON array of strings
+      prep_minutes INTEGER,
+      cook_minutes INTEGER,
+      difficulty TEXT,
+      servings INTEGER,
+      image_id TEXT, -- uploaded photo, see services/images.ts
+      address TEXT,
+      cuisine TEXT,
+      price_tier INTEGER, -- 1-4, shown as $ to $$$$
+      opening_hours TEXT, -- JSON array of { day, open, close }
+      phone TEXT,
+      website_url TEXT,
+      allergens TEXT, -- JSON array of allergen codes, see services/dietary.ts
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP
     );
 
@@ -79,6 +280,13 @@ function createTables(database: Database): void {
       invite_code TEXT UNIQUE NOT NULL,
       status TEXT DEFAULT 'open',
       selected_meal_id TEXT REFERENCES meals(id),
+      scoring_mode TEXT DEFAULT 'approval',
+      maybe_weight REAL DEFAULT 0.5,
+      template_id TEXT,
+      max_participants INTEGER,
+      closes_at DATETIME,
+      auto_close_when_complete INTEGER DEFAULT 0,
+      creator_token TEXT, -- anonymous quick sessions: manages the session, and keys its admin link
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       closed_at DATETIME
     );
@@ -97,6 +305,9 @@ function createTables(database: Database): void {
       session_id TEXT NOT NULL REFERENCES sessions(id),
       display_name TEXT NOT NULL,
       host_id TEXT REFERENCES hosts(id),
+      profile_id TEXT, -- participant_profiles row when the person chose to be remembered
+      restrictions TEXT, -- JSON array of { code, hard } dietary restrictions
+      deck_order TEXT, -- JSON array of meal IDs in the order they were dealt; NULL follows display_order
       submitted INTEGER DEFAULT 0,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP
     );
@@ -107,6 +318,7 @@ function createTables(database: Database): void {
       participant_id TEXT NOT NULL REFERENCES participants(id),
       session_meal_id TEXT NOT NULL REFERENCES session_meals(id),
       vote INTEGER NOT NULL,
+      draft INTEGER DEFAULT 0, -- saved while swiping; submitting makes the participant's swipes final
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       UNIQUE(participant_id, session_meal_id)
     );
@@ -116,6 +328,8 @@ function createTables(database: Database): void {
       id TEXT PRIMARY KEY,
       session_id TEXT UNIQUE NOT NULL REFERENCES sessions(id),
       selected_meal_id TEXT NOT NULL REFERENCES meals(id),
+      selection_method TEXT DEFAULT 'host',
+      tied_meal_ids TEXT,
       selected_at DATETIME DEFAULT CURRENT_TIMESTAMP
     );
 
@@ -127,21 +341,217 @@ function createTables(database: Database): void {
     CREATE INDEX IF NOT EXISTS idx_participants_session_id ON participants(session_id);
     CREATE INDEX IF NOT EXISTS idx_swipes_participant_id ON swipes(participant_id);
   `);
+
+  createRunoffTables(database);
+  createTagTables(database);
+  createPlaylistTables(database);
+  createTemplateTables(database);
+  createProfileTables(database);
+  createInviteTables(database);
+  createWebhookTables(database);
+  createChatTables(database);
+}
+
+function createTagTables(database: SqlDriver): void {
+  database.exec(`
+    -- Tags owned by hosts (names stored lowercase)
+    CREATE TABLE IF NOT EXISTS tags (
+      id TEXT PRIMARY KEY,
+      host_id TEXT NOT NULL REFERENCES hosts(id),
+      name TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(host_id, name)
+    );
+
+    -- Junction table: which tags are on which meals
+    CREATE TABLE IF NOT EXISTS meal_tags (
+      meal_id TEXT NOT NULL REFERENCES meals(id),
+      tag_id TEXT NOT NULL REFERENCES tags(id),
+      PRIMARY KEY (meal_id, tag_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_tags_host_id ON tags(host_id);
+    CREATE INDEX IF NOT EXISTS idx_meal_tags_tag_id ON meal_tags(tag_id);
+  `);
+}
+
+function createPlaylistTables(database: SqlDriver): void {
+  database.exec(`
+    -- Saved meal collections owned by hosts (e.g. "Weeknight Quick")
+    CREATE TABLE IF NOT EXISTS playlists (
+      id TEXT PRIMARY KEY,
+      host_id TEXT NOT NULL REFERENCES hosts(id),
+      name TEXT NOT NULL,
+      description TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Ordered playlist membership
+    CREATE TABLE IF NOT EXISTS playlist_meals (
+      playlist_id TEXT NOT NULL REFERENCES playlists(id),
+      meal_id TEXT NOT NULL REFERENCES meals(id),
+      position INTEGER NOT NULL,
+      PRIMARY KEY (playlist_id, meal_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_playlists_host_id ON playlists(host_id);
+    CREATE INDEX IF NOT EXISTS idx_playlist_meals_meal_id ON playlist_meals(meal_id);
+  `);
 }
 
-export function getDatabase(): Database {
+function createTemplateTables(database: SqlDriver): void {
+  database.exec(`
+    -- Reusable session setups, optionally recreated on a cron-like schedule
+    CREATE TABLE IF NOT EXISTS session_templates (
+      id TEXT PRIMARY KEY,
+      host_id TEXT NOT NULL REFERENCES hosts(id),
+      name TEXT NOT NULL,
+      meal_ids TEXT, -- JSON array; used when playlist_id is null
+      playlist_id TEXT REFERENCES playlists(id),
+      scoring_mode TEXT DEFAULT 'approval',
+      max_participants INTEGER,
+      schedule TEXT,
+      auto_close_minutes INTEGER,
+      active INTEGER DEFAULT 1,
+      last_run_at DATETIME,
+      next_run_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_session_templates_host_id ON session_templates(host_id);
+  `);
+}
+
+function createProfileTables(database: SqlDriver): void {
+  database.exec(`
+    -- The same person across sessions: a guest remembered by a device token, or a host account
+    CREATE TABLE IF NOT EXISTS participant_profiles (
+      id TEXT PRIMARY KEY,
+      token TEXT UNIQUE, -- held in the guest's browser; null for account-linked profiles
+      host_id TEXT UNIQUE REFERENCES hosts(id),
+      display_name TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      last_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_participants_profile_id ON participants(profile_id);
+  `);
+}
+
+function createInviteTables(database: SqlDriver): void {
+  database.exec(`
+    -- People the host invited by email; the token in their join link ties them to a participant
+    CREATE TABLE IF NOT EXISTS session_invites (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL REFERENCES sessions(id),
+      email TEXT NOT NULL,
+      token TEXT UNIQUE NOT NULL,
+      participant_id TEXT REFERENCES participants(id),
+      invited_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      reminded_at DATETIME,
+      results_sent_at DATETIME,
+      UNIQUE(session_id, email)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_session_invites_session_id ON session_invites(session_id);
+  `);
+}
+
+function createWebhookTables(database: SqlDriver): void {
+  database.exec(`
+    -- Host-configured HTTP callbacks for session lifecycle events
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id TEXT PRIMARY KEY,
+      host_id TEXT NOT NULL REFERENCES hosts(id),
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      events TEXT NOT NULL DEFAULT '[]', -- JSON array; empty means every event
+      active INTEGER DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- One row per event sent to a webhook, kept as the delivery log and retry queue
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      webhook_id TEXT NOT NULL REFERENCES webhooks(id),
+      event TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending', -- pending, delivered or failed
+      attempts INTEGER DEFAULT 0,
+      response_status INTEGER,
+      error TEXT,
+      next_attempt_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      delivered_at DATETIME
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_webhooks_host_id ON webhooks(host_id);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_next_attempt_at ON webhook_deliveries(next_attempt_at);
+  `);
+}
+
+function createChatTables(database: SqlDriver): void {
+  database.exec(`
+    -- Sessions started by a chat slash command, and where to post their results
+    CREATE TABLE IF NOT EXISTS chat_sessions (
+      session_id TEXT PRIMARY KEY REFERENCES sessions(id),
+      team_id TEXT NOT NULL,
+      channel_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      response_url TEXT NOT NULL,
+      creator_token TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      results_posted_at DATETIME
+    );
+  `);
+}
+
+function createRunoffTables(database: SqlDriver): void {
+  database.exec(`
+    -- Meals shortlisted for a session's runoff ("Group Vote")
+    CREATE TABLE IF NOT EXISTS runoff_candidates (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL REFERENCES sessions(id),
+      meal_id TEXT NOT NULL REFERENCES meals(id),
+      display_order INTEGER,
+      UNIQUE(session_id, meal_id)
+    );
+
+    -- One single-choice ballot per participant
+    CREATE TABLE IF NOT EXISTS runoff_votes (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL REFERENCES sessions(id),
+      participant_id TEXT NOT NULL REFERENCES participants(id),
+      meal_id TEXT NOT NULL REFERENCES meals(id),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(session_id, participant_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_runoff_candidates_session_id ON runoff_candidates(session_id);
+    CREATE INDEX IF NOT EXISTS idx_runoff_votes_session_id ON runoff_votes(session_id);
+  `);
+}
+
+// Directory holding the database file; uploaded files are stored next to it
+export function getDataDirectory(): string {
+  return path.dirname(DATABASE_PATH);
+}
+
+export function getDatabase(): SqlDriver {
   if (!db) {
     throw new Error('Database not initialized. Call initializeDatabase() first.');
   }
   return db;
 }
 
-export function saveDatabase(): void {
-  if (!db) return;
+// Set while runTransaction runs; writes are saved once it commits
+let inTransaction = false;
 
-  const data = db.export();
-  const buffer = Buffer.from(data);
-  fs.writeFileSync(DATABASE_PATH, buffer);
+export function saveDatabase(): void {
+  if (!db || inTransaction) return;
+  db.save();
 }
 
 // Helper to run queries and save automatically
@@ -151,31 +561,38 @@ export function runQuery(sql: string, params: unknown[] = []): void {
   saveDatabase();
 }
 
-export function getOne<T>(sql: string, params: unknown[] = []): T | undefined {
-  const database = getDatabase();
-  const stmt = database.prepare(sql);
-  stmt.bind(params);
+// Run several writes as one: if fn throws, none of them happen. Nested calls join the outer transaction.
+export function runTransaction<T>(fn: () => T): T {
+  if (inTransaction) return fn();
 
-  if (stmt.step()) {
-    const row = stmt.getAsObject() as T;
-    stmt.free();
-    return row;
+  const database = getDatabase();
+  database.exec('BEGIN');
+  inTransaction = true;
+  try {
+    const result = fn();
+    database.exec('COMMIT');
+    return result;
+  } catch (error) {
+    database.exec('ROLLBACK');
+    throw error;
+  } finally {
+    inTransaction = false;
+    saveDatabase();
   }
+}
 
-  stmt.free();
-  return undefined;
+export function getOne<T>(sql: string, params: unknown[] = []): T | undefined {
+  return getDatabase().get<T>(sql, params);
 }
 
 export function getAll<T>(sql: string, params: unknown[] = []): T[] {
-  const database = getDatabase();
-  const stmt = database.prepare(sql);
-  stmt.bind(params);
-
-  const results: T[] = [];
-  while (stmt.step()) {
-    results.push(stmt.getAsObject() as T);
-  }
+  return getDatabase().all<T>(sql, params);
+}
 
-  stmt.free();
-  return results;
+// Close the connection, e.g. on shutdown so the WAL is checkpointed into the main file
+export function closeDatabase(): void {
+  if (!db) return;
+  saveDatabase();
+  db.close();
+  db = null;
 }
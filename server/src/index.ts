@@ -2,12 +2,25 @@ import express from 'express';
 import cors from 'cors';
 import session from 'express-session';
 import path from 'path';
-import { initializeDatabase } from './db/schema';
+import { initializeDatabase, closeDatabase } from './db/schema';
+import { startScheduler } from './services/scheduler';
+import { getImagesDirectory, IMAGES_URL_PATH } from './services/images';
+import { MAX_IMPORT_BYTES } from './services/meal-library';
+import { MAX_RECIPE_PAGE_BYTES } from './services/recipe-import';
 import authRoutes from './routes/auth';
 import mealsRoutes from './routes/meals';
+import tagsRoutes from './routes/tags';
+import playlistsRoutes from './routes/playlists';
 import sessionsRoutes from './routes/sessions';
 import swipesRoutes from './routes/swipes';
 import quickSessionRoutes from './routes/quick-session';
+import eventsRoutes from './routes/events';
+import runoffRoutes from './routes/runoff';
+import templatesRoutes from './routes/templates';
+import statsRoutes from './routes/stats';
+import webhooksRoutes from './routes/webhooks';
+import integrationsRoutes from './routes/integrations';
+import adminRoutes from './routes/admin';
 
 declare module 'express-session' {
   interface SessionData {
@@ -38,7 +51,9 @@ if (process.env.NODE_ENV !== 'production') {
   }));
 }
 
-// Body parsers
+// Body parsers; meal imports carry a whole file (or recipe page), so they get a larger limit
+app.use('/api/meals/import', express.json({ limit: MAX_IMPORT_BYTES }));
+app.use('/api/meals/import-recipe', express.json({ limit: MAX_RECIPE_PAGE_BYTES }));
 app.use(express.json());
 
 // Session middleware
@@ -55,11 +70,23 @@ app.use(session({
   },
 }));
 
+// Meal photos are public so participants can see them; file names are unguessable IDs
+app.use(IMAGES_URL_PATH, express.static(getImagesDirectory(), { maxAge: '365d', immutable: true }));
+
 // API routes
 app.use('/api/auth', authRoutes);
 app.use('/api/meals', mealsRoutes);
+app.use('/api/tags', tagsRoutes);
+app.use('/api/playlists', playlistsRoutes);
+app.use('/api/templates', templatesRoutes);
 app.use('/api/sessions', sessionsRoutes);
 app.use('/api/quick-session', quickSessionRoutes);
+app.use('/api/events', eventsRoutes);
+app.use('/api/runoff', runoffRoutes);
+app.use('/api/stats', statsRoutes);
+app.use('/api/webhooks', webhooksRoutes);
+app.use('/api/integrations', integrationsRoutes);
+app.use('/api/admin', adminRoutes);
 app.use('/api', swipesRoutes);
 
 // Health check endpoint
@@ -78,9 +105,20 @@ async function startServer() {
   // Initialize database
   await initializeDatabase();
 
+  // Create scheduled sessions from templates and auto-close expired ones
+  startScheduler();
+
   app.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
   });
+
+  // Close the database cleanly so the write-ahead log is folded back into the database file
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      closeDatabase();
+      process.exit(0);
+    });
+  }
 }
 
 startServer().catch(console.error);
@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
 
 export function requireAuth(req: Request, res: Response, next: NextFunction): void {
   if (!req.session.hostId) {
@@ -12,3 +13,21 @@ export function optionalAuth(req: Request, res: Response, next: NextFunction): v
   // Just continue - hostId may or may not be set
   next();
 }
+
+// Operator endpoints, enabled by setting ADMIN_TOKEN and called with "Authorization: Bearer <token>"
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    res.status(503).json({ error: 'Admin endpoints are not configured' });
+    return;
+  }
+
+  const [scheme, token = ''] = (req.get('Authorization') || '').split(' ');
+  const expected = crypto.createHash('sha256').update(adminToken).digest();
+  const given = crypto.createHash('sha256').update(token).digest();
+  if (scheme !== 'Bearer' || !crypto.timingSafeEqual(expected, given)) {
+    res.status(401).json({ error: 'Admin token required' });
+    return;
+  }
+  next();
+}
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { requireAdmin } from '../middleware/auth';
+import { purgeStaleSessions, getRetentionPolicy } from '../services/retention';
+
+const router = Router();
+
+router.use(requireAdmin);
+
+// GET /api/admin/retention - What a purge would delete right now (dry run)
+router.get('/retention', (_req, res) => {
+  try {
+    res.json({ policy: getRetentionPolicy(), ...purgeStaleSessions(new Date(), { dryRun: true }) });
+  } catch (error) {
+    console.error('Retention dry run error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/admin/retention/purge - Delete stale anonymous sessions now instead of waiting for the scheduler
+router.post('/retention/purge', (_req, res) => {
+  try {
+    res.json({ policy: getRetentionPolicy(), ...purgeStaleSessions() });
+  } catch (error) {
+    console.error('Retention purge error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { getOne } from '../db/schema';
+import { Session } from '../types';
+import { subscribeToSession } from '../services/events';
+
+const router = Router();
+
+// GET /api/events/:sessionId - Stream session updates (public, Server-Sent Events)
+router.get('/:sessionId', (req, res) => {
+  try {
+    const { sessionId } = req.params;
+
+    const session = getOne<Session>('SELECT id FROM sessions WHERE id = ?', [sessionId]);
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    const unsubscribe = subscribeToSession(sessionId, res);
+    req.on('close', unsubscribe);
+  } catch (error) {
+    console.error('Session events error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,41 @@
+import express, { Router } from 'express';
+import { verifyChatSignature, parseChatPayload, handleChatCommand } from '../services/chat';
+
+const router = Router();
+
+// POST /api/integrations/chat - Slash command from a chat platform ("/mealmatch start pizza, tacos")
+// Signatures cover the exact bytes sent, so the body is read raw rather than through the JSON parser
+router.post('/chat', express.raw({ type: 'application/x-www-form-urlencoded' }), (req, res) => {
+  try {
+    const secret = process.env.CHAT_SIGNING_SECRET;
+    if (!secret) {
+      res.status(503).json({ error: 'Chat integration is not configured' });
+      return;
+    }
+
+    const rawBody = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+    const valid = verifyChatSignature(
+      secret,
+      req.get('X-Slack-Request-Timestamp'),
+      req.get('X-Slack-Signature'),
+      rawBody
+    );
+    if (!valid) {
+      res.status(401).json({ error: 'Invalid signature' });
+      return;
+    }
+
+    const command = parseChatPayload(rawBody);
+    if (!command) {
+      res.status(400).json({ error: 'Invalid slash command payload' });
+      return;
+    }
+
+    res.json(handleChatCommand(command));
+  } catch (error) {
+    console.error('Chat command error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
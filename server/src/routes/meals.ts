@@ -1,30 +1,114 @@
 import { Router } from 'express';
-import { v4 as uuidv4 } from 'uuid';
-import { runQuery, getOne, getAll } from '../db/schema';
-import { Meal, CreateMealRequest } from '../types';
+import multer from 'multer';
+import { runQuery, getOne, getAll, runTransaction } from '../db/schema';
+import { Meal, CreateMealRequest, MealImportRequest, RecipeImportRequest } from '../types';
 import { requireAuth } from '../middleware/auth';
+import { getTagsForMeals, setMealTags, normalizeTagName, validateTagNames } from '../services/tags';
+import { validateRecipe, recipeColumns, toRecipeDetails } from '../services/recipes';
+import {
+  isMealType,
+  validateRestaurant,
+  restaurantColumns,
+  toRestaurantDetails,
+  openNowStatus,
+  MEAL_TYPES,
+} from '../services/restaurants';
+import { validateDietary, dietaryColumns, toDietaryDetails } from '../services/dietary';
+import { saveImage, deleteImage, imageUrls, isSupportedImage, MAX_IMAGE_BYTES } from '../services/images';
+import {
+  validateMeal,
+  insertMeal,
+  getLibrary,
+  formatLibrary,
+  importMeals,
+  EXPORT_FORMATS,
+  IMPORT_FORMATS,
+  MealExportFormat,
+} from '../services/meal-library';
+import {
+  parseRecipeHtml,
+  fetchRecipe,
+  fetchRecipeImage,
+  toMealRequest,
+  isHttpUrl,
+  ImportedRecipe,
+} from '../services/recipe-import';
 
 const router = Router();
 
+// Keep uploads in memory; they are resized and written to disk by the images service
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_BYTES, files: 1 },
+});
+
 // All meal routes require authentication
 router.use(requireAuth);
 
+// Collect ?tag= values (repeatable) as normalized tag names
+function parseTagFilter(tag: unknown): string[] {
+  const values = Array.isArray(tag) ? tag : tag ? [tag] : [];
+  return [...new Set(
+    values
+      .filter((v): v is string => typeof v === 'string')
+      .flatMap(v => v.split(','))
+      .map(normalizeTagName)
+      .filter(v => v.length > 0)
+  )];
+}
+
 // GET /api/meals - List host's meals (excludes archived)
+// Optional filters: ?search= matches title/description, ?tag= (repeatable) requires every tag
 router.get('/', (req, res) => {
   try {
+    const conditions = ['host_id = ?', 'archived = 0'];
+    const params: unknown[] = [req.session.hostId];
+
+    const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+    if (search) {
+      const pattern = `%${search.replace(/[\\%_]/g, c => `\\${c}`)}%`;
+      conditions.push("(title LIKE ? ESCAPE '\\' OR description LIKE ? ESCAPE '\\')");
+      params.push(pattern, pattern);
+    }
+
+    const tags = parseTagFilter(req.query.tag);
+    if (tags.length > 0) {
+      conditions.push(
+        `id IN (
+          SELECT mt.meal_id FROM meal_tags mt
+          JOIN tags t ON mt.tag_id = t.id
+          WHERE t.host_id = ? AND t.name IN (${tags.map(() => '?').join(',')})
+          GROUP BY mt.meal_id
+          HAVING COUNT(DISTINCT t.id) = ?
+        )`
+      );
+      params.push(req.session.hostId, ...tags, tags.length);
+    }
+
     const meals = getAll<Meal>(
-      `SELECT id, title, description, type, archived, pick_count, created_at
+      `SELECT id, title, description, type, archived, pick_count, created_at,
+              ingredients, steps, prep_minutes, cook_minutes, difficulty, servings, image_id,
+              address, cuisine, price_tier, opening_hours, phone, website_url, allergens
        FROM meals
-       WHERE host_id = ? AND archived = 0
+       WHERE ${conditions.join(' AND ')}
        ORDER BY created_at DESC`,
-      [req.session.hostId]
+      params
     );
 
+    const tagsByMeal = getTagsForMeals(meals.map(m => m.id));
+    const now = new Date();
+
     res.json(meals.map(meal => ({
       id: meal.id,
       title: meal.title,
       description: meal.description,
       type: meal.type,
+      tags: tagsByMeal.get(meal.id) || [],
+      ...toRecipeDetails(meal),
+      ...toRestaurantDetails(meal),
+      ...toDietaryDetails(meal),
+      openNow: openNowStatus(meal, now),
+      ...imageUrls(meal.image_id),
       pickCount: meal.pick_count,
       createdAt: meal.created_at,
     })));
@@ -38,18 +122,29 @@ router.get('/', (req, res) => {
 router.get('/all', (req, res) => {
   try {
     const meals = getAll<Meal>(
-      `SELECT id, title, description, type, archived, pick_count, created_at
+      `SELECT id, title, description, type, archived, pick_count, created_at,
+              ingredients, steps, prep_minutes, cook_minutes, difficulty, servings, image_id,
+              address, cuisine, price_tier, opening_hours, phone, website_url, allergens
        FROM meals
        WHERE host_id = ?
        ORDER BY created_at DESC`,
       [req.session.hostId]
     );
 
+    const tagsByMeal = getTagsForMeals(meals.map(m => m.id));
+    const now = new Date();
+
     res.json(meals.map(meal => ({
       id: meal.id,
       title: meal.title,
       description: meal.description,
       type: meal.type,
+      tags: tagsByMeal.get(meal.id) || [],
+      ...toRecipeDetails(meal),
+      ...toRestaurantDetails(meal),
+      ...toDietaryDetails(meal),
+      openNow: openNowStatus(meal, now),
+      ...imageUrls(meal.image_id),
       archived: meal.archived === 1,
       pickCount: meal.pick_count,
       createdAt: meal.created_at,
@@ -60,30 +155,140 @@ router.get('/all', (req, res) => {
   }
 });
 
-// POST /api/meals - Create meal
-router.post('/', (req, res) => {
+// GET /api/meals/export - Download the library (?format=json, csv or markdown)
+router.get('/export', (req, res) => {
   try {
-    const { title, description } = req.body as CreateMealRequest;
+    const { format = 'json' } = req.query;
 
-    if (!title || title.trim().length === 0) {
-      res.status(400).json({ error: 'Title is required' });
+    if (!EXPORT_FORMATS.includes(format as MealExportFormat)) {
+      res.status(400).json({ error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}` });
       return;
     }
 
-    const id = uuidv4();
+    const meals = getLibrary(req.session.hostId!);
+    const extension = format === 'markdown' ? 'md' : format;
+    res.type(format === 'markdown' ? 'text/markdown' : format === 'csv' ? 'text/csv' : 'application/json');
+    res.attachment(`meals.${extension}`);
+    res.send(formatLibrary(meals, format as MealExportFormat));
+  } catch (error) {
+    console.error('Export meals error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    runQuery(
-      'INSERT INTO meals (id, host_id, title, description) VALUES (?, ?, ?, ?)',
-      [id, req.session.hostId, title.trim(), description?.trim() || null]
-    );
+// POST /api/meals/import - Preview (dryRun, the default) or import meals from a JSON or CSV file's text
+router.post('/import', (req, res) => {
+  try {
+    const { format, content, dryRun = true, skipDuplicates = true } = req.body as MealImportRequest;
+
+    if (!format || !IMPORT_FORMATS.includes(format)) {
+      res.status(400).json({ error: `Format must be one of: ${IMPORT_FORMATS.join(', ')}` });
+      return;
+    }
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      res.status(400).json({ error: 'File content is required' });
+      return;
+    }
 
-    res.status(201).json({
-      id,
-      title: title.trim(),
-      description: description?.trim() || null,
-      type: 'meal',
-      pickCount: 0,
+    const result = importMeals(req.session.hostId!, format, content, {
+      dryRun: dryRun !== false,
+      skipDuplicates: skipDuplicates !== false,
     });
+    if (typeof result === 'string') {
+      res.status(400).json({ error: result });
+      return;
+    }
+
+    res.status(result.dryRun || result.imported === 0 ? 200 : 201).json(result);
+  } catch (error) {
+    console.error('Import meals error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// The response for a newly created meal, matching GET /api/meals
+function formatCreatedMeal(id: string, tags: string[]) {
+  const created = getOne<Meal>('SELECT * FROM meals WHERE id = ?', [id])!;
+  return {
+    id,
+    title: created.title,
+    description: created.description,
+    type: created.type,
+    tags,
+    ...toRecipeDetails(created),
+    ...toRestaurantDetails(created),
+    ...toDietaryDetails(created),
+    openNow: openNowStatus(created),
+    ...imageUrls(created.image_id),
+    pickCount: 0,
+  };
+}
+
+// POST /api/meals/import-recipe - Create a meal from a recipe page's schema.org data (url, or html for pasted pages)
+router.post('/import-recipe', async (req, res) => {
+  try {
+    const { url, html, tags = [] } = req.body as RecipeImportRequest;
+
+    let recipe: ImportedRecipe | string;
+    if (typeof html === 'string' && html.trim().length > 0) {
+      if (url !== undefined && !isHttpUrl(url)) {
+        res.status(400).json({ error: 'URL must be an http or https link' });
+        return;
+      }
+      recipe = parseRecipeHtml(html, url) || 'No recipe found in that page';
+    } else if (isHttpUrl(url)) {
+      recipe = await fetchRecipe(url);
+    } else {
+      res.status(400).json({ error: 'A recipe link (http or https) or the page HTML is required' });
+      return;
+    }
+    if (typeof recipe === 'string') {
+      res.status(400).json({ error: recipe });
+      return;
+    }
+
+    const body = toMealRequest(recipe, tags);
+    const validationError = validateMeal(body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const { id, tags: savedTags } = insertMeal(req.session.hostId!, body);
+
+    // The photo is a nice-to-have: the meal is already saved, so it's kept without one if the photo can't be
+    // downloaded or stored, rather than failing a request a retry would then duplicate
+    if (recipe.imageUrl) {
+      try {
+        const image = await fetchRecipeImage(recipe.imageUrl);
+        if (image && await isSupportedImage(image)) {
+          runQuery('UPDATE meals SET image_id = ? WHERE id = ?', [await saveImage(image), id]);
+        }
+      } catch (error) {
+        console.error('Recipe image error:', error);
+      }
+    }
+
+    res.status(201).json(formatCreatedMeal(id, savedTags));
+  } catch (error) {
+    console.error('Import recipe error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/meals - Create meal
+router.post('/', (req, res) => {
+  try {
+    const body = req.body as CreateMealRequest;
+
+    const validationError = validateMeal(body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const { id, tags: savedTags } = insertMeal(req.session.hostId!, body);
+    res.status(201).json(formatCreatedMeal(id, savedTags));
   } catch (error) {
     console.error('Create meal error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -94,7 +299,7 @@ router.post('/', (req, res) => {
 router.patch('/:id', (req, res) => {
   try {
     const { id } = req.params;
-    const { title, description } = req.body;
+    const { title, description, tags, type, ...details } = req.body as Partial<CreateMealRequest>;
 
     // Verify ownership
     const meal = getOne<Meal>(
@@ -125,13 +330,49 @@ router.patch('/:id', (req, res) => {
       params.push(description?.trim() || null);
     }
 
-    if (updates.length === 0) {
+    if (type !== undefined) {
+      if (!isMealType(type)) {
+        res.status(400).json({ error: `Type must be one of: ${MEAL_TYPES.join(', ')}` });
+        return;
+      }
+      updates.push('type = ?');
+      params.push(type);
+    }
+
+    if (tags !== undefined) {
+      const tagError = validateTagNames(tags);
+      if (tagError) {
+        res.status(400).json({ error: tagError });
+        return;
+      }
+    }
+
+    const detailsError = validateRecipe(details) || validateRestaurant(details) || validateDietary(details);
+    if (detailsError) {
+      res.status(400).json({ error: detailsError });
+      return;
+    }
+
+    for (const [column, value] of [...recipeColumns(details), ...restaurantColumns(details), ...dietaryColumns(details)]) {
+      updates.push(`${column} = ?`);
+      params.push(value);
+    }
+
+    if (updates.length === 0 && tags === undefined) {
       res.status(400).json({ error: 'No fields to update' });
       return;
     }
 
-    params.push(id);
-    runQuery(`UPDATE meals SET ${updates.join(', ')} WHERE id = ?`, params);
+    runTransaction(() => {
+      if (updates.length > 0) {
+        params.push(id);
+        runQuery(`UPDATE meals SET ${updates.join(', ')} WHERE id = ?`, params);
+      }
+
+      if (tags !== undefined) {
+        setMealTags(req.session.hostId!, id, tags);
+      }
+    });
 
     // Return updated meal
     const updated = getOne<Meal>('SELECT * FROM meals WHERE id = ?', [id]);
@@ -140,6 +381,12 @@ router.patch('/:id', (req, res) => {
       title: updated!.title,
       description: updated!.description,
       type: updated!.type,
+      tags: getTagsForMeals([id]).get(id) || [],
+      ...toRecipeDetails(updated!),
+      ...toRestaurantDetails(updated!),
+      ...toDietaryDetails(updated!),
+      openNow: openNowStatus(updated!),
+      ...imageUrls(updated!.image_id),
       pickCount: updated!.pick_count,
     });
   } catch (error) {
@@ -148,6 +395,77 @@ router.patch('/:id', (req, res) => {
   }
 });
 
+// POST /api/meals/:id/image - Upload or replace the meal's photo (multipart field "image")
+router.post('/:id/image', (req, res) => {
+  upload.single('image')(req, res, async (uploadError?: unknown) => {
+    try {
+      if (uploadError) {
+        const message = uploadError instanceof multer.MulterError && uploadError.code === 'LIMIT_FILE_SIZE'
+          ? `Image must be at most ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`
+          : 'Invalid image upload';
+        res.status(400).json({ error: message });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const meal = getOne<Meal>(
+        'SELECT id, image_id FROM meals WHERE id = ? AND host_id = ?',
+        [id, req.session.hostId]
+      );
+
+      if (!meal) {
+        res.status(404).json({ error: 'Meal not found' });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({ error: 'Image file is required' });
+        return;
+      }
+
+      if (!(await isSupportedImage(req.file.buffer))) {
+        res.status(400).json({ error: 'Image must be a JPEG, PNG, WebP or GIF' });
+        return;
+      }
+
+      const imageId = await saveImage(req.file.buffer);
+      runQuery('UPDATE meals SET image_id = ? WHERE id = ?', [imageId, id]);
+      deleteImage(meal.image_id);
+
+      res.json(imageUrls(imageId));
+    } catch (error) {
+      console.error('Upload meal image error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+});
+
+// DELETE /api/meals/:id/image - Remove the meal's photo
+router.delete('/:id/image', (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const meal = getOne<Meal>(
+      'SELECT id, image_id FROM meals WHERE id = ? AND host_id = ?',
+      [id, req.session.hostId]
+    );
+
+    if (!meal) {
+      res.status(404).json({ error: 'Meal not found' });
+      return;
+    }
+
+    runQuery('UPDATE meals SET image_id = NULL WHERE id = ?', [id]);
+    deleteImage(meal.image_id);
+
+    res.json({ message: 'Image removed successfully' });
+  } catch (error) {
+    console.error('Delete meal image error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // DELETE /api/meals/:id - Archive meal (soft delete)
 router.delete('/:id', (req, res) => {
   try {
@@ -0,0 +1,216 @@
+import { Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { runQuery, getOne, getAll, runTransaction } from '../db/schema';
+import { Meal, Playlist, PlaylistRequest } from '../types';
+import { requireAuth } from '../middleware/auth';
+import { validatePlaylistName, findInvalidMealIds, setPlaylistMeals } from '../services/playlists';
+
+const router = Router();
+
+// All playlist routes require authentication
+router.use(requireAuth);
+
+function validateMealIds(hostId: string, mealIds: unknown): string | null {
+  if (!Array.isArray(mealIds) || mealIds.some(id => typeof id !== 'string')) {
+    return 'Meal IDs must be a list';
+  }
+  if (findInvalidMealIds(hostId, mealIds).length > 0) {
+    return 'Some meals are invalid or not accessible';
+  }
+  return null;
+}
+
+// GET /api/playlists - List host's playlists with active meal counts
+router.get('/', (req, res) => {
+  try {
+    const playlists = getAll<Playlist & { meal_count: number }>(
+      `SELECT
+        p.*,
+        (SELECT COUNT(*) FROM playlist_meals pm JOIN meals m ON pm.meal_id = m.id
+         WHERE pm.playlist_id = p.id AND m.archived = 0) as meal_count
+      FROM playlists p
+      WHERE p.host_id = ?
+      ORDER BY p.name`,
+      [req.session.hostId]
+    );
+
+    res.json(playlists.map(playlist => ({
+      id: playlist.id,
+      name: playlist.name,
+      description: playlist.description,
+      mealCount: playlist.meal_count,
+      updatedAt: playlist.updated_at,
+    })));
+  } catch (error) {
+    console.error('Get playlists error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/playlists/:id - Get playlist with its meals in order
+router.get('/:id', (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const playlist = getOne<Playlist>(
+      'SELECT * FROM playlists WHERE id = ? AND host_id = ?',
+      [id, req.session.hostId]
+    );
+
+    if (!playlist) {
+      res.status(404).json({ error: 'Playlist not found' });
+      return;
+    }
+
+    const meals = getAll<Meal>(
+      `SELECT m.*
+       FROM playlist_meals pm
+       JOIN meals m ON pm.meal_id = m.id
+       WHERE pm.playlist_id = ?
+       ORDER BY pm.position`,
+      [id]
+    );
+
+    res.json({
+      id: playlist.id,
+      name: playlist.name,
+      description: playlist.description,
+      meals: meals.map(meal => ({
+        id: meal.id,
+        title: meal.title,
+        description: meal.description,
+        archived: !!meal.archived,
+      })),
+      updatedAt: playlist.updated_at,
+    });
+  } catch (error) {
+    console.error('Get playlist error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/playlists - Create playlist
+router.post('/', (req, res) => {
+  try {
+    const { name, description, mealIds = [] } = req.body as PlaylistRequest;
+
+    const nameError = validatePlaylistName(name);
+    if (nameError) {
+      res.status(400).json({ error: nameError });
+      return;
+    }
+
+    const mealsError = validateMealIds(req.session.hostId!, mealIds);
+    if (mealsError) {
+      res.status(400).json({ error: mealsError });
+      return;
+    }
+
+    const id = uuidv4();
+    const savedMealIds = runTransaction(() => {
+      runQuery(
+        'INSERT INTO playlists (id, host_id, name, description) VALUES (?, ?, ?, ?)',
+        [id, req.session.hostId, name!.trim(), description || null]
+      );
+      return setPlaylistMeals(id, mealIds);
+    });
+
+    res.status(201).json({
+      id,
+      name: name!.trim(),
+      description: description || null,
+      mealIds: savedMealIds,
+      mealCount: savedMealIds.length,
+    });
+  } catch (error) {
+    console.error('Create playlist error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PATCH /api/playlists/:id - Rename playlist or replace its meals
+router.patch('/:id', (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, description, mealIds } = req.body as PlaylistRequest;
+
+    const playlist = getOne<Playlist>(
+      'SELECT * FROM playlists WHERE id = ? AND host_id = ?',
+      [id, req.session.hostId]
+    );
+
+    if (!playlist) {
+      res.status(404).json({ error: 'Playlist not found' });
+      return;
+    }
+
+    if (name !== undefined) {
+      const nameError = validatePlaylistName(name);
+      if (nameError) {
+        res.status(400).json({ error: nameError });
+        return;
+      }
+    }
+
+    if (mealIds !== undefined) {
+      const mealsError = validateMealIds(req.session.hostId!, mealIds);
+      if (mealsError) {
+        res.status(400).json({ error: mealsError });
+        return;
+      }
+    }
+
+    if (name === undefined && description === undefined && mealIds === undefined) {
+      res.status(400).json({ error: 'No updates provided' });
+      return;
+    }
+
+    const newName = name !== undefined ? name.trim() : playlist.name;
+    const newDescription = description !== undefined ? description || null : playlist.description;
+
+    runTransaction(() => {
+      runQuery(
+        'UPDATE playlists SET name = ?, description = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [newName, newDescription, id]
+      );
+
+      if (mealIds !== undefined) {
+        setPlaylistMeals(id, mealIds);
+      }
+    });
+
+    res.json({ id, name: newName, description: newDescription });
+  } catch (error) {
+    console.error('Update playlist error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/playlists/:id - Delete playlist (meals are kept)
+router.delete('/:id', (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const playlist = getOne<Playlist>(
+      'SELECT id FROM playlists WHERE id = ? AND host_id = ?',
+      [id, req.session.hostId]
+    );
+
+    if (!playlist) {
+      res.status(404).json({ error: 'Playlist not found' });
+      return;
+    }
+
+    runTransaction(() => {
+      runQuery('DELETE FROM playlist_meals WHERE playlist_id = ?', [id]);
+      runQuery('DELETE FROM playlists WHERE id = ?', [id]);
+    });
+
+    res.json({ message: 'Playlist deleted successfully' });
+  } catch (error) {
+    console.error('Delete playlist error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
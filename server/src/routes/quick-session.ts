@@ -1,98 +1,201 @@
 import { Router, Request, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
-import crypto from 'crypto';
-import { runQuery } from '../db/schema.js';
-import { QuickSessionRequest } from '../types.js';
+import { getOne, getAll } from '../db/schema.js';
+import { QuickSessionRequest, Session, Meal, Participant } from '../types.js';
+import { requireAuth } from '../middleware/auth.js';
+import {
+  validateQuickSession,
+  createQuickSession,
+  isAdminKey,
+  validateCreatorTokens,
+  claimQuickSessions,
+} from '../services/quick-session.js';
+import { closeSession, selectMeal, setDeadline, validateClosesAt, normalizeClosesAt } from '../services/sessions.js';
+import { calculateResults } from '../services/matching.js';
+import { getSessionProgress } from '../services/swipe-progress.js';
 
 const router = Router();
 
-// Generate a unique 6-character invite code
-function generateInviteCode(): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No ambiguous chars
-  let code = '';
-  for (let i = 0; i < 6; i++) {
-    code += chars[Math.floor(Math.random() * chars.length)];
-  }
-  return code;
-}
-
 // POST /api/quick-session - Create a quick session without authentication
 router.post('/', async (req: Request, res: Response) => {
   try {
-    const { creatorName, meals } = req.body as QuickSessionRequest;
+    const body = req.body as QuickSessionRequest;
 
-    if (!creatorName || !meals || meals.length === 0) {
-      res.status(400).json({ error: 'Creator name and at least one meal required' });
+    const validationError = validateQuickSession(body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
       return;
     }
 
-    // Generate a unique creator token for anonymous sessions
-    const creatorToken = crypto.randomBytes(32).toString('hex');
-    const isAuthenticated = !!req.session.hostId;
+    res.json(createQuickSession(body, { hostId: req.session.hostId }));
+  } catch (error) {
+    console.error('Error creating quick session:', error);
+    res.status(500).json({ error: 'Failed to create quick session' });
+  }
+});
 
-    // For anonymous users, use a placeholder host_id (we'll use the creator token)
-    // For authenticated users, use their actual host_id
-    const hostId = isAuthenticated ? req.session.hostId : `temp_${creatorToken}`;
+// POST /api/quick-session/claim - Move quick sessions started before signing in into the host's account
+router.post('/claim', requireAuth, (req: Request, res: Response) => {
+  try {
+    const { creatorTokens } = req.body;
 
-    // Create session
-    const sessionId = uuidv4();
-    const inviteCode = generateInviteCode();
+    const validationError = validateCreatorTokens(creatorTokens);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
 
-    runQuery(
-      `INSERT INTO sessions (id, host_id, invite_code, status, created_at)
-       VALUES (?, ?, ?, 'open', datetime('now'))`,
-      [sessionId, hostId, inviteCode]
-    );
+    res.json(claimQuickSessions(req.session.hostId!, creatorTokens));
+  } catch (error) {
+    console.error('Claim quick sessions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Create temporary meals and add to session
-    const sessionMeals: Array<{ id: string; title: string; description: string | null; sessionMealId: string }> = [];
-    for (let i = 0; i < meals.length; i++) {
-      const mealId = uuidv4();
-      const meal = meals[i];
-
-      runQuery(
-        `INSERT INTO meals (id, host_id, title, description, type, temporary, creator_token, created_at)
-         VALUES (?, ?, ?, ?, 'meal', 1, ?, datetime('now'))`,
-        [mealId, hostId, meal.title, meal.description || null, creatorToken]
-      );
-
-      // Add to session_meals
-      const sessionMealId = uuidv4();
-      runQuery(
-        `INSERT INTO session_meals (id, session_id, meal_id, display_order)
-         VALUES (?, ?, ?, ?)`,
-        [sessionMealId, sessionId, mealId, i]
-      );
-
-      sessionMeals.push({
-        id: mealId,
-        title: meal.title,
-        description: meal.description || null,
-        sessionMealId
-      });
+// The session a recovery link's key unlocks; the same 404 whether the session or the key is wrong
+function findAdminSession(sessionId: string, key: unknown): Session | undefined {
+  const session = getOne<Session>('SELECT * FROM sessions WHERE id = ?', [sessionId]);
+  return session && isAdminKey(session, key) ? session : undefined;
+}
+
+// GET /api/quick-session/:id/admin?key= - Session details for the creator's recovery link
+router.get('/:id/admin', (req: Request, res: Response) => {
+  try {
+    const session = findAdminSession(req.params.id, req.query.key);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found or link invalid' });
+      return;
     }
 
-    // Auto-join creator as participant
-    const participantId = uuidv4();
-    runQuery(
-      `INSERT INTO participants (id, session_id, display_name, host_id, submitted, created_at)
-       VALUES (?, ?, ?, ?, 0, datetime('now'))`,
-      [participantId, sessionId, creatorName, isAuthenticated ? hostId : null]
+    const meals = getAll<Meal>(
+      `SELECT m.*
+       FROM meals m
+       JOIN session_meals sm ON m.id = sm.meal_id
+       WHERE sm.session_id = ?
+       ORDER BY sm.display_order`,
+      [session.id]
     );
+    const participants = getAll<Participant>(
+      'SELECT id, display_name, submitted FROM participants WHERE session_id = ? ORDER BY created_at',
+      [session.id]
+    );
+    const progress = getSessionProgress(session.id);
 
     res.json({
-      session: {
-        id: sessionId,
-        inviteCode,
-        status: 'open'
-      },
-      participantId,
-      creatorToken: isAuthenticated ? null : creatorToken,
-      meals: sessionMeals
+      id: session.id,
+      inviteCode: session.invite_code,
+      status: session.status,
+      selectedMealId: session.selected_meal_id,
+      closesAt: session.closes_at,
+      meals: meals.map(m => ({ id: m.id, title: m.title, description: m.description })),
+      participants: participants.map(p => ({
+        id: p.id,
+        displayName: p.display_name,
+        submitted: p.submitted === 1,
+        ...progress.get(p.id),
+      })),
+      results: session.status !== 'open' ? calculateResults(session.id, true) : null,
     });
   } catch (error) {
-    console.error('Error creating quick session:', error);
-    res.status(500).json({ error: 'Failed to create quick session' });
+    console.error('Get quick session admin error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/quick-session/:id/admin/close - Close the session from the recovery link
+router.post('/:id/admin/close', (req: Request, res: Response) => {
+  try {
+    const session = findAdminSession(req.params.id, req.body.key);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found or link invalid' });
+      return;
+    }
+
+    if (session.status === 'closed') {
+      res.status(400).json({ error: 'Session is already closed' });
+      return;
+    }
+
+    if (session.status === 'runoff') {
+      res.status(400).json({ error: 'A runoff is in progress; finish it to close the session' });
+      return;
+    }
+
+    closeSession(session.id);
+
+    res.json({ message: 'Session closed successfully', results: calculateResults(session.id, true) });
+  } catch (error) {
+    console.error('Close quick session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/quick-session/:id/admin/select - Pick the final meal from the recovery link
+router.post('/:id/admin/select', (req: Request, res: Response) => {
+  try {
+    const { key, mealId } = req.body;
+
+    if (!mealId) {
+      res.status(400).json({ error: 'Meal ID is required' });
+      return;
+    }
+
+    const session = findAdminSession(req.params.id, key);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found or link invalid' });
+      return;
+    }
+
+    if (session.status !== 'closed') {
+      res.status(400).json({ error: 'Session must be closed before selecting a meal' });
+      return;
+    }
+
+    const sessionMeal = getOne(
+      'SELECT id FROM session_meals WHERE session_id = ? AND meal_id = ?',
+      [session.id, mealId]
+    );
+    if (!sessionMeal) {
+      res.status(400).json({ error: 'Meal is not part of this session' });
+      return;
+    }
+
+    selectMeal(session.id, mealId);
+
+    res.json({ message: 'Meal selected successfully' });
+  } catch (error) {
+    console.error('Select quick session meal error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/quick-session/:id/admin/extend - Move (or remove, with null) the voting deadline
+router.post('/:id/admin/extend', (req: Request, res: Response) => {
+  try {
+    const { key, closesAt = null } = req.body;
+
+    const closesAtError = validateClosesAt(closesAt);
+    if (closesAtError) {
+      res.status(400).json({ error: closesAtError });
+      return;
+    }
+
+    const session = findAdminSession(req.params.id, key);
+    if (!session) {
+      res.status(404).json({ error: 'Session not found or link invalid' });
+      return;
+    }
+
+    if (session.status !== 'open') {
+      res.status(400).json({ error: 'Voting has already closed' });
+      return;
+    }
+
+    setDeadline(session.id, closesAt);
+
+    res.json({ closesAt: normalizeClosesAt(closesAt) });
+  } catch (error) {
+    console.error('Extend quick session error:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
 });
 
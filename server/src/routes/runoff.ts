@@ -0,0 +1,272 @@
+import { Router, Request } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { runQuery, getOne, runTransaction } from '../db/schema';
+import { Session, Participant, StartRunoffRequest, RunoffVoteRequest } from '../types';
+import { calculateResults } from '../services/matching';
+import { DEFAULT_RUNOFF_SIZE, selectRunoffCandidates, tallyRunoff, decideRunoff } from '../services/runoff';
+import { publishSessionEvent } from '../services/events';
+import { notifyResultsReady } from '../services/notifications';
+import { postChatResults } from '../services/chat';
+import { triggerWebhooks } from '../services/webhooks';
+import { summarizeResults, mealSummary } from '../services/sessions';
+import { findCreatorSession } from '../services/quick-session';
+
+const router = Router();
+
+// Find a session the requester may manage: the authenticated host, or an anonymous creator with their token
+function findManagedSession(req: Request, sessionId: string, creatorToken?: string): Session | undefined {
+  if (req.session.hostId) {
+    const session = getOne<Session>(
+      'SELECT * FROM sessions WHERE id = ? AND host_id = ?',
+      [sessionId, req.session.hostId]
+    );
+    if (session) return session;
+  }
+
+  return findCreatorSession(sessionId, creatorToken);
+}
+
+// POST /api/runoff/:sessionId/start - End swiping and start a runoff on the top N matches
+router.post('/:sessionId/start', (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { topN = DEFAULT_RUNOFF_SIZE, creatorToken } = req.body as StartRunoffRequest;
+
+    if (!Number.isInteger(topN) || topN < 2) {
+      res.status(400).json({ error: 'A runoff needs at least 2 meals' });
+      return;
+    }
+
+    const session = findManagedSession(req, sessionId, creatorToken);
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found or unauthorized' });
+      return;
+    }
+
+    if (session.status === 'runoff') {
+      res.status(400).json({ error: 'A runoff is already in progress' });
+      return;
+    }
+
+    if (session.selected_meal_id) {
+      res.status(400).json({ error: 'A meal has already been selected for this session' });
+      return;
+    }
+
+    const candidates = selectRunoffCandidates(calculateResults(sessionId), topN);
+
+    if (candidates.length < 2) {
+      res.status(400).json({ error: 'Not enough voted meals for a runoff' });
+      return;
+    }
+
+    runTransaction(() => {
+      runQuery('DELETE FROM runoff_votes WHERE session_id = ?', [sessionId]);
+      runQuery('DELETE FROM runoff_candidates WHERE session_id = ?', [sessionId]);
+
+      candidates.forEach((candidate, index) => {
+        runQuery(
+          'INSERT INTO runoff_candidates (id, session_id, meal_id, display_order) VALUES (?, ?, ?, ?)',
+          [uuidv4(), sessionId, candidate.mealId, index]
+        );
+      });
+
+      runQuery("UPDATE sessions SET status = 'runoff' WHERE id = ?", [sessionId]);
+    });
+
+    publishSessionEvent(sessionId, 'runoff-started', {
+      mealIds: candidates.map(c => c.mealId),
+    });
+
+    res.json({
+      message: 'Runoff started',
+      candidates: candidates.map(c => ({
+        mealId: c.mealId,
+        title: c.title,
+        description: c.description,
+      })),
+    });
+  } catch (error) {
+    console.error('Start runoff error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/runoff/:sessionId - Get runoff ballot (public)
+router.get('/:sessionId', (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const participantId = req.query.participantId as string | undefined;
+
+    const session = getOne<Session>('SELECT * FROM sessions WHERE id = ?', [sessionId]);
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    const tally = tallyRunoff(sessionId);
+
+    if (tally.length === 0) {
+      res.status(404).json({ error: 'This session has no runoff' });
+      return;
+    }
+
+    const ballotsCast = tally.reduce((sum, t) => sum + t.votes, 0);
+
+    let myVote: string | null = null;
+    if (participantId) {
+      const vote = getOne<{ meal_id: string }>(
+        'SELECT meal_id FROM runoff_votes WHERE session_id = ? AND participant_id = ?',
+        [sessionId, participantId]
+      );
+      myVote = vote?.meal_id || null;
+    }
+
+    // Only reveal the tally once the runoff is over so early votes don't sway later ones
+    const isFinished = session.status === 'closed';
+
+    const candidates = tally.map(t => ({
+      mealId: t.mealId,
+      title: t.title,
+      description: t.description,
+      votes: isFinished ? t.votes : undefined,
+    }));
+    if (!isFinished) {
+      candidates.sort((a, b) => a.title.localeCompare(b.title));
+    }
+
+    res.json({
+      status: session.status,
+      candidates,
+      ballotsCast,
+      myVote,
+      selectedMealId: session.selected_meal_id,
+    });
+  } catch (error) {
+    console.error('Get runoff error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/runoff/:sessionId/vote - Cast or change a runoff ballot (public)
+router.post('/:sessionId/vote', (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { participantId, mealId } = req.body as RunoffVoteRequest;
+
+    if (!participantId || !mealId) {
+      res.status(400).json({ error: 'Participant ID and meal ID are required' });
+      return;
+    }
+
+    const session = getOne<Session>('SELECT status FROM sessions WHERE id = ?', [sessionId]);
+    if (!session || session.status !== 'runoff') {
+      res.status(400).json({ error: 'There is no runoff in progress', sessionClosed: session?.status === 'closed' });
+      return;
+    }
+
+    const participant = getOne<Participant>(
+      'SELECT id FROM participants WHERE id = ? AND session_id = ?',
+      [participantId, sessionId]
+    );
+
+    if (!participant) {
+      res.status(404).json({ error: 'Participant not found' });
+      return;
+    }
+
+    const candidate = getOne(
+      'SELECT id FROM runoff_candidates WHERE session_id = ? AND meal_id = ?',
+      [sessionId, mealId]
+    );
+
+    if (!candidate) {
+      res.status(400).json({ error: 'Meal is not part of this runoff' });
+      return;
+    }
+
+    runQuery(
+      'INSERT OR REPLACE INTO runoff_votes (id, session_id, participant_id, meal_id) VALUES (?, ?, ?, ?)',
+      [uuidv4(), sessionId, participantId, mealId]
+    );
+
+    const ballotsCast = getOne<{ count: number }>(
+      'SELECT COUNT(*) as count FROM runoff_votes WHERE session_id = ?',
+      [sessionId]
+    );
+
+    publishSessionEvent(sessionId, 'runoff-vote', { ballotsCast: ballotsCast?.count || 0 });
+
+    res.json({ message: 'Vote recorded' });
+  } catch (error) {
+    console.error('Runoff vote error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/runoff/:sessionId/finish - Close the runoff and select the winner
+router.post('/:sessionId/finish', (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { creatorToken } = req.body;
+
+    const session = findManagedSession(req, sessionId, creatorToken);
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found or unauthorized' });
+      return;
+    }
+
+    if (session.status !== 'runoff') {
+      res.status(400).json({ error: 'There is no runoff in progress' });
+      return;
+    }
+
+    const outcome = decideRunoff(tallyRunoff(sessionId));
+    const mealId = outcome.winnerMealId;
+
+    runTransaction(() => {
+      runQuery(
+        'UPDATE sessions SET status = ?, selected_meal_id = ?, closed_at = CURRENT_TIMESTAMP WHERE id = ?',
+        ['closed', mealId, sessionId]
+      );
+
+      // Increment meal's pick count
+      runQuery('UPDATE meals SET pick_count = pick_count + 1 WHERE id = ?', [mealId]);
+
+      // Record in history, including which meals were tied if chance decided it
+      runQuery(
+        `INSERT OR REPLACE INTO session_history (id, session_id, selected_meal_id, selection_method, tied_meal_ids)
+         VALUES (?, ?, ?, ?, ?)`,
+        [
+          uuidv4(),
+          sessionId,
+          mealId,
+          outcome.tiedMealIds.length > 0 ? 'runoff-tiebreak' : 'runoff',
+          outcome.tiedMealIds.length > 0 ? JSON.stringify(outcome.tiedMealIds) : null,
+        ]
+      );
+    });
+
+    publishSessionEvent(sessionId, 'session-closed');
+    publishSessionEvent(sessionId, 'meal-selected', { mealId });
+    triggerWebhooks(sessionId, 'session.closed', () => ({ results: summarizeResults(sessionId) }));
+    triggerWebhooks(sessionId, 'meal.selected', { meal: mealSummary(mealId), runoff: true });
+    notifyResultsReady(sessionId).catch(error => console.error('Results email error:', error));
+    postChatResults(sessionId).catch(error => console.error('Chat results error:', error));
+
+    res.json({
+      message: 'Runoff finished',
+      selectedMealId: mealId,
+      tiedMealIds: outcome.tiedMealIds,
+      tally: outcome.tally,
+    });
+  } catch (error) {
+    console.error('Finish runoff error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,9 +1,24 @@
 import { Router } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { runQuery, getOne, getAll } from '../db/schema';
+import { getOne, getAll } from '../db/schema';
 import { Session, Meal, Participant, CreateSessionRequest } from '../types';
 import { requireAuth } from '../middleware/auth';
-import { generateInviteCode, calculateResults } from '../services/matching';
+import { calculateResults } from '../services/matching';
+import { isScoringMode, DEFAULT_MAYBE_WEIGHT } from '../services/scoring';
+import { tallyRunoff } from '../services/runoff';
+import { resolvePlaylistMealIds } from '../services/playlists';
+import { openNowStatus, isMealType } from '../services/restaurants';
+import { suggestMeals, DEFAULT_SUGGESTION_COUNT, MAX_SUGGESTION_COUNT } from '../services/suggestions';
+import { createSession, closeSession, selectMeal, validateClosesAt, normalizeClosesAt } from '../services/sessions';
+import { inviteByEmail, getInvites, sendReminders, getContacts, validateInviteEmails } from '../services/notifications';
+import {
+  getShoppingList,
+  formatShoppingListText,
+  formatShoppingListMarkdown,
+  MAX_PEOPLE,
+} from '../services/shopping';
+import { getSessionProgress } from '../services/swipe-progress';
+import { findCreatorSession } from '../services/quick-session';
 
 const router = Router();
 
@@ -29,6 +44,8 @@ router.get('/', (req, res) => {
       inviteCode: session.invite_code,
       status: session.status,
       selectedMealId: session.selected_meal_id,
+      scoringMode: session.scoring_mode,
+      closesAt: session.closes_at,
       mealCount: session.meal_count,
       participantCount: session.participant_count,
       createdAt: session.created_at,
@@ -40,19 +57,110 @@ router.get('/', (req, res) => {
   }
 });
 
-// POST /api/sessions - Create session with meal IDs
+// GET /api/sessions/suggestions - Preview a suggested meal pool for a new session
+// Optional ?count=, ?seed=, ?type= and repeated ?tag= parameters; the seed is echoed back so a pool can be reproduced
+router.get('/suggestions', (req, res) => {
+  try {
+    let count = DEFAULT_SUGGESTION_COUNT;
+    if (req.query.count !== undefined) {
+      count = Number(req.query.count);
+      if (!Number.isInteger(count) || count < 1 || count > MAX_SUGGESTION_COUNT) {
+        res.status(400).json({ error: `Count must be a whole number between 1 and ${MAX_SUGGESTION_COUNT}` });
+        return;
+      }
+    }
+
+    const { type } = req.query;
+    if (type !== undefined && !isMealType(type)) {
+      res.status(400).json({ error: `Invalid meal type: ${type}` });
+      return;
+    }
+
+    const tags = ([] as unknown[]).concat(req.query.tag ?? []);
+    if (tags.some(tag => typeof tag !== 'string')) {
+      res.status(400).json({ error: 'Tags must be strings' });
+      return;
+    }
+
+    const seed = typeof req.query.seed === 'string' && req.query.seed.trim()
+      ? req.query.seed.trim()
+      : uuidv4().slice(0, 8);
+
+    res.json({
+      seed,
+      meals: suggestMeals(req.session.hostId!, { count, seed, type, tags: tags as string[] }),
+    });
+  } catch (error) {
+    console.error('Suggest meals error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/sessions/contacts - Email addresses the host has invited before
+router.get('/contacts', (req, res) => {
+  try {
+    res.json({ contacts: getContacts(req.session.hostId!) });
+  } catch (error) {
+    console.error('Get contacts error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/sessions - Create session with meal IDs or from a playlist
 router.post('/', (req, res) => {
   try {
-    const { mealIds } = req.body as CreateSessionRequest;
+    const {
+      playlistId,
+      scoringMode = 'approval',
+      maybeWeight = DEFAULT_MAYBE_WEIGHT,
+      closesAt = null,
+      autoCloseWhenComplete = false,
+      openNow = false,
+    } = req.body as CreateSessionRequest;
+    let { mealIds } = req.body as CreateSessionRequest;
+
+    if (playlistId) {
+      if (mealIds && mealIds.length > 0) {
+        res.status(400).json({ error: 'Provide either meal IDs or a playlist, not both' });
+        return;
+      }
+
+      const playlistMealIds = resolvePlaylistMealIds(req.session.hostId!, playlistId);
+      if (!playlistMealIds) {
+        res.status(404).json({ error: 'Playlist not found' });
+        return;
+      }
+      if (playlistMealIds.length === 0) {
+        res.status(400).json({ error: 'Playlist has no active meals' });
+        return;
+      }
+      mealIds = playlistMealIds;
+    }
 
     if (!mealIds || mealIds.length === 0) {
       res.status(400).json({ error: 'At least one meal is required' });
       return;
     }
 
+    if (!isScoringMode(scoringMode)) {
+      res.status(400).json({ error: `Invalid scoring mode: ${scoringMode}` });
+      return;
+    }
+
+    if (typeof maybeWeight !== 'number' || maybeWeight < 0 || maybeWeight > 1) {
+      res.status(400).json({ error: 'Maybe weight must be a number between 0 and 1' });
+      return;
+    }
+
+    const deadlineError = validateClosesAt(closesAt);
+    if (deadlineError) {
+      res.status(400).json({ error: deadlineError });
+      return;
+    }
+
     // Verify all meals belong to this host and are not archived
     const meals = getAll<Meal>(
-      `SELECT id FROM meals WHERE id IN (${mealIds.map(() => '?').join(',')}) AND host_id = ? AND archived = 0`,
+      `SELECT id, type, opening_hours FROM meals WHERE id IN (${mealIds.map(() => '?').join(',')}) AND host_id = ? AND archived = 0`,
       [...mealIds, req.session.hostId]
     );
 
@@ -61,39 +169,35 @@ router.post('/', (req, res) => {
       return;
     }
 
-    // Generate unique invite code
-    let inviteCode = generateInviteCode();
-    let attempts = 0;
-    while (getOne<Session>('SELECT id FROM sessions WHERE invite_code = ?', [inviteCode])) {
-      inviteCode = generateInviteCode();
-      attempts++;
-      if (attempts > 10) {
-        res.status(500).json({ error: 'Failed to generate unique invite code' });
+    // Restaurants without recorded hours stay in; only ones known to be closed are dropped
+    let closedMealIds: string[] = [];
+    if (openNow) {
+      const now = new Date();
+      closedMealIds = meals.filter(m => openNowStatus(m, now) === false).map(m => m.id);
+      mealIds = mealIds.filter(mealId => !closedMealIds.includes(mealId));
+
+      if (mealIds.length === 0) {
+        res.status(400).json({ error: 'None of the selected restaurants are open now' });
         return;
       }
     }
 
-    // Create session
-    const sessionId = uuidv4();
-    runQuery(
-      'INSERT INTO sessions (id, host_id, invite_code) VALUES (?, ?, ?)',
-      [sessionId, req.session.hostId, inviteCode]
-    );
-
-    // Create session_meals entries with randomized order
-    const shuffledMealIds = [...mealIds].sort(() => Math.random() - 0.5);
-    shuffledMealIds.forEach((mealId, index) => {
-      runQuery(
-        'INSERT INTO session_meals (id, session_id, meal_id, display_order) VALUES (?, ?, ?, ?)',
-        [uuidv4(), sessionId, mealId, index]
-      );
+    const { id: sessionId, inviteCode } = createSession(req.session.hostId!, mealIds, {
+      scoringMode,
+      maybeWeight,
+      closesAt: normalizeClosesAt(closesAt),
+      autoCloseWhenComplete: !!autoCloseWhenComplete,
     });
 
     res.status(201).json({
       id: sessionId,
       inviteCode,
       status: 'open',
+      scoringMode,
+      closesAt: normalizeClosesAt(closesAt),
+      autoCloseWhenComplete: !!autoCloseWhenComplete,
       mealCount: mealIds.length,
+      closedMealIds,
     });
   } catch (error) {
     console.error('Create session error:', error);
@@ -135,17 +239,32 @@ router.get('/:id', (req, res) => {
       [id]
     );
 
-    // Calculate results if session is closed
+    const progress = getSessionProgress(id);
+
+    // Calculate results once swiping is over
     let results = null;
-    if (session.status === 'closed') {
+    if (session.status !== 'open') {
       results = calculateResults(id, true); // Include voter details for host
     }
 
+    // Include the runoff tally for the host while it runs and after it finishes
+    const runoffTally = tallyRunoff(id);
+    const runoff = runoffTally.length > 0
+      ? {
+          candidates: runoffTally,
+          ballotsCast: runoffTally.reduce((sum, t) => sum + t.votes, 0),
+        }
+      : null;
+
     res.json({
       id: session.id,
       inviteCode: session.invite_code,
       status: session.status,
       selectedMealId: session.selected_meal_id,
+      scoringMode: session.scoring_mode,
+      maybeWeight: session.maybe_weight,
+      closesAt: session.closes_at,
+      autoCloseWhenComplete: session.auto_close_when_complete === 1,
       createdAt: session.created_at,
       closedAt: session.closed_at,
       meals: meals.map(m => ({
@@ -157,9 +276,11 @@ router.get('/:id', (req, res) => {
         id: p.id,
         displayName: p.display_name,
         submitted: p.submitted === 1,
+        ...progress.get(p.id), // swiped and total, so the host can watch partial progress
         createdAt: p.created_at,
       })),
       results,
+      runoff,
     });
   } catch (error) {
     console.error('Get session error:', error);
@@ -167,6 +288,143 @@ router.get('/:id', (req, res) => {
   }
 });
 
+// GET /api/sessions/:id/shopping-list - Ingredients for the selected meal
+// Optional ?people= overrides the headcount; ?format=text or markdown returns a downloadable file
+router.get('/:id/shopping-list', (req, res) => {
+  try {
+    const { id } = req.params;
+    const { format = 'json' } = req.query;
+
+    let people: number | undefined;
+    if (req.query.people !== undefined) {
+      people = Number(req.query.people);
+      if (!Number.isInteger(people) || people < 1 || people > MAX_PEOPLE) {
+        res.status(400).json({ error: `People must be a whole number between 1 and ${MAX_PEOPLE}` });
+        return;
+      }
+    }
+
+    if (format !== 'json' && format !== 'text' && format !== 'markdown') {
+      res.status(400).json({ error: 'Format must be json, text or markdown' });
+      return;
+    }
+
+    const session = getOne<Session>(
+      'SELECT * FROM sessions WHERE id = ? AND host_id = ?',
+      [id, req.session.hostId]
+    );
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    const list = getShoppingList(session, people);
+    if (!list) {
+      res.status(400).json({ error: 'Select a meal before making a shopping list' });
+      return;
+    }
+
+    if (format === 'json') {
+      res.json(list);
+      return;
+    }
+
+    const extension = format === 'markdown' ? 'md' : 'txt';
+    res.type(format === 'markdown' ? 'text/markdown' : 'text/plain');
+    res.attachment(`shopping-list-${session.invite_code}.${extension}`);
+    res.send(format === 'markdown' ? formatShoppingListMarkdown(list) : formatShoppingListText(list));
+  } catch (error) {
+    console.error('Get shopping list error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/sessions/:id/invites - Emailed invites and whether each person has joined or submitted
+router.get('/:id/invites', (req, res) => {
+  try {
+    const session = getOne<Session>(
+      'SELECT id FROM sessions WHERE id = ? AND host_id = ?',
+      [req.params.id, req.session.hostId]
+    );
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    res.json({ invites: getInvites(session.id) });
+  } catch (error) {
+    console.error('Get invites error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/sessions/:id/invites - Email invite links to a list of addresses
+router.post('/:id/invites', async (req, res) => {
+  try {
+    const { emails } = req.body;
+
+    const emailsError = validateInviteEmails(emails);
+    if (emailsError) {
+      res.status(400).json({ error: emailsError });
+      return;
+    }
+
+    const session = getOne<Session>(
+      'SELECT * FROM sessions WHERE id = ? AND host_id = ?',
+      [req.params.id, req.session.hostId]
+    );
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    if (session.status !== 'open') {
+      res.status(400).json({ error: 'Only open sessions can be shared' });
+      return;
+    }
+
+    const outcome = await inviteByEmail(session, emails);
+
+    res.status(outcome.sent.length > 0 ? 201 : 200).json({
+      ...outcome,
+      invites: getInvites(session.id),
+    });
+  } catch (error) {
+    console.error('Send invites error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/sessions/:id/invites/remind - Email everyone invited who hasn't submitted yet
+router.post('/:id/invites/remind', async (req, res) => {
+  try {
+    const session = getOne<Session>(
+      'SELECT * FROM sessions WHERE id = ? AND host_id = ?',
+      [req.params.id, req.session.hostId]
+    );
+
+    if (!session) {
+      res.status(404).json({ error: 'Session not found' });
+      return;
+    }
+
+    if (session.status !== 'open') {
+      res.status(400).json({ error: 'Voting has already closed' });
+      return;
+    }
+
+    const reminded = await sendReminders(session.id);
+
+    res.json({ reminded, invites: getInvites(session.id) });
+  } catch (error) {
+    console.error('Send reminders error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // POST /api/sessions/:id/close - Close session
 router.post('/:id/close', (req, res) => {
   try {
@@ -184,25 +442,7 @@ router.post('/:id/close', (req, res) => {
       );
     } else if (creatorToken) {
       // Anonymous creator with token
-      session = getOne<Session>(
-        'SELECT * FROM sessions WHERE id = ?',
-        [id]
-      );
-
-      // Verify the creator token matches any meal in this session
-      if (session) {
-        const mealWithToken = getOne<{ id: string }>(
-          `SELECT m.id FROM meals m
-           JOIN session_meals sm ON m.id = sm.meal_id
-           WHERE sm.session_id = ? AND m.creator_token = ?
-           LIMIT 1`,
-          [id, creatorToken]
-        );
-
-        if (!mealWithToken) {
-          session = undefined; // Invalid token
-        }
-      }
+      session = findCreatorSession(id, creatorToken);
     }
 
     if (!session) {
@@ -215,10 +455,12 @@ router.post('/:id/close', (req, res) => {
       return;
     }
 
-    runQuery(
-      'UPDATE sessions SET status = ?, closed_at = CURRENT_TIMESTAMP WHERE id = ?',
-      ['closed', id]
-    );
+    if (session.status === 'runoff') {
+      res.status(400).json({ error: 'A runoff is in progress; finish it to close the session' });
+      return;
+    }
+
+    closeSession(id);
 
     // Calculate and return results
     const results = calculateResults(id, true);
@@ -270,17 +512,7 @@ router.post('/:id/select', (req, res) => {
       return;
     }
 
-    // Update session with selected meal
-    runQuery('UPDATE sessions SET selected_meal_id = ? WHERE id = ?', [mealId, id]);
-
-    // Increment meal's pick count
-    runQuery('UPDATE meals SET pick_count = pick_count + 1 WHERE id = ?', [mealId]);
-
-    // Record in history
-    runQuery(
-      'INSERT OR REPLACE INTO session_history (id, session_id, selected_meal_id) VALUES (?, ?, ?)',
-      [uuidv4(), id, mealId]
-    );
+    selectMeal(id, mealId);
 
     res.json({ message: 'Meal selected successfully' });
   } catch (error) {
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { requireAuth } from '../middleware/auth';
+import { getHostStats, DEFAULT_NOT_RECENT_WEEKS, MAX_NOT_RECENT_WEEKS } from '../services/stats';
+import { getPeopleStats } from '../services/profiles';
+
+const router = Router();
+
+// All stats routes require authentication
+router.use(requireAuth);
+
+// GET /api/stats - Pick counts, win rates, approval and participation for the host's meals
+// Optional ?weeks= sets the "haven't had it in N weeks" threshold
+router.get('/', (req, res) => {
+  try {
+    let notRecentWeeks = DEFAULT_NOT_RECENT_WEEKS;
+    if (req.query.weeks !== undefined) {
+      notRecentWeeks = Number(req.query.weeks);
+      if (!Number.isInteger(notRecentWeeks) || notRecentWeeks < 1 || notRecentWeeks > MAX_NOT_RECENT_WEEKS) {
+        res.status(400).json({ error: `Weeks must be a whole number between 1 and ${MAX_NOT_RECENT_WEEKS}` });
+        return;
+      }
+    }
+
+    res.json(getHostStats(req.session.hostId!, { notRecentWeeks }));
+  } catch (error) {
+    console.error('Get stats error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/stats/people - Voting habits of remembered participants across the host's sessions
+router.get('/people', (req, res) => {
+  try {
+    res.json(getPeopleStats(req.session.hostId!));
+  } catch (error) {
+    console.error('Get people stats error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
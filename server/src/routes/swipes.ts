@@ -1,11 +1,74 @@
 import { Router } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { runQuery, getOne, getAll } from '../db/schema';
-import { Session, Meal, Participant, JoinSessionRequest, SubmitSwipesRequest } from '../types';
+import { runQuery, getOne, getAll, runTransaction } from '../db/schema';
+import { Session, Meal, Participant, DietaryRestriction, JoinSessionRequest, SaveSwipeRequest, SubmitSwipesRequest } from '../types';
 import { calculateResults } from '../services/matching';
+import { publishSessionEvent } from '../services/events';
+import { closeSession, closeIfPastDeadline, closeIfAllSubmitted } from '../services/sessions';
+import { toRecipeDetails } from '../services/recipes';
+import { imageUrls } from '../services/images';
+import { toRestaurantDetails, openNowStatus } from '../services/restaurants';
+import { resolveProfile } from '../services/profiles';
+import { linkInvite } from '../services/notifications';
+import { triggerWebhooks } from '../services/webhooks';
+import { isSessionCreator } from '../services/quick-session';
+import {
+  validateRestrictions,
+  normalizeRestrictions,
+  parseAllergens,
+  findConflicts,
+  parseRestrictions,
+  toDietaryDetails,
+} from '../services/dietary';
+import {
+  VOTES,
+  saveDeckOrder,
+  getDeckOrder,
+  saveSwipe,
+  submitSwipes,
+  getSwipeProgress,
+  getSessionProgress,
+} from '../services/swipe-progress';
 
 const router = Router();
 
+type DealtMeal = Meal & { session_meal_id: string };
+
+// The session's meals a participant swipes on: meals clashing with an allergy are left out, softer clashes are flagged
+function dealMeals(sessionId: string, restrictions: DietaryRestriction[]) {
+  const meals = getAll<DealtMeal>(
+    `SELECT m.id, m.title, m.description, m.ingredients, m.steps, m.prep_minutes, m.cook_minutes, m.difficulty, m.servings, m.image_id,
+            m.type, m.address, m.cuisine, m.price_tier, m.opening_hours, m.phone, m.website_url, m.allergens,
+            sm.id as session_meal_id
+     FROM meals m
+     JOIN session_meals sm ON m.id = sm.meal_id
+     WHERE sm.session_id = ?`,
+    [sessionId]
+  );
+
+  const dealt = meals
+    .map(meal => ({ meal, conflicts: findConflicts(parseAllergens(meal.allergens), restrictions) }))
+    .filter(({ conflicts }) => conflicts.hard.length === 0);
+
+  return { dealt, hiddenMealCount: meals.length - dealt.length };
+}
+
+function formatDealtMeal({ meal: m, conflicts }: { meal: DealtMeal; conflicts: ReturnType<typeof findConflicts> }) {
+  return {
+    id: m.id,
+    title: m.title,
+    description: m.description,
+    type: m.type,
+    ...toRecipeDetails(m),
+    ...toRestaurantDetails(m),
+    ...toDietaryDetails(m),
+    dietaryWarnings: conflicts.soft,
+    openNow: openNowStatus(m),
+    ...imageUrls(m.image_id),
+    sessionMealId: m.session_meal_id,
+  };
+}
+
 // GET /api/join/:inviteCode - Get session for swiping (public)
 router.get('/join/:inviteCode', (req, res) => {
   try {
@@ -21,7 +84,7 @@ router.get('/join/:inviteCode', (req, res) => {
       return;
     }
 
-    if (session.status === 'closed') {
+    if (session.status !== 'open' || closeIfPastDeadline(session)) {
       res.status(400).json({ error: 'This session has ended', sessionClosed: true });
       return;
     }
@@ -36,6 +99,8 @@ router.get('/join/:inviteCode', (req, res) => {
       id: session.id,
       status: session.status,
       participantCount: participantCount?.count || 0,
+      maxParticipants: session.max_participants,
+      closesAt: session.closes_at,
     });
   } catch (error) {
     console.error('Get join session error:', error);
@@ -47,13 +112,20 @@ router.get('/join/:inviteCode', (req, res) => {
 router.post('/join/:inviteCode', (req, res) => {
   try {
     const { inviteCode } = req.params;
-    const { displayName } = req.body as JoinSessionRequest;
+    const { displayName, profileToken, remember, restrictions = [], inviteToken } = req.body as JoinSessionRequest;
 
     if (!displayName || displayName.trim().length === 0) {
       res.status(400).json({ error: 'Display name is required' });
       return;
     }
 
+    const restrictionsError = validateRestrictions(restrictions);
+    if (restrictionsError) {
+      res.status(400).json({ error: restrictionsError });
+      return;
+    }
+    const participantRestrictions = normalizeRestrictions(restrictions);
+
     const session = getOne<Session>(
       'SELECT * FROM sessions WHERE invite_code = ?',
       [inviteCode.toUpperCase()]
@@ -64,39 +136,71 @@ router.post('/join/:inviteCode', (req, res) => {
       return;
     }
 
-    if (session.status === 'closed') {
+    if (session.status !== 'open' || closeIfPastDeadline(session)) {
       res.status(400).json({ error: 'This session has ended' });
       return;
     }
 
-    // Create participant
+    if (session.max_participants) {
+      const participantCount = getOne<{ count: number }>(
+        'SELECT COUNT(*) as count FROM participants WHERE session_id = ?',
+        [session.id]
+      );
+      if ((participantCount?.count || 0) >= session.max_participants) {
+        res.status(400).json({ error: 'This session is full' });
+        return;
+      }
+    }
+
+    // The participant, their profile, invite and deck are saved together or not at all
     const participantId = uuidv4();
-    runQuery(
-      'INSERT INTO participants (id, session_id, display_name, host_id) VALUES (?, ?, ?, ?)',
-      [participantId, session.id, displayName.trim(), req.session.hostId || null]
-    );
+    const { profile, shuffledMeals, hiddenMealCount } = runTransaction(() => {
+      // Link to a remembered profile so the person's history carries across sessions
+      const profile = resolveProfile(displayName.trim(), {
+        hostId: req.session.hostId,
+        token: typeof profileToken === 'string' ? profileToken : undefined,
+        remember: !!remember,
+      });
 
-    // Get meals for this session (randomized order for this participant)
-    const meals = getAll<Meal & { session_meal_id: string }>(
-      `SELECT m.id, m.title, m.description, sm.id as session_meal_id
-       FROM meals m
-       JOIN session_meals sm ON m.id = sm.meal_id
-       WHERE sm.session_id = ?`,
-      [session.id]
-    );
+      runQuery(
+        'INSERT INTO participants (id, session_id, display_name, host_id, profile_id, restrictions) VALUES (?, ?, ?, ?, ?, ?)',
+        [
+          participantId,
+          session.id,
+          displayName.trim(),
+          req.session.hostId || null,
+          profile?.id ?? null,
+          participantRestrictions.length > 0 ? JSON.stringify(participantRestrictions) : null,
+        ]
+      );
+
+      if (typeof inviteToken === 'string') {
+        linkInvite(session.id, inviteToken, participantId);
+      }
+
+      const { dealt, hiddenMealCount } = dealMeals(session.id, participantRestrictions);
+
+      // Shuffle meals for this participant, keeping the order so they can carry on from another device
+      const shuffledMeals = [...dealt].sort(() => Math.random() - 0.5);
+      saveDeckOrder(participantId, shuffledMeals.map(({ meal }) => meal.id));
 
-    // Shuffle meals for this participant
-    const shuffledMeals = [...meals].sort(() => Math.random() - 0.5);
+      return { profile, shuffledMeals, hiddenMealCount };
+    });
+
+    publishSessionEvent(session.id, 'participant-joined', {
+      participant: { id: participantId, displayName: displayName.trim(), submitted: false },
+    });
+    triggerWebhooks(session.id, 'participant.joined', {
+      participant: { id: participantId, displayName: displayName.trim() },
+    });
 
     res.status(201).json({
       participantId,
       sessionId: session.id,
-      meals: shuffledMeals.map(m => ({
-        id: m.id,
-        title: m.title,
-        description: m.description,
-        sessionMealId: m.session_meal_id,
-      })),
+      profileToken: profile?.token ?? null,
+      closesAt: session.closes_at,
+      hiddenMealCount,
+      meals: shuffledMeals.map(formatDealtMeal),
     });
   } catch (error) {
     console.error('Join session error:', error);
@@ -127,8 +231,8 @@ router.post('/swipes/:sessionId', (req, res) => {
     }
 
     // Verify session is still open
-    const session = getOne<Session>('SELECT status FROM sessions WHERE id = ?', [sessionId]);
-    if (!session || session.status === 'closed') {
+    const session = getOne<Session>('SELECT id, status, closes_at FROM sessions WHERE id = ?', [sessionId]);
+    if (!session || session.status !== 'open' || closeIfPastDeadline(session)) {
       res.status(400).json({ error: 'This session has ended', sessionClosed: true });
       return;
     }
@@ -141,12 +245,8 @@ router.post('/swipes/:sessionId', (req, res) => {
 
     const mealToSessionMeal = new Map(sessionMeals.map(sm => [sm.meal_id, sm.id]));
 
-    // Delete existing swipes if updating choices
-    if (participant.submitted === 1) {
-      runQuery('DELETE FROM swipes WHERE participant_id = ?', [participantId]);
-    }
-
-    // Insert swipes
+    // Check every swipe before replacing anything saved along the way
+    const ballot: Array<{ sessionMealId: string; vote: number }> = [];
     for (const swipe of swipes) {
       const sessionMealId = mealToSessionMeal.get(swipe.mealId);
       if (!sessionMealId) {
@@ -155,27 +255,131 @@ router.post('/swipes/:sessionId', (req, res) => {
       }
 
       // Validate vote value
-      if (![0, 1, 2].includes(swipe.vote)) {
+      if (!VOTES.includes(swipe.vote)) {
         res.status(400).json({ error: `Invalid vote value: ${swipe.vote}. Must be 0 (no), 1 (yes), or 2 (maybe)` });
         return;
       }
 
-      runQuery(
-        'INSERT OR REPLACE INTO swipes (id, participant_id, session_meal_id, vote) VALUES (?, ?, ?, ?)',
-        [uuidv4(), participantId, sessionMealId, swipe.vote]
-      );
+      ballot.push({ sessionMealId, vote: swipe.vote });
     }
 
-    // Mark participant as submitted
-    runQuery('UPDATE participants SET submitted = 1 WHERE id = ?', [participantId]);
+    // Replaces the drafts saved while swiping (or an earlier submission) and marks the participant as submitted
+    submitSwipes(participantId, ballot);
+
+    publishSessionEvent(sessionId, 'participant-submitted', { participantId });
+    triggerWebhooks(sessionId, 'participant.submitted', {
+      participant: { id: participantId, displayName: participant.display_name },
+    });
 
-    res.json({ message: 'Swipes submitted successfully' });
+    const sessionClosed = closeIfAllSubmitted(sessionId);
+
+    res.json({ message: 'Swipes submitted successfully', sessionClosed });
   } catch (error) {
     console.error('Submit swipes error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// PUT /api/swipes/:sessionId/:mealId - Save one vote as it happens (public; the participant ID is the credential)
+router.put('/swipes/:sessionId/:mealId', (req, res) => {
+  try {
+    const { sessionId, mealId } = req.params;
+    const { participantId, vote } = req.body as SaveSwipeRequest;
+
+    if (!participantId) {
+      res.status(400).json({ error: 'Participant ID is required' });
+      return;
+    }
+    if (!VOTES.includes(vote)) {
+      res.status(400).json({ error: `Invalid vote value: ${vote}. Must be 0 (no), 1 (yes), or 2 (maybe)` });
+      return;
+    }
+
+    const participant = getOne<Participant>(
+      'SELECT * FROM participants WHERE id = ? AND session_id = ?',
+      [participantId, sessionId]
+    );
+    if (!participant) {
+      res.status(404).json({ error: 'Participant not found' });
+      return;
+    }
+
+    const session = getOne<Session>('SELECT id, status, closes_at FROM sessions WHERE id = ?', [sessionId]);
+    if (!session || session.status !== 'open' || closeIfPastDeadline(session)) {
+      res.status(400).json({ error: 'This session has ended', sessionClosed: true });
+      return;
+    }
+
+    // Only meals in this participant's deck (an allergy may have hidden some)
+    const sessionMeal = getOne<{ id: string }>(
+      'SELECT id FROM session_meals WHERE session_id = ? AND meal_id = ?',
+      [sessionId, mealId]
+    );
+    if (!sessionMeal || !getDeckOrder(participant).includes(mealId)) {
+      res.status(400).json({ error: `Invalid meal ID: ${mealId}` });
+      return;
+    }
+
+    saveSwipe(participant, sessionMeal.id, vote);
+
+    const { swiped, total } = getSwipeProgress(participant);
+    publishSessionEvent(sessionId, 'participant-progress', { participantId, swiped, total });
+
+    res.json({ swiped, total });
+  } catch (error) {
+    console.error('Save swipe error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/swipes/:sessionId/resume?participantId= - Everything needed to carry on swiping, on this or another device
+router.get('/swipes/:sessionId/resume', (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { participantId } = req.query;
+
+    if (typeof participantId !== 'string' || !participantId) {
+      res.status(400).json({ error: 'Participant ID is required' });
+      return;
+    }
+
+    const participant = getOne<Participant>(
+      'SELECT * FROM participants WHERE id = ? AND session_id = ?',
+      [participantId, sessionId]
+    );
+    if (!participant) {
+      res.status(404).json({ error: 'Participant not found' });
+      return;
+    }
+
+    const session = getOne<Session>('SELECT * FROM sessions WHERE id = ?', [sessionId]);
+    if (!session || session.status !== 'open' || closeIfPastDeadline(session)) {
+      res.status(400).json({ error: 'This session has ended', sessionClosed: true });
+      return;
+    }
+
+    const { dealt, hiddenMealCount } = dealMeals(sessionId, parseRestrictions(participant.restrictions));
+    const byId = new Map(dealt.map(d => [d.meal.id, d]));
+    const deck = getDeckOrder(participant).filter(mealId => byId.has(mealId)).map(mealId => byId.get(mealId)!);
+    const { swipes, position } = getSwipeProgress(participant);
+
+    res.json({
+      participantId: participant.id,
+      sessionId,
+      displayName: participant.display_name,
+      closesAt: session.closes_at,
+      hiddenMealCount,
+      meals: deck.map(formatDealtMeal),
+      submitted: participant.submitted === 1,
+      swipes,
+      position,
+    });
+  } catch (error) {
+    console.error('Resume swipes error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // GET /api/results/:sessionId - Get results (after close)
 router.get('/results/:sessionId', (req, res) => {
   try {
@@ -192,7 +396,11 @@ router.get('/results/:sessionId', (req, res) => {
     // Check if requestor is the host
     const requestorIsHost = req.session.hostId === session.host_id;
 
-    if (session.status !== 'closed') {
+    if (closeIfPastDeadline(session)) {
+      session.status = 'closed';
+    }
+
+    if (session.status === 'open') {
       res.json({
         status: 'waiting',
         message: 'Session is still open. Results will be available after the host closes it.',
@@ -203,6 +411,17 @@ router.get('/results/:sessionId', (req, res) => {
     // Calculate results (include voters only for host)
     const results = calculateResults(sessionId, requestorIsHost && isHost);
 
+    if (session.status === 'runoff') {
+      res.json({
+        status: 'runoff',
+        message: 'Group vote in progress. Pick your favourite of the top matches.',
+        results,
+        selectedMeal: null,
+        isHost: requestorIsHost,
+      });
+      return;
+    }
+
     // Get selected meal info if any
     let selectedMeal = null;
     if (session.selected_meal_id) {
@@ -250,16 +469,7 @@ router.post('/close-session/:sessionId', (req, res) => {
       return;
     }
 
-    // Verify the creator token matches any meal in this session
-    const mealWithToken = getOne<{ id: string }>(
-      `SELECT m.id FROM meals m
-       JOIN session_meals sm ON m.id = sm.meal_id
-       WHERE sm.session_id = ? AND m.creator_token = ?
-       LIMIT 1`,
-      [sessionId, creatorToken]
-    );
-
-    if (!mealWithToken) {
+    if (!isSessionCreator(session, creatorToken)) {
       res.status(403).json({ error: 'Invalid creator token' });
       return;
     }
@@ -269,10 +479,12 @@ router.post('/close-session/:sessionId', (req, res) => {
       return;
     }
 
-    runQuery(
-      'UPDATE sessions SET status = ?, closed_at = CURRENT_TIMESTAMP WHERE id = ?',
-      ['closed', sessionId]
-    );
+    if (session.status === 'runoff') {
+      res.status(400).json({ error: 'A runoff is in progress; finish it to close the session' });
+      return;
+    }
+
+    closeSession(sessionId);
 
     // Calculate and return results
     const results = calculateResults(sessionId, true);
@@ -287,18 +499,25 @@ router.post('/close-session/:sessionId', (req, res) => {
   }
 });
 
-// GET /api/session-status/:sessionId - Check session status (for polling)
+// GET /api/session-status/:sessionId - Check session status (initial load before subscribing to events)
 router.get('/session-status/:sessionId', (req, res) => {
   try {
     const { sessionId } = req.params;
 
-    const session = getOne<Session>('SELECT status, selected_meal_id FROM sessions WHERE id = ?', [sessionId]);
+    const session = getOne<Session>(
+      'SELECT id, status, selected_meal_id, closes_at FROM sessions WHERE id = ?',
+      [sessionId]
+    );
 
     if (!session) {
       res.status(404).json({ error: 'Session not found' });
       return;
     }
 
+    if (closeIfPastDeadline(session)) {
+      session.status = 'closed';
+    }
+
     // Get participants with their status
     const participants = getAll<Participant>(
       `SELECT id, display_name, submitted, created_at
@@ -308,13 +527,17 @@ router.get('/session-status/:sessionId', (req, res) => {
       [sessionId]
     );
 
+    const progress = getSessionProgress(sessionId);
+
     res.json({
       status: session.status,
       selectedMealId: session.selected_meal_id,
+      closesAt: session.closes_at,
       participants: participants.map(p => ({
         id: p.id,
         displayName: p.display_name,
         submitted: p.submitted === 1,
+        ...progress.get(p.id),
       })),
     });
   } catch (error) {
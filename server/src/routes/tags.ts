@@ -0,0 +1,143 @@
+import { Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { runQuery, getOne, getAll, runTransaction } from '../db/schema';
+import { Tag, TagRequest } from '../types';
+import { requireAuth } from '../middleware/auth';
+import { normalizeTagName, MAX_TAG_LENGTH } from '../services/tags';
+
+const router = Router();
+
+// All tag routes require authentication
+router.use(requireAuth);
+
+function validateTagName(name: unknown): string | null {
+  if (typeof name !== 'string' || normalizeTagName(name).length === 0) {
+    return 'Tag name is required';
+  }
+  if (normalizeTagName(name).length > MAX_TAG_LENGTH) {
+    return `Tag name must be at most ${MAX_TAG_LENGTH} characters`;
+  }
+  return null;
+}
+
+// GET /api/tags - List host's tags with how many active meals use each
+router.get('/', (req, res) => {
+  try {
+    const tags = getAll<Tag & { meal_count: number }>(
+      `SELECT
+        t.*,
+        (SELECT COUNT(*) FROM meal_tags mt JOIN meals m ON mt.meal_id = m.id
+         WHERE mt.tag_id = t.id AND m.archived = 0) as meal_count
+      FROM tags t
+      WHERE t.host_id = ?
+      ORDER BY t.name`,
+      [req.session.hostId]
+    );
+
+    res.json(tags.map(tag => ({
+      id: tag.id,
+      name: tag.name,
+      mealCount: tag.meal_count,
+    })));
+  } catch (error) {
+    console.error('Get tags error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/tags - Create tag
+router.post('/', (req, res) => {
+  try {
+    const { name } = req.body as TagRequest;
+
+    const nameError = validateTagName(name);
+    if (nameError) {
+      res.status(400).json({ error: nameError });
+      return;
+    }
+
+    const normalized = normalizeTagName(name);
+
+    const existing = getOne<Tag>(
+      'SELECT id FROM tags WHERE host_id = ? AND name = ?',
+      [req.session.hostId, normalized]
+    );
+    if (existing) {
+      res.status(400).json({ error: 'Tag already exists' });
+      return;
+    }
+
+    const id = uuidv4();
+    runQuery('INSERT INTO tags (id, host_id, name) VALUES (?, ?, ?)', [id, req.session.hostId, normalized]);
+
+    res.status(201).json({ id, name: normalized, mealCount: 0 });
+  } catch (error) {
+    console.error('Create tag error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PATCH /api/tags/:id - Rename tag
+router.patch('/:id', (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name } = req.body as TagRequest;
+
+    const tag = getOne<Tag>('SELECT id FROM tags WHERE id = ? AND host_id = ?', [id, req.session.hostId]);
+
+    if (!tag) {
+      res.status(404).json({ error: 'Tag not found' });
+      return;
+    }
+
+    const nameError = validateTagName(name);
+    if (nameError) {
+      res.status(400).json({ error: nameError });
+      return;
+    }
+
+    const normalized = normalizeTagName(name);
+
+    const clash = getOne<Tag>(
+      'SELECT id FROM tags WHERE host_id = ? AND name = ? AND id != ?',
+      [req.session.hostId, normalized, id]
+    );
+    if (clash) {
+      res.status(400).json({ error: 'Tag already exists' });
+      return;
+    }
+
+    runQuery('UPDATE tags SET name = ? WHERE id = ?', [normalized, id]);
+
+    res.json({ id, name: normalized });
+  } catch (error) {
+    console.error('Update tag error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/tags/:id - Delete tag and remove it from all meals
+router.delete('/:id', (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const tag = getOne<Tag>('SELECT id FROM tags WHERE id = ? AND host_id = ?', [id, req.session.hostId]);
+
+    if (!tag) {
+      res.status(404).json({ error: 'Tag not found' });
+      return;
+    }
+
+    runTransaction(() => {
+      runQuery('DELETE FROM meal_tags WHERE tag_id = ?', [id]);
+      runQuery('DELETE FROM tags WHERE id = ?', [id]);
+    });
+
+    res.json({ message: 'Tag deleted successfully' });
+  } catch (error) {
+    console.error('Delete tag error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
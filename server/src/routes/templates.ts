@@ -0,0 +1,297 @@
+import { Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { runQuery, getOne, getAll, runTransaction } from '../db/schema';
+import { Playlist, SessionTemplate, SessionTemplateRequest } from '../types';
+import { requireAuth } from '../middleware/auth';
+import { isScoringMode } from '../services/scoring';
+import { findInvalidMealIds } from '../services/playlists';
+import { validateSchedule } from '../services/schedule';
+import { parseTemplateMealIds, resolveTemplateMealIds, computeNextRunAt, runTemplate } from '../services/templates';
+
+const router = Router();
+
+// All template routes require authentication
+router.use(requireAuth);
+
+const MAX_AUTO_CLOSE_MINUTES = 7 * 24 * 60;
+
+function isPositiveIntegerOrNull(value: unknown, max: number = Number.MAX_SAFE_INTEGER): boolean {
+  return value === null || (Number.isInteger(value) && (value as number) > 0 && (value as number) <= max);
+}
+
+// Validate the fields present in a create/update body
+function validateTemplateRequest(hostId: string, body: SessionTemplateRequest): string | null {
+  const { name, mealIds, playlistId, scoringMode, maxParticipants, schedule, autoCloseMinutes } = body;
+
+  if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) {
+    return 'Template name is required';
+  }
+  if (mealIds !== undefined) {
+    if (!Array.isArray(mealIds) || mealIds.some(id => typeof id !== 'string')) {
+      return 'Meal IDs must be a list';
+    }
+    if (findInvalidMealIds(hostId, mealIds).length > 0) {
+      return 'Some meals are invalid or not accessible';
+    }
+  }
+  if (playlistId) {
+    const playlist = getOne<Playlist>('SELECT id FROM playlists WHERE id = ? AND host_id = ?', [playlistId, hostId]);
+    if (!playlist) {
+      return 'Playlist not found';
+    }
+  }
+  if (scoringMode !== undefined && !isScoringMode(scoringMode)) {
+    return `Invalid scoring mode: ${scoringMode}`;
+  }
+  if (maxParticipants !== undefined && !isPositiveIntegerOrNull(maxParticipants)) {
+    return 'Participant cap must be a positive whole number';
+  }
+  if (schedule !== undefined && schedule !== null && schedule !== '') {
+    const scheduleError = validateSchedule(schedule);
+    if (scheduleError) return scheduleError;
+  }
+  if (autoCloseMinutes !== undefined && !isPositiveIntegerOrNull(autoCloseMinutes, MAX_AUTO_CLOSE_MINUTES)) {
+    return `Auto-close must be between 1 and ${MAX_AUTO_CLOSE_MINUTES} minutes`;
+  }
+  return null;
+}
+
+function formatTemplate(template: SessionTemplate & { playlist_name?: string | null; session_count?: number }) {
+  return {
+    id: template.id,
+    name: template.name,
+    mealIds: parseTemplateMealIds(template),
+    playlistId: template.playlist_id,
+    playlistName: template.playlist_name ?? null,
+    scoringMode: template.scoring_mode,
+    maxParticipants: template.max_participants,
+    schedule: template.schedule,
+    autoCloseMinutes: template.auto_close_minutes,
+    active: template.active === 1,
+    lastRunAt: template.last_run_at,
+    nextRunAt: template.next_run_at,
+    sessionCount: template.session_count ?? 0,
+    createdAt: template.created_at,
+  };
+}
+
+// GET /api/templates - List host's session templates
+router.get('/', (req, res) => {
+  try {
+    const templates = getAll<SessionTemplate & { playlist_name: string | null; session_count: number }>(
+      `SELECT
+        t.*,
+        p.name as playlist_name,
+        (SELECT COUNT(*) FROM sessions WHERE template_id = t.id) as session_count
+      FROM session_templates t
+      LEFT JOIN playlists p ON t.playlist_id = p.id
+      WHERE t.host_id = ?
+      ORDER BY t.name`,
+      [req.session.hostId]
+    );
+
+    res.json(templates.map(formatTemplate));
+  } catch (error) {
+    console.error('Get templates error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/templates - Create template from a meal pool or a playlist
+router.post('/', (req, res) => {
+  try {
+    const body = req.body as SessionTemplateRequest;
+    const { name, mealIds = [], playlistId = null, scoringMode = 'approval', active = true } = body;
+
+    if (name === undefined) {
+      res.status(400).json({ error: 'Template name is required' });
+      return;
+    }
+
+    const validationError = validateTemplateRequest(req.session.hostId!, body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    if (!playlistId && mealIds.length === 0) {
+      res.status(400).json({ error: 'Choose meals or a playlist for this template' });
+      return;
+    }
+
+    const template: SessionTemplate = {
+      id: uuidv4(),
+      host_id: req.session.hostId!,
+      name: name.trim(),
+      meal_ids: playlistId ? null : JSON.stringify(mealIds),
+      playlist_id: playlistId,
+      scoring_mode: scoringMode,
+      max_participants: body.maxParticipants ?? null,
+      schedule: body.schedule ? body.schedule.trim() : null,
+      auto_close_minutes: body.autoCloseMinutes ?? null,
+      active: active ? 1 : 0,
+      last_run_at: null,
+      next_run_at: null,
+      created_at: new Date().toISOString(),
+    };
+    template.next_run_at = computeNextRunAt(template, new Date());
+
+    runQuery(
+      `INSERT INTO session_templates
+        (id, host_id, name, meal_ids, playlist_id, scoring_mode, max_participants, schedule, auto_close_minutes, active, next_run_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        template.id,
+        template.host_id,
+        template.name,
+        template.meal_ids,
+        template.playlist_id,
+        template.scoring_mode,
+        template.max_participants,
+        template.schedule,
+        template.auto_close_minutes,
+        template.active,
+        template.next_run_at,
+      ]
+    );
+
+    res.status(201).json(formatTemplate(template));
+  } catch (error) {
+    console.error('Create template error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PATCH /api/templates/:id - Update template settings or schedule
+router.patch('/:id', (req, res) => {
+  try {
+    const { id } = req.params;
+    const body = req.body as SessionTemplateRequest;
+
+    const template = getOne<SessionTemplate>(
+      'SELECT * FROM session_templates WHERE id = ? AND host_id = ?',
+      [id, req.session.hostId]
+    );
+
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    const validationError = validateTemplateRequest(req.session.hostId!, body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const updated: SessionTemplate = { ...template };
+    if (body.name !== undefined) updated.name = body.name.trim();
+    if (body.playlistId) {
+      updated.playlist_id = body.playlistId;
+      updated.meal_ids = null;
+    } else if (body.mealIds !== undefined) {
+      updated.playlist_id = null;
+      updated.meal_ids = JSON.stringify(body.mealIds);
+    }
+    if (body.scoringMode !== undefined) updated.scoring_mode = body.scoringMode;
+    if (body.maxParticipants !== undefined) updated.max_participants = body.maxParticipants;
+    if (body.schedule !== undefined) updated.schedule = body.schedule ? body.schedule.trim() : null;
+    if (body.autoCloseMinutes !== undefined) updated.auto_close_minutes = body.autoCloseMinutes;
+    if (body.active !== undefined) updated.active = body.active ? 1 : 0;
+
+    if (!updated.playlist_id && parseTemplateMealIds(updated).length === 0) {
+      res.status(400).json({ error: 'Choose meals or a playlist for this template' });
+      return;
+    }
+
+    updated.next_run_at = computeNextRunAt(updated, new Date());
+
+    runQuery(
+      `UPDATE session_templates
+       SET name = ?, meal_ids = ?, playlist_id = ?, scoring_mode = ?, max_participants = ?,
+           schedule = ?, auto_close_minutes = ?, active = ?, next_run_at = ?
+       WHERE id = ?`,
+      [
+        updated.name,
+        updated.meal_ids,
+        updated.playlist_id,
+        updated.scoring_mode,
+        updated.max_participants,
+        updated.schedule,
+        updated.auto_close_minutes,
+        updated.active,
+        updated.next_run_at,
+        id,
+      ]
+    );
+
+    res.json(formatTemplate(updated));
+  } catch (error) {
+    console.error('Update template error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/templates/:id - Delete template (sessions it created are kept)
+router.delete('/:id', (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const template = getOne<SessionTemplate>(
+      'SELECT id FROM session_templates WHERE id = ? AND host_id = ?',
+      [id, req.session.hostId]
+    );
+
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    runTransaction(() => {
+      runQuery('UPDATE sessions SET template_id = NULL WHERE template_id = ?', [id]);
+      runQuery('DELETE FROM session_templates WHERE id = ?', [id]);
+    });
+
+    res.json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    console.error('Delete template error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/templates/:id/run - Start a session from the template right now
+router.post('/:id/run', (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const template = getOne<SessionTemplate>(
+      'SELECT * FROM session_templates WHERE id = ? AND host_id = ?',
+      [id, req.session.hostId]
+    );
+
+    if (!template) {
+      res.status(404).json({ error: 'Template not found' });
+      return;
+    }
+
+    const session = runTemplate(template);
+
+    if (!session) {
+      res.status(400).json({ error: 'Template has no active meals' });
+      return;
+    }
+
+    res.status(201).json({
+      id: session.id,
+      inviteCode: session.inviteCode,
+      status: 'open',
+      scoringMode: template.scoring_mode,
+      mealCount: resolveTemplateMealIds(template).length,
+    });
+  } catch (error) {
+    console.error('Run template error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,196 @@
+import { Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { runQuery, getOne, getAll, runTransaction } from '../db/schema';
+import { Webhook, WebhookRequest } from '../types';
+import { requireAuth } from '../middleware/auth';
+import {
+  validateWebhook,
+  generateWebhookSecret,
+  formatWebhook,
+  formatDelivery,
+  getDeliveries,
+  sendTestDelivery,
+  MAX_WEBHOOKS_PER_HOST,
+} from '../services/webhooks';
+
+const router = Router();
+
+// All webhook routes require authentication
+router.use(requireAuth);
+
+function findWebhook(id: string, hostId: string | undefined): Webhook | undefined {
+  return getOne<Webhook>('SELECT * FROM webhooks WHERE id = ? AND host_id = ?', [id, hostId]);
+}
+
+// GET /api/webhooks - List host's webhooks
+router.get('/', (req, res) => {
+  try {
+    const webhooks = getAll<Webhook>(
+      'SELECT * FROM webhooks WHERE host_id = ? ORDER BY created_at',
+      [req.session.hostId]
+    );
+
+    res.json(webhooks.map(formatWebhook));
+  } catch (error) {
+    console.error('Get webhooks error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/webhooks - Register a URL; the signing secret is generated here
+router.post('/', (req, res) => {
+  try {
+    const body = req.body as WebhookRequest;
+    const { url, events = [], active = true } = body;
+
+    if (url === undefined) {
+      res.status(400).json({ error: 'Webhook URL is required' });
+      return;
+    }
+
+    const validationError = validateWebhook(body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const count = getOne<{ count: number }>(
+      'SELECT COUNT(*) as count FROM webhooks WHERE host_id = ?',
+      [req.session.hostId]
+    );
+    if ((count?.count || 0) >= MAX_WEBHOOKS_PER_HOST) {
+      res.status(400).json({ error: `You can have at most ${MAX_WEBHOOKS_PER_HOST} webhooks` });
+      return;
+    }
+
+    const webhook: Webhook = {
+      id: uuidv4(),
+      host_id: req.session.hostId!,
+      url,
+      secret: generateWebhookSecret(),
+      events: JSON.stringify([...new Set(events)]),
+      active: active ? 1 : 0,
+      created_at: new Date().toISOString(),
+    };
+
+    runQuery(
+      'INSERT INTO webhooks (id, host_id, url, secret, events, active, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [webhook.id, webhook.host_id, webhook.url, webhook.secret, webhook.events, webhook.active, webhook.created_at]
+    );
+
+    res.status(201).json(formatWebhook(webhook));
+  } catch (error) {
+    console.error('Create webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PATCH /api/webhooks/:id - Change the URL, event filter or active flag
+router.patch('/:id', (req, res) => {
+  try {
+    const body = req.body as WebhookRequest;
+
+    const webhook = findWebhook(req.params.id, req.session.hostId);
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    const validationError = validateWebhook(body);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const updated: Webhook = { ...webhook };
+    if (body.url !== undefined) updated.url = body.url;
+    if (body.events !== undefined) updated.events = JSON.stringify([...new Set(body.events)]);
+    if (body.active !== undefined) updated.active = body.active ? 1 : 0;
+
+    runQuery(
+      'UPDATE webhooks SET url = ?, events = ?, active = ? WHERE id = ?',
+      [updated.url, updated.events, updated.active, updated.id]
+    );
+
+    res.json(formatWebhook(updated));
+  } catch (error) {
+    console.error('Update webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/webhooks/:id/rotate-secret - Replace the signing secret
+router.post('/:id/rotate-secret', (req, res) => {
+  try {
+    const webhook = findWebhook(req.params.id, req.session.hostId);
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    webhook.secret = generateWebhookSecret();
+    runQuery('UPDATE webhooks SET secret = ? WHERE id = ?', [webhook.secret, webhook.id]);
+
+    res.json(formatWebhook(webhook));
+  } catch (error) {
+    console.error('Rotate webhook secret error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/webhooks/:id - Delete webhook and its delivery log
+router.delete('/:id', (req, res) => {
+  try {
+    const webhook = findWebhook(req.params.id, req.session.hostId);
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    runTransaction(() => {
+      runQuery('DELETE FROM webhook_deliveries WHERE webhook_id = ?', [webhook.id]);
+      runQuery('DELETE FROM webhooks WHERE id = ?', [webhook.id]);
+    });
+
+    res.json({ message: 'Webhook deleted successfully' });
+  } catch (error) {
+    console.error('Delete webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/webhooks/:id/deliveries - Recent deliveries, newest first
+router.get('/:id/deliveries', (req, res) => {
+  try {
+    const webhook = findWebhook(req.params.id, req.session.hostId);
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    res.json(getDeliveries(webhook.id).map(formatDelivery));
+  } catch (error) {
+    console.error('Get webhook deliveries error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/webhooks/:id/test - Send a ping and return how it went
+router.post('/:id/test', async (req, res) => {
+  try {
+    const webhook = findWebhook(req.params.id, req.session.hostId);
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    const delivery = await sendTestDelivery(webhook);
+
+    res.json(formatDelivery(delivery));
+  } catch (error) {
+    console.error('Test webhook error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
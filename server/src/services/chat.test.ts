@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { initializeDatabase, runQuery, getOne } from '../db/schema';
+import { ChatSession, Session } from '../types';
+import {
+  verifyChatSignature,
+  parseChatPayload,
+  parseStartArguments,
+  handleChatCommand,
+  postChatResults,
+  ChatCommand,
+  MAX_CHAT_VOTE_MINUTES,
+} from './chat';
+import startFixture from './fixtures/chat/start.json';
+import startWithMinutesFixture from './fixtures/chat/start-with-minutes.json';
+import helpFixture from './fixtures/chat/help.json';
+import slackDocsFixture from './fixtures/chat/slack-docs-example.json';
+
+const SIGNING_SECRET = 'mealmatch-test-signing-secret';
+
+interface Fixture {
+  headers: Record<string, string>;
+  body: string;
+}
+
+// When the fixtures were recorded
+function recordedAt(fixture: Fixture): Date {
+  return new Date(Number(fixture.headers['X-Slack-Request-Timestamp']) * 1000);
+}
+
+function verifyFixture(fixture: Fixture, secret: string = SIGNING_SECRET, now: Date = recordedAt(fixture)) {
+  return verifyChatSignature(
+    secret,
+    fixture.headers['X-Slack-Request-Timestamp'],
+    fixture.headers['X-Slack-Signature'],
+    fixture.body,
+    now
+  );
+}
+
+function commandFrom(fixture: Fixture): ChatCommand {
+  return parseChatPayload(fixture.body)!;
+}
+
+describe('Chat Integration Service', () => {
+  const received: string[] = [];
+  let server: http.Server;
+  let receiverUrl: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push(body);
+        res.writeHead(200);
+        res.end('ok');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/commands`;
+  });
+
+  afterAll(async () => {
+    // The fixtures point at the real chat platform; never leave rows that would post there later
+    runQuery("DELETE FROM chat_sessions WHERE team_id = 'T0001'", []);
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+  });
+
+  // Start a vote from a fixture, with follow-ups sent to the local receiver
+  function startVote(fixture: Fixture): Session {
+    const reply = handleChatCommand(commandFrom(fixture));
+    const inviteCode = reply.text.match(/\/join\/([A-Z0-9]+)/)![1];
+    const session = getOne<Session>('SELECT * FROM sessions WHERE invite_code = ?', [inviteCode])!;
+    runQuery('UPDATE chat_sessions SET response_url = ? WHERE session_id = ?', [receiverUrl, session.id]);
+    return session;
+  }
+
+  it('should verify recorded signatures, including the platform documentation example', () => {
+    expect(verifyFixture(startFixture)).toBe(true);
+    expect(verifyFixture(helpFixture)).toBe(true);
+    expect(verifyFixture(slackDocsFixture, '8f742231b10e8888abcd99yyyzzz85a5')).toBe(true);
+  });
+
+  it('should reject tampered, wrongly keyed and stale requests', () => {
+    expect(verifyFixture({ ...startFixture, body: startFixture.body.replace('sushi', 'salad') })).toBe(false);
+    expect(verifyFixture(startFixture, 'some-other-secret')).toBe(false);
+
+    const later = new Date(recordedAt(startFixture).getTime() + 10 * 60 * 1000);
+    expect(verifyFixture(startFixture, SIGNING_SECRET, later)).toBe(false);
+
+    expect(verifyChatSignature(SIGNING_SECRET, undefined, 'v0=abc', startFixture.body)).toBe(false);
+    expect(verifyChatSignature(SIGNING_SECRET, 'yesterday', 'v0=abc', startFixture.body)).toBe(false);
+  });
+
+  it('should parse slash command payloads', () => {
+    expect(commandFrom(startFixture)).toEqual({
+      teamId: 'T0001',
+      channelId: 'C2147483705',
+      userId: 'U2147483697',
+      userName: 'steve',
+      command: '/mealmatch',
+      text: 'start pizza, tacos, sushi',
+      responseUrl: 'https://hooks.slack.com/commands/T0001/1234/abcd',
+    });
+    expect(parseChatPayload('team_id=T1&user_id=U1&channel_id=C1&response_url=javascript%3Aalert(1)')).toBeNull();
+    expect(parseChatPayload('text=start+pizza')).toBeNull();
+  });
+
+  it('should parse vote lengths and meal lists', () => {
+    expect(parseStartArguments('pizza, tacos, pizza')).toEqual({ minutes: 15, meals: ['pizza', 'tacos'] });
+    expect(parseStartArguments('10m Pad thai, Ramen')).toEqual({ minutes: 10, meals: ['Pad thai', 'Ramen'] });
+    expect(parseStartArguments(`${MAX_CHAT_VOTE_MINUTES + 1}m pizza, tacos`)).toContain('1 to 30 minutes');
+    expect(parseStartArguments('pizza')).toContain('at least two meals');
+  });
+
+  it('should start a quick session and reply in the channel with the invite link', () => {
+    const reply = handleChatCommand(commandFrom(startWithMinutesFixture));
+
+    expect(reply.response_type).toBe('in_channel');
+    expect(reply.text).toContain('steve started a vote: Pad thai, Ramen.');
+    expect(reply.text).toContain('closes in 10 minutes');
+
+    const inviteCode = reply.text.match(/\/join\/([A-Z0-9]+)/)![1];
+    const session = getOne<Session>('SELECT * FROM sessions WHERE invite_code = ?', [inviteCode])!;
+    expect(session.status).toBe('open');
+    expect(session.closes_at).not.toBeNull();
+
+    const meals = getOne<{ count: number }>(
+      'SELECT COUNT(*) as count FROM session_meals WHERE session_id = ?',
+      [session.id]
+    );
+    expect(meals?.count).toBe(2);
+
+    // The creator votes through the link like everyone else
+    const participants = getOne<{ count: number }>(
+      'SELECT COUNT(*) as count FROM participants WHERE session_id = ?',
+      [session.id]
+    );
+    expect(participants?.count).toBe(0);
+
+    const chat = getOne<ChatSession>('SELECT * FROM chat_sessions WHERE session_id = ?', [session.id])!;
+    expect(chat.channel_id).toBe('C2147483705');
+    expect(chat.response_url).toBe('https://hooks.slack.com/commands/T0001/1235/efgh');
+  });
+
+  it('should answer help privately', () => {
+    const reply = handleChatCommand(commandFrom(helpFixture));
+    expect(reply.response_type).toBe('ephemeral');
+    expect(reply.text).toContain('/mealmatch start pizza, tacos, sushi');
+  });
+
+  it('should post results to the channel when the starter closes the vote', async () => {
+    const session = startVote(startFixture);
+
+    const otherUser = { ...commandFrom(startFixture), userId: 'U-someone-else', text: `close ${session.invite_code}` };
+    expect(handleChatCommand(otherUser).text).toContain('Only the person who started');
+
+    const reply = handleChatCommand({ ...commandFrom(startFixture), text: `close ${session.invite_code.toLowerCase()}` });
+    expect(reply.text).toContain('Closing the vote');
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(getOne<Session>('SELECT * FROM sessions WHERE id = ?', [session.id])!.status).toBe('closed');
+    expect(received).toHaveLength(1);
+    const message = JSON.parse(received[0]);
+    expect(message.response_type).toBe('in_channel');
+    expect(message.text).toContain('Voting closed with no votes.');
+    expect(message.text).toContain(`/results/${session.id}`);
+  });
+
+  it('should post results only once', async () => {
+    const session = startVote(startFixture);
+    runQuery("UPDATE sessions SET status = 'closed' WHERE id = ?", [session.id]);
+
+    expect(await postChatResults(session.id)).toBe(true);
+    expect(await postChatResults(session.id)).toBe(false);
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import { runQuery, getOne } from '../db/schema';
+import { ChatSession, Session } from '../types';
+import { validateQuickSession, createQuickSession } from './quick-session';
+import { closeSession, summarizeResults } from './sessions';
+import { getAppUrl } from './notifications';
+
+// Requests older than this are rejected so a captured request can't be replayed later
+export const MAX_REQUEST_AGE_SECONDS = 5 * 60;
+
+// Chat platforms only accept follow-ups for a limited time (30 minutes on Slack), so votes must close within it
+export const DEFAULT_CHAT_VOTE_MINUTES = 15;
+export const MAX_CHAT_VOTE_MINUTES = 30;
+export const MAX_CHAT_MEALS = 20;
+
+const POST_TIMEOUT_MS = 10 * 1000;
+
+export interface ChatCommand {
+  teamId: string;
+  channelId: string;
+  userId: string;
+  userName: string;
+  command: string; // e.g. "/mealmatch"
+  text: string;
+  responseUrl: string;
+}
+
+// Slack's message shape; in_channel replies are visible to everyone, ephemeral ones only to the sender
+export interface ChatReply {
+  response_type: 'in_channel' | 'ephemeral';
+  text: string;
+}
+
+function ephemeral(text: string): ChatReply {
+  return { response_type: 'ephemeral', text };
+}
+
+// Slack-style signature: v0=HMAC-SHA256("v0:<timestamp>:<raw body>") keyed with the app's signing secret
+export function verifyChatSignature(
+  secret: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  rawBody: string,
+  now: Date = new Date()
+): boolean {
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) return false;
+  if (Math.abs(now.getTime() / 1000 - Number(timestamp)) > MAX_REQUEST_AGE_SECONDS) return false;
+
+  const expected = 'v0=' + crypto.createHmac('sha256', secret).update(`v0:${timestamp}:${rawBody}`).digest('hex');
+  const given = Buffer.from(signature);
+  return given.length === expected.length && crypto.timingSafeEqual(given, Buffer.from(expected));
+}
+
+// Slash commands arrive form-encoded. Returns null when required fields are missing.
+export function parseChatPayload(rawBody: string): ChatCommand | null {
+  const params = new URLSearchParams(rawBody);
+  const command: ChatCommand = {
+    teamId: params.get('team_id') || '',
+    channelId: params.get('channel_id') || '',
+    userId: params.get('user_id') || '',
+    userName: params.get('user_name') || '',
+    command: params.get('command') || '/mealmatch',
+    text: (params.get('text') || '').trim(),
+    responseUrl: params.get('response_url') || '',
+  };
+
+  if (!command.teamId || !command.channelId || !command.userId || !/^https?:\/\//.test(command.responseUrl)) {
+    return null;
+  }
+  return command;
+}
+
+// "[<minutes>m] meal, meal, ..." -> the vote length and the meal titles
+export function parseStartArguments(text: string): { minutes: number; meals: string[] } | string {
+  let rest = text.trim();
+  let minutes = DEFAULT_CHAT_VOTE_MINUTES;
+
+  const duration = rest.match(/^(\d+)\s*m(?:in(?:utes?)?)?\s+/i);
+  if (duration) {
+    minutes = Number(duration[1]);
+    rest = rest.slice(duration[0].length);
+    if (minutes < 1 || minutes > MAX_CHAT_VOTE_MINUTES) {
+      return `Votes can run for 1 to ${MAX_CHAT_VOTE_MINUTES} minutes.`;
+    }
+  }
+
+  const meals = [...new Set(rest.split(',').map(m => m.trim()).filter(Boolean))];
+  if (meals.length < 2) {
+    return 'List at least two meals, separated by commas.';
+  }
+  if (meals.length > MAX_CHAT_MEALS) {
+    return `A vote can have at most ${MAX_CHAT_MEALS} meals.`;
+  }
+  return { minutes, meals };
+}
+
+function usage(command: string): string {
+  return [
+    `\`${command} start pizza, tacos, sushi\` starts a vote that closes in ${DEFAULT_CHAT_VOTE_MINUTES} minutes`,
+    `\`${command} start 10m pizza, tacos\` sets how long it runs (up to ${MAX_CHAT_VOTE_MINUTES} minutes)`,
+    `\`${command} close ABC123\` closes a vote you started early`,
+  ].join('\n');
+}
+
+function startVote(command: ChatCommand, args: string, now: Date): ChatReply {
+  const parsed = parseStartArguments(args);
+  if (typeof parsed === 'string') {
+    return ephemeral(`${parsed}\n${usage(command.command)}`);
+  }
+
+  const request = {
+    creatorName: command.userName || command.userId,
+    meals: parsed.meals.map(title => ({ title })),
+    closesAt: new Date(now.getTime() + parsed.minutes * 60 * 1000).toISOString(),
+  };
+  const validationError = validateQuickSession(request);
+  if (validationError) {
+    return ephemeral(validationError);
+  }
+
+  // The creator swipes through the link like everyone else, so no participant is added for them
+  const quick = createQuickSession(request, { joinCreator: false });
+
+  runQuery(
+    `INSERT INTO chat_sessions (session_id, team_id, channel_id, user_id, response_url, creator_token, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [quick.session.id, command.teamId, command.channelId, command.userId, command.responseUrl, quick.creatorToken, now.toISOString()]
+  );
+
+  return {
+    response_type: 'in_channel',
+    text: [
+      `${request.creatorName} started a vote: ${parsed.meals.join(', ')}.`,
+      `Swipe here: ${getAppUrl()}/join/${quick.session.inviteCode}`,
+      `Voting closes in ${parsed.minutes} minute${parsed.minutes === 1 ? '' : 's'}; results will be posted here.`,
+    ].join('\n'),
+  };
+}
+
+function closeVote(command: ChatCommand, inviteCode: string): ChatReply {
+  const session = getOne<Session & { user_id: string }>(
+    `SELECT s.*, c.user_id
+     FROM sessions s
+     JOIN chat_sessions c ON c.session_id = s.id
+     WHERE s.invite_code = ? AND c.team_id = ?`,
+    [inviteCode.toUpperCase(), command.teamId]
+  );
+
+  if (!session) {
+    return ephemeral(`No vote with code ${inviteCode.toUpperCase()} was started from chat.`);
+  }
+  if (session.user_id !== command.userId) {
+    return ephemeral('Only the person who started this vote can close it.');
+  }
+  if (session.status !== 'open') {
+    return ephemeral('That vote has already closed.');
+  }
+
+  closeSession(session.id);
+  return ephemeral('Closing the vote; results are on their way.');
+}
+
+// Answer a verified slash command
+export function handleChatCommand(command: ChatCommand, now: Date = new Date()): ChatReply {
+  const [action = '', ...rest] = command.text.split(/\s+/);
+  const args = command.text.slice(action.length).trim();
+
+  switch (action.toLowerCase()) {
+    case 'start':
+      return startVote(command, args, now);
+    case 'close':
+      return rest.length === 1 ? closeVote(command, rest[0]) : ephemeral(usage(command.command));
+    default:
+      return ephemeral(usage(command.command));
+  }
+}
+
+export function formatChatResults(sessionId: string): string {
+  const results = summarizeResults(sessionId).filter(r => r.totalVotes > 0);
+  const link = `Full results: ${getAppUrl()}/results/${sessionId}`;
+
+  if (results.length === 0) {
+    return `Voting closed with no votes.\n${link}`;
+  }
+
+  return [
+    'Voting closed! Top picks:',
+    ...results.map((r, i) => `${i + 1}. ${r.title} (${r.percentage}% yes or maybe, ${r.totalVotes} vote${r.totalVotes === 1 ? '' : 's'})`),
+    link,
+  ].join('\n');
+}
+
+// Post the results back to the channel the vote was started from, once. Returns whether a message was sent.
+export async function postChatResults(sessionId: string, now: Date = new Date()): Promise<boolean> {
+  const chat = getOne<ChatSession>(
+    'SELECT * FROM chat_sessions WHERE session_id = ? AND results_posted_at IS NULL',
+    [sessionId]
+  );
+  if (!chat) return false;
+
+  runQuery('UPDATE chat_sessions SET results_posted_at = ? WHERE session_id = ?', [now.toISOString(), sessionId]);
+
+  const reply: ChatReply = { response_type: 'in_channel', text: formatChatResults(sessionId) };
+  const response = await fetch(chat.response_url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(reply),
+    signal: AbortSignal.timeout(POST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Chat platform responded with HTTP ${response.status}`);
+  }
+  return true;
+}
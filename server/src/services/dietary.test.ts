@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateDietary,
+  dietaryColumns,
+  parseAllergens,
+  validateRestrictions,
+  normalizeRestrictions,
+  findConflicts,
+} from './dietary';
+import { Allergen, DietaryRestriction } from '../types';
+
+describe('Dietary Service', () => {
+  describe('validateDietary', () => {
+    it('should accept known allergens and skip absent fields', () => {
+      expect(validateDietary({ allergens: ['gluten', 'nuts'] })).toBeNull();
+      expect(validateDietary({})).toBeNull();
+    });
+
+    it('should reject unknown allergens and non-lists', () => {
+      expect(validateDietary({ allergens: ['gluten', 'kale'] as Allergen[] })).toMatch(/^Unknown allergen: kale/);
+      expect(validateDietary({ allergens: 'gluten' as unknown as Allergen[] })).toBe('Allergens must be a list');
+    });
+  });
+
+  describe('dietaryColumns', () => {
+    it('should store allergens deduplicated in canonical order', () => {
+      expect(dietaryColumns({ allergens: ['meat', 'gluten', 'meat'] })).toEqual([['allergens', '["gluten","meat"]']]);
+    });
+
+    it('should clear allergens with an empty list and ignore absent ones', () => {
+      expect(dietaryColumns({ allergens: [] })).toEqual([['allergens', null]]);
+      expect(dietaryColumns({})).toEqual([]);
+    });
+  });
+
+  it('should parse stored allergens, dropping anything unrecognised', () => {
+    expect(parseAllergens('["dairy","kale"]')).toEqual(['dairy']);
+    expect(parseAllergens(null)).toEqual([]);
+    expect(parseAllergens('not json')).toEqual([]);
+  });
+
+  describe('validateRestrictions', () => {
+    it('should accept allergens and diets', () => {
+      expect(validateRestrictions([{ code: 'gluten', hard: true }, { code: 'vegetarian', hard: false }])).toBeNull();
+      expect(validateRestrictions(undefined)).toBeNull();
+    });
+
+    it('should reject unknown codes and bad hard flags', () => {
+      expect(validateRestrictions([{ code: 'keto' }])).toMatch(/^Unknown restriction: keto/);
+      expect(validateRestrictions([{ code: 'nuts', hard: 'yes' }])).toBe('Restriction "hard" must be true or false');
+      expect(validateRestrictions('nuts')).toBe('Restrictions must be a list');
+    });
+  });
+
+  it('should keep the stricter setting when a restriction is repeated', () => {
+    expect(normalizeRestrictions([
+      { code: 'nuts', hard: true },
+      { code: 'nuts', hard: false },
+      { code: 'dairy', hard: false },
+    ])).toEqual([{ code: 'nuts', hard: true }, { code: 'dairy', hard: false }]);
+  });
+
+  describe('findConflicts', () => {
+    const restrictions: DietaryRestriction[] = [
+      { code: 'gluten', hard: true },
+      { code: 'vegan', hard: false },
+    ];
+
+    it('should split clashes into hard and soft', () => {
+      expect(findConflicts(['gluten', 'eggs', 'sesame'], restrictions)).toEqual({ hard: ['gluten'], soft: ['eggs'] });
+    });
+
+    it('should expand diets into the allergens they rule out', () => {
+      expect(findConflicts(['fish'], [{ code: 'vegetarian', hard: true }])).toEqual({ hard: ['fish'], soft: [] });
+    });
+
+    it('should report an allergen once, as hard, when both kinds rule it out', () => {
+      expect(findConflicts(['dairy'], [...restrictions, { code: 'dairy', hard: true }])).toEqual({ hard: ['dairy'], soft: [] });
+    });
+
+    it('should never flag meals without recorded allergens', () => {
+      expect(findConflicts([], restrictions)).toEqual({ hard: [], soft: [] });
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { Meal, Allergen, Diet, DietaryRequest, DietaryRestriction } from '../types';
+
+export const ALLERGENS: Allergen[] = [
+  'gluten', 'dairy', 'eggs', 'nuts', 'peanuts', 'soy', 'fish', 'shellfish', 'sesame', 'meat',
+];
+
+// Diets are shorthand for the allergens (ingredients) they rule out
+export const DIETS: Record<Diet, Allergen[]> = {
+  vegetarian: ['meat', 'fish', 'shellfish'],
+  vegan: ['meat', 'fish', 'shellfish', 'dairy', 'eggs'],
+};
+
+export interface DietaryDetails {
+  allergens: Allergen[];
+}
+
+export interface DietaryConflicts {
+  hard: Allergen[]; // allergies: the meal must not be offered or picked
+  soft: Allergen[]; // preferences: the meal is shown with a warning
+}
+
+function isAllergen(value: unknown): value is Allergen {
+  return typeof value === 'string' && ALLERGENS.includes(value as Allergen);
+}
+
+function isRestrictionCode(value: unknown): value is Allergen | Diet {
+  return isAllergen(value) || (typeof value === 'string' && value in DIETS);
+}
+
+export function validateDietary(input: DietaryRequest): string | null {
+  const { allergens } = input;
+
+  if (allergens !== undefined) {
+    if (!Array.isArray(allergens)) {
+      return 'Allergens must be a list';
+    }
+    const unknown = allergens.find(a => !isAllergen(a));
+    if (unknown !== undefined) {
+      return `Unknown allergen: ${unknown}. Must be one of: ${ALLERGENS.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+// Deduplicated and in the canonical order, so stored values compare cleanly
+export function normalizeAllergens(allergens: Allergen[]): Allergen[] {
+  return ALLERGENS.filter(a => allergens.includes(a));
+}
+
+export function dietaryColumns(input: DietaryRequest): Array<[string, unknown]> {
+  if (input.allergens === undefined) return [];
+  const allergens = normalizeAllergens(input.allergens);
+  return [['allergens', allergens.length > 0 ? JSON.stringify(allergens) : null]];
+}
+
+function parseList(json: string | null): unknown[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function parseAllergens(json: string | null): Allergen[] {
+  return parseList(json).filter(isAllergen);
+}
+
+export function toDietaryDetails(meal: Pick<Meal, 'allergens'>): DietaryDetails {
+  return { allergens: parseAllergens(meal.allergens ?? null) };
+}
+
+export function validateRestrictions(restrictions: unknown): string | null {
+  if (restrictions === undefined) return null;
+  if (!Array.isArray(restrictions)) {
+    return 'Restrictions must be a list';
+  }
+
+  for (const restriction of restrictions) {
+    const { code, hard } = (restriction ?? {}) as Record<string, unknown>;
+    if (!isRestrictionCode(code)) {
+      return `Unknown restriction: ${code}. Must be an allergen (${ALLERGENS.join(', ')}) or diet (${Object.keys(DIETS).join(', ')})`;
+    }
+    if (hard !== undefined && typeof hard !== 'boolean') {
+      return 'Restriction "hard" must be true or false';
+    }
+  }
+
+  return null;
+}
+
+// One entry per code; when a code is listed twice the stricter setting wins
+export function normalizeRestrictions(restrictions: DietaryRestriction[]): DietaryRestriction[] {
+  const byCode = new Map<string, DietaryRestriction>();
+  for (const { code, hard } of restrictions) {
+    byCode.set(code, { code, hard: !!hard || !!byCode.get(code)?.hard });
+  }
+  return [...byCode.values()];
+}
+
+export function parseRestrictions(json: string | null): DietaryRestriction[] {
+  return parseList(json).filter(
+    (r): r is DietaryRestriction => !!r && typeof r === 'object' && isRestrictionCode((r as DietaryRestriction).code)
+  );
+}
+
+function restrictedAllergens(code: Allergen | Diet): Allergen[] {
+  return isAllergen(code) ? [code] : DIETS[code];
+}
+
+// Allergens in the meal that clash with the restrictions, split by how strict each restriction is.
+// Meals without recorded allergens never conflict.
+export function findConflicts(allergens: Allergen[], restrictions: DietaryRestriction[]): DietaryConflicts {
+  const hard = new Set<Allergen>();
+  const soft = new Set<Allergen>();
+
+  for (const { code, hard: isHard } of restrictions) {
+    for (const allergen of restrictedAllergens(code)) {
+      if (allergens.includes(allergen)) (isHard ? hard : soft).add(allergen);
+    }
+  }
+
+  return {
+    hard: ALLERGENS.filter(a => hard.has(a)),
+    soft: ALLERGENS.filter(a => soft.has(a) && !hard.has(a)),
+  };
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { Response } from 'express';
+import { subscribeToSession, publishSessionEvent, getSubscriberCount } from './events';
+
+function createMockResponse() {
+  const chunks: string[] = [];
+  const res = {
+    headers: {} as Record<string, string>,
+    writeHead(_status: number, headers: Record<string, string>) {
+      res.headers = headers;
+      return res;
+    },
+    write(chunk: string) {
+      chunks.push(chunk);
+      return true;
+    },
+  };
+  return { res: res as unknown as Response, chunks, raw: res };
+}
+
+describe('Session Events Service', () => {
+  it('should open an event stream with SSE headers', () => {
+    const { res, raw } = createMockResponse();
+    const unsubscribe = subscribeToSession('events-session1', res);
+
+    expect(raw.headers['Content-Type']).toBe('text/event-stream');
+    expect(raw.headers['Cache-Control']).toBe('no-cache');
+
+    unsubscribe();
+  });
+
+  it('should deliver published events to every subscriber of the session', () => {
+    const first = createMockResponse();
+    const second = createMockResponse();
+    const unsubscribeFirst = subscribeToSession('events-session2', first.res);
+    const unsubscribeSecond = subscribeToSession('events-session2', second.res);
+
+    publishSessionEvent('events-session2', 'participant-submitted', { participantId: 'p1' });
+
+    const expected = 'event: participant-submitted\ndata: {"sessionId":"events-session2","participantId":"p1"}\n\n';
+    expect(first.chunks).toContain(expected);
+    expect(second.chunks).toContain(expected);
+
+    unsubscribeFirst();
+    unsubscribeSecond();
+  });
+
+  it('should not deliver events from other sessions', () => {
+    const { res, chunks } = createMockResponse();
+    const unsubscribe = subscribeToSession('events-session3', res);
+
+    publishSessionEvent('events-other', 'session-closed');
+
+    expect(chunks.some(c => c.includes('session-closed'))).toBe(false);
+
+    unsubscribe();
+  });
+
+  it('should stop delivering events after unsubscribing', () => {
+    const { res, chunks } = createMockResponse();
+    const unsubscribe = subscribeToSession('events-session4', res);
+
+    expect(getSubscriberCount('events-session4')).toBe(1);
+    unsubscribe();
+    expect(getSubscriberCount('events-session4')).toBe(0);
+
+    publishSessionEvent('events-session4', 'meal-selected', { mealId: 'meal1' });
+
+    expect(chunks.some(c => c.includes('meal-selected'))).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { Response } from 'express';
+import { SessionEventType } from '../types';
+
+// Open Server-Sent Events streams, keyed by session ID
+const subscribers = new Map<string, Set<Response>>();
+
+// Keep idle connections from being dropped by proxies
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+export function subscribeToSession(sessionId: string, res: Response): () => void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write('retry: 3000\n\n');
+
+  if (!subscribers.has(sessionId)) {
+    subscribers.set(sessionId, new Set());
+  }
+  subscribers.get(sessionId)!.add(res);
+
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  return () => {
+    clearInterval(heartbeat);
+    const streams = subscribers.get(sessionId);
+    if (!streams) return;
+    streams.delete(res);
+    if (streams.size === 0) {
+      subscribers.delete(sessionId);
+    }
+  };
+}
+
+export function publishSessionEvent(
+  sessionId: string,
+  type: SessionEventType,
+  data: Record<string, unknown> = {}
+): void {
+  const streams = subscribers.get(sessionId);
+  if (!streams) return;
+
+  const payload = `event: ${type}\ndata: ${JSON.stringify({ sessionId, ...data })}\n\n`;
+  for (const res of streams) {
+    res.write(payload);
+  }
+}
+
+export function getSubscriberCount(sessionId: string): number {
+  return subscribers.get(sessionId)?.size || 0;
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { saveImage, deleteImage, imageUrls, isSupportedImage, getImagesDirectory, IMAGE_SIZES } from './images';
+
+function samplePng(width: number, height: number): Promise<Buffer> {
+  return sharp({
+    create: { width, height, channels: 3, background: { r: 200, g: 80, b: 40 } },
+  }).png().toBuffer();
+}
+
+describe('Images Service - Validation', () => {
+  it('should accept real images and reject other bytes', async () => {
+    expect(await isSupportedImage(await samplePng(10, 10))).toBe(true);
+    expect(await isSupportedImage(Buffer.from('not an image'))).toBe(false);
+  });
+
+  it('should build public URLs for each size', () => {
+    expect(imageUrls('abc')).toEqual({
+      imageUrl: '/api/images/abc-card.webp',
+      thumbnailUrl: '/api/images/abc-thumbnail.webp',
+    });
+    expect(imageUrls(null)).toEqual({ imageUrl: null, thumbnailUrl: null });
+  });
+});
+
+describe('Images Service - Storage', () => {
+  it('should resize uploads into card and thumbnail files', async () => {
+    const imageId = await saveImage(await samplePng(1200, 400));
+
+    const card = await sharp(path.join(getImagesDirectory(), `${imageId}-card.webp`)).metadata();
+    const thumbnail = await sharp(path.join(getImagesDirectory(), `${imageId}-thumbnail.webp`)).metadata();
+
+    expect(card).toMatchObject({ format: 'webp', ...IMAGE_SIZES.card });
+    expect(thumbnail).toMatchObject({ format: 'webp', ...IMAGE_SIZES.thumbnail });
+
+    deleteImage(imageId);
+    expect(fs.existsSync(path.join(getImagesDirectory(), `${imageId}-card.webp`))).toBe(false);
+  });
+
+  it('should give every upload a new ID', async () => {
+    const png = await samplePng(20, 20);
+    const first = await saveImage(png);
+    const second = await saveImage(png);
+
+    expect(first).not.toBe(second);
+
+    deleteImage(first);
+    deleteImage(second);
+  });
+});
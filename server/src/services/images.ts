@@ -0,0 +1,71 @@
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { getDataDirectory } from '../db/schema';
+
+// Uploads are resized once into fixed sizes so swipe cards never download the original
+export const IMAGE_SIZES = {
+  card: { width: 800, height: 600 },
+  thumbnail: { width: 160, height: 160 },
+} as const;
+
+export type ImageSize = keyof typeof IMAGE_SIZES;
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const IMAGES_URL_PATH = '/api/images';
+
+export function getImagesDirectory(): string {
+  return path.join(getDataDirectory(), 'images');
+}
+
+function imageFileName(imageId: string, size: ImageSize): string {
+  return `${imageId}-${size}.webp`;
+}
+
+export function imageUrls(imageId: string | null): { imageUrl: string | null; thumbnailUrl: string | null } {
+  if (!imageId) return { imageUrl: null, thumbnailUrl: null };
+  return {
+    imageUrl: `${IMAGES_URL_PATH}/${imageFileName(imageId, 'card')}`,
+    thumbnailUrl: `${IMAGES_URL_PATH}/${imageFileName(imageId, 'thumbnail')}`,
+  };
+}
+
+// Resize an uploaded image into every size and return the new image ID.
+// Each upload gets a fresh ID so browsers never show a cached older photo.
+export async function saveImage(buffer: Buffer): Promise<string> {
+  const imageId = uuidv4();
+  const directory = getImagesDirectory();
+  fs.mkdirSync(directory, { recursive: true });
+
+  for (const size of Object.keys(IMAGE_SIZES) as ImageSize[]) {
+    const { width, height } = IMAGE_SIZES[size];
+    await sharp(buffer)
+      .rotate() // honour EXIF orientation from phone cameras
+      .resize(width, height, { fit: 'cover' })
+      .webp({ quality: 80 })
+      .toFile(path.join(directory, imageFileName(imageId, size)));
+  }
+
+  return imageId;
+}
+
+export function deleteImage(imageId: string | null): void {
+  if (!imageId) return;
+
+  for (const size of Object.keys(IMAGE_SIZES) as ImageSize[]) {
+    fs.rmSync(path.join(getImagesDirectory(), imageFileName(imageId, size)), { force: true });
+  }
+}
+
+const SUPPORTED_FORMATS = ['jpeg', 'png', 'webp', 'gif'];
+
+// Check the bytes really are an image sharp can read, whatever the upload claimed
+export async function isSupportedImage(buffer: Buffer): Promise<boolean> {
+  try {
+    const { format } = await sharp(buffer).metadata();
+    return format !== undefined && SUPPORTED_FORMATS.includes(format);
+  } catch {
+    return false;
+  }
+}
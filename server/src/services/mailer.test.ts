@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { SMTPServer } from 'smtp-server';
+import {
+  createSmtpTransport,
+  createFileTransport,
+  createTransportFromEnv,
+  setMailTransport,
+  sendEmail,
+  DEFAULT_FROM,
+} from './mailer';
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  raw: string;
+}
+
+// A throwaway SMTP server on a random local port that keeps whatever it is sent
+async function startFakeSmtpServer(): Promise<{ port: number; received: ReceivedMail[]; close: () => Promise<void> }> {
+  const received: ReceivedMail[] = [];
+  const server = new SMTPServer({
+    authOptional: true,
+    disabledCommands: ['STARTTLS'],
+    logger: false,
+    onData(stream, session, callback) {
+      let raw = '';
+      stream.on('data', chunk => { raw += chunk.toString(); });
+      stream.on('end', () => {
+        received.push({
+          from: session.envelope.mailFrom ? session.envelope.mailFrom.address : '',
+          to: session.envelope.rcptTo.map(r => r.address),
+          raw,
+        });
+        callback();
+      });
+    },
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.server.address() as AddressInfo;
+
+  return {
+    port,
+    received,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+const message = {
+  to: 'guest@example.com',
+  subject: 'Hello there',
+  text: 'Plain body',
+  html: '<p>HTML body</p>',
+};
+
+describe('Mailer', () => {
+  let smtp: Awaited<ReturnType<typeof startFakeSmtpServer>>;
+
+  beforeAll(async () => {
+    smtp = await startFakeSmtpServer();
+  });
+
+  afterAll(async () => {
+    await smtp.close();
+  });
+
+  afterEach(() => {
+    setMailTransport(null);
+    smtp.received.length = 0;
+  });
+
+  it('should deliver over SMTP with both text and HTML parts', async () => {
+    const transport = createSmtpTransport({ host: '127.0.0.1', port: smtp.port });
+    await transport.send({ ...message, from: 'host@example.com' });
+
+    expect(smtp.received).toHaveLength(1);
+    expect(smtp.received[0].from).toBe('host@example.com');
+    expect(smtp.received[0].to).toEqual(['guest@example.com']);
+    expect(smtp.received[0].raw).toContain('Subject: Hello there');
+    expect(smtp.received[0].raw).toContain('text/plain');
+    expect(smtp.received[0].raw).toContain('text/html');
+  });
+
+  it('should send from the default address through the active transport', async () => {
+    setMailTransport(createSmtpTransport({ host: '127.0.0.1', port: smtp.port }));
+    await sendEmail(message);
+
+    expect(smtp.received[0].from).toBe('no-reply@mealmatch.local');
+    expect(smtp.received[0].raw).toContain(DEFAULT_FROM.split(' <')[0]);
+  });
+
+  it('should write one JSON file per message with the file transport', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'mealmatch-mail-'));
+    try {
+      await createFileTransport(directory).send({ ...message, from: DEFAULT_FROM });
+
+      const files = fs.readdirSync(directory);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toContain('guest@example.com');
+      expect(JSON.parse(fs.readFileSync(path.join(directory, files[0]), 'utf8')).subject).toBe('Hello there');
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should pick a transport from the environment', async () => {
+    const transport = createTransportFromEnv({ MAIL_TRANSPORT: 'smtp', SMTP_HOST: '127.0.0.1', SMTP_PORT: String(smtp.port) });
+    await transport.send({ ...message, from: DEFAULT_FROM });
+    expect(smtp.received).toHaveLength(1);
+
+    expect(() => createTransportFromEnv({ MAIL_TRANSPORT: 'smtp' })).toThrow('SMTP_HOST');
+    expect(() => createTransportFromEnv({ MAIL_TRANSPORT: 'pigeon' })).toThrow('Unknown MAIL_TRANSPORT');
+    expect(createTransportFromEnv({})).toBeDefined();
+  });
+});
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { getDataDirectory } from '../db/schema';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Anything that can deliver a rendered email. Swap implementations with setMailTransport.
+export interface MailTransport {
+  send(message: EmailMessage & { from: string }): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure?: boolean; // TLS from the first byte (port 465); otherwise STARTTLS when offered
+  user?: string;
+  pass?: string;
+}
+
+export const DEFAULT_FROM = 'MealMatch <no-reply@mealmatch.local>';
+
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: !!options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail(message);
+    },
+  };
+}
+
+// Writes each email to its own JSON file, for local development without a mail server
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    async send(message) {
+      await fs.promises.mkdir(directory, { recursive: true });
+      const safeTo = message.to.replace(/[^a-z0-9@.-]/gi, '_');
+      const stamp = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(3).toString('hex')}`;
+      const file = path.join(directory, `${stamp}-${safeTo}.json`);
+      await fs.promises.writeFile(file, JSON.stringify(message, null, 2));
+    },
+  };
+}
+
+export function createConsoleTransport(): MailTransport {
+  return {
+    async send(message) {
+      console.log(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+// MAIL_TRANSPORT picks smtp, file or console (the default, so development needs no setup)
+export function createTransportFromEnv(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  switch (env.MAIL_TRANSPORT) {
+    case 'smtp':
+      if (!env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required when MAIL_TRANSPORT is smtp');
+      }
+      return createSmtpTransport({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || 587,
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      });
+    case 'file':
+      return createFileTransport(env.MAIL_DIR || path.join(getDataDirectory(), 'mail'));
+    case undefined:
+    case '':
+    case 'console':
+      return createConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${env.MAIL_TRANSPORT}. Use smtp, file or console`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
+
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+  await transport.send({ from: process.env.MAIL_FROM || DEFAULT_FROM, ...message });
+}
@@ -185,3 +185,93 @@ describe('Matching Service - Maybe Vote Support', () => {
     runQuery(`DELETE FROM swipes WHERE id IN ('s1', 's2', 's3', 's4', 's5', 's6', 's7', 's8', 's9')`, []);
   });
 });
+
+describe('Matching Service - Scoring Modes', () => {
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('host1', 'test@test.com', 'hash')`, []);
+    runQuery(`INSERT OR IGNORE INTO sessions (id, host_id, invite_code, status, scoring_mode) VALUES ('session2', 'host1', 'VETO23', 'open', 'veto')`, []);
+    runQuery(`INSERT OR IGNORE INTO meals (id, host_id, title, description) VALUES ('meal4', 'host1', 'Curry', NULL), ('meal5', 'host1', 'Ramen', NULL)`, []);
+    runQuery(`INSERT OR IGNORE INTO session_meals (id, session_id, meal_id, display_order) VALUES ('sm4', 'session2', 'meal4', 1), ('sm5', 'session2', 'meal5', 2)`, []);
+    runQuery(`INSERT OR IGNORE INTO participants (id, session_id, display_name, submitted) VALUES ('p4', 'session2', 'Dana', 1), ('p5', 'session2', 'Eli', 1)`, []);
+  });
+
+  it('should default to approval scoring', () => {
+    runQuery(`INSERT INTO swipes (id, participant_id, session_meal_id, vote) VALUES ('s1', 'p1', 'sm1', 1), ('s2', 'p2', 'sm1', 2), ('s3', 'p3', 'sm1', 0)`, []);
+
+    const results = calculateResults('session1', false);
+    const meal1Result = results.find(r => r.mealId === 'meal1');
+
+    expect(meal1Result?.scoringMode).toBe('approval');
+    expect(meal1Result?.score).toBe(meal1Result?.percentage);
+
+    // Cleanup
+    runQuery(`DELETE FROM swipes WHERE id IN ('s1', 's2', 's3')`, []);
+  });
+
+  it('should rank by the session scoring mode', () => {
+    // meal4: 1 yes, 1 no (vetoed); meal5: 2 maybe
+    runQuery(`INSERT INTO swipes (id, participant_id, session_meal_id, vote) VALUES
+      ('s10', 'p4', 'sm4', 1), ('s11', 'p5', 'sm4', 0),
+      ('s12', 'p4', 'sm5', 2), ('s13', 'p5', 'sm5', 2)`, []);
+
+    const results = calculateResults('session2', false);
+
+    expect(results[0].mealId).toBe('meal5');
+    expect(results[0].scoringMode).toBe('veto');
+    expect(results[0].score).toBe(100);
+    expect(results[1].mealId).toBe('meal4');
+    expect(results[1].score).toBe(0);
+    expect(results[1].percentage).toBe(50);
+
+    // Cleanup
+    runQuery(`DELETE FROM swipes WHERE id IN ('s10', 's11', 's12', 's13')`, []);
+  });
+});
+
+describe('Matching Service - Dietary Restrictions', () => {
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('diet-host', 'diet@test.com', 'hash')`, []);
+    runQuery(`INSERT OR IGNORE INTO sessions (id, host_id, invite_code, status) VALUES ('diet-session', 'diet-host', 'DIET01', 'open')`, []);
+    runQuery(
+      `INSERT OR IGNORE INTO meals (id, host_id, title, allergens) VALUES
+        ('diet-pasta', 'diet-host', 'Pasta', '["gluten","eggs"]'),
+        ('diet-curry', 'diet-host', 'Curry', '["dairy"]'),
+        ('diet-salad', 'diet-host', 'Salad', NULL)`,
+      []
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO session_meals (id, session_id, meal_id, display_order) VALUES
+        ('diet-sm1', 'diet-session', 'diet-pasta', 0),
+        ('diet-sm2', 'diet-session', 'diet-curry', 1),
+        ('diet-sm3', 'diet-session', 'diet-salad', 2)`,
+      []
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO participants (id, session_id, display_name, submitted, restrictions) VALUES
+        ('diet-p1', 'diet-session', 'Alice', 1, NULL),
+        ('diet-p2', 'diet-session', 'Coeliac', 0, '[{"code":"gluten","hard":true}]'),
+        ('diet-p3', 'diet-session', 'Bob', 1, '[{"code":"vegan","hard":false}]')`,
+      []
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO swipes (id, participant_id, session_meal_id, vote) VALUES
+        ('diet-v1', 'diet-p1', 'diet-sm1', 1),
+        ('diet-v2', 'diet-p3', 'diet-sm1', 1),
+        ('diet-v3', 'diet-p1', 'diet-sm2', 1),
+        ('diet-v4', 'diet-p3', 'diet-sm2', 0),
+        ('diet-v5', 'diet-p1', 'diet-sm3', 0)`,
+      []
+    );
+  });
+
+  it('should leave out meals that clash with any participant\'s allergy', () => {
+    const results = calculateResults('diet-session');
+
+    // Pasta had the most votes but contains gluten, even though the coeliac has not submitted yet
+    expect(results.map(r => r.mealId)).toEqual(['diet-curry', 'diet-salad']);
+  });
+});
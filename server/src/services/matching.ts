@@ -1,11 +1,17 @@
-import { getAll } from '../db/schema';
-import { MatchResult } from '../types';
+import { getAll, getOne } from '../db/schema';
+import { MatchResult, Session } from '../types';
+import { getScoringStrategy, DEFAULT_MAYBE_WEIGHT } from './scoring';
+import { imageUrls } from './images';
+import { parseAllergens, parseRestrictions, findConflicts } from './dietary';
 
 interface SwipeData {
   session_meal_id: string;
   meal_id: string;
   meal_title: string;
   meal_description: string | null;
+  meal_image_id: string | null;
+  meal_allergens: string | null;
+  participant_id: string;
   participant_name: string;
   vote: number;
 }
@@ -14,7 +20,8 @@ interface MealAggregation {
   mealId: string;
   title: string;
   description: string | null;
-  votes: { name: string; vote: number }[];
+  imageId: string | null;
+  votes: { participantId: string; name: string; vote: number }[];
 }
 
 export function calculateResults(sessionId: string, includeVoters: boolean = false): MatchResult[] {
@@ -25,6 +32,9 @@ export function calculateResults(sessionId: string, includeVoters: boolean = fal
       m.id as meal_id,
       m.title as meal_title,
       m.description as meal_description,
+      m.image_id as meal_image_id,
+      m.allergens as meal_allergens,
+      p.id as participant_id,
       p.display_name as participant_name,
       s.vote
     FROM swipes s
@@ -36,29 +46,52 @@ export function calculateResults(sessionId: string, includeVoters: boolean = fal
     [sessionId]
   );
 
+  // A meal that clashes with anyone's allergy can't win, however the votes went.
+  // Everyone who joined counts, not just those who submitted, so a late voter is still protected.
+  const hardRestrictions = getAll<{ restrictions: string | null }>(
+    'SELECT restrictions FROM participants WHERE session_id = ? AND restrictions IS NOT NULL',
+    [sessionId]
+  ).flatMap(p => parseRestrictions(p.restrictions)).filter(r => r.hard);
+
   // Aggregate votes by meal
   const mealMap = new Map<string, MealAggregation>();
 
   for (const swipe of swipes) {
+    if (findConflicts(parseAllergens(swipe.meal_allergens), hardRestrictions).hard.length > 0) {
+      continue;
+    }
+
     if (!mealMap.has(swipe.meal_id)) {
       mealMap.set(swipe.meal_id, {
         mealId: swipe.meal_id,
         title: swipe.meal_title,
         description: swipe.meal_description,
+        imageId: swipe.meal_image_id,
         votes: [],
       });
     }
 
     mealMap.get(swipe.meal_id)!.votes.push({
+      participantId: swipe.participant_id,
       name: swipe.participant_name,
       vote: swipe.vote,
     });
   }
 
+  // Score with the strategy chosen for this session
+  const session = getOne<Session>(
+    'SELECT scoring_mode, maybe_weight FROM sessions WHERE id = ?',
+    [sessionId]
+  );
+  const scoringMode = session?.scoring_mode || 'approval';
+  const strategy = getScoringStrategy(scoringMode);
+  const scoringOptions = { maybeWeight: session?.maybe_weight ?? DEFAULT_MAYBE_WEIGHT };
+  const allMeals = [...mealMap.values()];
+
   // Calculate results
   const results: MatchResult[] = [];
 
-  for (const meal of mealMap.values()) {
+  for (const meal of allMeals) {
     const yesCount = meal.votes.filter(v => v.vote === 1).length;
     const maybeCount = meal.votes.filter(v => v.vote === 2).length;
     const totalVotes = meal.votes.length;
@@ -68,24 +101,27 @@ export function calculateResults(sessionId: string, includeVoters: boolean = fal
       mealId: meal.mealId,
       title: meal.title,
       description: meal.description,
+      ...imageUrls(meal.imageId),
       yesCount,
       maybeCount,
       totalVotes,
       percentage,
+      score: strategy.score(meal, allMeals, scoringOptions),
+      scoringMode,
       isUnanimous: totalVotes > 0 && yesCount === totalVotes,
     };
 
     if (includeVoters) {
-      result.voters = meal.votes;
+      result.voters = meal.votes.map(v => ({ name: v.name, vote: v.vote }));
     }
 
     results.push(result);
   }
 
-  // Sort by percentage descending, then by maybeCount ascending (fewer maybes = higher rank), then by title for ties
+  // Sort by score descending, then by maybeCount ascending (fewer maybes = higher rank), then by title for ties
   results.sort((a, b) => {
-    if (b.percentage !== a.percentage) {
-      return b.percentage - a.percentage;
+    if (b.score !== a.score) {
+      return b.score - a.score;
     }
     if (a.maybeCount !== b.maybeCount) {
       return a.maybeCount - b.maybeCount;
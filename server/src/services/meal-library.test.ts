@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { initializeDatabase, runQuery, getAll } from '../db/schema';
+import { CreateMealRequest } from '../types';
+import {
+  parseCsv,
+  parseIngredientLine,
+  normalizeTitle,
+  insertMeal,
+  getLibrary,
+  formatLibraryCsv,
+  formatLibraryJson,
+  formatLibraryMarkdown,
+  importMeals,
+  ImportResult,
+} from './meal-library';
+
+const PIZZA: CreateMealRequest = {
+  title: 'Margherita Pizza',
+  description: 'Thin crust, "extra" basil',
+  tags: ['italian', 'quick'],
+  ingredients: [
+    { quantity: 2, unit: 'cups', name: 'flour' },
+    { quantity: 1, unit: null, name: 'ball of mozzarella' },
+    { quantity: null, unit: null, name: 'salt' },
+  ],
+  steps: ['Make the dough', 'Bake at 250C, 10 minutes'],
+  prepMinutes: 30,
+  difficulty: 'medium',
+  allergens: ['gluten', 'dairy'],
+};
+
+const TACO_PLACE: CreateMealRequest = {
+  title: 'Taco Stand',
+  type: 'restaurant',
+  cuisine: 'Mexican',
+  priceTier: 1,
+  phone: '+1 555 0100',
+  hours: [
+    { day: 1, open: '11:00', close: '22:00' },
+    { day: 5, open: '11:00', close: '02:00' },
+  ],
+};
+
+describe('Meal Library Service - Parsing', () => {
+  it('should parse quoted CSV cells with commas, quotes and line breaks', () => {
+    expect(parseCsv('\uFEFFtitle,notes\r\n"Pad thai, spicy","say ""hi""\nthen eat"\r\n\r\nRamen,\n')).toEqual([
+      ['title', 'notes'],
+      ['Pad thai, spicy', 'say "hi"\nthen eat'],
+      [''],
+      ['Ramen', ''],
+    ]);
+    expect(parseCsv('title\n"never closed')).toBeNull();
+  });
+
+  it('should read ingredient quantities and known units', () => {
+    expect(parseIngredientLine('2 cups flour')).toEqual({ quantity: 2, unit: 'cups', name: 'flour' });
+    expect(parseIngredientLine('1/2 tsp salt')).toEqual({ quantity: 0.5, unit: 'tsp', name: 'salt' });
+    expect(parseIngredientLine('1 ½ cups milk')).toEqual({ quantity: 1.5, unit: 'cups', name: 'milk' });
+    expect(parseIngredientLine('2¼ tablespoons sugar')).toEqual({ quantity: 2.25, unit: 'tablespoons', name: 'sugar' });
+    expect(parseIngredientLine('1 1/3 cup oats')).toEqual({ quantity: 1.33, unit: 'cup', name: 'oats' });
+    expect(parseIngredientLine('500g beef mince')).toEqual({ quantity: 500, unit: 'g', name: 'beef mince' });
+    expect(parseIngredientLine('3 large eggs')).toEqual({ quantity: 3, unit: null, name: 'large eggs' });
+    expect(parseIngredientLine('2-3 cloves garlic')).toEqual({ quantity: null, unit: null, name: '2-3 cloves garlic' });
+    expect(parseIngredientLine('pepper to taste')).toEqual({ quantity: null, unit: null, name: 'pepper to taste' });
+  });
+
+  it('should normalize titles for duplicate detection', () => {
+    expect(normalizeTitle('  Pad Thai! ')).toBe('pad thai');
+    expect(normalizeTitle('pad-thai')).toBe('pad thai');
+    expect(normalizeTitle('Crème Brûlée')).toBe('creme brulee');
+    expect(normalizeTitle('寿司')).toBe('寿司');
+    expect(normalizeTitle('БОРЩ!')).toBe('борщ');
+    expect(normalizeTitle('🍕')).toBe('');
+  });
+});
+
+describe('Meal Library Service - Export and Import', () => {
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('library-host', 'library@test.com', 'hash')`, []);
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('library-copy', 'library-copy@test.com', 'hash')`, []);
+  });
+
+  beforeEach(() => {
+    runQuery("DELETE FROM meal_tags WHERE meal_id IN (SELECT id FROM meals WHERE host_id IN ('library-host', 'library-copy'))", []);
+    runQuery("DELETE FROM meals WHERE host_id IN ('library-host', 'library-copy')", []);
+
+    insertMeal('library-host', PIZZA);
+    insertMeal('library-host', TACO_PLACE);
+  });
+
+  it('should export the library without empty fields', () => {
+    const library = getLibrary('library-host');
+    expect(library).toEqual(expect.arrayContaining([
+      { ...PIZZA, type: 'meal' },
+      TACO_PLACE,
+    ]));
+
+    const json = JSON.parse(formatLibraryJson(library, new Date('2026-03-01T12:00:00Z')));
+    expect(json.version).toBe(1);
+    expect(json.exportedAt).toBe('2026-03-01T12:00:00.000Z');
+    expect(json.meals).toHaveLength(2);
+  });
+
+  it('should round-trip the library through CSV', () => {
+    const csv = formatLibraryCsv(getLibrary('library-host'));
+    expect(csv.split('\r\n')[0]).toContain('title,description,type,tags');
+    // Spreadsheets would run a leading + as a formula
+    expect(csv).toContain("'+1 555 0100");
+
+    const result = importMeals('library-copy', 'csv', csv, { dryRun: false }) as ImportResult;
+    expect(result.summary).toEqual({ new: 2, duplicate: 0, invalid: 0 });
+    expect(result.imported).toBe(2);
+
+    const sortByTitle = (meals: CreateMealRequest[]) => [...meals].sort((a, b) => a.title.localeCompare(b.title));
+    expect(sortByTitle(getLibrary('library-copy'))).toEqual(sortByTitle(getLibrary('library-host')));
+  });
+
+  it('should round-trip the library through JSON', () => {
+    const json = formatLibraryJson(getLibrary('library-host'));
+    const result = importMeals('library-copy', 'json', json, { dryRun: false }) as ImportResult;
+
+    expect(result.imported).toBe(2);
+    expect(getLibrary('library-copy').find(m => m.title === 'Taco Stand')).toEqual(TACO_PLACE);
+  });
+
+  it('should preview duplicates and invalid rows without importing anything', () => {
+    const csv = [
+      'Name,Price,Hours,Spice level',
+      'margherita pizza!,,,',
+      'Sushi,$$$,,mild',
+      'SUSHI,,,',
+      ',,,',
+      'Burger bar,cheap,,',
+      'Dumplings,,Someday noon,',
+      ',,,hot',
+    ].join('\n');
+
+    const result = importMeals('library-host', 'csv', csv) as ImportResult;
+
+    expect(result.dryRun).toBe(true);
+    expect(result.imported).toBe(0);
+    expect(result.ignoredColumns).toEqual(['Spice level']);
+    expect(result.summary).toEqual({ new: 1, duplicate: 2, invalid: 3 });
+
+    const [pizza, sushi, sushiAgain, burger, dumplings, untitled] = result.rows;
+    expect(pizza.duplicateOf).toMatchObject({ row: null, title: 'Margherita Pizza' });
+    expect(sushi).toEqual({ row: 3, title: 'Sushi', status: 'new' });
+    expect(sushiAgain.duplicateOf).toEqual({ mealId: null, row: 3, title: 'Sushi' });
+    expect(burger.error).toContain('Price tier');
+    expect(dumplings.error).toContain("Couldn't read opening hours");
+    expect(untitled).toMatchObject({ row: 8, status: 'invalid', error: 'Title is required' });
+
+    expect(getLibrary('library-host')).toHaveLength(2);
+  });
+
+  it('should skip duplicates unless asked to import them', () => {
+    const content = JSON.stringify([{ title: 'Sushi' }, { title: 'Margherita pizza' }, { title: 'Ramen', tags: 'soup' }]);
+
+    const skipped = importMeals('library-host', 'json', content, { dryRun: false }) as ImportResult;
+    expect(skipped.imported).toBe(1);
+    expect(skipped.rows[2].error).toBe('Tags must be a list of names');
+
+    const kept = importMeals('library-host', 'json', content, { dryRun: false, skipDuplicates: false }) as ImportResult;
+    expect(kept.summary).toEqual({ new: 0, duplicate: 2, invalid: 1 });
+    expect(kept.imported).toBe(2);
+
+    const titles = getAll<{ title: string }>("SELECT title FROM meals WHERE host_id = 'library-host' ORDER BY title");
+    expect(titles.map(t => t.title)).toEqual(['Margherita Pizza', 'Margherita pizza', 'Sushi', 'Sushi', 'Taco Stand']);
+  });
+
+  it('should tell non-Latin titles apart and never match titles without letters', () => {
+    const content = JSON.stringify([
+      { title: '寿司' },
+      { title: 'ラーメン' },
+      { title: 'Борщ' },
+      { title: 'борщ' },
+      { title: '🍕' },
+      { title: '🌮' },
+    ]);
+
+    const result = importMeals('library-host', 'json', content) as ImportResult;
+
+    expect(result.summary).toEqual({ new: 5, duplicate: 1, invalid: 0 });
+    expect(result.rows[3].duplicateOf).toEqual({ mealId: null, row: 3, title: 'Борщ' });
+    expect(result.rows.filter(r => r.status === 'new').map(r => r.title)).toEqual(['寿司', 'ラーメン', 'Борщ', '🍕', '🌮']);
+  });
+
+  it('should reject files it cannot read', () => {
+    expect(importMeals('library-host', 'json', '{ nope')).toBe('The file is not valid JSON');
+    expect(importMeals('library-host', 'json', '{"version":1}')).toContain('Expected a list of meals');
+    expect(importMeals('library-host', 'json', '[]')).toBe('There are no meals to import');
+    expect(importMeals('library-host', 'csv', 'description\nTasty')).toBe('The CSV needs a "title" column');
+  });
+
+  it('should write a readable Markdown copy', () => {
+    const markdown = formatLibraryMarkdown(getLibrary('library-host'));
+
+    expect(markdown).toContain('## Margherita Pizza');
+    expect(markdown).toContain('- **Tags:** italian, quick');
+    expect(markdown).toContain('- 2 cups flour');
+    expect(markdown).toContain('2. Bake at 250C, 10 minutes');
+    expect(markdown).toContain('- **Price:** $');
+    expect(markdown).toContain('- **Hours:** Mon 11:00-22:00; Fri 11:00-02:00');
+  });
+});
@@ -0,0 +1,552 @@
+import { v4 as uuidv4 } from 'uuid';
+import { runQuery, getAll, runTransaction } from '../db/schema';
+import { Meal, CreateMealRequest, Ingredient, OpeningHours, MealImportFormat } from '../types';
+import { getTagsForMeals, setMealTags, validateTagNames } from './tags';
+import { validateRecipe, recipeColumns, toRecipeDetails } from './recipes';
+import { isMealType, validateRestaurant, restaurantColumns, toRestaurantDetails, MEAL_TYPES } from './restaurants';
+import { validateDietary, dietaryColumns, toDietaryDetails } from './dietary';
+
+export const EXPORT_FORMATS = ['json', 'csv', 'markdown'] as const;
+export type MealExportFormat = typeof EXPORT_FORMATS[number];
+export const IMPORT_FORMATS: MealImportFormat[] = ['json', 'csv'];
+
+export const MAX_IMPORT_MEALS = 1000;
+// Applied by the body parser for the import route; a generous library with recipes fits comfortably
+export const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+const EXPORT_VERSION = 1;
+
+// Columns in export order; imports also accept the aliases in CSV_HEADER_ALIASES
+export const CSV_COLUMNS = [
+  'title', 'description', 'type', 'tags', 'cuisine', 'address', 'priceTier', 'phone', 'websiteUrl', 'hours',
+  'prepMinutes', 'cookMinutes', 'difficulty', 'servings', 'allergens', 'ingredients', 'steps',
+] as const;
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+// Spreadsheets label columns all sorts of ways; headers are compared lowercased without spaces or punctuation
+const CSV_HEADER_ALIASES: Record<string, CsvColumn> = {
+  name: 'title',
+  meal: 'title',
+  notes: 'description',
+  tag: 'tags',
+  price: 'priceTier',
+  website: 'websiteUrl',
+  url: 'websiteUrl',
+  openinghours: 'hours',
+  prep: 'prepMinutes',
+  preptime: 'prepMinutes',
+  cook: 'cookMinutes',
+  cooktime: 'cookMinutes',
+  serves: 'servings',
+  instructions: 'steps',
+  method: 'steps',
+};
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Units recognised after a quantity in an ingredient line ("2 cups flour"); anything else is part of the name
+const INGREDIENT_UNITS = new Set([
+  'g', 'gram', 'grams', 'kg', 'mg', 'ml', 'l', 'litre', 'litres', 'liter', 'liters', 'cl', 'dl',
+  'oz', 'ounce', 'ounces', 'lb', 'lbs', 'pound', 'pounds',
+  'tsp', 'teaspoon', 'teaspoons', 'tbsp', 'tablespoon', 'tablespoons', 'cup', 'cups', 'pint', 'pints', 'quart', 'quarts',
+  'clove', 'cloves', 'can', 'cans', 'pinch', 'slice', 'slices', 'bunch', 'handful', 'piece', 'pieces',
+]);
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4', '⅕': '1/5', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8',
+};
+
+export interface ImportRow {
+  row: number; // as a spreadsheet numbers it for CSV (the header is row 1); the position in the list for JSON
+  title: string;
+  status: 'new' | 'duplicate' | 'invalid';
+  error?: string;
+  // The library meal (mealId) or earlier row in the same file (row) with the same normalized title
+  duplicateOf?: { mealId: string | null; row: number | null; title: string };
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  rows: ImportRow[];
+  ignoredColumns: string[];
+  summary: { new: number; duplicate: number; invalid: number };
+  imported: number;
+}
+
+interface ImportCandidate {
+  row: number;
+  meal: CreateMealRequest | null;
+  error: string | null;
+}
+
+// Validate a new meal the way POST /api/meals does
+export function validateMeal(input: CreateMealRequest): string | null {
+  const { title, description, tags = [], type = 'meal', ...details } = input;
+
+  if (typeof title !== 'string' || title.trim().length === 0) {
+    return 'Title is required';
+  }
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    return 'Description must be text';
+  }
+
+  const tagError = validateTagNames(tags);
+  if (tagError) return tagError;
+
+  if (!isMealType(type)) {
+    return `Type must be one of: ${MEAL_TYPES.join(', ')}`;
+  }
+
+  return validateRecipe(details) || validateRestaurant(details) || validateDietary(details);
+}
+
+// Insert a validated meal with its tags. Returns the new id and the saved (normalized) tag names.
+export function insertMeal(hostId: string, input: CreateMealRequest): { id: string; tags: string[] } {
+  const { title, description, tags = [], type = 'meal', ...details } = input;
+  const id = uuidv4();
+  const columns = [...recipeColumns(details), ...restaurantColumns(details), ...dietaryColumns(details)];
+
+  return runTransaction(() => {
+    runQuery(
+      `INSERT INTO meals (id, host_id, title, description, type${columns.map(([column]) => `, ${column}`).join('')})
+       VALUES (?, ?, ?, ?, ?${columns.map(() => ', ?').join('')})`,
+      [id, hostId, title.trim(), description?.trim() || null, type, ...columns.map(([, value]) => value)]
+    );
+
+    return { id, tags: setMealTags(hostId, id, tags) };
+  });
+}
+
+// "Pad Thai!", "pad-thai" and "Pád  Thai" all count as the same meal. Letters in any script are kept,
+// so "寿司" and "Борщ" have keys of their own; a title of only symbols or emoji has an empty key, which
+// matches nothing.
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+// A meal as a create request, leaving out empty fields; this is the shape imports accept
+export function toPortableMeal(meal: Meal, tags: string[]): CreateMealRequest {
+  const portable: CreateMealRequest = { title: meal.title, type: meal.type };
+  if (meal.description) portable.description = meal.description;
+  if (tags.length > 0) portable.tags = tags;
+
+  const details = { ...toRecipeDetails(meal), ...toRestaurantDetails(meal), ...toDietaryDetails(meal) };
+  for (const [key, value] of Object.entries(details)) {
+    if (value === null || (Array.isArray(value) && value.length === 0)) continue;
+    (portable as unknown as Record<string, unknown>)[key] = value;
+  }
+  return portable;
+}
+
+// The host's library (not archived or temporary meals), oldest first
+export function getLibrary(hostId: string): CreateMealRequest[] {
+  const meals = getAll<Meal>(
+    `SELECT * FROM meals
+     WHERE host_id = ? AND archived = 0 AND temporary = 0
+     ORDER BY created_at, title`,
+    [hostId]
+  );
+  const tagsByMeal = getTagsForMeals(meals.map(m => m.id));
+  return meals.map(meal => toPortableMeal(meal, tagsByMeal.get(meal.id) || []));
+}
+
+function formatIngredient(ingredient: Ingredient): string {
+  return [ingredient.quantity != null ? String(ingredient.quantity) : null, ingredient.unit, ingredient.name]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function formatHours(hours: OpeningHours[]): string {
+  return hours.map(h => `${DAY_NAMES[h.day]} ${h.open}-${h.close}`).join('; ');
+}
+
+export function formatLibraryJson(meals: CreateMealRequest[], now: Date = new Date()): string {
+  return JSON.stringify({ version: EXPORT_VERSION, exportedAt: now.toISOString(), meals }, null, 2) + '\n';
+}
+
+function toCsvCells(meal: CreateMealRequest): Record<CsvColumn, string> {
+  const text = (value: string | number | null | undefined) => (value == null ? '' : String(value));
+  return {
+    title: meal.title,
+    description: text(meal.description),
+    type: meal.type || 'meal',
+    tags: (meal.tags || []).join('; '),
+    cuisine: text(meal.cuisine),
+    address: text(meal.address),
+    priceTier: text(meal.priceTier),
+    phone: text(meal.phone),
+    websiteUrl: text(meal.websiteUrl),
+    hours: formatHours(meal.hours || []),
+    prepMinutes: text(meal.prepMinutes),
+    cookMinutes: text(meal.cookMinutes),
+    difficulty: text(meal.difficulty),
+    servings: text(meal.servings),
+    allergens: (meal.allergens || []).join('; '),
+    ingredients: (meal.ingredients || []).map(formatIngredient).join('\n'),
+    steps: (meal.steps || []).join('\n'),
+  };
+}
+
+// Quote when needed, and defuse cells a spreadsheet would run as a formula (imports strip the guard again)
+function escapeCsvCell(value: string): string {
+  const guarded = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(guarded) || guarded !== guarded.trim() ? `"${guarded.replace(/"/g, '""')}"` : guarded;
+}
+
+export function formatLibraryCsv(meals: CreateMealRequest[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const meal of meals) {
+    const cells = toCsvCells(meal);
+    lines.push(CSV_COLUMNS.map(column => escapeCsvCell(cells[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function formatLibraryMarkdown(meals: CreateMealRequest[]): string {
+  const lines = ['# Meal library', ''];
+  if (meals.length === 0) {
+    lines.push('No meals yet.', '');
+  }
+
+  for (const meal of meals) {
+    lines.push(`## ${meal.title}`, '');
+    if (meal.description) lines.push(meal.description, '');
+
+    const facts: Array<[string, string | number | null | undefined]> = [
+      ['Type', meal.type === 'restaurant' ? 'Restaurant' : null],
+      ['Tags', meal.tags?.join(', ')],
+      ['Cuisine', meal.cuisine],
+      ['Address', meal.address],
+      ['Price', meal.priceTier ? '$'.repeat(meal.priceTier) : null],
+      ['Phone', meal.phone],
+      ['Website', meal.websiteUrl],
+      ['Hours', meal.hours?.length ? formatHours(meal.hours) : null],
+      ['Prep', meal.prepMinutes != null ? `${meal.prepMinutes} min` : null],
+      ['Cook', meal.cookMinutes != null ? `${meal.cookMinutes} min` : null],
+      ['Difficulty', meal.difficulty],
+      ['Serves', meal.servings],
+      ['Contains', meal.allergens?.join(', ')],
+    ];
+    const shown = facts.filter(([, value]) => value !== null && value !== undefined && value !== '');
+    if (shown.length > 0) {
+      lines.push(...shown.map(([label, value]) => `- **${label}:** ${value}`), '');
+    }
+
+    if (meal.ingredients?.length) {
+      lines.push('### Ingredients', '', ...meal.ingredients.map(i => `- ${formatIngredient(i)}`), '');
+    }
+    if (meal.steps?.length) {
+      lines.push('### Steps', '', ...meal.steps.map((s, i) => `${i + 1}. ${s}`), '');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function formatLibrary(meals: CreateMealRequest[], format: MealExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return formatLibraryCsv(meals);
+    case 'markdown':
+      return formatLibraryMarkdown(meals);
+    default:
+      return formatLibraryJson(meals);
+  }
+}
+
+// RFC 4180 rows: quoted cells may contain commas, doubled quotes and line breaks. Returns null if a quote is never closed.
+export function parseCsv(text: string): string[][] | null {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) return null;
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function isBlankRow(row: string[]): boolean {
+  return row.every(cell => cell.trim() === '');
+}
+
+function splitList(value: string, separator: RegExp = /[;,\n]/): string[] {
+  return value.split(separator).map(v => v.trim()).filter(v => v.length > 0);
+}
+
+// Numbers stay as given when they don't parse, so validation reports them in the usual words
+function numberCell(value: string): number | string {
+  const number = Number(value);
+  return value !== '' && isFinite(number) ? number : value;
+}
+
+function parseQuantity(value: string): number | null {
+  const [whole, fraction] = value.includes(' ') ? value.split(' ') : value.includes('/') ? ['0', value] : [value, null];
+  let quantity = Number(whole.replace(',', '.'));
+  if (fraction) {
+    const [numerator, denominator] = fraction.split('/').map(Number);
+    if (!(denominator > 0)) return null;
+    quantity += numerator / denominator;
+  }
+  // Two decimals is plenty, and keeps thirds readable
+  return isFinite(quantity) && quantity > 0 ? Math.round(quantity * 100) / 100 : null;
+}
+
+// "2 cups flour" -> { quantity: 2, unit: 'cups', name: 'flour' }; "salt" -> { name: 'salt' }
+// Quantities can be decimals, fractions or mixed numbers ("1 1/2", "1½"); ranges like "2-3" stay in the name.
+// Metric units are often written flush against the number ("500g").
+export function parseIngredientLine(line: string): Ingredient {
+  const text = line
+    .trim()
+    .replace(/(\d)?([½⅓⅔¼¾⅕⅛⅜⅝⅞])/g, (_, digit, fraction) => `${digit ? `${digit} ` : ''}${UNICODE_FRACTIONS[fraction]}`)
+    .replace(/\s+/g, ' ')
+    // "500g mince" -> "500 g mince", but only for known units ("2x", "4th" are left alone)
+    .replace(/^(\d+(?:[.,]\d+)?)([a-z]+\.?) /i, (whole, number, unit) =>
+      INGREDIENT_UNITS.has(unit.toLowerCase().replace(/\.$/, '')) ? `${number} ${unit} ` : whole);
+  const match = text.match(/^(\d+ \d+\/\d+|\d+\/\d+|\d+(?:[.,]\d+)?) (.+)$/);
+  const quantity = match ? parseQuantity(match[1]) : null;
+
+  if (!match || quantity === null) {
+    return { quantity: null, unit: null, name: line.trim() };
+  }
+
+  const [unit, ...rest] = match[2].split(' ');
+  if (rest.length > 0 && INGREDIENT_UNITS.has(unit.toLowerCase().replace(/\.$/, ''))) {
+    return { quantity, unit, name: rest.join(' ') };
+  }
+  return { quantity, unit: null, name: match[2] };
+}
+
+// "Mon 11:00-22:00; Tue 11:00-22:00" -> opening periods, or an error message
+function parseHoursCell(value: string): OpeningHours[] | string {
+  const hours: OpeningHours[] = [];
+  for (const period of splitList(value, /[;\n]/)) {
+    const match = period.match(/^([a-z]{3})[a-z]*\s+(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/i);
+    const day = match ? DAY_NAMES.findIndex(d => d.toLowerCase() === match[1].toLowerCase()) : -1;
+    if (!match || day === -1) {
+      return `Couldn't read opening hours "${period}"; write them like "Mon 11:00-22:00; Tue 11:00-22:00"`;
+    }
+    hours.push({ day, open: match[2].padStart(5, '0'), close: match[3].padStart(5, '0') });
+  }
+  return hours;
+}
+
+function csvRowToMeal(cells: Partial<Record<CsvColumn, string>>): { meal: CreateMealRequest; error: string | null } {
+  const meal: Record<string, unknown> = { title: cells.title || '' };
+
+  for (const column of CSV_COLUMNS) {
+    const raw = (cells[column] || '').trim();
+    // Undo the formula guard added on export
+    const value = /^'[=+\-@]/.test(raw) ? raw.slice(1) : raw;
+    if (value === '' || column === 'title') continue;
+
+    switch (column) {
+      case 'type':
+      case 'difficulty':
+        meal[column] = value.toLowerCase();
+        break;
+      case 'tags':
+        meal.tags = splitList(value);
+        break;
+      case 'allergens':
+        meal.allergens = splitList(value).map(a => a.toLowerCase());
+        break;
+      case 'priceTier':
+        meal.priceTier = /^\$+$/.test(value) ? value.length : numberCell(value);
+        break;
+      case 'prepMinutes':
+      case 'cookMinutes':
+      case 'servings':
+        meal[column] = numberCell(value);
+        break;
+      case 'hours': {
+        const hours = parseHoursCell(value);
+        if (typeof hours === 'string') return { meal: meal as unknown as CreateMealRequest, error: hours };
+        meal.hours = hours;
+        break;
+      }
+      case 'ingredients':
+        meal.ingredients = splitList(value, /[;\n]/).map(parseIngredientLine);
+        break;
+      case 'steps':
+        meal.steps = splitList(value, /\n/).map(s => s.replace(/^\d+[.)]\s*/, ''));
+        break;
+      default:
+        meal[column] = value;
+    }
+  }
+
+  return { meal: meal as unknown as CreateMealRequest, error: null };
+}
+
+function headerKey(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function parseCsvImport(content: string): { candidates: ImportCandidate[]; ignoredColumns: string[] } | string {
+  const rows = parseCsv(content);
+  if (!rows) return 'The CSV has a quoted value that never ends';
+  if (rows.every(isBlankRow)) return 'The CSV is empty';
+
+  const [header, ...body] = rows;
+  const byKey = new Map(CSV_COLUMNS.map(c => [headerKey(c), c]));
+  const columns = header.map(h => byKey.get(headerKey(h)) || CSV_HEADER_ALIASES[headerKey(h)] || null);
+  if (!columns.includes('title')) {
+    return 'The CSV needs a "title" column';
+  }
+
+  const ignoredColumns = header.filter((h, i) => columns[i] === null && h.trim() !== '');
+  const candidates: ImportCandidate[] = [];
+  body.forEach((cells, index) => {
+    // Blank rows (often trailing ones from spreadsheets) aren't meals, but still count towards row numbers
+    if (isBlankRow(cells)) return;
+
+    const byColumn: Partial<Record<CsvColumn, string>> = {};
+    cells.forEach((cell, i) => {
+      const column = columns[i];
+      if (column && byColumn[column] === undefined) byColumn[column] = cell;
+    });
+    candidates.push({ row: index + 2, ...csvRowToMeal(byColumn) });
+  });
+
+  return { candidates, ignoredColumns };
+}
+
+// Accepts an export file ({ meals: [...] }) or a bare list, such as the output of GET /api/meals
+function parseJsonImport(content: string): { candidates: ImportCandidate[]; ignoredColumns: string[] } | string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return 'The file is not valid JSON';
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { meals?: unknown } | null)?.meals;
+  if (!Array.isArray(list)) {
+    return 'Expected a list of meals, or an export file with a "meals" list';
+  }
+
+  const candidates = list.map((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return { row: index + 1, meal: null, error: 'Each meal must be an object' };
+    }
+    return { row: index + 1, meal: item as CreateMealRequest, error: null };
+  });
+
+  return { candidates, ignoredColumns: [] };
+}
+
+// Check each row and compare titles with the library and earlier rows. With dryRun off, insert the new rows
+// (and duplicates too unless skipDuplicates); invalid rows are always left out.
+export function importMeals(
+  hostId: string,
+  format: MealImportFormat,
+  content: string,
+  { dryRun = true, skipDuplicates = true }: { dryRun?: boolean; skipDuplicates?: boolean } = {}
+): ImportResult | string {
+  const parsed = format === 'csv' ? parseCsvImport(content) : parseJsonImport(content);
+  if (typeof parsed === 'string') return parsed;
+  if (parsed.candidates.length === 0) return 'There are no meals to import';
+  if (parsed.candidates.length > MAX_IMPORT_MEALS) {
+    return `At most ${MAX_IMPORT_MEALS} meals can be imported at once`;
+  }
+
+  const existing = new Map<string, { id: string; title: string }>();
+  for (const meal of getAll<{ id: string; title: string }>(
+    'SELECT id, title FROM meals WHERE host_id = ? AND archived = 0 AND temporary = 0 ORDER BY created_at',
+    [hostId]
+  )) {
+    const key = normalizeTitle(meal.title);
+    if (key && !existing.has(key)) existing.set(key, meal);
+  }
+  const seen = new Map<string, ImportRow>();
+
+  const rows: ImportRow[] = [];
+  const toInsert: CreateMealRequest[] = [];
+
+  for (const candidate of parsed.candidates) {
+    const title = typeof candidate.meal?.title === 'string' ? candidate.meal.title.trim() : '';
+    const error = candidate.error || validateMeal(candidate.meal!);
+    if (error) {
+      rows.push({ row: candidate.row, title, status: 'invalid', error });
+      continue;
+    }
+
+    const key = normalizeTitle(title);
+    const inLibrary = key ? existing.get(key) : undefined;
+    const earlier = key ? seen.get(key) : undefined;
+    if (inLibrary || earlier) {
+      rows.push({
+        row: candidate.row,
+        title,
+        status: 'duplicate',
+        duplicateOf: inLibrary
+          ? { mealId: inLibrary.id, row: null, title: inLibrary.title }
+          : { mealId: null, row: earlier!.row, title: earlier!.title },
+      });
+      if (!skipDuplicates) toInsert.push(candidate.meal!);
+      continue;
+    }
+
+    const row: ImportRow = { row: candidate.row, title, status: 'new' };
+    rows.push(row);
+    if (key) seen.set(key, row);
+    toInsert.push(candidate.meal!);
+  }
+
+  if (!dryRun) {
+    // All or nothing, so a failed import can simply be retried
+    runTransaction(() => {
+      for (const meal of toInsert) insertMeal(hostId, meal);
+    });
+  }
+
+  return {
+    dryRun,
+    rows,
+    ignoredColumns: parsed.ignoredColumns,
+    summary: {
+      new: rows.filter(r => r.status === 'new').length,
+      duplicate: rows.filter(r => r.status === 'duplicate').length,
+      invalid: rows.filter(r => r.status === 'invalid').length,
+    },
+    imported: dryRun ? 0 : toInsert.length,
+  };
+}
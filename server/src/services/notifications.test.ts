@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import { initializeDatabase, runQuery, getOne } from '../db/schema';
+import { Session } from '../types';
+import { createSession, closeSession } from './sessions';
+import { setMailTransport, EmailMessage } from './mailer';
+import {
+  validateInviteEmails,
+  normalizeEmails,
+  renderInviteEmail,
+  renderResultsEmail,
+  inviteByEmail,
+  getInvites,
+  linkInvite,
+  sendReminders,
+  sendDueReminders,
+  notifyResultsReady,
+  getContacts,
+  getAppUrl,
+} from './notifications';
+
+describe('Notifications Service', () => {
+  const sent: EmailMessage[] = [];
+  let failFor: string | null = null;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('notify-host', 'notify@test.com', 'hash')`, []);
+    runQuery(`INSERT OR IGNORE INTO meals (id, host_id, title) VALUES ('notify-meal1', 'notify-host', 'Tacos')`, []);
+    runQuery(`INSERT OR IGNORE INTO meals (id, host_id, title) VALUES ('notify-meal2', 'notify-host', 'Curry')`, []);
+
+    setMailTransport({
+      async send(message) {
+        if (message.to === failFor) throw new Error('Mailbox unavailable');
+        sent.push(message);
+      },
+    });
+  });
+
+  afterAll(() => {
+    setMailTransport(null);
+  });
+
+  beforeEach(() => {
+    sent.length = 0;
+    failFor = null;
+  });
+
+  function openSession(): Session {
+    const { id } = createSession('notify-host', ['notify-meal1', 'notify-meal2']);
+    return getOne<Session>('SELECT * FROM sessions WHERE id = ?', [id])!;
+  }
+
+  function join(sessionId: string, email: string, submitted: boolean): string {
+    const participantId = `notify-p-${Math.random().toString(36).slice(2)}`;
+    runQuery(
+      'INSERT INTO participants (id, session_id, display_name, submitted) VALUES (?, ?, ?, ?)',
+      [participantId, sessionId, email.split('@')[0], submitted ? 1 : 0]
+    );
+    const invite = getOne<{ token: string }>('SELECT token FROM session_invites WHERE session_id = ? AND email = ?', [sessionId, email])!;
+    linkInvite(sessionId, invite.token, participantId);
+    return participantId;
+  }
+
+  it('should validate and normalize invite addresses', () => {
+    expect(validateInviteEmails([])).toBe('At least one email address is required');
+    expect(validateInviteEmails('a@b.co')).toBe('At least one email address is required');
+    expect(validateInviteEmails(['a@b.co', 'nope'])).toBe('Not a valid email address: nope');
+    expect(validateInviteEmails(Array(21).fill('a@b.co'))).toContain('at most 20');
+    expect(validateInviteEmails([' A@B.co '])).toBeNull();
+
+    expect(normalizeEmails([' A@B.co', 'a@b.co', 'c@d.co'])).toEqual(['a@b.co', 'c@d.co']);
+  });
+
+  it('should render emails with a personal join link and escaped HTML', () => {
+    const email = renderInviteEmail(
+      { email: 'sam@example.com', token: 'tok123' },
+      { invite_code: 'ABC123', closes_at: null },
+      3
+    );
+
+    expect(email.subject).toBe("You're invited to pick what's for dinner");
+    expect(email.text).toContain('3 meals');
+    expect(email.text).toContain('/join/ABC123?invite=tok123');
+    expect(email.html).toContain('href="http://localhost:5173/join/ABC123?invite=tok123"');
+
+    const results = renderResultsEmail({ email: 'sam@example.com' }, 'session-1', { title: 'Mac & <Cheese>', percentage: 80 });
+    expect(results.html).toContain('Mac &amp; &lt;Cheese&gt;');
+    expect(results.text).toContain('Mac & <Cheese>');
+  });
+
+  it('should email each new address once and skip ones already invited', async () => {
+    const session = openSession();
+
+    const first = await inviteByEmail(session, ['one@example.com', 'TWO@example.com']);
+    expect(first.sent).toEqual(['one@example.com', 'two@example.com']);
+    expect(sent.map(m => m.to)).toEqual(['one@example.com', 'two@example.com']);
+    expect(sent[0].text).toContain(`/join/${session.invite_code}?invite=`);
+
+    const second = await inviteByEmail(session, ['one@example.com']);
+    expect(second.alreadyInvited).toEqual(['one@example.com']);
+    expect(sent).toHaveLength(2);
+
+    expect(getInvites(session.id).map(i => i.status)).toEqual(['invited', 'invited']);
+  });
+
+  it('should forget invites whose email failed so they can be retried', async () => {
+    const session = openSession();
+    failFor = 'bounce@example.com';
+
+    const outcome = await inviteByEmail(session, ['bounce@example.com', 'ok@example.com']);
+
+    expect(outcome.failed).toEqual(['bounce@example.com']);
+    expect(outcome.sent).toEqual(['ok@example.com']);
+    expect(getInvites(session.id).map(i => i.email)).toEqual(['ok@example.com']);
+  });
+
+  it('should remind only invitees who have not submitted', async () => {
+    const session = openSession();
+    await inviteByEmail(session, ['idle@example.com', 'halfway@example.com', 'done@example.com']);
+    const halfwayId = join(session.id, 'halfway@example.com', false);
+    join(session.id, 'done@example.com', true);
+    sent.length = 0;
+
+    const reminded = await sendReminders(session.id);
+
+    expect(reminded).toBe(2);
+    expect(sent.map(m => m.to).sort()).toEqual(['halfway@example.com', 'idle@example.com']);
+    expect(sent.every(m => m.subject === "You haven't finished swiping")).toBe(true);
+    // Someone who already joined goes straight back to their deck, not through the join form again
+    const halfway = sent.find(m => m.to === 'halfway@example.com')!;
+    expect(halfway.text).toContain(`Finish swiping: ${getAppUrl()}/session/${session.id}/swipe?participant=${halfwayId}`);
+    expect(halfway.text).not.toContain('?invite=');
+    expect(sent.find(m => m.to === 'idle@example.com')!.text).toContain(`/join/${session.invite_code}?invite=`);
+
+    const statuses = Object.fromEntries(getInvites(session.id).map(i => [i.email, i.status]));
+    expect(statuses).toEqual({ 'idle@example.com': 'invited', 'halfway@example.com': 'joined', 'done@example.com': 'submitted' });
+  });
+
+  it('should send automatic reminders once after the reminder window', async () => {
+    const session = openSession();
+    const invitedAt = new Date('2026-03-01T09:00:00.000Z');
+    await inviteByEmail(session, ['later@example.com'], invitedAt);
+    sent.length = 0;
+
+    await sendDueReminders(new Date('2026-03-01T20:00:00.000Z'), 24);
+    expect(sent.filter(m => m.to === 'later@example.com')).toHaveLength(0);
+
+    await sendDueReminders(new Date('2026-03-02T10:00:00.000Z'), 24);
+    await sendDueReminders(new Date('2026-03-02T11:00:00.000Z'), 24);
+    expect(sent.filter(m => m.to === 'later@example.com')).toHaveLength(1);
+  });
+
+  it('should announce results to every invitee once when the session closes', async () => {
+    const session = openSession();
+    await inviteByEmail(session, ['voter@example.com', 'lurker@example.com']);
+    const voterId = join(session.id, 'voter@example.com', true);
+    const sessionMeal = getOne<{ id: string }>(
+      "SELECT id FROM session_meals WHERE session_id = ? AND meal_id = 'notify-meal2'",
+      [session.id]
+    )!;
+    runQuery(
+      'INSERT INTO swipes (id, participant_id, session_meal_id, vote) VALUES (?, ?, ?, 1)',
+      [`notify-swipe-${voterId}`, voterId, sessionMeal.id]
+    );
+    runQuery("UPDATE sessions SET status = 'closed' WHERE id = ?", [session.id]);
+    sent.length = 0;
+
+    expect(await notifyResultsReady(session.id)).toBe(2);
+    expect(sent[0].subject).toBe('The results are in');
+    expect(sent[0].text).toContain('Top pick: Curry (100% said yes or maybe)');
+    expect(sent[0].text).toContain(`/results/${session.id}`);
+
+    expect(await notifyResultsReady(session.id)).toBe(0);
+  });
+
+  it('should notify invitees when a session is closed', async () => {
+    const session = openSession();
+    await inviteByEmail(session, ['closer@example.com']);
+    sent.length = 0;
+
+    closeSession(session.id);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(sent.map(m => m.to)).toEqual(['closer@example.com']);
+    expect(await sendReminders(session.id)).toBe(0);
+  });
+
+  it('should list the host\'s past invitees as contacts', () => {
+    const contacts = getContacts('notify-host');
+    expect(contacts).toContain('closer@example.com');
+    expect(contacts).not.toContain('bounce@example.com');
+    expect(getContacts('someone-else')).toEqual([]);
+  });
+});
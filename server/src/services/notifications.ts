@@ -0,0 +1,307 @@
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+import { runQuery, getOne, getAll } from '../db/schema';
+import { Session, SessionInvite } from '../types';
+import { calculateResults } from './matching';
+import { sendEmail, EmailMessage } from './mailer';
+
+export const MAX_INVITES_PER_REQUEST = 20;
+export const DEFAULT_REMINDER_HOURS = 24;
+const CONTACTS_LIMIT = 50;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type InviteStatus = 'invited' | 'joined' | 'submitted';
+
+export interface InviteSummary {
+  id: string;
+  email: string;
+  status: InviteStatus;
+  invitedAt: string;
+  remindedAt: string | null;
+}
+
+export interface InviteOutcome {
+  sent: string[];
+  alreadyInvited: string[];
+  failed: string[];
+}
+
+type InviteRow = SessionInvite & { submitted: number | null };
+
+// Links in emails point at the client, which is served from a different origin in development
+export function getAppUrl(): string {
+  return (process.env.APP_URL || 'http://localhost:5173').replace(/\/+$/, '');
+}
+
+export function getReminderHours(): number {
+  const hours = Number(process.env.MAIL_REMINDER_HOURS);
+  return hours > 0 ? hours : DEFAULT_REMINDER_HOURS;
+}
+
+export function validateInviteEmails(emails: unknown): string | null {
+  if (!Array.isArray(emails) || emails.length === 0) {
+    return 'At least one email address is required';
+  }
+  if (emails.length > MAX_INVITES_PER_REQUEST) {
+    return `Invite at most ${MAX_INVITES_PER_REQUEST} people at a time`;
+  }
+  const invalid = emails.find(e => typeof e !== 'string' || !EMAIL_PATTERN.test(e.trim()));
+  if (invalid !== undefined) {
+    return `Not a valid email address: ${String(invalid)}`;
+  }
+  return null;
+}
+
+export function normalizeEmails(emails: string[]): string[] {
+  return [...new Set(emails.map(e => e.trim().toLowerCase()))];
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Every notification is a few short paragraphs and one link
+function renderEmail(to: string, subject: string, paragraphs: string[], action: { label: string; url: string }): EmailMessage {
+  const text = [...paragraphs, `${action.label}: ${action.url}`].join('\n\n') + '\n';
+  const html = [
+    ...paragraphs.map(p => `<p>${escapeHtml(p)}</p>`),
+    `<p><a href="${escapeHtml(action.url)}">${escapeHtml(action.label)}</a></p>`,
+  ].join('\n');
+  return { to, subject, text, html };
+}
+
+export function joinUrl(inviteCode: string, token: string): string {
+  return `${getAppUrl()}/join/${inviteCode}?invite=${token}`;
+}
+
+// Where someone who already joined carries on swiping, on any device, without joining again
+export function resumeUrl(sessionId: string, participantId: string): string {
+  return `${getAppUrl()}/session/${sessionId}/swipe?participant=${participantId}`;
+}
+
+function formatDeadline(closesAt: string | null): string | null {
+  return closesAt ? `Voting closes ${new Date(closesAt).toUTCString()}.` : null;
+}
+
+export function renderInviteEmail(
+  invite: Pick<SessionInvite, 'email' | 'token'>,
+  session: Pick<Session, 'invite_code' | 'closes_at'>,
+  mealCount: number
+): EmailMessage {
+  return renderEmail(
+    invite.email,
+    "You're invited to pick what's for dinner",
+    [
+      `You've been invited to a MealMatch session with ${mealCount} meal${mealCount === 1 ? '' : 's'} to swipe through.`,
+      formatDeadline(session.closes_at),
+      `Or join with code ${session.invite_code}.`,
+    ].filter((p): p is string => p !== null),
+    { label: 'Start swiping', url: joinUrl(session.invite_code, invite.token) }
+  );
+}
+
+// Invitees who already joined are sent back to their own deck rather than through the join form again
+export function renderReminderEmail(
+  invite: Pick<SessionInvite, 'email' | 'token' | 'participant_id'>,
+  session: Pick<Session, 'id' | 'invite_code' | 'closes_at'>
+): EmailMessage {
+  return renderEmail(
+    invite.email,
+    "You haven't finished swiping",
+    [
+      invite.participant_id
+        ? "You started swiping but haven't submitted your votes yet."
+        : "You haven't joined the MealMatch session you were invited to yet.",
+      formatDeadline(session.closes_at),
+    ].filter((p): p is string => p !== null),
+    invite.participant_id
+      ? { label: 'Finish swiping', url: resumeUrl(session.id, invite.participant_id) }
+      : { label: 'Start swiping', url: joinUrl(session.invite_code, invite.token) }
+  );
+}
+
+export function renderResultsEmail(
+  invite: Pick<SessionInvite, 'email'>,
+  sessionId: string,
+  topPick: { title: string; percentage: number } | null
+): EmailMessage {
+  return renderEmail(
+    invite.email,
+    'The results are in',
+    [
+      'Voting has closed.',
+      topPick ? `Top pick: ${topPick.title} (${topPick.percentage}% said yes or maybe).` : 'Nobody voted this time.',
+    ],
+    { label: 'See the results', url: `${getAppUrl()}/results/${sessionId}` }
+  );
+}
+
+function getInviteRows(sessionId: string): InviteRow[] {
+  return getAll<InviteRow>(
+    `SELECT i.*, p.submitted
+     FROM session_invites i
+     LEFT JOIN participants p ON p.id = i.participant_id
+     WHERE i.session_id = ?
+     ORDER BY i.invited_at, i.email`,
+    [sessionId]
+  );
+}
+
+function statusOf(row: InviteRow): InviteStatus {
+  if (!row.participant_id) return 'invited';
+  return row.submitted === 1 ? 'submitted' : 'joined';
+}
+
+export function getInvites(sessionId: string): InviteSummary[] {
+  return getInviteRows(sessionId).map(row => ({
+    id: row.id,
+    email: row.email,
+    status: statusOf(row),
+    invitedAt: row.invited_at,
+    remindedAt: row.reminded_at,
+  }));
+}
+
+// Email an invite link to each address not already invited to this session
+export async function inviteByEmail(session: Session, emails: string[], now: Date = new Date()): Promise<InviteOutcome> {
+  const outcome: InviteOutcome = { sent: [], alreadyInvited: [], failed: [] };
+  const mealCount = getOne<{ count: number }>(
+    'SELECT COUNT(*) as count FROM session_meals WHERE session_id = ?',
+    [session.id]
+  )?.count ?? 0;
+
+  for (const email of normalizeEmails(emails)) {
+    const existing = getOne<SessionInvite>(
+      'SELECT id FROM session_invites WHERE session_id = ? AND email = ?',
+      [session.id, email]
+    );
+    if (existing) {
+      outcome.alreadyInvited.push(email);
+      continue;
+    }
+
+    const invite = { id: uuidv4(), email, token: crypto.randomBytes(16).toString('hex') };
+    runQuery(
+      'INSERT INTO session_invites (id, session_id, email, token, invited_at) VALUES (?, ?, ?, ?, ?)',
+      [invite.id, session.id, email, invite.token, now.toISOString()]
+    );
+
+    try {
+      await sendEmail(renderInviteEmail(invite, session, mealCount));
+      outcome.sent.push(email);
+    } catch (error) {
+      // Forget the invite so the host can try the address again
+      console.error('Invite email error:', error);
+      runQuery('DELETE FROM session_invites WHERE id = ?', [invite.id]);
+      outcome.failed.push(email);
+    }
+  }
+
+  return outcome;
+}
+
+// Tie a participant to the invite whose link they followed, so reminders can tell they joined
+export function linkInvite(sessionId: string, token: string, participantId: string): void {
+  runQuery(
+    'UPDATE session_invites SET participant_id = ? WHERE session_id = ? AND token = ? AND participant_id IS NULL',
+    [participantId, sessionId, token]
+  );
+}
+
+// Remind invitees who haven't joined, or joined but have not submitted. Returns how many were emailed.
+export async function sendReminders(sessionId: string, now: Date = new Date()): Promise<number> {
+  const session = getOne<Session>('SELECT * FROM sessions WHERE id = ?', [sessionId]);
+  if (!session || session.status !== 'open') return 0;
+
+  const pending = getInviteRows(sessionId).filter(row => statusOf(row) !== 'submitted');
+  return remind(session, pending, now);
+}
+
+async function remind(session: Session, invites: InviteRow[], now: Date): Promise<number> {
+  let sent = 0;
+  for (const invite of invites) {
+    // Claim before sending so an overlapping scheduler tick can't send the same reminder twice
+    runQuery('UPDATE session_invites SET reminded_at = ? WHERE id = ?', [now.toISOString(), invite.id]);
+    try {
+      await sendEmail(renderReminderEmail(invite, session));
+      sent++;
+    } catch (error) {
+      console.error('Reminder email error:', error);
+    }
+  }
+  return sent;
+}
+
+// One automatic reminder per invitee once an open session's invite is older than the reminder window
+export async function sendDueReminders(now: Date = new Date(), hours: number = getReminderHours()): Promise<number> {
+  const cutoff = new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+  const due = getAll<InviteRow>(
+    `SELECT i.*, p.submitted
+     FROM session_invites i
+     JOIN sessions s ON s.id = i.session_id
+     LEFT JOIN participants p ON p.id = i.participant_id
+     WHERE s.status = 'open' AND i.reminded_at IS NULL AND i.invited_at <= ?
+       AND (p.submitted IS NULL OR p.submitted = 0)`,
+    [cutoff]
+  );
+
+  let sent = 0;
+  const bySession = new Map<string, InviteRow[]>();
+  for (const invite of due) {
+    bySession.set(invite.session_id, [...(bySession.get(invite.session_id) || []), invite]);
+  }
+  for (const [sessionId, invites] of bySession) {
+    const session = getOne<Session>('SELECT * FROM sessions WHERE id = ?', [sessionId]);
+    if (session) {
+      sent += await remind(session, invites, now);
+    }
+  }
+  return sent;
+}
+
+// Tell everyone who was invited that the session has closed. Returns how many were emailed.
+export async function notifyResultsReady(sessionId: string, now: Date = new Date()): Promise<number> {
+  const invites = getAll<SessionInvite>(
+    'SELECT * FROM session_invites WHERE session_id = ? AND results_sent_at IS NULL',
+    [sessionId]
+  );
+  if (invites.length === 0) return 0;
+
+  runQuery(
+    'UPDATE session_invites SET results_sent_at = ? WHERE session_id = ? AND results_sent_at IS NULL',
+    [now.toISOString(), sessionId]
+  );
+
+  const [top] = calculateResults(sessionId);
+  const topPick = top && top.totalVotes > 0 ? { title: top.title, percentage: top.percentage } : null;
+
+  let sent = 0;
+  for (const invite of invites) {
+    try {
+      await sendEmail(renderResultsEmail(invite, sessionId, topPick));
+      sent++;
+    } catch (error) {
+      console.error('Results email error:', error);
+    }
+  }
+  return sent;
+}
+
+// Addresses the host has invited before, most recent first, for quick re-invites
+export function getContacts(hostId: string): string[] {
+  return getAll<{ email: string }>(
+    `SELECT i.email, MAX(i.invited_at) as last_invited_at
+     FROM session_invites i
+     JOIN sessions s ON s.id = i.session_id
+     WHERE s.host_id = ?
+     GROUP BY i.email
+     ORDER BY last_invited_at DESC
+     LIMIT ?`,
+    [hostId, CONTACTS_LIMIT]
+  ).map(row => row.email);
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { initializeDatabase, runQuery } from '../db/schema';
+import {
+  validatePlaylistName,
+  findInvalidMealIds,
+  setPlaylistMeals,
+  resolvePlaylistMealIds,
+} from './playlists';
+
+describe('Playlists Service - Validation', () => {
+  it('should require a non-empty name within the length limit', () => {
+    expect(validatePlaylistName('Weeknight Quick')).toBeNull();
+    expect(validatePlaylistName('   ')).toBe('Playlist name is required');
+    expect(validatePlaylistName(undefined)).toBe('Playlist name is required');
+    expect(validatePlaylistName('x'.repeat(61))).toContain('at most');
+  });
+});
+
+describe('Playlists Service - Membership', () => {
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('pl-host', 'playlists@test.com', 'hash')`, []);
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('pl-other', 'other-playlists@test.com', 'hash')`, []);
+    runQuery(
+      `INSERT OR IGNORE INTO meals (id, host_id, title, archived) VALUES
+        ('pl-meal1', 'pl-host', 'Stir Fry', 0),
+        ('pl-meal2', 'pl-host', 'Omelette', 0),
+        ('pl-meal3', 'pl-host', 'Old Stew', 1),
+        ('pl-meal4', 'pl-other', 'Not Mine', 0)`,
+      []
+    );
+    runQuery(`INSERT OR IGNORE INTO playlists (id, host_id, name) VALUES ('pl-1', 'pl-host', 'Weeknight Quick')`, []);
+  });
+
+  it('should flag meals that are archived or belong to another host', () => {
+    expect(findInvalidMealIds('pl-host', ['pl-meal1', 'pl-meal3', 'pl-meal4'])).toEqual(['pl-meal3', 'pl-meal4']);
+    expect(findInvalidMealIds('pl-host', [])).toEqual([]);
+  });
+
+  it('should keep meals in the given order without duplicates', () => {
+    const saved = setPlaylistMeals('pl-1', ['pl-meal2', 'pl-meal1', 'pl-meal2']);
+
+    expect(saved).toEqual(['pl-meal2', 'pl-meal1']);
+    expect(resolvePlaylistMealIds('pl-host', 'pl-1')).toEqual(['pl-meal2', 'pl-meal1']);
+  });
+
+  it('should skip meals archived after they were added', () => {
+    setPlaylistMeals('pl-1', ['pl-meal1', 'pl-meal3']);
+
+    expect(resolvePlaylistMealIds('pl-host', 'pl-1')).toEqual(['pl-meal1']);
+  });
+
+  it('should not resolve another host\'s playlist', () => {
+    expect(resolvePlaylistMealIds('pl-other', 'pl-1')).toBeNull();
+    expect(resolvePlaylistMealIds('pl-host', 'missing')).toBeNull();
+  });
+});
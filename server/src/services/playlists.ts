@@ -0,0 +1,64 @@
+import { runQuery, getOne, getAll } from '../db/schema';
+import { Playlist } from '../types';
+
+export const MAX_PLAYLIST_NAME_LENGTH = 60;
+
+export function validatePlaylistName(name: unknown): string | null {
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    return 'Playlist name is required';
+  }
+  if (name.trim().length > MAX_PLAYLIST_NAME_LENGTH) {
+    return `Playlist name must be at most ${MAX_PLAYLIST_NAME_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Check that every meal exists, belongs to the host and is not archived
+export function findInvalidMealIds(hostId: string, mealIds: string[]): string[] {
+  if (mealIds.length === 0) return [];
+
+  const valid = getAll<{ id: string }>(
+    `SELECT id FROM meals WHERE id IN (${mealIds.map(() => '?').join(',')}) AND host_id = ? AND archived = 0`,
+    [...mealIds, hostId]
+  );
+  const validIds = new Set(valid.map(m => m.id));
+
+  return mealIds.filter(id => !validIds.has(id));
+}
+
+// Replace a playlist's meals; the order given is the playlist order
+export function setPlaylistMeals(playlistId: string, mealIds: string[]): string[] {
+  const unique = [...new Set(mealIds)];
+
+  runQuery('DELETE FROM playlist_meals WHERE playlist_id = ?', [playlistId]);
+
+  unique.forEach((mealId, index) => {
+    runQuery(
+      'INSERT INTO playlist_meals (playlist_id, meal_id, position) VALUES (?, ?, ?)',
+      [playlistId, mealId, index]
+    );
+  });
+
+  return unique;
+}
+
+// Resolve a host's playlist to its meals in order, skipping archived ones.
+// Returns null when the playlist doesn't exist or belongs to someone else.
+export function resolvePlaylistMealIds(hostId: string, playlistId: string): string[] | null {
+  const playlist = getOne<Playlist>(
+    'SELECT id FROM playlists WHERE id = ? AND host_id = ?',
+    [playlistId, hostId]
+  );
+  if (!playlist) return null;
+
+  const meals = getAll<{ meal_id: string }>(
+    `SELECT pm.meal_id
+     FROM playlist_meals pm
+     JOIN meals m ON pm.meal_id = m.id
+     WHERE pm.playlist_id = ? AND m.archived = 0
+     ORDER BY pm.position`,
+    [playlistId]
+  );
+
+  return meals.map(m => m.meal_id);
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { initializeDatabase, runQuery } from '../db/schema';
+import { resolveProfile, getPeopleStats } from './profiles';
+
+describe('Profiles Service', () => {
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('prof-host', 'prof@test.com', 'hash')`, []);
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('prof-friend', 'friend@test.com', 'hash')`, []);
+  });
+
+  describe('resolveProfile', () => {
+    it('should not create a profile for guests who did not ask to be remembered', () => {
+      expect(resolveProfile('Sam', {})).toBeNull();
+    });
+
+    it('should create a guest profile with a token and find it again', () => {
+      const created = resolveProfile('Alex', { remember: true })!;
+      expect(created.token).toMatch(/^[0-9a-f]{48}$/);
+
+      const again = resolveProfile('Alexandra', { token: created.token! })!;
+      expect(again.id).toBe(created.id);
+      expect(again.display_name).toBe('Alexandra');
+    });
+
+    it('should issue a fresh profile for an unknown token', () => {
+      const profile = resolveProfile('Jo', { token: 'not-a-real-token' })!;
+      expect(profile.token).not.toBe('not-a-real-token');
+    });
+
+    it('should use one profile per host account', () => {
+      const first = resolveProfile('Friend', { hostId: 'prof-friend' })!;
+      const second = resolveProfile('Friend', { hostId: 'prof-friend', remember: true })!;
+
+      expect(first.token).toBeNull();
+      expect(second.id).toBe(first.id);
+    });
+  });
+
+  describe('getPeopleStats', () => {
+    beforeAll(() => {
+      runQuery(
+        `INSERT OR IGNORE INTO participant_profiles (id, token, display_name) VALUES
+          ('prof-alex', 'prof-token-alex', 'Alex'),
+          ('prof-bea', 'prof-token-bea', 'Bea')`,
+        []
+      );
+      runQuery(
+        `INSERT OR IGNORE INTO meals (id, host_id, title) VALUES
+          ('prof-salmon', 'prof-host', 'Salmon'),
+          ('prof-sushi', 'prof-host', 'Sushi'),
+          ('prof-pizza', 'prof-host', 'Pizza')`,
+        []
+      );
+      runQuery(`INSERT OR IGNORE INTO tags (id, host_id, name) VALUES ('prof-tag-fish', 'prof-host', 'fish')`, []);
+      runQuery(
+        `INSERT OR IGNORE INTO meal_tags (meal_id, tag_id) VALUES
+          ('prof-salmon', 'prof-tag-fish'),
+          ('prof-sushi', 'prof-tag-fish')`,
+        []
+      );
+      runQuery(
+        `INSERT OR IGNORE INTO sessions (id, host_id, invite_code, status) VALUES
+          ('prof-s1', 'prof-host', 'PROF01', 'closed'),
+          ('prof-s2', 'prof-host', 'PROF02', 'closed')`,
+        []
+      );
+      runQuery(
+        `INSERT OR IGNORE INTO session_meals (id, session_id, meal_id, display_order) VALUES
+          ('prof-sm1', 'prof-s1', 'prof-salmon', 0),
+          ('prof-sm2', 'prof-s1', 'prof-pizza', 1),
+          ('prof-sm3', 'prof-s2', 'prof-sushi', 0)`,
+        []
+      );
+      runQuery(
+        `INSERT OR IGNORE INTO participants (id, session_id, display_name, profile_id, submitted) VALUES
+          ('prof-p1', 'prof-s1', 'Alex', 'prof-alex', 1),
+          ('prof-p2', 'prof-s2', 'Al', 'prof-alex', 1),
+          ('prof-p3', 'prof-s1', 'Bea', 'prof-bea', 1),
+          ('prof-p4', 'prof-s1', 'Anonymous', NULL, 1)`,
+        []
+      );
+      runQuery(
+        `INSERT OR IGNORE INTO swipes (id, participant_id, session_meal_id, vote) VALUES
+          ('prof-v1', 'prof-p1', 'prof-sm1', 0),
+          ('prof-v2', 'prof-p1', 'prof-sm2', 1),
+          ('prof-v3', 'prof-p2', 'prof-sm3', 0),
+          ('prof-v4', 'prof-p3', 'prof-sm1', 1),
+          ('prof-v5', 'prof-p3', 'prof-sm2', 2),
+          ('prof-v6', 'prof-p4', 'prof-sm1', 0)`,
+        []
+      );
+    });
+
+    it('should accumulate votes across sessions per profile, pickiest first', () => {
+      const people = getPeopleStats('prof-host');
+
+      expect(people.map(p => p.displayName)).toEqual(['Alex', 'Bea']);
+      expect(people[0]).toMatchObject({
+        profileId: 'prof-alex',
+        sessions: 2,
+        yesCount: 1,
+        maybeCount: 0,
+        noCount: 2,
+        noRate: 67,
+        topNoTags: [{ tag: 'fish', count: 2 }],
+        topYesTags: [],
+      });
+      expect(people[1]).toMatchObject({ noRate: 0, topYesTags: [{ tag: 'fish', count: 1 }] });
+    });
+
+    it('should only count sessions belonging to the host', () => {
+      expect(getPeopleStats('prof-friend')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+import { runQuery, getOne, getAll } from '../db/schema';
+import { ParticipantProfile } from '../types';
+
+export const TOP_TAGS_LIMIT = 3;
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export interface PersonStats {
+  profileId: string;
+  displayName: string;
+  linkedAccount: boolean; // profile belongs to a host account rather than a remembered device
+  sessions: number;
+  yesCount: number;
+  maybeCount: number;
+  noCount: number;
+  noRate: number | null; // 0-100 share of no votes, null before any votes
+  topNoTags: TagCount[];
+  topYesTags: TagCount[]; // yes and maybe votes
+  lastSeenAt: string;
+}
+
+interface ResolveOptions {
+  hostId?: string; // signed-in hosts always use their account profile
+  token?: string;
+  remember?: boolean;
+}
+
+// Find the profile a joining participant belongs to, creating one when asked.
+// Returns null for guests who neither sent a known token nor asked to be remembered.
+export function resolveProfile(displayName: string, options: ResolveOptions): ParticipantProfile | null {
+  const { hostId, token, remember = false } = options;
+
+  let profile: ParticipantProfile | undefined;
+  if (hostId) {
+    profile = getOne<ParticipantProfile>('SELECT * FROM participant_profiles WHERE host_id = ?', [hostId]);
+  } else if (token) {
+    profile = getOne<ParticipantProfile>('SELECT * FROM participant_profiles WHERE token = ?', [token]);
+  }
+
+  if (profile) {
+    runQuery(
+      'UPDATE participant_profiles SET display_name = ?, last_seen_at = CURRENT_TIMESTAMP WHERE id = ?',
+      [displayName, profile.id]
+    );
+    return { ...profile, display_name: displayName };
+  }
+
+  // An unknown token (e.g. from a wiped database) is replaced rather than trusted
+  if (!hostId && !token && !remember) return null;
+
+  const id = uuidv4();
+  const newToken = hostId ? null : crypto.randomBytes(24).toString('hex');
+  runQuery(
+    'INSERT INTO participant_profiles (id, token, host_id, display_name) VALUES (?, ?, ?, ?)',
+    [id, newToken, hostId || null, displayName]
+  );
+
+  return getOne<ParticipantProfile>('SELECT * FROM participant_profiles WHERE id = ?', [id]) ?? null;
+}
+
+function topTags(rows: Array<{ profile_id: string; name: string; count: number }>, profileId: string): TagCount[] {
+  return rows
+    .filter(row => row.profile_id === profileId)
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .slice(0, TOP_TAGS_LIMIT)
+    .map(row => ({ tag: row.name, count: row.count }));
+}
+
+// Voting habits of every remembered person who has joined one of the host's sessions, pickiest first
+export function getPeopleStats(hostId: string): PersonStats[] {
+  const people = getAll<ParticipantProfile & {
+    sessions: number;
+    yes_count: number;
+    maybe_count: number;
+    no_count: number;
+  }>(
+    `SELECT pr.*,
+            COUNT(DISTINCT p.session_id) AS sessions,
+            SUM(CASE WHEN sw.vote = 1 THEN 1 ELSE 0 END) AS yes_count,
+            SUM(CASE WHEN sw.vote = 2 THEN 1 ELSE 0 END) AS maybe_count,
+            SUM(CASE WHEN sw.vote = 0 THEN 1 ELSE 0 END) AS no_count
+     FROM participant_profiles pr
+     JOIN participants p ON p.profile_id = pr.id
+     JOIN sessions s ON s.id = p.session_id
+     LEFT JOIN swipes sw ON sw.participant_id = p.id AND sw.draft = 0
+     WHERE s.host_id = ?
+     GROUP BY pr.id`,
+    [hostId]
+  );
+
+  const tagVotes = (votes: string) => getAll<{ profile_id: string; name: string; count: number }>(
+    `SELECT p.profile_id, t.name, COUNT(*) AS count
+     FROM swipes sw
+     JOIN participants p ON p.id = sw.participant_id
+     JOIN sessions s ON s.id = p.session_id
+     JOIN session_meals sm ON sm.id = sw.session_meal_id
+     JOIN meal_tags mt ON mt.meal_id = sm.meal_id
+     JOIN tags t ON t.id = mt.tag_id
+     WHERE s.host_id = ? AND p.profile_id IS NOT NULL AND sw.draft = 0 AND sw.vote IN (${votes})
+     GROUP BY p.profile_id, t.name`,
+    [hostId]
+  );
+  const noTags = tagVotes('0');
+  const yesTags = tagVotes('1, 2');
+
+  return people
+    .map(person => {
+      const votes = person.yes_count + person.maybe_count + person.no_count;
+      return {
+        profileId: person.id,
+        displayName: person.display_name,
+        linkedAccount: person.host_id !== null,
+        sessions: person.sessions,
+        yesCount: person.yes_count,
+        maybeCount: person.maybe_count,
+        noCount: person.no_count,
+        noRate: votes > 0 ? Math.round((person.no_count / votes) * 100) : null,
+        topNoTags: topTags(noTags, person.id),
+        topYesTags: topTags(yesTags, person.id),
+        lastSeenAt: person.last_seen_at,
+      };
+    })
+    .sort((a, b) => (b.noRate ?? -1) - (a.noRate ?? -1) || a.displayName.localeCompare(b.displayName));
+}
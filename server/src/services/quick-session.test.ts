@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { v4 as uuidv4 } from 'uuid';
+import { initializeDatabase, runQuery, getOne, getAll } from '../db/schema';
+import { Session, Meal } from '../types';
+import {
+  createQuickSession,
+  adminKey,
+  isAdminKey,
+  isSessionCreator,
+  findCreatorSession,
+  claimQuickSessions,
+  validateCreatorTokens,
+} from './quick-session';
+
+describe('Quick Session Service', () => {
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  it('should keep the creator token on the session and hand out a recovery key', () => {
+    const created = createQuickSession({ creatorName: 'Dee', meals: [{ title: 'Pho' }] });
+    const session = getOne<Session>('SELECT * FROM sessions WHERE id = ?', [created.session.id])!;
+
+    expect(session.creator_token).toBe(created.creatorToken);
+    expect(created.adminKey).toBe(adminKey(session.id, created.creatorToken!));
+    expect(isSessionCreator(session, created.creatorToken)).toBe(true);
+    expect(isAdminKey(session, created.adminKey)).toBe(true);
+    expect(findCreatorSession(session.id, created.creatorToken)?.id).toBe(session.id);
+  });
+
+  it('should reject tokens and keys from other sessions', () => {
+    const first = createQuickSession({ creatorName: 'Dee', meals: [{ title: 'Pho' }] });
+    const second = createQuickSession({ creatorName: 'Eli', meals: [{ title: 'Banh mi' }] });
+    const session = getOne<Session>('SELECT * FROM sessions WHERE id = ?', [first.session.id])!;
+
+    expect(isSessionCreator(session, second.creatorToken)).toBe(false);
+    expect(isAdminKey(session, second.adminKey)).toBe(false);
+    expect(isAdminKey(session, first.creatorToken)).toBe(false); // the token itself isn't a key
+    expect(isAdminKey(session, undefined)).toBe(false);
+    expect(findCreatorSession(first.session.id, second.creatorToken)).toBeUndefined();
+  });
+
+  it('should not give signed-in creators a token or recovery key', () => {
+    const created = createQuickSession(
+      { creatorName: 'Fay', meals: [{ title: 'Curry' }] },
+      { hostId: 'quick-svc-host' }
+    );
+    const session = getOne<Session>('SELECT * FROM sessions WHERE id = ?', [created.session.id])!;
+
+    expect(created.creatorToken).toBeNull();
+    expect(created.adminKey).toBeNull();
+    expect(session.creator_token).toBeNull();
+    expect(isSessionCreator(session, '')).toBe(false);
+    expect(isAdminKey(session, '')).toBe(false);
+  });
+
+  it('should only accept a list of creator tokens to claim', () => {
+    expect(validateCreatorTokens(['abc'])).toBeNull();
+    expect(validateCreatorTokens([])).toBe('At least one creator token is required');
+    expect(validateCreatorTokens('abc')).toBe('At least one creator token is required');
+    expect(validateCreatorTokens(['abc', 42])).toBe('Creator tokens must be non-empty strings');
+  });
+});
+
+describe('Quick Session Service - Claiming', () => {
+  // A fresh account each run, since the test database persists between runs
+  const hostId = `claim-host-${uuidv4()}`;
+  const phoId = `claim-pho-${uuidv4()}`;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    runQuery('INSERT INTO hosts (id, email, password_hash) VALUES (?, ?, ?)', [hostId, `${hostId}@test.com`, 'hash']);
+    runQuery('INSERT INTO meals (id, host_id, title) VALUES (?, ?, ?)', [phoId, hostId, 'Pho']);
+  });
+
+  function mealIds(sessionId: string): string[] {
+    return getAll<{ meal_id: string }>('SELECT meal_id FROM session_meals WHERE session_id = ?', [sessionId])
+      .map(sm => sm.meal_id);
+  }
+
+  it('should move sessions into the account, merging meals already in the library', () => {
+    const first = createQuickSession({ creatorName: 'Dee', meals: [{ title: 'pho!' }, { title: 'Laksa' }] });
+    const second = createQuickSession({ creatorName: 'Dee', meals: [{ title: 'Laksa' }, { title: 'Pho' }, { title: 'PHO' }] });
+    const laksa = getOne<Meal>('SELECT * FROM meals WHERE host_id = ? AND title = ?', [`temp_${first.creatorToken}`, 'Laksa'])!;
+    runQuery('UPDATE sessions SET status = ?, selected_meal_id = ? WHERE id = ?', ['closed', laksa.id, first.session.id]);
+
+    const result = claimQuickSessions(hostId, [first.creatorToken!, second.creatorToken!, first.creatorToken!]);
+
+    expect(result.sessionIds.sort()).toEqual([first.session.id, second.session.id].sort());
+    // "pho!" and the first "Pho" become the library's Pho; "PHO" stays separate rather than appear twice in a session.
+    // The second "Laksa" merges into the first, which joined the library.
+    expect(result).toMatchObject({ mealsAdded: 2, mealsMerged: 3 });
+
+    for (const id of result.sessionIds) {
+      const session = getOne<Session>('SELECT * FROM sessions WHERE id = ?', [id])!;
+      expect(session.host_id).toBe(hostId);
+      expect(session.creator_token).not.toBeNull(); // the recovery link keeps working
+    }
+    expect(mealIds(first.session.id).sort()).toEqual([phoId, laksa.id].sort());
+    expect(mealIds(second.session.id)).toContain(laksa.id);
+    expect(mealIds(second.session.id)).toContain(phoId);
+    expect(getOne<Session>('SELECT * FROM sessions WHERE id = ?', [first.session.id])!.selected_meal_id).toBe(laksa.id);
+
+    const library = getAll<Meal>('SELECT * FROM meals WHERE host_id = ? ORDER BY title', [hostId]);
+    expect(library.map(m => m.title)).toEqual(['Laksa', 'PHO', 'Pho']);
+    expect(library.every(m => m.temporary === 0 && m.creator_token === null)).toBe(true);
+    expect(getAll('SELECT id FROM meals WHERE host_id IN (?, ?)', [`temp_${first.creatorToken}`, `temp_${second.creatorToken}`])).toEqual([]);
+  });
+
+  it('should only merge non-Latin titles into the same meal', () => {
+    const sushiId = `claim-sushi-${uuidv4()}`;
+    runQuery('INSERT INTO meals (id, host_id, title) VALUES (?, ?, ?)', [sushiId, hostId, '寿司']);
+    runQuery('INSERT INTO meals (id, host_id, title) VALUES (?, ?, ?)', [`claim-pizza-${uuidv4()}`, hostId, '🍕']);
+    const created = createQuickSession({
+      creatorName: 'Kai',
+      meals: [{ title: 'ラーメン' }, { title: '寿司' }, { title: '🌮' }],
+    });
+
+    const result = claimQuickSessions(hostId, [created.creatorToken!]);
+
+    expect(result).toMatchObject({ mealsAdded: 2, mealsMerged: 1 });
+    const titles = getAll<Meal>(
+      'SELECT m.* FROM session_meals sm JOIN meals m ON m.id = sm.meal_id WHERE sm.session_id = ?',
+      [created.session.id]
+    ).map(m => m.title).sort();
+    expect(titles).toEqual(['ラーメン', '寿司', '🌮'].sort());
+    expect(mealIds(created.session.id)).toContain(sushiId);
+  });
+
+  it('should claim nothing for unknown or already claimed tokens', () => {
+    const created = createQuickSession({ creatorName: 'Eli', meals: [{ title: 'Bibimbap' }] });
+    claimQuickSessions(hostId, [created.creatorToken!]);
+
+    expect(claimQuickSessions(hostId, [created.creatorToken!, 'not-a-token'])).toEqual({
+      sessionIds: [],
+      mealsAdded: 0,
+      mealsMerged: 0,
+    });
+  });
+});
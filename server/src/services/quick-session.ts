@@ -0,0 +1,285 @@
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+import { runQuery, getOne, getAll, runTransaction } from '../db/schema';
+import { QuickSessionRequest, Session, Meal } from '../types';
+import { isScoringMode } from './scoring';
+import { isMealType, MEAL_TYPES } from './restaurants';
+import { validateClosesAt, normalizeClosesAt } from './sessions';
+import { generateInviteCode } from './matching';
+import { triggerWebhooks } from './webhooks';
+import { normalizeTitle } from './meal-library';
+
+export const MAX_CLAIM_TOKENS = 50;
+
+export interface QuickSessionMeal {
+  id: string;
+  title: string;
+  description: string | null;
+  type: string;
+  sessionMealId: string;
+}
+
+export interface QuickSession {
+  session: {
+    id: string;
+    inviteCode: string;
+    status: 'open';
+    scoringMode: string;
+    closesAt: string | null;
+  };
+  participantId: string | null;
+  creatorToken: string | null; // only for anonymous creators, who manage the session with it
+  adminKey: string | null; // for the creator's recovery link; only ever returned here
+  meals: QuickSessionMeal[];
+}
+
+export interface ClaimResult {
+  sessionIds: string[];
+  mealsAdded: number; // temporary meals that joined the library
+  mealsMerged: number; // temporary meals replaced by a library meal with the same title
+}
+
+interface CreateQuickSessionOptions {
+  hostId?: string; // signed-in creators own the session like any other
+  joinCreator?: boolean; // add the creator as the first participant (default true)
+}
+
+export function validateQuickSession(request: QuickSessionRequest): string | null {
+  const { creatorName, meals, type = 'meal', scoringMode = 'approval', closesAt = null } = request;
+
+  if (!creatorName || !meals || meals.length === 0) {
+    return 'Creator name and at least one meal required';
+  }
+  if (!isMealType(type)) {
+    return `Type must be one of: ${MEAL_TYPES.join(', ')}`;
+  }
+  if (!isScoringMode(scoringMode)) {
+    return `Invalid scoring mode: ${scoringMode}`;
+  }
+  return validateClosesAt(closesAt);
+}
+
+// Create a session over new temporary meals, for people without a meal library. Validate first.
+export function createQuickSession(request: QuickSessionRequest, options: CreateQuickSessionOptions = {}): QuickSession {
+  const {
+    creatorName,
+    meals,
+    type = 'meal',
+    scoringMode = 'approval',
+    closesAt = null,
+    autoCloseWhenComplete = false,
+  } = request;
+  const { joinCreator = true } = options;
+
+  // Generate a unique creator token for anonymous sessions
+  const creatorToken = crypto.randomBytes(32).toString('hex');
+  const isAuthenticated = !!options.hostId;
+
+  // For anonymous users, use a placeholder host_id (we'll use the creator token)
+  // For authenticated users, use their actual host_id
+  const hostId = isAuthenticated ? options.hostId : `temp_${creatorToken}`;
+
+  // Create session
+  const sessionId = uuidv4();
+  const inviteCode = generateInviteCode();
+
+  // Session, meals and the creator's participant are written together or not at all
+  const { sessionMeals, participantId } = runTransaction(() => {
+    runQuery(
+      `INSERT INTO sessions (id, host_id, invite_code, status, scoring_mode, closes_at, auto_close_when_complete, creator_token, created_at)
+       VALUES (?, ?, ?, 'open', ?, ?, ?, ?, datetime('now'))`,
+      [
+        sessionId,
+        hostId,
+        inviteCode,
+        scoringMode,
+        normalizeClosesAt(closesAt),
+        autoCloseWhenComplete ? 1 : 0,
+        isAuthenticated ? null : creatorToken,
+      ]
+    );
+
+    // Create temporary meals and add to session
+    const sessionMeals: QuickSessionMeal[] = [];
+    for (let i = 0; i < meals.length; i++) {
+      const mealId = uuidv4();
+      const meal = meals[i];
+
+      runQuery(
+        `INSERT INTO meals (id, host_id, title, description, type, temporary, creator_token, created_at)
+         VALUES (?, ?, ?, ?, ?, 1, ?, datetime('now'))`,
+        [mealId, hostId, meal.title, meal.description || null, type, creatorToken]
+      );
+
+      // Add to session_meals
+      const sessionMealId = uuidv4();
+      runQuery(
+        `INSERT INTO session_meals (id, session_id, meal_id, display_order)
+         VALUES (?, ?, ?, ?)`,
+        [sessionMealId, sessionId, mealId, i]
+      );
+
+      sessionMeals.push({
+        id: mealId,
+        title: meal.title,
+        description: meal.description || null,
+        type,
+        sessionMealId
+      });
+    }
+
+    // Auto-join creator as participant
+    let participantId: string | null = null;
+    if (joinCreator) {
+      participantId = uuidv4();
+      runQuery(
+        `INSERT INTO participants (id, session_id, display_name, host_id, submitted, created_at)
+         VALUES (?, ?, ?, ?, 0, datetime('now'))`,
+        [participantId, sessionId, creatorName, isAuthenticated ? hostId : null]
+      );
+    }
+
+    return { sessionMeals, participantId };
+  });
+
+  // Only signed-in creators can have webhooks; anonymous sessions find none
+  triggerWebhooks(sessionId, 'session.created', { mealCount: meals.length, quick: true });
+
+  return {
+    session: {
+      id: sessionId,
+      inviteCode,
+      status: 'open',
+      scoringMode,
+      closesAt: normalizeClosesAt(closesAt),
+    },
+    participantId,
+    creatorToken: isAuthenticated ? null : creatorToken,
+    adminKey: isAuthenticated ? null : adminKey(sessionId, creatorToken),
+    meals: sessionMeals,
+  };
+}
+
+// The key in the creator's recovery link (/session/:id/admin?key=): the session ID signed with the creator token,
+// so the link works without the token itself and can't be made for any other session
+export function adminKey(sessionId: string, creatorToken: string): string {
+  return crypto.createHmac('sha256', creatorToken).update(`admin:${sessionId}`).digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+// Whether a creator token (kept by the creator's browser) matches the session's
+export function isSessionCreator(session: Pick<Session, 'creator_token'>, creatorToken: unknown): boolean {
+  return !!session.creator_token && typeof creatorToken === 'string' && safeEqual(session.creator_token, creatorToken);
+}
+
+// Whether a key from a recovery link belongs to the session
+export function isAdminKey(session: Pick<Session, 'id' | 'creator_token'>, key: unknown): boolean {
+  return !!session.creator_token && typeof key === 'string' && safeEqual(adminKey(session.id, session.creator_token), key);
+}
+
+// The session an anonymous creator may manage with their token
+export function findCreatorSession(sessionId: string, creatorToken: unknown): Session | undefined {
+  const session = getOne<Session>('SELECT * FROM sessions WHERE id = ?', [sessionId]);
+  return session && isSessionCreator(session, creatorToken) ? session : undefined;
+}
+
+export function validateCreatorTokens(creatorTokens: unknown): string | null {
+  if (!Array.isArray(creatorTokens) || creatorTokens.length === 0) {
+    return 'At least one creator token is required';
+  }
+  if (creatorTokens.length > MAX_CLAIM_TOKENS) {
+    return `At most ${MAX_CLAIM_TOKENS} creator tokens can be claimed at once`;
+  }
+  if (creatorTokens.some(token => typeof token !== 'string' || !token)) {
+    return 'Creator tokens must be non-empty strings';
+  }
+  return null;
+}
+
+// Point everything that refers to a temporary meal at the library meal replacing it, then delete it
+function mergeMeal(temporary: Meal, libraryMealId: string): void {
+  runQuery('UPDATE session_meals SET meal_id = ? WHERE meal_id = ?', [libraryMealId, temporary.id]);
+  runQuery('UPDATE sessions SET selected_meal_id = ? WHERE selected_meal_id = ?', [libraryMealId, temporary.id]);
+  runQuery('UPDATE session_history SET selected_meal_id = ? WHERE selected_meal_id = ?', [libraryMealId, temporary.id]);
+  runQuery('UPDATE runoff_candidates SET meal_id = ? WHERE meal_id = ?', [libraryMealId, temporary.id]);
+  runQuery('UPDATE runoff_votes SET meal_id = ? WHERE meal_id = ?', [libraryMealId, temporary.id]);
+  // Meal IDs are UUIDs, so a plain text replace is safe inside these JSON lists
+  runQuery(
+    'UPDATE session_history SET tied_meal_ids = REPLACE(tied_meal_ids, ?, ?) WHERE tied_meal_ids LIKE ?',
+    [temporary.id, libraryMealId, `%${temporary.id}%`]
+  );
+  runQuery(
+    'UPDATE participants SET deck_order = REPLACE(deck_order, ?, ?) WHERE deck_order LIKE ?',
+    [temporary.id, libraryMealId, `%${temporary.id}%`]
+  );
+  runQuery('UPDATE meals SET pick_count = pick_count + ? WHERE id = ?', [temporary.pick_count, libraryMealId]);
+  runQuery('DELETE FROM meal_tags WHERE meal_id = ?', [temporary.id]);
+  runQuery('DELETE FROM meals WHERE id = ?', [temporary.id]);
+}
+
+// Move the anonymous quick sessions started with these creator tokens, and their temporary meals, into a
+// host's account. A meal whose title is already in the library is replaced by the library meal, unless that
+// meal is in the same session; the rest join the library. All of it happens or none of it does.
+// Sessions keep their creator token, so the creator's browser and recovery link go on working.
+export function claimQuickSessions(hostId: string, creatorTokens: string[]): ClaimResult {
+  return runTransaction(() => {
+    const library = new Map<string, string>(); // normalized title -> meal ID
+    for (const meal of getAll<{ id: string; title: string }>(
+      'SELECT id, title FROM meals WHERE host_id = ? AND archived = 0 AND temporary = 0 ORDER BY created_at',
+      [hostId]
+    )) {
+      const key = normalizeTitle(meal.title);
+      if (key && !library.has(key)) library.set(key, meal.id);
+    }
+
+    const result: ClaimResult = { sessionIds: [], mealsAdded: 0, mealsMerged: 0 };
+
+    for (const creatorToken of new Set(creatorTokens)) {
+      const temporaryHostId = `temp_${creatorToken}`;
+
+      const sessions = getAll<{ id: string }>(
+        'SELECT id FROM sessions WHERE host_id = ? AND creator_token = ?',
+        [temporaryHostId, creatorToken]
+      );
+      for (const session of sessions) {
+        runQuery('UPDATE sessions SET host_id = ? WHERE id = ?', [hostId, session.id]);
+        result.sessionIds.push(session.id);
+      }
+
+      const meals = getAll<Meal>(
+        'SELECT * FROM meals WHERE host_id = ? AND temporary = 1 ORDER BY created_at',
+        [temporaryHostId]
+      );
+      for (const meal of meals) {
+        // A title without letters or digits (say, just an emoji) has an empty key and is never merged
+        const key = normalizeTitle(meal.title);
+        const libraryMealId = key ? library.get(key) : undefined;
+        const sharesSession = libraryMealId && getOne(
+          `SELECT 1 FROM session_meals a
+           JOIN session_meals b ON a.session_id = b.session_id
+           WHERE a.meal_id = ? AND b.meal_id = ?`,
+          [meal.id, libraryMealId]
+        );
+
+        if (libraryMealId && !sharesSession) {
+          mergeMeal(meal, libraryMealId);
+          result.mealsMerged++;
+        } else {
+          runQuery(
+            'UPDATE meals SET host_id = ?, temporary = 0, creator_token = NULL WHERE id = ?',
+            [hostId, meal.id]
+          );
+          if (key && !libraryMealId) library.set(key, meal.id);
+          result.mealsAdded++;
+        }
+      }
+    }
+
+    return result;
+  });
+}
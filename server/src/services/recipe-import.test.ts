@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+import {
+  parseRecipeHtml,
+  parseIsoDuration,
+  fetchRecipe,
+  fetchRecipeImage,
+  isPublicAddress,
+  toMealRequest,
+  ImportedRecipe,
+  RemoteFetchOptions,
+} from './recipe-import';
+import { validateMeal } from './meal-library';
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, 'fixtures', 'recipes', `${name}.html`), 'utf8');
+}
+
+describe('Recipe Import Service - Parsing', () => {
+  it('should read a JSON-LD recipe from a WordPress @graph', () => {
+    const recipe = parseRecipeHtml(fixture('wordpress-json-ld'))!;
+
+    expect(recipe.title).toBe('Weeknight Chicken Tikka Masala');
+    expect(recipe.description).toBe('Tender chicken in a creamy, spiced tomato sauce & ready in 45 minutes.');
+    expect(recipe.imageUrl).toBe('https://blog.example.com/wp-content/uploads/2025/03/tikka-1x1.jpg');
+    expect(recipe.ingredients).toHaveLength(6);
+    expect(recipe.ingredients[0]).toEqual({ quantity: 1.5, unit: 'lb', name: 'boneless chicken thighs, cut into chunks' });
+    expect(recipe.ingredients[5]).toEqual({ quantity: null, unit: null, name: 'salt, to taste' });
+    expect(recipe.steps).toHaveLength(4);
+    expect(recipe.steps[2]).toBe('Add the tomatoes and remaining garam masala & simmer for 15 minutes.');
+    expect(recipe).toMatchObject({ prepMinutes: 15, cookMinutes: 30, servings: 4 });
+  });
+
+  it('should flatten instruction sections and strip HTML from descriptions', () => {
+    const recipe = parseRecipeHtml(fixture('sections-json-ld'), 'https://news.example.com/food/lasagna')!;
+
+    expect(recipe.title).toBe('Classic Lasagna');
+    expect(recipe.description).toBe('Layers of slow-cooked ragù, béchamel and fresh pasta.');
+    expect(recipe.imageUrl).toBe('https://news.example.com/images/lasagna-hero.jpg');
+    expect(recipe.ingredients).toContainEqual({ quantity: 500, unit: 'g', name: 'beef mince' });
+    expect(recipe.ingredients).toContainEqual({ quantity: 1, unit: 'litre', name: 'milk' });
+    expect(recipe.steps).toEqual([
+      'Brown the mince with the onions.',
+      'Simmer gently for 2 hours.',
+      'Layer ragù, béchamel and pasta three times.',
+      'Bake at 180°C for 30 minutes.',
+    ]);
+    expect(recipe).toMatchObject({ prepMinutes: 60, cookMinutes: 150, servings: 6 });
+  });
+
+  it('should fall back to microdata, ignoring nested items', () => {
+    const recipe = parseRecipeHtml(fixture('microdata'), 'https://example.com/recipes/pancakes/')!;
+
+    // The author's itemprop="name" belongs to the nested Person, not the recipe
+    expect(recipe.title).toBe("Grandma's Fluffy Pancakes");
+    expect(recipe.imageUrl).toBe('https://example.com/recipes/pancakes/photos/pancakes.jpg');
+    expect(recipe.ingredients).toEqual([
+      { quantity: 2, unit: 'cups', name: 'all-purpose flour' },
+      { quantity: 2, unit: null, name: 'eggs' },
+      { quantity: 1.75, unit: 'cups', name: 'milk' },
+      { quantity: null, unit: null, name: 'A pinch of salt' },
+    ]);
+    expect(recipe.steps).toHaveLength(3);
+    expect(recipe).toMatchObject({ prepMinutes: 10, cookMinutes: 20, servings: 12 });
+  });
+
+  it('should drop relative images when the page URL is unknown', () => {
+    expect(parseRecipeHtml(fixture('microdata'))!.imageUrl).toBeNull();
+  });
+
+  it('should return null for pages without a recipe', () => {
+    expect(parseRecipeHtml(fixture('no-recipe'))).toBeNull();
+    expect(parseRecipeHtml('')).toBeNull();
+  });
+
+  it('should read ISO 8601 durations', () => {
+    expect(parseIsoDuration('PT1H30M')).toBe(90);
+    expect(parseIsoDuration('P0DT2H30M')).toBe(150);
+    expect(parseIsoDuration('PT45S')).toBe(1);
+    expect(parseIsoDuration('P3D')).toBeNull(); // longer than a meal's limit
+    expect(parseIsoDuration('PT')).toBeNull();
+    expect(parseIsoDuration('30 minutes')).toBeNull();
+  });
+
+  it('should produce meals that pass validation', () => {
+    for (const name of ['wordpress-json-ld', 'sections-json-ld', 'microdata']) {
+      const recipe = parseRecipeHtml(fixture(name)) as ImportedRecipe;
+      expect(validateMeal(toMealRequest(recipe, ['imported']))).toBeNull();
+    }
+  });
+});
+
+describe('Recipe Import Service - Fetching', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let port: number;
+  // The test server is on loopback, which only this host may reach
+  const trusted: RemoteFetchOptions = { trustedHosts: ['127.0.0.1'], timeoutMs: 1000 };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/pancakes/') {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(fixture('microdata'));
+      } else if (req.url === '/about') {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end(fixture('no-recipe'));
+      } else if (req.url === '/moved') {
+        res.writeHead(301, { Location: '/pancakes/' });
+        res.end();
+      } else if (req.url === '/inward') {
+        res.writeHead(302, { Location: `http://localhost:${port}/pancakes/` });
+        res.end();
+      } else if (req.url === '/stalled') {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.write('<html><head><title>Pancakes');
+      } else if (req.url === '/feed.json') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{}');
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should fetch a page and resolve its image against the page URL', async () => {
+    const recipe = await fetchRecipe(`${baseUrl}/pancakes/`, trusted) as ImportedRecipe;
+
+    expect(recipe.title).toBe("Grandma's Fluffy Pancakes");
+    expect(recipe.imageUrl).toBe(`${baseUrl}/pancakes/photos/pancakes.jpg`);
+  });
+
+  it('should explain pages it cannot import', async () => {
+    expect(await fetchRecipe(`${baseUrl}/about`, trusted)).toBe('No recipe found on that page');
+    expect(await fetchRecipe(`${baseUrl}/missing`, trusted)).toBe('The page responded with HTTP 404');
+    expect(await fetchRecipe(`${baseUrl}/feed.json`, trusted)).toBe("That link isn't a web page");
+  });
+
+  it('should follow redirects between public pages', async () => {
+    const recipe = await fetchRecipe(`${baseUrl}/moved`, trusted) as ImportedRecipe;
+
+    expect(recipe.title).toBe("Grandma's Fluffy Pancakes");
+    expect(recipe.imageUrl).toBe(`${baseUrl}/pancakes/photos/pancakes.jpg`);
+  });
+
+  it('should refuse pages and photos on loopback', async () => {
+    expect(await fetchRecipe(`${baseUrl}/pancakes/`)).toBe("Couldn't reach that page");
+    expect(await fetchRecipe(`http://localhost:${port}/pancakes/`)).toBe("Couldn't reach that page");
+    expect(await fetchRecipeImage(`${baseUrl}/pancakes/`)).toBeNull();
+  });
+
+  it('should refuse redirects to loopback', async () => {
+    expect(await fetchRecipe(`${baseUrl}/inward`, trusted)).toBe("Couldn't reach that page");
+    expect(await fetchRecipeImage(`${baseUrl}/inward`, trusted)).toBeNull();
+  });
+
+  it('should give up on a page that stalls after its headers', async () => {
+    expect(await fetchRecipe(`${baseUrl}/stalled`, { ...trusted, timeoutMs: 200 })).toBe("Couldn't reach that page");
+  });
+
+  it('should only treat public addresses as fetchable', () => {
+    for (const address of ['127.0.0.1', '10.0.0.5', '172.16.4.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', '::', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1', 'not-an-ip']) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+    for (const address of ['93.184.216.34', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+  });
+});
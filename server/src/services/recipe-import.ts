@@ -0,0 +1,423 @@
+import dns from 'dns/promises';
+import net from 'net';
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import { CreateMealRequest, Ingredient } from '../types';
+import { parseIngredientLine } from './meal-library';
+import {
+  MAX_INGREDIENTS,
+  MAX_STEPS,
+  MAX_INGREDIENT_NAME_LENGTH,
+  MAX_UNIT_LENGTH,
+  MAX_STEP_LENGTH,
+  MAX_MINUTES,
+  MAX_SERVINGS,
+} from './recipes';
+import { MAX_IMAGE_BYTES } from './images';
+
+// Recipe blogs are heavy, but a page bigger than this isn't one we want to parse
+export const MAX_RECIPE_PAGE_BYTES = 5 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 10 * 1000;
+const MAX_REDIRECTS = 5;
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+export interface ImportedRecipe {
+  title: string;
+  description: string | null;
+  imageUrl: string | null; // absolute; null when missing or relative to an unknown page
+  ingredients: Ingredient[];
+  steps: string[];
+  prepMinutes: number | null;
+  cookMinutes: number | null;
+  servings: number | null;
+}
+
+export interface RemoteFetchOptions {
+  timeoutMs?: number;
+  // Hostnames fetched without the public address check (tests serve pages from 127.0.0.1)
+  trustedHosts?: string[];
+}
+
+// Addresses an import must never reach: loopback, private networks, link-local (including the
+// 169.254.169.254 cloud metadata service), carrier-grade NAT, multicast and unspecified.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 rules.
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+type JsonObject = Record<string, unknown>;
+type Selection = ReturnType<CheerioAPI>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// JSON-LD strings often carry HTML and entities ("Spoon &amp; Fork", "<p>Layers of...</p>")
+function cleanText(value: unknown): string {
+  if (typeof value !== 'string' && typeof value !== 'number') return '';
+  return cheerio.load(`<body>${value}</body>`)('body').text().replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+function resolveUrl(value: string, pageUrl?: string): string | null {
+  try {
+    const url = new URL(value, pageUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// ISO 8601 durations as schema.org uses them: "PT1H30M", "P0DT2H30M"
+export function parseIsoDuration(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+  if (!match || value.trim().toUpperCase() === 'P' || value.trim().toUpperCase() === 'PT') return null;
+
+  const [, days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const total = Number(days) * 24 * 60 + Number(hours) * 60 + Number(minutes) + Math.round(Number(seconds) / 60);
+  return total <= MAX_MINUTES ? total : null;
+}
+
+// recipeYield is free text: 4, "4 servings", "Serves 6 to 8", ["4", "4 servings"]
+function parseServings(value: unknown): number | null {
+  for (const item of asArray(value)) {
+    const match = cleanText(item).match(/\d+/);
+    if (match) {
+      const servings = Number(match[0]);
+      if (servings >= 1 && servings <= MAX_SERVINGS) return servings;
+    }
+  }
+  return null;
+}
+
+function fitIngredient(line: string): Ingredient | null {
+  const text = cleanText(line);
+  if (!text) return null;
+  const ingredient = parseIngredientLine(text);
+  return {
+    quantity: ingredient.quantity,
+    unit: ingredient.unit && ingredient.unit.length <= MAX_UNIT_LENGTH ? ingredient.unit : null,
+    name: truncate(
+      ingredient.unit && ingredient.unit.length > MAX_UNIT_LENGTH ? `${ingredient.unit} ${ingredient.name}` : ingredient.name,
+      MAX_INGREDIENT_NAME_LENGTH
+    ),
+  };
+}
+
+// Fit what the page gave us within the limits meals are validated against
+function toImportedRecipe(raw: {
+  title: string;
+  description: string;
+  image: string | null;
+  ingredients: string[];
+  steps: string[];
+  prepMinutes: number | null;
+  cookMinutes: number | null;
+  servings: number | null;
+}, pageUrl?: string): ImportedRecipe | null {
+  const title = cleanText(raw.title);
+  if (!title) return null;
+
+  return {
+    title,
+    description: raw.description ? truncate(raw.description, MAX_DESCRIPTION_LENGTH) : null,
+    imageUrl: raw.image ? resolveUrl(raw.image, pageUrl) : null,
+    ingredients: raw.ingredients
+      .map(fitIngredient)
+      .filter((i): i is Ingredient => i !== null)
+      .slice(0, MAX_INGREDIENTS),
+    steps: raw.steps
+      .map(s => truncate(s, MAX_STEP_LENGTH))
+      .filter(s => s.length > 0)
+      .slice(0, MAX_STEPS),
+    prepMinutes: raw.prepMinutes,
+    cookMinutes: raw.cookMinutes,
+    servings: raw.servings,
+  };
+}
+
+// ---- JSON-LD ----
+
+function isRecipeType(type: unknown): boolean {
+  return asArray(type).some(t => typeof t === 'string' && /(^|[/:])Recipe$/.test(t));
+}
+
+// Depth-first through arrays, @graph lists and nested objects
+function findRecipeNode(value: unknown, depth = 0): JsonObject | null {
+  if (depth > 10) return null;
+  for (const item of asArray(value)) {
+    if (!isObject(item)) continue;
+    if (isRecipeType(item['@type'])) return item;
+    for (const child of Object.values(item)) {
+      if (typeof child === 'object' && child !== null) {
+        const found = findRecipeNode(child, depth + 1);
+        if (found) return found;
+      }
+    }
+  }
+  return null;
+}
+
+function jsonLdImage(value: unknown): string | null {
+  for (const item of asArray(value)) {
+    if (typeof item === 'string' && item.trim()) return item.trim();
+    if (isObject(item)) {
+      const url = item.url ?? item.contentUrl ?? item['@id'];
+      if (typeof url === 'string' && url.trim()) return url.trim();
+    }
+  }
+  return null;
+}
+
+// Instructions come as one text block, a list of strings, HowToSteps, or HowToSections of steps
+function jsonLdSteps(value: unknown): string[] {
+  if (typeof value === 'string') {
+    const hasMarkup = /<(p|li|br)\b/i.test(value);
+    if (!hasMarkup) {
+      return value.split(/\n+/).map(cleanText).filter(Boolean);
+    }
+    const $ = cheerio.load(value);
+    const blocks = $('li, p').toArray().map(el => cleanText($(el).text()));
+    return blocks.length > 0 ? blocks.filter(Boolean) : [cleanText(value)].filter(Boolean);
+  }
+
+  return asArray(value).flatMap(item => {
+    if (typeof item === 'string') return jsonLdSteps(item);
+    if (!isObject(item)) return [];
+    if (item.itemListElement !== undefined) return jsonLdSteps(item.itemListElement);
+    const text = cleanText(item.text) || cleanText(item.name);
+    return text ? [text] : [];
+  });
+}
+
+function parseJsonLd($: CheerioAPI, pageUrl?: string): ImportedRecipe | null {
+  for (const script of $('script[type="application/ld+json"]').toArray()) {
+    let data: unknown;
+    try {
+      // Some CMSs wrap the JSON in HTML comments or CDATA markers
+      data = JSON.parse($(script).text().replace(/^\s*(<!--|\/\*<!\[CDATA\[\*\/)|(-->|\/\*\]\]>\*\/)\s*$/g, ''));
+    } catch {
+      continue;
+    }
+
+    const node = findRecipeNode(data);
+    if (!node) continue;
+
+    const recipe = toImportedRecipe({
+      title: String(node.name ?? node.headline ?? ''),
+      description: cleanText(node.description),
+      image: jsonLdImage(node.image ?? node.thumbnailUrl),
+      ingredients: asArray(node.recipeIngredient ?? node.ingredients).filter((i): i is string => typeof i === 'string'),
+      steps: jsonLdSteps(node.recipeInstructions),
+      prepMinutes: parseIsoDuration(node.prepTime),
+      cookMinutes: parseIsoDuration(node.cookTime),
+      servings: parseServings(node.recipeYield ?? node.yield),
+    }, pageUrl);
+    if (recipe) return recipe;
+  }
+  return null;
+}
+
+// ---- Microdata ----
+
+// Properties of `scope` itself, not of items nested inside it (an author's name isn't the recipe's name)
+function itemProps($: CheerioAPI, scope: Selection, name: string): Selection {
+  return scope.find(`[itemprop~="${name}"]`).filter((_, el) => {
+    const owner = $(el).parent().closest('[itemscope]');
+    return owner.length > 0 && owner[0] === scope[0];
+  });
+}
+
+function propValue($: CheerioAPI, element: Selection): string {
+  const el = element.first();
+  const tag = (el.prop('tagName') || '').toLowerCase();
+  if (tag === 'meta') return el.attr('content') || '';
+  if (['img', 'audio', 'video', 'source'].includes(tag)) return el.attr('src') || '';
+  if (tag === 'a' || tag === 'link') return el.attr('href') || '';
+  if (tag === 'time') return el.attr('datetime') || el.text();
+  if (tag === 'data' || tag === 'meter') return el.attr('value') || el.text();
+  return el.attr('content') || el.text();
+}
+
+function microdataSteps($: CheerioAPI, scope: Selection): string[] {
+  return itemProps($, scope, 'recipeInstructions').toArray().flatMap(el => {
+    const element = $(el);
+    if (element.is('[itemscope]')) {
+      const text = itemProps($, element, 'text');
+      return [cleanText(text.length > 0 ? propValue($, text) : element.text())];
+    }
+    const blocks = element.find('li, p').toArray();
+    if (blocks.length > 0) return blocks.map(block => cleanText($(block).text()));
+    return [cleanText(propValue($, element))];
+  }).filter(Boolean);
+}
+
+function parseMicrodata($: CheerioAPI, pageUrl?: string): ImportedRecipe | null {
+  const scope = $('[itemscope][itemtype]')
+    .filter((_, el) => isRecipeType(($(el).attr('itemtype') || '').split(/\s+/)))
+    .first();
+  if (scope.length === 0) return null;
+
+  const first = (name: string) => {
+    const props = itemProps($, scope, name);
+    return props.length > 0 ? propValue($, props) : '';
+  };
+
+  return toImportedRecipe({
+    title: first('name'),
+    description: cleanText(first('description')),
+    image: first('image') || null,
+    ingredients: [...itemProps($, scope, 'recipeIngredient').toArray(), ...itemProps($, scope, 'ingredients').toArray()]
+      .map(el => propValue($, $(el))),
+    steps: microdataSteps($, scope),
+    prepMinutes: parseIsoDuration(first('prepTime')),
+    cookMinutes: parseIsoDuration(first('cookTime')),
+    servings: parseServings(first('recipeYield')),
+  }, pageUrl);
+}
+
+// Extract the schema.org Recipe from a page, preferring JSON-LD over microdata. Relative image URLs
+// need the page's URL to resolve. Returns null when the page has no recipe.
+export function parseRecipeHtml(html: string, pageUrl?: string): ImportedRecipe | null {
+  const $ = cheerio.load(html);
+  return parseJsonLd($, pageUrl) || parseMicrodata($, pageUrl);
+}
+
+// The meal to create from an imported recipe (the photo is attached separately)
+export function toMealRequest(recipe: ImportedRecipe, tags: string[] = []): CreateMealRequest {
+  return {
+    title: recipe.title,
+    description: recipe.description ?? undefined,
+    tags,
+    ingredients: recipe.ingredients,
+    steps: recipe.steps,
+    prepMinutes: recipe.prepMinutes,
+    cookMinutes: recipe.cookMinutes,
+    servings: recipe.servings,
+  };
+}
+
+export function isHttpUrl(value: unknown): value is string {
+  return typeof value === 'string' && resolveUrl(value) !== null;
+}
+
+// Read a response body, giving up once it passes maxBytes
+async function readLimited(response: Response, maxBytes: number): Promise<Buffer | null> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes || !response.body) return null;
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+    size += chunk.length;
+    if (size > maxBytes) return null;
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && !blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Resolve the URL's host and only allow it when every address it resolves to is public
+async function isFetchable(url: URL, options: RemoteFetchOptions): Promise<boolean> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (options.trustedHosts?.includes(hostname)) return true;
+  try {
+    const addresses = await dns.lookup(hostname, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+  } catch {
+    return false;
+  }
+}
+
+// GET a URL on the public internet, following redirects only to other public URLs.
+// Null when the URL, or one it redirects to, is refused.
+async function fetchPublic(
+  url: string,
+  init: RequestInit,
+  options: RemoteFetchOptions
+): Promise<{ response: Response; url: string } | null> {
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    if (!await isFetchable(new URL(current), options)) return null;
+    const response = await fetch(current, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: current };
+    }
+    await response.body?.cancel();
+    const next = resolveUrl(location, current);
+    if (!next || redirects >= MAX_REDIRECTS) return null;
+    current = next;
+  }
+}
+
+// Download a recipe page and parse it. Returns the recipe or a message saying what went wrong.
+export async function fetchRecipe(url: string, options: RemoteFetchOptions = {}): Promise<ImportedRecipe | string> {
+  let fetched: { response: Response; url: string } | null;
+  try {
+    fetched = await fetchPublic(url, {
+      headers: { Accept: 'text/html,application/xhtml+xml', 'User-Agent': 'MealMatch recipe importer' },
+      signal: AbortSignal.timeout(options.timeoutMs ?? FETCH_TIMEOUT_MS),
+    }, options);
+  } catch {
+    fetched = null;
+  }
+  if (!fetched) {
+    return "Couldn't reach that page";
+  }
+
+  const { response } = fetched;
+  if (!response.ok) {
+    return `The page responded with HTTP ${response.status}`;
+  }
+  const contentType = response.headers.get('content-type') || '';
+  if (contentType && !/html|xml/i.test(contentType)) {
+    return "That link isn't a web page";
+  }
+
+  // The timeout still runs while the body streams, and the connection can drop mid-page
+  let body: Buffer | null;
+  try {
+    body = await readLimited(response, MAX_RECIPE_PAGE_BYTES);
+  } catch {
+    return "Couldn't reach that page";
+  }
+  if (!body) {
+    return 'That page is too large to import';
+  }
+
+  return parseRecipeHtml(body.toString('utf8'), fetched.url) || 'No recipe found on that page';
+}
+
+// Download a recipe photo; null when it can't be fetched, is too large or isn't on a public host
+export async function fetchRecipeImage(url: string, options: RemoteFetchOptions = {}): Promise<Buffer | null> {
+  try {
+    const fetched = await fetchPublic(url, { signal: AbortSignal.timeout(options.timeoutMs ?? FETCH_TIMEOUT_MS) }, options);
+    if (!fetched?.response.ok) return null;
+    return await readLimited(fetched.response, MAX_IMAGE_BYTES);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { validateRecipe, recipeColumns, toRecipeDetails } from './recipes';
+
+describe('Recipes Service - Validation', () => {
+  it('should accept a complete recipe', () => {
+    expect(validateRecipe({
+      ingredients: [
+        { quantity: 200, unit: 'g', name: 'spaghetti' },
+        { quantity: null, unit: null, name: 'salt' },
+      ],
+      steps: ['Boil water', 'Cook pasta'],
+      prepMinutes: 5,
+      cookMinutes: 10,
+      difficulty: 'easy',
+    })).toBeNull();
+  });
+
+  it('should accept an empty request', () => {
+    expect(validateRecipe({})).toBeNull();
+  });
+
+  it('should reject malformed ingredients', () => {
+    expect(validateRecipe({ ingredients: 'flour' as never })).toBe('Ingredients must be a list');
+    expect(validateRecipe({ ingredients: [{ quantity: 1, unit: 'cup', name: ' ' }] })).toBe('Each ingredient needs a name');
+    expect(validateRecipe({ ingredients: [{ quantity: -1, unit: 'cup', name: 'flour' }] })).toContain('positive number');
+    expect(validateRecipe({ ingredients: [{ quantity: 1, unit: 'x'.repeat(21), name: 'flour' }] })).toContain('Units');
+  });
+
+  it('should reject bad timings, steps and difficulty', () => {
+    expect(validateRecipe({ prepMinutes: 2.5 })).toContain('Prep time');
+    expect(validateRecipe({ cookMinutes: -5 })).toContain('Cook time');
+    expect(validateRecipe({ prepMinutes: null, cookMinutes: null, difficulty: null })).toBeNull();
+    expect(validateRecipe({ steps: [1] as never })).toBe('Steps must be a list of text');
+    expect(validateRecipe({ difficulty: 'impossible' as never })).toContain('Difficulty');
+    expect(validateRecipe({ servings: 0 })).toContain('Servings');
+    expect(validateRecipe({ servings: 4 })).toBeNull();
+  });
+});
+
+describe('Recipes Service - Storage', () => {
+  it('should only write the fields present in the request', () => {
+    expect(recipeColumns({ difficulty: 'hard' })).toEqual([['difficulty', 'hard']]);
+  });
+
+  it('should trim ingredients and drop blank steps', () => {
+    const columns = Object.fromEntries(recipeColumns({
+      ingredients: [{ quantity: 2, unit: ' tbsp ', name: ' olive oil ' }],
+      steps: ['  Heat oil ', '', '   '],
+    }));
+
+    expect(JSON.parse(columns.ingredients as string)).toEqual([{ quantity: 2, unit: 'tbsp', name: 'olive oil' }]);
+    expect(JSON.parse(columns.steps as string)).toEqual(['Heat oil']);
+  });
+
+  it('should store empty lists as null', () => {
+    expect(recipeColumns({ ingredients: [], steps: [] })).toEqual([['ingredients', null], ['steps', null]]);
+  });
+
+  it('should round-trip stored columns into recipe details', () => {
+    const details = toRecipeDetails({
+      ingredients: JSON.stringify([{ quantity: 1, unit: null, name: 'onion' }]),
+      steps: JSON.stringify(['Chop']),
+      prep_minutes: 10,
+      cook_minutes: null,
+      difficulty: 'medium',
+      servings: 4,
+    });
+
+    expect(details).toEqual({
+      ingredients: [{ quantity: 1, unit: null, name: 'onion' }],
+      steps: ['Chop'],
+      prepMinutes: 10,
+      cookMinutes: null,
+      difficulty: 'medium',
+      servings: 4,
+    });
+  });
+
+  it('should treat unreadable stored lists as empty', () => {
+    const details = toRecipeDetails({
+      ingredients: 'not json',
+      steps: null,
+      prep_minutes: null,
+      cook_minutes: null,
+      difficulty: null,
+      servings: null,
+    });
+
+    expect(details.ingredients).toEqual([]);
+    expect(details.steps).toEqual([]);
+  });
+});
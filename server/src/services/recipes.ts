@@ -0,0 +1,161 @@
+import { Meal, Difficulty, Ingredient, RecipeRequest } from '../types';
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const MAX_INGREDIENTS = 100;
+export const MAX_STEPS = 50;
+export const MAX_INGREDIENT_NAME_LENGTH = 100;
+export const MAX_UNIT_LENGTH = 20;
+export const MAX_STEP_LENGTH = 1000;
+// A day is plenty for anything short of curing or fermenting
+export const MAX_MINUTES = 24 * 60;
+export const MAX_SERVINGS = 100;
+
+export interface RecipeDetails {
+  ingredients: Ingredient[];
+  steps: string[];
+  prepMinutes: number | null;
+  cookMinutes: number | null;
+  difficulty: Difficulty | null;
+  servings: number | null;
+}
+
+function validateMinutes(value: unknown, label: string): string | null {
+  if (value === null) return null;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > MAX_MINUTES) {
+    return `${label} must be a whole number of minutes between 0 and ${MAX_MINUTES}`;
+  }
+  return null;
+}
+
+function validateIngredient(ingredient: unknown): string | null {
+  if (!ingredient || typeof ingredient !== 'object') {
+    return 'Each ingredient needs a name';
+  }
+
+  const { quantity, unit, name } = ingredient as Record<string, unknown>;
+
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    return 'Each ingredient needs a name';
+  }
+  if (name.trim().length > MAX_INGREDIENT_NAME_LENGTH) {
+    return `Ingredient names must be at most ${MAX_INGREDIENT_NAME_LENGTH} characters`;
+  }
+  if (quantity !== undefined && quantity !== null && (typeof quantity !== 'number' || !(quantity > 0) || !isFinite(quantity))) {
+    return `Quantity for "${name.trim()}" must be a positive number`;
+  }
+  if (unit !== undefined && unit !== null && (typeof unit !== 'string' || unit.trim().length > MAX_UNIT_LENGTH)) {
+    return `Units must be at most ${MAX_UNIT_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Validate only the recipe fields present in the request, so PATCH can update them one at a time
+export function validateRecipe(input: RecipeRequest): string | null {
+  const { ingredients, steps, prepMinutes, cookMinutes, difficulty, servings } = input;
+
+  if (ingredients !== undefined) {
+    if (!Array.isArray(ingredients)) {
+      return 'Ingredients must be a list';
+    }
+    if (ingredients.length > MAX_INGREDIENTS) {
+      return `A recipe can have at most ${MAX_INGREDIENTS} ingredients`;
+    }
+    for (const ingredient of ingredients) {
+      const error = validateIngredient(ingredient);
+      if (error) return error;
+    }
+  }
+
+  if (steps !== undefined) {
+    if (!Array.isArray(steps) || steps.some(s => typeof s !== 'string')) {
+      return 'Steps must be a list of text';
+    }
+    if (steps.length > MAX_STEPS) {
+      return `A recipe can have at most ${MAX_STEPS} steps`;
+    }
+    if (steps.some(s => s.trim().length > MAX_STEP_LENGTH)) {
+      return `Steps must be at most ${MAX_STEP_LENGTH} characters`;
+    }
+  }
+
+  if (prepMinutes !== undefined) {
+    const error = validateMinutes(prepMinutes, 'Prep time');
+    if (error) return error;
+  }
+
+  if (cookMinutes !== undefined) {
+    const error = validateMinutes(cookMinutes, 'Cook time');
+    if (error) return error;
+  }
+
+  if (difficulty !== undefined && difficulty !== null && !DIFFICULTIES.includes(difficulty)) {
+    return `Difficulty must be one of: ${DIFFICULTIES.join(', ')}`;
+  }
+
+  if (
+    servings !== undefined &&
+    servings !== null &&
+    (typeof servings !== 'number' || !Number.isInteger(servings) || servings < 1 || servings > MAX_SERVINGS)
+  ) {
+    return `Servings must be a whole number between 1 and ${MAX_SERVINGS}`;
+  }
+
+  return null;
+}
+
+export function normalizeIngredients(ingredients: Ingredient[]): Ingredient[] {
+  return ingredients.map(i => ({
+    quantity: i.quantity ?? null,
+    unit: i.unit?.trim() || null,
+    name: i.name.trim(),
+  }));
+}
+
+// Blank steps are dropped rather than rejected so editors can leave an empty last row
+export function normalizeSteps(steps: string[]): string[] {
+  return steps.map(s => s.trim()).filter(s => s.length > 0);
+}
+
+// Column/value pairs for the recipe fields present in a validated request
+export function recipeColumns(input: RecipeRequest): Array<[string, unknown]> {
+  const columns: Array<[string, unknown]> = [];
+
+  if (input.ingredients !== undefined) {
+    const ingredients = normalizeIngredients(input.ingredients);
+    columns.push(['ingredients', ingredients.length > 0 ? JSON.stringify(ingredients) : null]);
+  }
+  if (input.steps !== undefined) {
+    const steps = normalizeSteps(input.steps);
+    columns.push(['steps', steps.length > 0 ? JSON.stringify(steps) : null]);
+  }
+  if (input.prepMinutes !== undefined) columns.push(['prep_minutes', input.prepMinutes]);
+  if (input.cookMinutes !== undefined) columns.push(['cook_minutes', input.cookMinutes]);
+  if (input.difficulty !== undefined) columns.push(['difficulty', input.difficulty]);
+  if (input.servings !== undefined) columns.push(['servings', input.servings]);
+
+  return columns;
+}
+
+function parseList<T>(json: string | null): T[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function toRecipeDetails(
+  meal: Pick<Meal, 'ingredients' | 'steps' | 'prep_minutes' | 'cook_minutes' | 'difficulty' | 'servings'>
+): RecipeDetails {
+  return {
+    ingredients: parseList<Ingredient>(meal.ingredients),
+    steps: parseList<string>(meal.steps),
+    prepMinutes: meal.prep_minutes ?? null,
+    cookMinutes: meal.cook_minutes ?? null,
+    difficulty: meal.difficulty ?? null,
+    servings: meal.servings ?? null,
+  };
+}
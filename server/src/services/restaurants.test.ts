@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateRestaurant,
+  restaurantColumns,
+  toRestaurantDetails,
+  isOpenAt,
+  openNowStatus,
+  isMealType,
+} from './restaurants';
+
+// Local-time dates so the checks match how the server reads opening hours
+const at = (day: number, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  // 2024-01-07 was a Sunday
+  return new Date(2024, 0, 7 + day, hours, minutes);
+};
+
+describe('Restaurants Service - Validation', () => {
+  it('should accept complete restaurant details', () => {
+    expect(validateRestaurant({
+      address: '1 Main St, Springfield',
+      cuisine: 'Thai',
+      priceTier: 2,
+      hours: [{ day: 1, open: '11:00', close: '22:00' }],
+      phone: '+1 (555) 123-4567',
+      websiteUrl: 'https://example.com/menu',
+    })).toBeNull();
+  });
+
+  it('should accept an empty request and cleared fields', () => {
+    expect(validateRestaurant({})).toBeNull();
+    expect(validateRestaurant({ address: null, priceTier: null, phone: null, websiteUrl: null, hours: [] })).toBeNull();
+  });
+
+  it('should reject bad price tiers, phones and URLs', () => {
+    expect(validateRestaurant({ priceTier: 5 })).toContain('Price tier');
+    expect(validateRestaurant({ priceTier: 1.5 })).toContain('Price tier');
+    expect(validateRestaurant({ phone: 'call us' })).toContain('Phone');
+    expect(validateRestaurant({ websiteUrl: 'javascript:alert(1)' })).toContain('http');
+    expect(validateRestaurant({ address: 'x'.repeat(201) })).toContain('Address');
+  });
+
+  it('should reject malformed opening hours', () => {
+    expect(validateRestaurant({ hours: 'always' as never })).toBe('Opening hours must be a list');
+    expect(validateRestaurant({ hours: [{ day: 7, open: '09:00', close: '17:00' }] })).toContain('Opening days');
+    expect(validateRestaurant({ hours: [{ day: 1, open: '9am', close: '17:00' }] })).toContain('HH:MM');
+    expect(validateRestaurant({ hours: [{ day: 1, open: '24:00', close: '17:00' }] })).toContain('HH:MM');
+  });
+
+  it('should recognise meal types', () => {
+    expect(isMealType('meal')).toBe(true);
+    expect(isMealType('restaurant')).toBe(true);
+    expect(isMealType('takeaway')).toBe(false);
+  });
+});
+
+describe('Restaurants Service - Storage', () => {
+  it('should only include fields present in the request', () => {
+    expect(restaurantColumns({ cuisine: ' Thai ' })).toEqual([['cuisine', 'Thai']]);
+  });
+
+  it('should store blank text and empty hours as null', () => {
+    expect(restaurantColumns({ address: '  ', hours: [] })).toEqual([
+      ['address', null],
+      ['opening_hours', null],
+    ]);
+  });
+
+  it('should sort opening hours and round-trip them', () => {
+    const [[, json]] = restaurantColumns({
+      hours: [
+        { day: 2, open: '17:00', close: '22:00' },
+        { day: 1, open: '11:00', close: '14:00' },
+        { day: 2, open: '11:00', close: '14:00' },
+      ],
+    });
+
+    const details = toRestaurantDetails({
+      address: null,
+      cuisine: null,
+      price_tier: null,
+      opening_hours: json as string,
+      phone: null,
+      website_url: null,
+    });
+
+    expect(details.hours.map(h => `${h.day} ${h.open}`)).toEqual(['1 11:00', '2 11:00', '2 17:00']);
+  });
+});
+
+describe('Restaurants Service - Opening Hours', () => {
+  const hours = [
+    { day: 1, open: '11:00', close: '14:00' },
+    { day: 1, open: '17:00', close: '22:00' },
+    { day: 5, open: '18:00', close: '02:00' }, // Friday late night
+  ];
+
+  it('should be open inside a period and closed between periods', () => {
+    expect(isOpenAt(hours, at(1, '12:30'))).toBe(true);
+    expect(isOpenAt(hours, at(1, '15:00'))).toBe(false);
+    expect(isOpenAt(hours, at(1, '22:00'))).toBe(false);
+    expect(isOpenAt(hours, at(2, '12:30'))).toBe(false);
+  });
+
+  it('should carry periods past midnight into the next day', () => {
+    expect(isOpenAt(hours, at(5, '23:30'))).toBe(true);
+    expect(isOpenAt(hours, at(6, '01:30'))).toBe(true);
+    expect(isOpenAt(hours, at(6, '02:00'))).toBe(false);
+  });
+
+  it('should wrap Saturday night into Sunday', () => {
+    expect(isOpenAt([{ day: 6, open: '20:00', close: '01:00' }], at(0, '00:30'))).toBe(true);
+  });
+
+  it('should treat matching open and close times as open all day', () => {
+    expect(isOpenAt([{ day: 3, open: '00:00', close: '00:00' }], at(3, '04:00'))).toBe(true);
+  });
+
+  it('should return null when no hours are known', () => {
+    expect(isOpenAt([], at(1, '12:00'))).toBeNull();
+  });
+
+  it('should only report open-now status for restaurants', () => {
+    const json = JSON.stringify(hours);
+    expect(openNowStatus({ type: 'restaurant', opening_hours: json }, at(1, '12:00'))).toBe(true);
+    expect(openNowStatus({ type: 'restaurant', opening_hours: json }, at(3, '12:00'))).toBe(false);
+    expect(openNowStatus({ type: 'meal', opening_hours: json }, at(1, '12:00'))).toBeNull();
+  });
+});
@@ -0,0 +1,194 @@
+import { Meal, MealType, OpeningHours, RestaurantRequest } from '../types';
+
+export const MEAL_TYPES: MealType[] = ['meal', 'restaurant'];
+
+export const MAX_ADDRESS_LENGTH = 200;
+export const MAX_CUISINE_LENGTH = 50;
+export const MAX_PHONE_LENGTH = 30;
+export const MAX_URL_LENGTH = 500;
+export const MAX_PRICE_TIER = 4;
+// Four periods a day covers split lunch/dinner service with room to spare
+export const MAX_OPENING_PERIODS = 28;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const PHONE_PATTERN = /^[0-9+()\-.\s]+$/;
+
+export interface RestaurantDetails {
+  address: string | null;
+  cuisine: string | null;
+  priceTier: number | null;
+  hours: OpeningHours[];
+  phone: string | null;
+  websiteUrl: string | null;
+}
+
+export function isMealType(value: unknown): value is MealType {
+  return typeof value === 'string' && MEAL_TYPES.includes(value as MealType);
+}
+
+function validateText(value: unknown, label: string, maxLength: number): string | null {
+  if (value === null) return null;
+  if (typeof value !== 'string') return `${label} must be text`;
+  if (value.trim().length > maxLength) return `${label} must be at most ${maxLength} characters`;
+  return null;
+}
+
+function validatePeriod(period: unknown): string | null {
+  if (!period || typeof period !== 'object') {
+    return 'Each opening period needs a day, open and close time';
+  }
+
+  const { day, open, close } = period as Record<string, unknown>;
+
+  if (typeof day !== 'number' || !Number.isInteger(day) || day < 0 || day > 6) {
+    return 'Opening days must be 0 (Sunday) to 6 (Saturday)';
+  }
+  if (typeof open !== 'string' || !TIME_PATTERN.test(open) || typeof close !== 'string' || !TIME_PATTERN.test(close)) {
+    return 'Opening times must be in HH:MM format';
+  }
+  return null;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Validate only the restaurant fields present in the request, so PATCH can update them one at a time
+export function validateRestaurant(input: RestaurantRequest): string | null {
+  const { address, cuisine, priceTier, hours, phone, websiteUrl } = input;
+
+  if (address !== undefined) {
+    const error = validateText(address, 'Address', MAX_ADDRESS_LENGTH);
+    if (error) return error;
+  }
+
+  if (cuisine !== undefined) {
+    const error = validateText(cuisine, 'Cuisine', MAX_CUISINE_LENGTH);
+    if (error) return error;
+  }
+
+  if (
+    priceTier !== undefined &&
+    priceTier !== null &&
+    (typeof priceTier !== 'number' || !Number.isInteger(priceTier) || priceTier < 1 || priceTier > MAX_PRICE_TIER)
+  ) {
+    return `Price tier must be a whole number between 1 and ${MAX_PRICE_TIER}`;
+  }
+
+  if (hours !== undefined) {
+    if (!Array.isArray(hours)) {
+      return 'Opening hours must be a list';
+    }
+    if (hours.length > MAX_OPENING_PERIODS) {
+      return `A restaurant can have at most ${MAX_OPENING_PERIODS} opening periods`;
+    }
+    for (const period of hours) {
+      const error = validatePeriod(period);
+      if (error) return error;
+    }
+  }
+
+  if (phone !== undefined) {
+    const error = validateText(phone, 'Phone', MAX_PHONE_LENGTH);
+    if (error) return error;
+    if (phone && phone.trim() && (!PHONE_PATTERN.test(phone.trim()) || !/\d/.test(phone))) {
+      return 'Phone can only contain digits, spaces and + ( ) - .';
+    }
+  }
+
+  if (websiteUrl !== undefined) {
+    const error = validateText(websiteUrl, 'Website', MAX_URL_LENGTH);
+    if (error) return error;
+    if (websiteUrl && websiteUrl.trim() && !isHttpUrl(websiteUrl.trim())) {
+      return 'Website must be an http or https URL';
+    }
+  }
+
+  return null;
+}
+
+export function normalizeHours(hours: OpeningHours[]): OpeningHours[] {
+  return hours
+    .map(({ day, open, close }) => ({ day, open, close }))
+    .sort((a, b) => a.day - b.day || a.open.localeCompare(b.open));
+}
+
+// Column/value pairs for the restaurant fields present in a validated request
+export function restaurantColumns(input: RestaurantRequest): Array<[string, unknown]> {
+  const columns: Array<[string, unknown]> = [];
+  const text = (value: string | null) => value?.trim() || null;
+
+  if (input.address !== undefined) columns.push(['address', text(input.address)]);
+  if (input.cuisine !== undefined) columns.push(['cuisine', text(input.cuisine)]);
+  if (input.priceTier !== undefined) columns.push(['price_tier', input.priceTier]);
+  if (input.hours !== undefined) {
+    const hours = normalizeHours(input.hours);
+    columns.push(['opening_hours', hours.length > 0 ? JSON.stringify(hours) : null]);
+  }
+  if (input.phone !== undefined) columns.push(['phone', text(input.phone)]);
+  if (input.websiteUrl !== undefined) columns.push(['website_url', text(input.websiteUrl)]);
+
+  return columns;
+}
+
+export function parseHours(json: string | null): OpeningHours[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function toRestaurantDetails(
+  meal: Pick<Meal, 'address' | 'cuisine' | 'price_tier' | 'opening_hours' | 'phone' | 'website_url'>
+): RestaurantDetails {
+  return {
+    address: meal.address ?? null,
+    cuisine: meal.cuisine ?? null,
+    priceTier: meal.price_tier ?? null,
+    hours: parseHours(meal.opening_hours),
+    phone: meal.phone ?? null,
+    websiteUrl: meal.website_url ?? null,
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Whether the hours include the given moment (server local time, like template schedules).
+// Returns null when no hours are recorded, since "unknown" should not count as closed.
+export function isOpenAt(hours: OpeningHours[], date: Date): boolean | null {
+  if (hours.length === 0) return null;
+
+  const day = date.getDay();
+  const now = date.getHours() * 60 + date.getMinutes();
+
+  return hours.some(period => {
+    const open = toMinutes(period.open);
+    const close = toMinutes(period.close);
+
+    if (close > open) {
+      return period.day === day && now >= open && now < close;
+    }
+    // Runs past midnight (or all day when open equals close)
+    return (period.day === day && now >= open) || ((period.day + 1) % 7 === day && now < close);
+  });
+}
+
+// Open-now status for list responses: null for meals and restaurants without hours
+export function openNowStatus(
+  meal: Pick<Meal, 'type' | 'opening_hours'>,
+  now: Date = new Date()
+): boolean | null {
+  if (meal.type !== 'restaurant') return null;
+  return isOpenAt(parseHours(meal.opening_hours), now);
+}
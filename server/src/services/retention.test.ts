@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { initializeDatabase, runQuery, getOne, getAll } from '../db/schema';
+import { createQuickSession } from './quick-session';
+import { saveSwipe } from './swipe-progress';
+import { Participant } from '../types';
+import { saveImage, getImagesDirectory } from './images';
+import { getRetentionPolicy, purgeStaleSessions, DEFAULT_CLOSED_RETENTION_DAYS } from './retention';
+
+const LONG_AGO = '2000-01-01 00:00:00';
+
+// A quick session with one swipe from its creator, made to look as old as needed
+function quickSession(age: { createdAt?: string; closedAt?: string } = {}, hostId?: string): string {
+  const created = createQuickSession({ creatorName: 'Dee', meals: [{ title: 'Pho' }, { title: 'Laksa' }] }, { hostId });
+  const participant = getOne<Participant>('SELECT * FROM participants WHERE id = ?', [created.participantId])!;
+  saveSwipe(participant, created.meals[0].sessionMealId, 1);
+
+  if (age.createdAt) {
+    runQuery('UPDATE sessions SET created_at = ? WHERE id = ?', [age.createdAt, created.session.id]);
+  }
+  if (age.closedAt) {
+    runQuery("UPDATE sessions SET status = 'closed', closed_at = ? WHERE id = ?", [age.closedAt, created.session.id]);
+  }
+  return created.session.id;
+}
+
+function exists(sessionId: string): boolean {
+  return !!getOne('SELECT id FROM sessions WHERE id = ?', [sessionId]);
+}
+
+describe('Retention Service', () => {
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  it('should read retention days from the environment', () => {
+    expect(getRetentionPolicy({})).toEqual({ closedDays: DEFAULT_CLOSED_RETENTION_DAYS, openDays: 7 });
+    expect(getRetentionPolicy({ RETENTION_CLOSED_DAYS: '90', RETENTION_OPEN_DAYS: '0' })).toEqual({ closedDays: 90, openDays: 0 });
+    expect(getRetentionPolicy({ RETENTION_CLOSED_DAYS: 'forever', RETENTION_OPEN_DAYS: '-1' })).toEqual({ closedDays: 30, openDays: 7 });
+  });
+
+  it('should report a dry run without deleting anything', () => {
+    const stale = quickSession({ createdAt: LONG_AGO });
+
+    const report = purgeStaleSessions(new Date(), { dryRun: true });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.sessions).toBeGreaterThanOrEqual(1);
+    expect(report.meals).toBeGreaterThanOrEqual(2);
+    expect(exists(stale)).toBe(true);
+    expect(getAll('SELECT id FROM session_meals WHERE session_id = ?', [stale])).toHaveLength(2);
+  });
+
+  it('should purge stale anonymous sessions with their participants, swipes and meals', () => {
+    const hostId = `retention-host-${uuidv4()}`;
+    runQuery('INSERT INTO hosts (id, email, password_hash) VALUES (?, ?, ?)', [hostId, `${hostId}@test.com`, 'hash']);
+
+    const closedLongAgo = quickSession({ createdAt: LONG_AGO, closedAt: LONG_AGO });
+    const neverClosed = quickSession({ createdAt: LONG_AGO });
+    const closedRecently = quickSession({ createdAt: LONG_AGO, closedAt: new Date().toISOString() });
+    const fresh = quickSession();
+    const owned = quickSession({ createdAt: LONG_AGO, closedAt: LONG_AGO }, hostId);
+
+    const staleMeals = getAll<{ meal_id: string }>(
+      'SELECT meal_id FROM session_meals WHERE session_id IN (?, ?)',
+      [closedLongAgo, neverClosed]
+    ).map(sm => sm.meal_id);
+    const staleParticipants = getAll<{ id: string }>(
+      'SELECT id FROM participants WHERE session_id IN (?, ?)',
+      [closedLongAgo, neverClosed]
+    ).map(p => p.id);
+
+    const report = purgeStaleSessions();
+
+    expect(report.dryRun).toBe(false);
+    expect(report.sessions).toBeGreaterThanOrEqual(2);
+    expect(report.swipes).toBeGreaterThanOrEqual(2);
+    expect(exists(closedLongAgo)).toBe(false);
+    expect(exists(neverClosed)).toBe(false);
+    expect(exists(closedRecently)).toBe(true);
+    expect(exists(fresh)).toBe(true);
+    expect(exists(owned)).toBe(true);
+
+    for (const mealId of staleMeals) {
+      expect(getOne('SELECT id FROM meals WHERE id = ?', [mealId])).toBeUndefined();
+    }
+    for (const participantId of staleParticipants) {
+      expect(getOne('SELECT id FROM participants WHERE id = ?', [participantId])).toBeUndefined();
+      expect(getOne('SELECT id FROM swipes WHERE participant_id = ?', [participantId])).toBeUndefined();
+    }
+    expect(getAll('SELECT id FROM session_meals WHERE session_id = ?', [owned])).toHaveLength(2);
+
+    // Nothing left to do
+    expect(purgeStaleSessions()).toMatchObject({ sessions: 0, meals: 0 });
+  });
+
+  it('should delete the photos of purged meals, but not on a dry run', async () => {
+    const stale = quickSession({ createdAt: LONG_AGO });
+    const png = await sharp({ create: { width: 10, height: 10, channels: 3, background: { r: 0, g: 0, b: 0 } } })
+      .png()
+      .toBuffer();
+    const imageId = await saveImage(png);
+    runQuery(
+      'UPDATE meals SET image_id = ? WHERE id = (SELECT meal_id FROM session_meals WHERE session_id = ? LIMIT 1)',
+      [imageId, stale]
+    );
+    const card = path.join(getImagesDirectory(), `${imageId}-card.webp`);
+
+    purgeStaleSessions(new Date(), { dryRun: true });
+    expect(fs.existsSync(card)).toBe(true);
+
+    purgeStaleSessions();
+    expect(exists(stale)).toBe(false);
+    expect(fs.existsSync(card)).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+import { runQuery, getOne, getAll, runTransaction } from '../db/schema';
+import { deleteImage } from './images';
+
+export const DEFAULT_CLOSED_RETENTION_DAYS = 30;
+export const DEFAULT_OPEN_RETENTION_DAYS = 7;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface RetentionPolicy {
+  closedDays: number; // anonymous sessions are kept this long after closing
+  openDays: number; // and this long after creation if they never closed
+}
+
+export interface RetentionReport {
+  dryRun: boolean;
+  closedBefore: string;
+  createdBefore: string;
+  sessions: number;
+  sessionMeals: number;
+  participants: number;
+  swipes: number;
+  meals: number; // temporary meals left in no session
+}
+
+let lastPurgeAt = 0;
+
+function days(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && parsed >= 0 ? parsed : fallback;
+}
+
+export function getRetentionPolicy(env: NodeJS.ProcessEnv = process.env): RetentionPolicy {
+  return {
+    closedDays: days(env.RETENTION_CLOSED_DAYS, DEFAULT_CLOSED_RETENTION_DAYS),
+    openDays: days(env.RETENTION_OPEN_DAYS, DEFAULT_OPEN_RETENTION_DAYS),
+  };
+}
+
+function daysBefore(now: Date, count: number): string {
+  return new Date(now.getTime() - count * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// Anonymous quick sessions past their retention; takes the closedBefore and createdBefore cutoffs.
+// Sessions owned by an account, claimed ones included, are kept.
+const STALE_SESSIONS = `
+  SELECT id FROM sessions
+  WHERE substr(host_id, 1, 5) = 'temp_'
+    AND ((status = 'closed' AND datetime(COALESCE(closed_at, created_at)) <= datetime(?))
+      OR (status != 'closed' AND datetime(created_at) <= datetime(?)))`;
+
+// Everything else keyed by session, deleted along with it (swipes go first, through participants)
+const SESSION_TABLES = [
+  'runoff_votes',
+  'runoff_candidates',
+  'session_invites',
+  'participants',
+  'session_meals',
+  'session_history',
+  'chat_sessions',
+];
+
+// Temporary meals no session offers or picked any more
+const ORPHANED_MEALS = `
+  FROM meals
+  WHERE temporary = 1
+    AND id NOT IN (SELECT meal_id FROM session_meals)
+    AND id NOT IN (SELECT selected_meal_id FROM sessions WHERE selected_meal_id IS NOT NULL)
+    AND id NOT IN (SELECT selected_meal_id FROM session_history)`;
+
+function count(sql: string, params: unknown[] = []): number {
+  return getOne<{ count: number }>(`SELECT COUNT(*) as count ${sql}`, params)?.count ?? 0;
+}
+
+// Thrown to roll back a dry run once everything has been counted
+class DryRunRollback extends Error {
+  constructor(readonly report: RetentionReport) {
+    super('Dry run');
+  }
+}
+
+// Delete stale anonymous quick sessions with everything that belongs to them, then the temporary meals
+// nothing refers to any more and, once that has committed, their photos. A dry run does the same and rolls
+// it back, reporting exactly what would go and leaving every file in place.
+export function purgeStaleSessions(
+  now: Date = new Date(),
+  { dryRun = false, policy = getRetentionPolicy() }: { dryRun?: boolean; policy?: RetentionPolicy } = {}
+): RetentionReport {
+  const closedBefore = daysBefore(now, policy.closedDays);
+  const createdBefore = daysBefore(now, policy.openDays);
+
+  try {
+    const { report, imageIds } = runTransaction(() => {
+      const cutoffs = [closedBefore, createdBefore];
+      const participantsOf = `SELECT id FROM participants WHERE session_id IN (${STALE_SESSIONS})`;
+
+      const report: RetentionReport = {
+        dryRun,
+        closedBefore,
+        createdBefore,
+        sessions: count(`FROM (${STALE_SESSIONS})`, cutoffs),
+        sessionMeals: count(`FROM session_meals WHERE session_id IN (${STALE_SESSIONS})`, cutoffs),
+        participants: count(`FROM (${participantsOf})`, cutoffs),
+        swipes: count(`FROM swipes WHERE participant_id IN (${participantsOf})`, cutoffs),
+        meals: 0,
+      };
+
+      runQuery(`DELETE FROM swipes WHERE participant_id IN (${participantsOf})`, cutoffs);
+      for (const table of SESSION_TABLES) {
+        runQuery(`DELETE FROM ${table} WHERE session_id IN (${STALE_SESSIONS})`, cutoffs);
+      }
+      runQuery(`DELETE FROM sessions WHERE id IN (${STALE_SESSIONS})`, cutoffs);
+
+      report.meals = count(ORPHANED_MEALS);
+      const imageIds = getAll<{ image_id: string }>(`SELECT image_id ${ORPHANED_MEALS} AND image_id IS NOT NULL`)
+        .map(meal => meal.image_id);
+      runQuery(`DELETE FROM meal_tags WHERE meal_id IN (SELECT id ${ORPHANED_MEALS})`);
+      runQuery(`DELETE FROM meals WHERE id IN (SELECT id ${ORPHANED_MEALS})`);
+
+      if (dryRun) throw new DryRunRollback(report);
+      return { report, imageIds };
+    });
+
+    for (const imageId of imageIds) deleteImage(imageId);
+    return report;
+  } catch (error) {
+    if (error instanceof DryRunRollback) return error.report;
+    throw error;
+  }
+}
+
+// Purge at most once an hour; called on every scheduler tick
+export function runDueRetention(now: Date = new Date()): RetentionReport | null {
+  if (now.getTime() - lastPurgeAt < PURGE_INTERVAL_MS) return null;
+  lastPurgeAt = now.getTime();
+  return purgeStaleSessions(now);
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { selectRunoffCandidates, decideRunoff } from './runoff';
+import { MatchResult, RunoffTally } from '../types';
+
+function result(mealId: string, score: number): MatchResult {
+  return {
+    mealId,
+    title: mealId,
+    description: null,
+    imageUrl: null,
+    thumbnailUrl: null,
+    yesCount: 0,
+    maybeCount: 0,
+    totalVotes: 0,
+    percentage: score,
+    score,
+    scoringMode: 'approval',
+    isUnanimous: false,
+  };
+}
+
+function tally(mealId: string, votes: number): RunoffTally {
+  return { mealId, title: mealId, description: null, votes };
+}
+
+describe('Runoff Service - Candidate Selection', () => {
+  it('should take the top N results', () => {
+    const results = [result('a', 100), result('b', 80), result('c', 60), result('d', 40)];
+
+    const candidates = selectRunoffCandidates(results, 2);
+
+    expect(candidates.map(c => c.mealId)).toEqual(['a', 'b']);
+  });
+
+  it('should keep meals tied at the cutoff', () => {
+    const results = [result('a', 100), result('b', 80), result('c', 80), result('d', 40)];
+
+    const candidates = selectRunoffCandidates(results, 2);
+
+    expect(candidates.map(c => c.mealId)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should return every result when there are fewer than N', () => {
+    const results = [result('a', 100), result('b', 80)];
+
+    expect(selectRunoffCandidates(results, 3)).toHaveLength(2);
+  });
+});
+
+describe('Runoff Service - Deciding the Winner', () => {
+  it('should pick the meal with the most votes', () => {
+    const outcome = decideRunoff([tally('a', 1), tally('b', 3), tally('c', 0)]);
+
+    expect(outcome.winnerMealId).toBe('b');
+    expect(outcome.tiedMealIds).toEqual([]);
+  });
+
+  it('should break ties at random and record the tied meals', () => {
+    const votes = [tally('a', 2), tally('b', 2), tally('c', 1)];
+
+    const first = decideRunoff(votes, () => 0);
+    const last = decideRunoff(votes, () => 0.99);
+
+    expect(first.winnerMealId).toBe('a');
+    expect(last.winnerMealId).toBe('b');
+    expect(first.tiedMealIds).toEqual(['a', 'b']);
+  });
+
+  it('should treat a runoff with no ballots as a tie between all candidates', () => {
+    const outcome = decideRunoff([tally('a', 0), tally('b', 0)], () => 0.5);
+
+    expect(outcome.winnerMealId).toBe('b');
+    expect(outcome.tiedMealIds).toEqual(['a', 'b']);
+  });
+
+  it('should reject a runoff without candidates', () => {
+    expect(() => decideRunoff([])).toThrow('Runoff has no candidates');
+  });
+});
@@ -0,0 +1,52 @@
+import { getAll } from '../db/schema';
+import { MatchResult, RunoffTally } from '../types';
+
+export const DEFAULT_RUNOFF_SIZE = 3;
+
+export interface RunoffOutcome {
+  winnerMealId: string;
+  tiedMealIds: string[]; // Meals tied for first (empty when there was a clear winner)
+  tally: RunoffTally[];
+}
+
+// Shortlist the top N results, extending past N so meals tied at the cutoff aren't dropped
+export function selectRunoffCandidates(results: MatchResult[], topN: number): MatchResult[] {
+  if (results.length <= topN) {
+    return results;
+  }
+
+  const cutoffScore = results[topN - 1].score;
+  return results.filter((result, index) => index < topN || result.score === cutoffScore);
+}
+
+export function tallyRunoff(sessionId: string): RunoffTally[] {
+  return getAll<RunoffTally>(
+    `SELECT
+      m.id as mealId,
+      m.title,
+      m.description,
+      (SELECT COUNT(*) FROM runoff_votes rv WHERE rv.session_id = rc.session_id AND rv.meal_id = rc.meal_id) as votes
+    FROM runoff_candidates rc
+    JOIN meals m ON rc.meal_id = m.id
+    WHERE rc.session_id = ?
+    ORDER BY votes DESC, rc.display_order`,
+    [sessionId]
+  );
+}
+
+// Most votes wins; ties are broken at random
+export function decideRunoff(tally: RunoffTally[], random: () => number = Math.random): RunoffOutcome {
+  if (tally.length === 0) {
+    throw new Error('Runoff has no candidates');
+  }
+
+  const topVotes = Math.max(...tally.map(t => t.votes));
+  const leaders = tally.filter(t => t.votes === topVotes);
+  const winner = leaders[Math.floor(random() * leaders.length)];
+
+  return {
+    winnerMealId: winner.mealId,
+    tiedMealIds: leaders.length > 1 ? leaders.map(t => t.mealId) : [],
+    tally,
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { parseSchedule, validateSchedule, getNextRun } from './schedule';
+
+describe('Schedule Service - Parsing', () => {
+  it('should expand ranges, lists and steps', () => {
+    const schedule = parseSchedule('*/15 9-17/4 1,15 * 1-5');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should treat 7 as Sunday', () => {
+    expect([...parseSchedule('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(validateSchedule('0 11 * * 1-5')).toBeNull();
+    expect(validateSchedule('0 11 * *')).toContain('5 fields');
+    expect(validateSchedule('60 11 * * *')).toContain('minute');
+    expect(validateSchedule('0 11 * * 5-1')).toContain('range');
+    expect(validateSchedule('0 noon * * *')).toContain('hour');
+    expect(validateSchedule(42)).toBe('Schedule must be a cron expression');
+  });
+});
+
+describe('Schedule Service - Next Run', () => {
+  const weekdaysAt11 = '0 11 * * 1-5';
+
+  it('should fire later the same day', () => {
+    // Monday 2026-03-02 09:30 local time
+    const next = getNextRun(weekdaysAt11, new Date(2026, 2, 2, 9, 30));
+
+    expect(next).toEqual(new Date(2026, 2, 2, 11, 0));
+  });
+
+  it('should be strictly after the given time', () => {
+    const next = getNextRun(weekdaysAt11, new Date(2026, 2, 2, 11, 0));
+
+    expect(next).toEqual(new Date(2026, 2, 3, 11, 0));
+  });
+
+  it('should skip the weekend', () => {
+    // Friday 2026-03-06 12:00
+    const next = getNextRun(weekdaysAt11, new Date(2026, 2, 6, 12, 0));
+
+    expect(next).toEqual(new Date(2026, 2, 9, 11, 0));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 1st of the month or any Sunday; Thursday 2026-01-29 -> Sunday 2026-02-01 is both
+    expect(getNextRun('0 8 1 * 0', new Date(2026, 0, 29, 12, 0))).toEqual(new Date(2026, 1, 1, 8, 0));
+    // Monday 2026-02-02 -> next Sunday 2026-02-08
+    expect(getNextRun('0 8 1 * 0', new Date(2026, 1, 2, 12, 0))).toEqual(new Date(2026, 1, 8, 8, 0));
+  });
+
+  it('should return null for dates that never occur', () => {
+    expect(getNextRun('0 0 30 2 *', new Date(2026, 0, 1))).toBeNull();
+  });
+});
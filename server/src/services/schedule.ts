@@ -0,0 +1,153 @@
+// Minimal five-field cron expressions: "minute hour day-of-month month day-of-week".
+// Supports *, numbers, ranges (1-5), lists (1,3,5) and steps (*/15, 8-18/2).
+// Times are evaluated in the server's local time zone (set TZ to change it).
+
+export interface Schedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches a day if EITHER day field matches when both are restricted
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+const FIELDS: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Don't search forever for impossible dates like "0 0 30 2 *"
+const MAX_SEARCH_YEARS = 5;
+
+function parseNumber(value: string, field: { name: string; min: number; max: number }): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${field.name}: ${value}`);
+  }
+  const n = parseInt(value, 10);
+  if (n < field.min || n > field.max) {
+    throw new Error(`${field.name} must be between ${field.min} and ${field.max}`);
+  }
+  return n;
+}
+
+function parseField(expr: string, field: { name: string; min: number; max: number }): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of expr.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseNumber(stepText, { ...field, min: 1 });
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseNumber(from, field);
+      end = parseNumber(to, field);
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range: ${range}`);
+      }
+    } else {
+      start = parseNumber(range, field);
+      // "5/10" means every 10 starting at 5
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+export function parseSchedule(expr: string): Schedule {
+  const parts = expr.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('Schedule must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictsDayOfMonth: parts[2] !== '*',
+    restrictsDayOfWeek: parts[4] !== '*',
+  };
+}
+
+export function validateSchedule(expr: unknown): string | null {
+  if (typeof expr !== 'string') {
+    return 'Schedule must be a cron expression';
+  }
+  try {
+    parseSchedule(expr);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid schedule';
+  }
+}
+
+function matchesDay(schedule: Schedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+// Next time strictly after `after` that the schedule fires, or null if it never does
+export function getNextRun(expr: string, after: Date): Date | null {
+  const schedule = parseSchedule(expr);
+
+  const next = new Date(after);
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  // Skip whole months, days and hours that can't match before checking minutes
+  while (next <= limit) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return next;
+  }
+
+  return null;
+}
@@ -0,0 +1,51 @@
+import { runDueTemplates } from './templates';
+import { closeExpiredSessions } from './sessions';
+import { sendDueReminders } from './notifications';
+import { retryDueDeliveries } from './webhooks';
+import { runDueRetention } from './retention';
+
+const DEFAULT_INTERVAL_MS = 30 * 1000;
+
+export function runSchedulerTick(now: Date = new Date()): void {
+  const created = runDueTemplates(now);
+  if (created.length > 0) {
+    console.log(`Scheduler created ${created.length} session(s) from templates`);
+  }
+
+  const closed = closeExpiredSessions(now);
+  if (closed.length > 0) {
+    console.log(`Scheduler closed ${closed.length} expired session(s)`);
+  }
+
+  sendDueReminders(now)
+    .then(sent => {
+      if (sent > 0) {
+        console.log(`Scheduler sent ${sent} reminder email(s)`);
+      }
+    })
+    .catch(error => console.error('Reminder error:', error));
+
+  retryDueDeliveries(now).catch(error => console.error('Webhook retry error:', error));
+
+  const purged = runDueRetention(now);
+  if (purged && (purged.sessions > 0 || purged.meals > 0)) {
+    console.log(`Scheduler purged ${purged.sessions} stale quick session(s) and ${purged.meals} temporary meal(s)`);
+  }
+}
+
+// Check for due templates, expired sessions, reminders, webhook retries and stale quick sessions on a fixed interval. Returns a stop function.
+export function startScheduler(intervalMs: number = DEFAULT_INTERVAL_MS): () => void {
+  const tick = () => {
+    try {
+      runSchedulerTick();
+    } catch (error) {
+      console.error('Scheduler error:', error);
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { getScoringStrategy, isScoringMode, MealBallots } from './scoring';
+
+const options = { maybeWeight: 0.5 };
+
+function meal(mealId: string, votes: number[]): MealBallots {
+  return {
+    mealId,
+    votes: votes.map((vote, i) => ({ participantId: `p${i + 1}`, vote })),
+  };
+}
+
+describe('Scoring Strategies - Approval', () => {
+  it('should count yes and maybe votes equally', () => {
+    const strategy = getScoringStrategy('approval');
+    const m = meal('meal1', [1, 2, 0]);
+
+    expect(strategy.score(m, [m], options)).toBe(67);
+  });
+
+  it('should score zero when there are no votes', () => {
+    const strategy = getScoringStrategy('approval');
+    const m = meal('meal1', []);
+
+    expect(strategy.score(m, [m], options)).toBe(0);
+  });
+});
+
+describe('Scoring Strategies - Weighted Maybe', () => {
+  it('should count maybes at the configured weight', () => {
+    const strategy = getScoringStrategy('weighted-maybe');
+    const m = meal('meal1', [2, 2, 2, 2]);
+
+    expect(strategy.score(m, [m], options)).toBe(50);
+    expect(strategy.score(m, [m], { maybeWeight: 0.25 })).toBe(25);
+  });
+
+  it('should rank a loved meal above an all-maybe meal', () => {
+    const strategy = getScoringStrategy('weighted-maybe');
+    const loved = meal('loved', [1, 1, 0]);
+    const lukewarm = meal('lukewarm', [2, 2, 2]);
+    const all = [loved, lukewarm];
+
+    expect(strategy.score(loved, all, options)).toBeGreaterThan(strategy.score(lukewarm, all, options));
+  });
+});
+
+describe('Scoring Strategies - Veto', () => {
+  it('should score zero when anyone votes no', () => {
+    const strategy = getScoringStrategy('veto');
+    const m = meal('meal1', [1, 1, 0]);
+
+    expect(strategy.score(m, [m], options)).toBe(0);
+  });
+
+  it('should fall back to approval when nobody votes no', () => {
+    const strategy = getScoringStrategy('veto');
+    const m = meal('meal1', [1, 2, 1]);
+
+    expect(strategy.score(m, [m], options)).toBe(100);
+  });
+});
+
+describe('Scoring Strategies - Borda', () => {
+  it('should award points for every meal ranked below', () => {
+    const strategy = getScoringStrategy('borda');
+    // Both participants: meal1 yes, meal2 maybe, meal3 no
+    const meal1 = meal('meal1', [1, 1]);
+    const meal2 = meal('meal2', [2, 2]);
+    const meal3 = meal('meal3', [0, 0]);
+    const all = [meal1, meal2, meal3];
+
+    expect(strategy.score(meal1, all, options)).toBe(100);
+    expect(strategy.score(meal2, all, options)).toBe(50);
+    expect(strategy.score(meal3, all, options)).toBe(0);
+  });
+
+  it('should split points for ties', () => {
+    const strategy = getScoringStrategy('borda');
+    const meal1 = meal('meal1', [1]);
+    const meal2 = meal('meal2', [1]);
+    const all = [meal1, meal2];
+
+    expect(strategy.score(meal1, all, options)).toBe(50);
+    expect(strategy.score(meal2, all, options)).toBe(50);
+  });
+
+  it('should fall back to approval for a single meal', () => {
+    const strategy = getScoringStrategy('borda');
+    const m = meal('meal1', [1, 0]);
+
+    expect(strategy.score(m, [m], options)).toBe(50);
+  });
+});
+
+describe('Scoring Strategies - Mode Validation', () => {
+  it('should accept known scoring modes', () => {
+    ['approval', 'weighted-maybe', 'veto', 'borda'].forEach(mode => {
+      expect(isScoringMode(mode)).toBe(true);
+    });
+  });
+
+  it('should reject unknown scoring modes', () => {
+    [undefined, null, 'ranked', 1].forEach(mode => {
+      expect(isScoringMode(mode)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { ScoringMode } from '../types';
+
+export interface BallotVote {
+  participantId: string;
+  vote: number; // 0 = no, 1 = yes, 2 = maybe
+}
+
+export interface MealBallots {
+  mealId: string;
+  votes: BallotVote[];
+}
+
+export interface ScoringOptions {
+  maybeWeight: number;
+}
+
+// A strategy turns one meal's votes into a 0-100 score; allMeals gives access to
+// each participant's full ballot for strategies that compare meals against each other
+export interface ScoringStrategy {
+  score(meal: MealBallots, allMeals: MealBallots[], options: ScoringOptions): number;
+}
+
+export const SCORING_MODES: ScoringMode[] = ['approval', 'weighted-maybe', 'veto', 'borda'];
+
+export const DEFAULT_MAYBE_WEIGHT = 0.5;
+
+function countVotes(meal: MealBallots) {
+  return {
+    yes: meal.votes.filter(v => v.vote === 1).length,
+    maybe: meal.votes.filter(v => v.vote === 2).length,
+    no: meal.votes.filter(v => v.vote === 0).length,
+    total: meal.votes.length,
+  };
+}
+
+// Yes and maybe both count as approval (maybes only break ties)
+const approval: ScoringStrategy = {
+  score(meal) {
+    const { yes, maybe, total } = countVotes(meal);
+    return total > 0 ? Math.round(((yes + maybe) / total) * 100) : 0;
+  },
+};
+
+// Maybes count for a fraction of a yes
+const weightedMaybe: ScoringStrategy = {
+  score(meal, _allMeals, { maybeWeight }) {
+    const { yes, maybe, total } = countVotes(meal);
+    return total > 0 ? Math.round(((yes + maybe * maybeWeight) / total) * 100) : 0;
+  },
+};
+
+// A single no rules the meal out entirely
+const veto: ScoringStrategy = {
+  score(meal, allMeals, options) {
+    const { no } = countVotes(meal);
+    return no > 0 ? 0 : approval.score(meal, allMeals, options);
+  },
+};
+
+// Each participant ranks meals yes > maybe > no; a meal earns a point for every meal
+// that participant ranked below it and half a point for every meal tied with it
+const borda: ScoringStrategy = {
+  score(meal, allMeals, options) {
+    if (allMeals.length < 2) {
+      return approval.score(meal, allMeals, options);
+    }
+
+    const rank = (vote: number) => (vote === 1 ? 2 : vote === 2 ? 1 : 0);
+    const ballots = new Map<string, Map<string, number>>();
+    for (const m of allMeals) {
+      for (const v of m.votes) {
+        if (!ballots.has(v.participantId)) {
+          ballots.set(v.participantId, new Map());
+        }
+        ballots.get(v.participantId)!.set(m.mealId, rank(v.vote));
+      }
+    }
+
+    let points = 0;
+    let maxPoints = 0;
+    for (const v of meal.votes) {
+      const ballot = ballots.get(v.participantId)!;
+      const ownRank = rank(v.vote);
+      for (const [otherMealId, otherRank] of ballot) {
+        if (otherMealId === meal.mealId) continue;
+        if (ownRank > otherRank) points += 1;
+        else if (ownRank === otherRank) points += 0.5;
+        maxPoints += 1;
+      }
+    }
+
+    return maxPoints > 0 ? Math.round((points / maxPoints) * 100) : 0;
+  },
+};
+
+const strategies: Record<ScoringMode, ScoringStrategy> = {
+  approval,
+  'weighted-maybe': weightedMaybe,
+  veto,
+  borda,
+};
+
+export function getScoringStrategy(mode: ScoringMode): ScoringStrategy {
+  return strategies[mode] || approval;
+}
+
+export function isScoringMode(value: unknown): value is ScoringMode {
+  return typeof value === 'string' && SCORING_MODES.includes(value as ScoringMode);
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { initializeDatabase, runQuery, getOne } from '../db/schema';
+import { Session } from '../types';
+import {
+  createSession,
+  closeExpiredSessions,
+  validateClosesAt,
+  isPastDeadline,
+  closeIfAllSubmitted,
+  closeSession,
+  selectMeal,
+  setDeadline,
+} from './sessions';
+
+describe('Sessions Service - Deadlines', () => {
+  const now = new Date('2026-01-01T12:00:00.000Z');
+
+  it('should accept no deadline or one in the near future', () => {
+    expect(validateClosesAt(undefined, now)).toBeNull();
+    expect(validateClosesAt(null, now)).toBeNull();
+    expect(validateClosesAt('2026-01-01T12:30:00.000Z', now)).toBeNull();
+  });
+
+  it('should reject invalid, past and far-off deadlines', () => {
+    expect(validateClosesAt('tomorrow-ish', now)).toBe('Deadline must be a valid date and time');
+    expect(validateClosesAt(1234, now)).toBe('Deadline must be a valid date and time');
+    expect(validateClosesAt('2026-01-01T11:59:00.000Z', now)).toBe('Deadline must be in the future');
+    expect(validateClosesAt('2026-03-01T12:00:00.000Z', now)).toContain('within 30 days');
+  });
+
+  it('should only treat open sessions as past their deadline', () => {
+    expect(isPastDeadline({ status: 'open', closes_at: '2026-01-01T11:00:00.000Z' }, now)).toBe(true);
+    expect(isPastDeadline({ status: 'open', closes_at: '2026-01-01T13:00:00.000Z' }, now)).toBe(false);
+    expect(isPastDeadline({ status: 'open', closes_at: null }, now)).toBe(false);
+    expect(isPastDeadline({ status: 'closed', closes_at: '2026-01-01T11:00:00.000Z' }, now)).toBe(false);
+  });
+});
+
+describe('Sessions Service', () => {
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('svc-host', 'sessions-svc@test.com', 'hash')`, []);
+    runQuery(`INSERT OR IGNORE INTO meals (id, host_id, title) VALUES ('svc-meal1', 'svc-host', 'Ramen')`, []);
+    runQuery(`INSERT OR IGNORE INTO meals (id, host_id, title) VALUES ('svc-meal2', 'svc-host', 'Udon')`, []);
+  });
+
+  it('should create an open session with a unique invite code', () => {
+    const first = createSession('svc-host', ['svc-meal1']);
+    const second = createSession('svc-host', ['svc-meal1']);
+
+    expect(first.inviteCode).not.toBe(second.inviteCode);
+
+    const session = getOne<Session>('SELECT * FROM sessions WHERE id = ?', [first.id])!;
+    expect(session.status).toBe('open');
+    expect(session.scoring_mode).toBe('approval');
+    expect(session.closes_at).toBeNull();
+  });
+
+  it('should close only sessions past their deadline', () => {
+    const expired = createSession('svc-host', ['svc-meal1'], { closesAt: '2026-01-01T10:00:00.000Z' });
+    const pending = createSession('svc-host', ['svc-meal1'], { closesAt: '2026-01-01T12:00:00.000Z' });
+
+    const closed = closeExpiredSessions(new Date('2026-01-01T11:00:00.000Z'));
+
+    expect(closed).toContain(expired.id);
+    expect(closed).not.toContain(pending.id);
+    expect(getOne<Session>('SELECT status FROM sessions WHERE id = ?', [expired.id])!.status).toBe('closed');
+    expect(getOne<Session>('SELECT status FROM sessions WHERE id = ?', [pending.id])!.status).toBe('open');
+  });
+
+  it('should close when everyone has submitted only if the host opted in', () => {
+    const optedIn = createSession('svc-host', ['svc-meal1'], { autoCloseWhenComplete: true });
+    const optedOut = createSession('svc-host', ['svc-meal1']);
+
+    for (const session of [optedIn, optedOut]) {
+      runQuery(
+        `INSERT INTO participants (id, session_id, display_name, submitted) VALUES (?, ?, 'Ann', 1), (?, ?, 'Bo', 0)`,
+        [`${session.id}-p1`, session.id, `${session.id}-p2`, session.id]
+      );
+    }
+
+    // Still waiting on Bo
+    expect(closeIfAllSubmitted(optedIn.id)).toBe(false);
+
+    runQuery('UPDATE participants SET submitted = 1 WHERE session_id IN (?, ?)', [optedIn.id, optedOut.id]);
+
+    expect(closeIfAllSubmitted(optedIn.id)).toBe(true);
+    expect(closeIfAllSubmitted(optedOut.id)).toBe(false);
+    expect(getOne<Session>('SELECT status FROM sessions WHERE id = ?', [optedIn.id])!.status).toBe('closed');
+    expect(getOne<Session>('SELECT status FROM sessions WHERE id = ?', [optedOut.id])!.status).toBe('open');
+  });
+
+  it('should not auto-close until enough people have joined', () => {
+    const alone = createSession('svc-host', ['svc-meal1'], { autoCloseWhenComplete: true });
+    const limited = createSession('svc-host', ['svc-meal1'], { autoCloseWhenComplete: true, maxParticipants: 3 });
+
+    // The first person to submit, e.g. a quick session's creator, is still alone
+    runQuery(`INSERT INTO participants (id, session_id, display_name, submitted) VALUES (?, ?, 'Ann', 1)`, [`${alone.id}-p1`, alone.id]);
+    expect(closeIfAllSubmitted(alone.id)).toBe(false);
+
+    runQuery(
+      `INSERT INTO participants (id, session_id, display_name, submitted) VALUES (?, ?, 'Ann', 1), (?, ?, 'Bo', 1)`,
+      [`${limited.id}-p1`, limited.id, `${limited.id}-p2`, limited.id]
+    );
+    expect(closeIfAllSubmitted(limited.id)).toBe(false);
+
+    runQuery(`INSERT INTO participants (id, session_id, display_name, submitted) VALUES (?, ?, 'Cy', 1)`, [`${limited.id}-p3`, limited.id]);
+    expect(closeIfAllSubmitted(limited.id)).toBe(true);
+    expect(getOne<Session>('SELECT status FROM sessions WHERE id = ?', [alone.id])!.status).toBe('open');
+  });
+
+  it('should record the selected meal in the session and its history', () => {
+    const session = createSession('svc-host', ['svc-meal1', 'svc-meal2']);
+    closeSession(session.id);
+    const before = getOne<{ pick_count: number }>('SELECT pick_count FROM meals WHERE id = ?', ['svc-meal2'])!.pick_count;
+
+    selectMeal(session.id, 'svc-meal2');
+
+    expect(getOne<Session>('SELECT * FROM sessions WHERE id = ?', [session.id])!.selected_meal_id).toBe('svc-meal2');
+    expect(getOne<{ pick_count: number }>('SELECT pick_count FROM meals WHERE id = ?', ['svc-meal2'])!.pick_count).toBe(before + 1);
+    expect(getOne('SELECT * FROM session_history WHERE session_id = ?', [session.id])).toMatchObject({ selected_meal_id: 'svc-meal2' });
+  });
+
+  it('should move or remove a deadline', () => {
+    const session = createSession('svc-host', ['svc-meal1'], { closesAt: '2026-01-01T10:00:00.000Z' });
+
+    setDeadline(session.id, '2026-01-02T10:00:00+02:00');
+    expect(getOne<Session>('SELECT * FROM sessions WHERE id = ?', [session.id])!.closes_at).toBe('2026-01-02T08:00:00.000Z');
+
+    setDeadline(session.id, null);
+    expect(getOne<Session>('SELECT * FROM sessions WHERE id = ?', [session.id])!.closes_at).toBeNull();
+  });
+});
@@ -0,0 +1,206 @@
+import { v4 as uuidv4 } from 'uuid';
+import { runQuery, getOne, getAll, runTransaction } from '../db/schema';
+import { Session, ScoringMode } from '../types';
+import { publishSessionEvent } from './events';
+import { notifyResultsReady } from './notifications';
+import { postChatResults } from './chat';
+import { triggerWebhooks } from './webhooks';
+import { generateInviteCode, calculateResults } from './matching';
+import { DEFAULT_MAYBE_WEIGHT } from './scoring';
+
+export interface CreateSessionOptions {
+  scoringMode?: ScoringMode;
+  maybeWeight?: number;
+  templateId?: string | null;
+  maxParticipants?: number | null;
+  closesAt?: string | null; // ISO timestamp
+  autoCloseWhenComplete?: boolean;
+}
+
+const MAX_INVITE_CODE_ATTEMPTS = 10;
+
+// Deadlines further out than this are almost certainly a mistake
+const MAX_DEADLINE_DAYS = 30;
+
+// Auto-close waits for at least this many participants (or the session's limit, when it has one),
+// so the first person to submit doesn't close a session nobody else has joined yet
+const MIN_AUTO_CLOSE_PARTICIPANTS = 2;
+
+function generateUniqueInviteCode(): string {
+  for (let attempt = 0; attempt <= MAX_INVITE_CODE_ATTEMPTS; attempt++) {
+    const inviteCode = generateInviteCode();
+    if (!getOne<Session>('SELECT id FROM sessions WHERE invite_code = ?', [inviteCode])) {
+      return inviteCode;
+    }
+  }
+  throw new Error('Failed to generate unique invite code');
+}
+
+// Create an open session over already-validated meals, in a random display order
+export function createSession(
+  hostId: string,
+  mealIds: string[],
+  options: CreateSessionOptions = {}
+): { id: string; inviteCode: string } {
+  const inviteCode = generateUniqueInviteCode();
+  const sessionId = uuidv4();
+
+  runTransaction(() => {
+    runQuery(
+      `INSERT INTO sessions
+        (id, host_id, invite_code, scoring_mode, maybe_weight, template_id, max_participants, closes_at, auto_close_when_complete)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        sessionId,
+        hostId,
+        inviteCode,
+        options.scoringMode || 'approval',
+        options.maybeWeight ?? DEFAULT_MAYBE_WEIGHT,
+        options.templateId || null,
+        options.maxParticipants || null,
+        options.closesAt || null,
+        options.autoCloseWhenComplete ? 1 : 0,
+      ]
+    );
+
+    const shuffledMealIds = [...mealIds].sort(() => Math.random() - 0.5);
+    shuffledMealIds.forEach((mealId, index) => {
+      runQuery(
+        'INSERT INTO session_meals (id, session_id, meal_id, display_order) VALUES (?, ?, ?, ?)',
+        [uuidv4(), sessionId, mealId, index]
+      );
+    });
+  });
+
+  triggerWebhooks(sessionId, 'session.created', {
+    mealCount: mealIds.length,
+    templateId: options.templateId || null,
+  });
+
+  return { id: sessionId, inviteCode };
+}
+
+// Stop swiping; results are computed from the swipes whenever they are requested
+export function closeSession(sessionId: string): void {
+  runQuery(
+    'UPDATE sessions SET status = ?, closed_at = CURRENT_TIMESTAMP WHERE id = ?',
+    ['closed', sessionId]
+  );
+
+  publishSessionEvent(sessionId, 'session-closed');
+  triggerWebhooks(sessionId, 'session.closed', () => ({ results: summarizeResults(sessionId) }));
+
+  // Emailing can be slow; closing shouldn't wait on it
+  notifyResultsReady(sessionId).catch(error => console.error('Results email error:', error));
+  postChatResults(sessionId).catch(error => console.error('Chat results error:', error));
+}
+
+// Record the meal the group is going with. Check the session is closed and the meal is part of it first.
+export function selectMeal(sessionId: string, mealId: string): void {
+  runTransaction(() => {
+    runQuery('UPDATE sessions SET selected_meal_id = ? WHERE id = ?', [mealId, sessionId]);
+    runQuery('UPDATE meals SET pick_count = pick_count + 1 WHERE id = ?', [mealId]);
+    runQuery(
+      'INSERT OR REPLACE INTO session_history (id, session_id, selected_meal_id) VALUES (?, ?, ?)',
+      [uuidv4(), sessionId, mealId]
+    );
+  });
+
+  publishSessionEvent(sessionId, 'meal-selected', { mealId });
+  triggerWebhooks(sessionId, 'meal.selected', { meal: mealSummary(mealId) });
+}
+
+// Move an open session's deadline (validate it first); null removes it
+export function setDeadline(sessionId: string, closesAt: string | null): void {
+  const normalized = normalizeClosesAt(closesAt);
+  runQuery('UPDATE sessions SET closes_at = ? WHERE id = ?', [normalized, sessionId]);
+  publishSessionEvent(sessionId, 'deadline-changed', { closesAt: normalized });
+}
+
+// The leading matches, small enough to post into a chat message
+export function summarizeResults(sessionId: string, limit: number = 3) {
+  return calculateResults(sessionId).slice(0, limit).map(r => ({
+    mealId: r.mealId,
+    title: r.title,
+    yesCount: r.yesCount,
+    maybeCount: r.maybeCount,
+    totalVotes: r.totalVotes,
+    percentage: r.percentage,
+  }));
+}
+
+export function mealSummary(mealId: string): { id: string; title: string } | null {
+  const meal = getOne<{ id: string; title: string }>('SELECT id, title FROM meals WHERE id = ?', [mealId]);
+  return meal ? { id: meal.id, title: meal.title } : null;
+}
+
+// Close open sessions whose deadline has passed
+export function closeExpiredSessions(now: Date = new Date()): string[] {
+  const expired = getAll<Session>(
+    `SELECT id FROM sessions
+     WHERE status = 'open' AND closes_at IS NOT NULL AND closes_at <= ?`,
+    [now.toISOString()]
+  );
+
+  for (const session of expired) {
+    closeSession(session.id);
+  }
+
+  return expired.map(s => s.id);
+}
+
+export function validateClosesAt(closesAt: unknown, now: Date = new Date()): string | null {
+  if (closesAt === undefined || closesAt === null) return null;
+
+  const deadline = typeof closesAt === 'string' ? new Date(closesAt) : null;
+  if (!deadline || isNaN(deadline.getTime())) {
+    return 'Deadline must be a valid date and time';
+  }
+  if (deadline <= now) {
+    return 'Deadline must be in the future';
+  }
+  if (deadline.getTime() - now.getTime() > MAX_DEADLINE_DAYS * 24 * 60 * 60 * 1000) {
+    return `Deadline must be within ${MAX_DEADLINE_DAYS} days`;
+  }
+  return null;
+}
+
+// Store deadlines in one format so they compare correctly as strings in SQL
+export function normalizeClosesAt(closesAt: string | null | undefined): string | null {
+  return closesAt ? new Date(closesAt).toISOString() : null;
+}
+
+export function isPastDeadline(session: Pick<Session, 'status' | 'closes_at'>, now: Date = new Date()): boolean {
+  return session.status === 'open' && !!session.closes_at && new Date(session.closes_at) <= now;
+}
+
+// Close a session that has run past its deadline before the sweeper got to it
+export function closeIfPastDeadline(session: Pick<Session, 'id' | 'status' | 'closes_at'>, now: Date = new Date()): boolean {
+  if (!isPastDeadline(session, now)) return false;
+  closeSession(session.id);
+  return true;
+}
+
+// For sessions whose host opted in, close once everyone who joined has submitted
+export function closeIfAllSubmitted(sessionId: string): boolean {
+  const session = getOne<Session>(
+    'SELECT status, auto_close_when_complete, max_participants FROM sessions WHERE id = ?',
+    [sessionId]
+  );
+  if (!session || session.status !== 'open' || session.auto_close_when_complete !== 1) {
+    return false;
+  }
+
+  const counts = getOne<{ total: number; submitted: number }>(
+    `SELECT COUNT(*) as total, COALESCE(SUM(submitted), 0) as submitted
+     FROM participants WHERE session_id = ?`,
+    [sessionId]
+  );
+  const needed = session.max_participants || MIN_AUTO_CLOSE_PARTICIPANTS;
+  if (!counts || counts.total < needed || counts.submitted < counts.total) {
+    return false;
+  }
+
+  closeSession(sessionId);
+  return true;
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { initializeDatabase, runQuery, getOne } from '../db/schema';
+import { Session } from '../types';
+import {
+  normalizeUnit,
+  scaleFactor,
+  buildShoppingItems,
+  getShoppingList,
+  formatShoppingListText,
+  formatShoppingListMarkdown,
+} from './shopping';
+
+describe('Shopping Service - Units', () => {
+  it('should fold abbreviations and plurals onto one unit', () => {
+    expect(normalizeUnit('Tablespoons')).toBe('tbsp');
+    expect(normalizeUnit('tbsp.')).toBe('tbsp');
+    expect(normalizeUnit('cups')).toBe('cup');
+    expect(normalizeUnit('Grams')).toBe('g');
+    expect(normalizeUnit('lbs')).toBe('lb');
+    expect(normalizeUnit('cloves')).toBe('clove');
+    expect(normalizeUnit('glass')).toBe('glass');
+    expect(normalizeUnit('  ')).toBeNull();
+    expect(normalizeUnit(null)).toBeNull();
+  });
+
+  it('should scale by people per serving', () => {
+    expect(scaleFactor(6, 4)).toBe(1.5);
+    expect(scaleFactor(3, null)).toBe(3);
+  });
+});
+
+describe('Shopping Service - Merging', () => {
+  it('should merge the same ingredient across units of one kind', () => {
+    const items = buildShoppingItems([
+      { quantity: 1, unit: 'cup', name: 'Flour' },
+      { quantity: 4, unit: 'tablespoons', name: 'flour' },
+    ], 1);
+
+    expect(items).toEqual([{ name: 'Flour', quantity: 1.25, unit: 'cup' }]);
+  });
+
+  it('should pick the largest unit that keeps the amount at least 1', () => {
+    const items = buildShoppingItems([
+      { quantity: 600, unit: 'g', name: 'potatoes' },
+      { quantity: 0.5, unit: 'kg', name: 'potatoes' },
+      { quantity: 200, unit: 'g', name: 'cheese' },
+      { quantity: 0.1, unit: 'kg', name: 'cheese' },
+    ], 1);
+
+    expect(items).toEqual([
+      { name: 'cheese', quantity: 300, unit: 'g' },
+      { name: 'potatoes', quantity: 1.1, unit: 'kg' },
+    ]);
+  });
+
+  it('should keep volume and weight of the same ingredient apart', () => {
+    const items = buildShoppingItems([
+      { quantity: 1, unit: 'cup', name: 'sugar' },
+      { quantity: 100, unit: 'g', name: 'sugar' },
+    ], 1);
+
+    expect(items).toHaveLength(2);
+  });
+
+  it('should sum unknown units and counts as they are, scaled', () => {
+    const items = buildShoppingItems([
+      { quantity: 2, unit: 'cloves', name: 'garlic' },
+      { quantity: 1, unit: 'clove', name: 'Garlic' },
+      { quantity: 1, unit: null, name: 'onion' },
+    ], 2);
+
+    expect(items).toEqual([
+      { name: 'garlic', quantity: 6, unit: 'clove' },
+      { name: 'onion', quantity: 2, unit: null },
+    ]);
+  });
+
+  it('should only list unmeasured ingredients that are not bought otherwise', () => {
+    const items = buildShoppingItems([
+      { quantity: null, unit: null, name: 'Salt' },
+      { quantity: null, unit: null, name: 'butter' },
+      { quantity: 50, unit: 'g', name: 'Butter' },
+    ], 1);
+
+    expect(items).toEqual([
+      { name: 'Butter', quantity: 50, unit: 'g' },
+      { name: 'Salt', quantity: null, unit: null },
+    ]);
+  });
+});
+
+describe('Shopping Service - Session Lists', () => {
+  const getSession = (id: string) => getOne<Session>('SELECT * FROM sessions WHERE id = ?', [id])!;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('shop-host', 'shop@test.com', 'hash')`, []);
+    runQuery(
+      `INSERT OR IGNORE INTO meals (id, host_id, title, ingredients, servings) VALUES ('shop-meal', 'shop-host', 'Pancakes', ?, 2)`,
+      [JSON.stringify([{ quantity: 1, unit: 'cup', name: 'milk' }, { quantity: 2, unit: null, name: 'eggs' }])]
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO sessions (id, host_id, invite_code, status, selected_meal_id)
+       VALUES ('shop-session', 'shop-host', 'SHOP01', 'closed', 'shop-meal'),
+              ('shop-pending', 'shop-host', 'SHOP02', 'closed', NULL)`,
+      []
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO participants (id, session_id, display_name) VALUES
+         ('shop-p1', 'shop-session', 'Ann'), ('shop-p2', 'shop-session', 'Bo'),
+         ('shop-p3', 'shop-session', 'Cy'), ('shop-p4', 'shop-session', 'Di')`,
+      []
+    );
+  });
+
+  it('should scale the selected meal to the participant count', () => {
+    const list = getShoppingList(getSession('shop-session'))!;
+
+    expect(list.meal.title).toBe('Pancakes');
+    expect(list.people).toBe(4);
+    expect(list.items).toEqual([
+      { name: 'eggs', quantity: 4, unit: null },
+      { name: 'milk', quantity: 2, unit: 'cup' },
+    ]);
+  });
+
+  it('should honour an explicit headcount', () => {
+    expect(getShoppingList(getSession('shop-session'), 1)!.items[1].quantity).toBe(0.5);
+  });
+
+  it('should return null before a meal is selected', () => {
+    expect(getShoppingList(getSession('shop-pending'))).toBeNull();
+  });
+
+  it('should export text and Markdown checklists', () => {
+    const list = getShoppingList(getSession('shop-session'))!;
+
+    expect(formatShoppingListText(list)).toBe('Shopping list: Pancakes\nFor 4 people\n\n- 4 eggs\n- 2 cup milk\n');
+    expect(formatShoppingListMarkdown(list)).toContain('- [ ] 2 cup milk');
+  });
+});
@@ -0,0 +1,220 @@
+import { getOne } from '../db/schema';
+import { Session, Meal, Ingredient } from '../types';
+import { toRecipeDetails } from './recipes';
+
+// Units we know how to convert, expressed in a base unit per family (ml or g)
+interface UnitInfo {
+  unit: string;
+  family: 'volume' | 'mass';
+  toBase: number;
+}
+
+const UNITS: UnitInfo[] = [
+  { unit: 'tsp', family: 'volume', toBase: 4.92892 },
+  { unit: 'tbsp', family: 'volume', toBase: 14.7868 },
+  { unit: 'fl oz', family: 'volume', toBase: 29.5735 },
+  { unit: 'cup', family: 'volume', toBase: 236.588 },
+  { unit: 'pint', family: 'volume', toBase: 473.176 },
+  { unit: 'quart', family: 'volume', toBase: 946.353 },
+  { unit: 'gallon', family: 'volume', toBase: 3785.41 },
+  { unit: 'ml', family: 'volume', toBase: 1 },
+  { unit: 'l', family: 'volume', toBase: 1000 },
+  { unit: 'mg', family: 'mass', toBase: 0.001 },
+  { unit: 'g', family: 'mass', toBase: 1 },
+  { unit: 'kg', family: 'mass', toBase: 1000 },
+  { unit: 'oz', family: 'mass', toBase: 28.3495 },
+  { unit: 'lb', family: 'mass', toBase: 453.592 },
+];
+
+const UNIT_ALIASES: Record<string, string> = {
+  teaspoon: 'tsp',
+  tablespoon: 'tbsp',
+  tbs: 'tbsp',
+  tbl: 'tbsp',
+  'fluid ounce': 'fl oz',
+  'fl. oz': 'fl oz',
+  floz: 'fl oz',
+  pt: 'pint',
+  qt: 'quart',
+  gal: 'gallon',
+  milliliter: 'ml',
+  millilitre: 'ml',
+  liter: 'l',
+  litre: 'l',
+  milligram: 'mg',
+  gram: 'g',
+  gr: 'g',
+  kilogram: 'kg',
+  kilo: 'kg',
+  ounce: 'oz',
+  pound: 'lb',
+  lbs: 'lb',
+};
+
+export interface ShoppingListItem {
+  name: string;
+  quantity: number | null;
+  unit: string | null;
+}
+
+export interface ShoppingList {
+  sessionId: string;
+  meal: { id: string; title: string };
+  people: number;
+  servings: number | null;
+  items: ShoppingListItem[];
+}
+
+// Lowercase, trim and fold plurals/abbreviations onto one spelling ("Tablespoons" -> "tbsp")
+export function normalizeUnit(unit: string | null): string | null {
+  if (!unit) return null;
+
+  const cleaned = unit.trim().toLowerCase().replace(/\s+/g, ' ').replace(/\.$/, '');
+  if (!cleaned) return null;
+  if (UNITS.some(u => u.unit === cleaned)) return cleaned;
+  if (UNIT_ALIASES[cleaned]) return UNIT_ALIASES[cleaned];
+
+  // "cloves" and "clove" should merge, but leave "glass" alone
+  const singular = cleaned.endsWith('ss') ? cleaned : cleaned.replace(/s$/, '');
+  return UNIT_ALIASES[singular] ?? singular;
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function roundQuantity(quantity: number): number {
+  return Math.round(quantity * 100) / 100;
+}
+
+// Recipes without a servings count are treated as one portion per person
+export function scaleFactor(people: number, servings: number | null): number {
+  return people / (servings ?? 1);
+}
+
+interface Group {
+  name: string;
+  unit: string | null;
+  family: UnitInfo['family'] | null;
+  // Sum in the family's base unit for convertible units, otherwise in `unit`
+  total: number;
+  unitsUsed: string[];
+}
+
+// Merge duplicate ingredients, converting between units of the same kind
+export function buildShoppingItems(ingredients: Ingredient[], factor: number): ShoppingListItem[] {
+  const groups = new Map<string, Group>();
+  const unquantified = new Map<string, string>();
+
+  for (const ingredient of ingredients) {
+    const name = normalizeName(ingredient.name);
+    if (!name) continue;
+
+    if (ingredient.quantity == null) {
+      if (!unquantified.has(name)) unquantified.set(name, ingredient.name.trim());
+      continue;
+    }
+
+    const unit = normalizeUnit(ingredient.unit);
+    const info = UNITS.find(u => u.unit === unit);
+    const key = `${name}|${info ? info.family : unit ?? ''}`;
+    const amount = ingredient.quantity * factor * (info ? info.toBase : 1);
+
+    const group = groups.get(key);
+    if (group) {
+      group.total += amount;
+      if (unit && !group.unitsUsed.includes(unit)) group.unitsUsed.push(unit);
+    } else {
+      groups.set(key, {
+        name: ingredient.name.trim(),
+        unit,
+        family: info?.family ?? null,
+        total: amount,
+        unitsUsed: unit ? [unit] : [],
+      });
+    }
+  }
+
+  const items: ShoppingListItem[] = [];
+
+  for (const group of groups.values()) {
+    if (!group.family) {
+      items.push({ name: group.name, quantity: roundQuantity(group.total), unit: group.unit });
+      continue;
+    }
+
+    // Show the total in the largest unit the recipe used that still gives at least 1
+    const candidates = UNITS
+      .filter(u => group.unitsUsed.includes(u.unit))
+      .sort((a, b) => b.toBase - a.toBase);
+    const display = candidates.find(u => group.total / u.toBase >= 1) ?? candidates[candidates.length - 1];
+
+    items.push({ name: group.name, quantity: roundQuantity(group.total / display.toBase), unit: display.unit });
+  }
+
+  // "Salt" with no amount is only listed if no other line already buys it
+  const quantifiedNames = new Set(items.map(i => normalizeName(i.name)));
+  for (const [name, original] of unquantified) {
+    if (!quantifiedNames.has(name)) {
+      items.push({ name: original, quantity: null, unit: null });
+    }
+  }
+
+  return items.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export const MAX_PEOPLE = 100;
+
+// Shopping list for the session's selected meal, or null if none has been picked yet.
+// Scales to `people` when given, otherwise to everyone who joined the session.
+export function getShoppingList(session: Session, people?: number): ShoppingList | null {
+  if (!session.selected_meal_id) return null;
+
+  const meal = getOne<Meal>('SELECT * FROM meals WHERE id = ?', [session.selected_meal_id]);
+  if (!meal) return null;
+
+  const participantCount = getOne<{ count: number }>(
+    'SELECT COUNT(*) as count FROM participants WHERE session_id = ?',
+    [session.id]
+  );
+  const headcount = people ?? Math.max(participantCount?.count || 0, 1);
+  const recipe = toRecipeDetails(meal);
+
+  return {
+    sessionId: session.id,
+    meal: { id: meal.id, title: meal.title },
+    people: headcount,
+    servings: recipe.servings,
+    items: buildShoppingItems(recipe.ingredients, scaleFactor(headcount, recipe.servings)),
+  };
+}
+
+function formatItem(item: ShoppingListItem): string {
+  return [item.quantity != null ? String(item.quantity) : null, item.unit, item.name].filter(Boolean).join(' ');
+}
+
+function describeServings(list: ShoppingList): string {
+  return `For ${list.people} ${list.people === 1 ? 'person' : 'people'}`;
+}
+
+export function formatShoppingListText(list: ShoppingList): string {
+  const lines = [`Shopping list: ${list.meal.title}`, describeServings(list), ''];
+  if (list.items.length === 0) {
+    lines.push('No ingredients recorded for this meal.');
+  }
+  for (const item of list.items) {
+    lines.push(`- ${formatItem(item)}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function formatShoppingListMarkdown(list: ShoppingList): string {
+  const lines = [`# Shopping list: ${list.meal.title}`, '', `_${describeServings(list)}_`, ''];
+  if (list.items.length === 0) {
+    lines.push('No ingredients recorded for this meal.');
+  }
+  for (const item of list.items) {
+    lines.push(`- [ ] ${formatItem(item)}`);
+  }
+  return lines.join('\n') + '\n';
+}
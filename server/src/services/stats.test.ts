@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { initializeDatabase, runQuery } from '../db/schema';
+import { getHostStats } from './stats';
+
+const NOW = new Date('2026-03-20T12:00:00Z'); // a Friday
+
+describe('Stats Service', () => {
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('stats-host', 'stats@test.com', 'hash')`, []);
+    runQuery(
+      `INSERT OR IGNORE INTO meals (id, host_id, title, pick_count, temporary) VALUES
+        ('stats-pizza', 'stats-host', 'Pizza', 3, 0),
+        ('stats-tacos', 'stats-host', 'Tacos', 1, 0),
+        ('stats-soup', 'stats-host', 'Soup', 0, 0),
+        ('stats-temp', 'stats-host', 'Quick Option', 0, 1)`,
+      []
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO sessions (id, host_id, invite_code, status, selected_meal_id, created_at) VALUES
+        ('stats-s1', 'stats-host', 'STAT01', 'closed', 'stats-pizza', '2026-03-02 10:00:00'),
+        ('stats-s2', 'stats-host', 'STAT02', 'closed', 'stats-tacos', '2026-03-16 10:00:00'),
+        ('stats-s3', 'stats-host', 'STAT03', 'open', NULL, '2026-03-18 10:00:00')`,
+      []
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO session_meals (id, session_id, meal_id, display_order) VALUES
+        ('stats-sm1', 'stats-s1', 'stats-pizza', 0),
+        ('stats-sm2', 'stats-s1', 'stats-tacos', 1),
+        ('stats-sm3', 'stats-s2', 'stats-pizza', 0),
+        ('stats-sm4', 'stats-s2', 'stats-tacos', 1),
+        ('stats-sm5', 'stats-s3', 'stats-pizza', 0)`,
+      []
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO participants (id, session_id, display_name, submitted) VALUES
+        ('stats-p1', 'stats-s1', 'Alice', 1),
+        ('stats-p2', 'stats-s1', 'Bob', 1),
+        ('stats-p3', 'stats-s1', 'Late', 0),
+        ('stats-p4', 'stats-s2', 'Alice', 1),
+        ('stats-p5', 'stats-s3', 'Alice', 0)`,
+      []
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO swipes (id, participant_id, session_meal_id, vote) VALUES
+        ('stats-v1', 'stats-p1', 'stats-sm1', 1),
+        ('stats-v2', 'stats-p2', 'stats-sm1', 2),
+        ('stats-v3', 'stats-p3', 'stats-sm1', 0),
+        ('stats-v4', 'stats-p1', 'stats-sm2', 0),
+        ('stats-v5', 'stats-p2', 'stats-sm2', 1),
+        ('stats-v6', 'stats-p4', 'stats-sm3', 0),
+        ('stats-v7', 'stats-p4', 'stats-sm4', 1)`,
+      []
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO session_history (id, session_id, selected_meal_id, selected_at) VALUES
+        ('stats-h1', 'stats-s1', 'stats-pizza', '2026-01-10 12:00:00'),
+        ('stats-h2', 'stats-s2', 'stats-tacos', '2026-03-16 12:00:00')`,
+      []
+    );
+  });
+
+  it('should total sessions, participants and picks', () => {
+    expect(getHostStats('stats-host', { now: NOW }).totals).toEqual({
+      sessions: 3,
+      closedSessions: 2,
+      participants: 5,
+      mealsPicked: 2,
+    });
+  });
+
+  it('should compute win rate and average approval from closed sessions', () => {
+    const { meals } = getHostStats('stats-host', { now: NOW });
+    const byId = new Map(meals.map(m => [m.mealId, m]));
+
+    expect(byId.get('stats-pizza')).toMatchObject({ sessionCount: 2, winCount: 1, winRate: 50, averageApproval: 50 });
+    expect(byId.get('stats-tacos')).toMatchObject({ sessionCount: 2, winCount: 1, winRate: 50, averageApproval: 75 });
+    expect(byId.get('stats-soup')).toMatchObject({ sessionCount: 0, winRate: null, averageApproval: null });
+  });
+
+  it('should leave temporary quick-session meals out', () => {
+    const { meals } = getHostStats('stats-host', { now: NOW });
+    expect(meals.map(m => m.mealId)).not.toContain('stats-temp');
+  });
+
+  it('should rank most-picked meals by pick count', () => {
+    const { mostPicked } = getHostStats('stats-host', { now: NOW });
+    expect(mostPicked.map(m => [m.title, m.pickCount])).toEqual([['Pizza', 3], ['Tacos', 1]]);
+  });
+
+  it('should list meals not picked within the threshold', () => {
+    expect(getHostStats('stats-host', { now: NOW }).notRecentlyPicked.map(m => m.title)).toEqual(['Pizza']);
+    expect(getHostStats('stats-host', { now: NOW, notRecentWeeks: 12 }).notRecentlyPicked).toEqual([]);
+  });
+
+  it('should bucket participation by week including empty weeks', () => {
+    const { participation } = getHostStats('stats-host', { now: NOW });
+
+    expect(participation).toHaveLength(12);
+    expect(participation[participation.length - 1]).toEqual({ weekStart: '2026-03-16', sessions: 2, participants: 2 });
+    expect(participation.find(w => w.weekStart === '2026-03-02')).toEqual({ weekStart: '2026-03-02', sessions: 1, participants: 3 });
+    expect(participation.find(w => w.weekStart === '2026-03-09')).toEqual({ weekStart: '2026-03-09', sessions: 0, participants: 0 });
+  });
+
+  it('should return empty stats for a host without sessions', () => {
+    const stats = getHostStats('stats-nobody', { now: NOW });
+    expect(stats.totals).toEqual({ sessions: 0, closedSessions: 0, participants: 0, mealsPicked: 0 });
+    expect(stats.meals).toEqual([]);
+  });
+});
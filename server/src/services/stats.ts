@@ -0,0 +1,215 @@
+import { getAll, getOne } from '../db/schema';
+import { imageUrls } from './images';
+
+export const DEFAULT_NOT_RECENT_WEEKS = 4;
+export const MAX_NOT_RECENT_WEEKS = 52;
+export const PARTICIPATION_WEEKS = 12;
+export const TOP_MEALS_LIMIT = 10;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface MealStats {
+  mealId: string;
+  title: string;
+  type: string;
+  imageUrl: string | null;
+  thumbnailUrl: string | null;
+  pickCount: number;
+  sessionCount: number; // closed sessions the meal was offered in
+  winCount: number; // of those, sessions where it was the selected meal
+  winRate: number | null; // 0-100, null until the meal has been in a closed session
+  averageApproval: number | null; // 0-100 mean of (yes + maybe) / votes per session
+  lastPickedAt: string | null;
+}
+
+export interface ParticipationWeek {
+  weekStart: string; // YYYY-MM-DD, Monday (UTC)
+  sessions: number;
+  participants: number;
+}
+
+export interface HostStats {
+  totals: {
+    sessions: number;
+    closedSessions: number;
+    participants: number;
+    mealsPicked: number;
+  };
+  mostPicked: MealStats[];
+  meals: MealStats[];
+  participation: ParticipationWeek[];
+  notRecentlyPicked: MealStats[];
+  notRecentWeeks: number;
+}
+
+interface MealRow {
+  id: string;
+  title: string;
+  type: string;
+  image_id: string | null;
+  pick_count: number;
+}
+
+interface SessionCountRow {
+  meal_id: string;
+  session_count: number;
+  win_count: number;
+  last_picked_at: string | null;
+}
+
+interface ApprovalRow {
+  meal_id: string;
+  approvals: number;
+  votes: number;
+}
+
+// SQLite CURRENT_TIMESTAMP values are UTC without a zone marker
+export function parseTimestamp(value: string): Date {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+function startOfWeek(date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+}
+
+// Per-meal numbers for the host's library (temporary quick-session meals are left out)
+export function getMealStats(hostId: string): MealStats[] {
+  const meals = getAll<MealRow>(
+    `SELECT id, title, type, image_id, pick_count
+     FROM meals
+     WHERE host_id = ? AND archived = 0 AND temporary = 0`,
+    [hostId]
+  );
+
+  const counts = new Map(
+    getAll<SessionCountRow>(
+      `SELECT sm.meal_id,
+              COUNT(DISTINCT s.id) AS session_count,
+              COUNT(DISTINCT h.session_id) AS win_count,
+              MAX(h.selected_at) AS last_picked_at
+       FROM session_meals sm
+       JOIN sessions s ON s.id = sm.session_id
+       LEFT JOIN session_history h ON h.session_id = s.id AND h.selected_meal_id = sm.meal_id
+       WHERE s.host_id = ? AND s.status = 'closed'
+       GROUP BY sm.meal_id`,
+      [hostId]
+    ).map(row => [row.meal_id, row])
+  );
+
+  // One row per meal per session, so each session weighs the same however many people voted
+  const approvals = new Map<string, number[]>();
+  for (const row of getAll<ApprovalRow>(
+    `SELECT sm.meal_id,
+            SUM(CASE WHEN sw.vote IN (1, 2) THEN 1 ELSE 0 END) AS approvals,
+            COUNT(sw.id) AS votes
+     FROM session_meals sm
+     JOIN sessions s ON s.id = sm.session_id
+     JOIN swipes sw ON sw.session_meal_id = sm.id
+     JOIN participants p ON p.id = sw.participant_id AND p.submitted = 1
+     WHERE s.host_id = ? AND s.status = 'closed'
+     GROUP BY sm.id`,
+    [hostId]
+  )) {
+    if (row.votes === 0) continue;
+    const list = approvals.get(row.meal_id) ?? [];
+    list.push((row.approvals / row.votes) * 100);
+    approvals.set(row.meal_id, list);
+  }
+
+  return meals.map(meal => {
+    const count = counts.get(meal.id);
+    const sessionCount = count?.session_count ?? 0;
+    const winCount = count?.win_count ?? 0;
+    const percentages = approvals.get(meal.id) ?? [];
+
+    return {
+      mealId: meal.id,
+      title: meal.title,
+      type: meal.type,
+      ...imageUrls(meal.image_id),
+      pickCount: meal.pick_count,
+      sessionCount,
+      winCount,
+      winRate: sessionCount > 0 ? Math.round((winCount / sessionCount) * 100) : null,
+      averageApproval: percentages.length > 0
+        ? Math.round(percentages.reduce((sum, p) => sum + p, 0) / percentages.length)
+        : null,
+      lastPickedAt: count?.last_picked_at ?? null,
+    };
+  });
+}
+
+// Weekly session and participant counts, oldest first, including empty weeks
+function getParticipation(hostId: string, now: Date): ParticipationWeek[] {
+  const firstWeek = startOfWeek(new Date(now.getTime() - (PARTICIPATION_WEEKS - 1) * WEEK_MS));
+  const weeks: ParticipationWeek[] = [];
+  for (let i = 0; i < PARTICIPATION_WEEKS; i++) {
+    const weekStart = new Date(firstWeek.getTime() + i * WEEK_MS);
+    weeks.push({ weekStart: weekStart.toISOString().slice(0, 10), sessions: 0, participants: 0 });
+  }
+
+  const sessions = getAll<{ created_at: string; participant_count: number }>(
+    `SELECT s.created_at,
+            (SELECT COUNT(*) FROM participants WHERE session_id = s.id) AS participant_count
+     FROM sessions s
+     WHERE s.host_id = ?`,
+    [hostId]
+  );
+
+  for (const session of sessions) {
+    const index = Math.floor(
+      (startOfWeek(parseTimestamp(session.created_at)).getTime() - firstWeek.getTime()) / WEEK_MS
+    );
+    if (index < 0 || index >= weeks.length) continue;
+    weeks[index].sessions++;
+    weeks[index].participants += session.participant_count;
+  }
+
+  return weeks;
+}
+
+export function getHostStats(
+  hostId: string,
+  options: { notRecentWeeks?: number; now?: Date } = {}
+): HostStats {
+  const { notRecentWeeks = DEFAULT_NOT_RECENT_WEEKS, now = new Date() } = options;
+  const meals = getMealStats(hostId);
+
+  const totals = getOne<{ sessions: number; closed_sessions: number; participants: number; picked: number }>(
+    `SELECT
+       COUNT(*) AS sessions,
+       SUM(CASE WHEN status = 'closed' THEN 1 ELSE 0 END) AS closed_sessions,
+       (SELECT COUNT(*) FROM participants p JOIN sessions ps ON ps.id = p.session_id WHERE ps.host_id = ?) AS participants,
+       SUM(CASE WHEN selected_meal_id IS NOT NULL THEN 1 ELSE 0 END) AS picked
+     FROM sessions
+     WHERE host_id = ?`,
+    [hostId, hostId]
+  );
+
+  const mostPicked = meals
+    .filter(m => m.pickCount > 0)
+    .sort((a, b) => b.pickCount - a.pickCount || a.title.localeCompare(b.title))
+    .slice(0, TOP_MEALS_LIMIT);
+
+  // Dishes the group has chosen before but not lately, longest gap first
+  const cutoff = now.getTime() - notRecentWeeks * WEEK_MS;
+  const notRecentlyPicked = meals
+    .filter(m => m.lastPickedAt !== null && parseTimestamp(m.lastPickedAt).getTime() < cutoff)
+    .sort((a, b) => a.lastPickedAt!.localeCompare(b.lastPickedAt!));
+
+  return {
+    totals: {
+      sessions: totals?.sessions ?? 0,
+      closedSessions: totals?.closed_sessions ?? 0,
+      participants: totals?.participants ?? 0,
+      mealsPicked: totals?.picked ?? 0,
+    },
+    mostPicked,
+    meals: [...meals].sort((a, b) => (b.winRate ?? -1) - (a.winRate ?? -1) || a.title.localeCompare(b.title)),
+    participation: getParticipation(hostId, now),
+    notRecentlyPicked,
+    notRecentWeeks,
+  };
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { initializeDatabase, runQuery } from '../db/schema';
+import { suggestMeals, seededRandom } from './suggestions';
+
+const NOW = new Date('2026-03-20T12:00:00Z');
+
+describe('Suggestions Service', () => {
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('sugg-host', 'sugg@test.com', 'hash')`, []);
+    runQuery(
+      `INSERT OR IGNORE INTO meals (id, host_id, title, type, temporary, archived) VALUES
+        ('sugg-curry', 'sugg-host', 'Curry', 'meal', 0, 0),
+        ('sugg-dal', 'sugg-host', 'Dal', 'meal', 0, 0),
+        ('sugg-pasta', 'sugg-host', 'Pasta', 'meal', 0, 0),
+        ('sugg-salad', 'sugg-host', 'Salad', 'meal', 0, 0),
+        ('sugg-soup', 'sugg-host', 'Soup', 'meal', 0, 0),
+        ('sugg-tacos', 'sugg-host', 'Tacos', 'meal', 0, 0),
+        ('sugg-diner', 'sugg-host', 'Diner', 'restaurant', 0, 0),
+        ('sugg-old', 'sugg-host', 'Archived', 'meal', 0, 1),
+        ('sugg-temp', 'sugg-host', 'Quick Option', 'meal', 1, 0)`,
+      []
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO tags (id, host_id, name) VALUES
+        ('sugg-tag-indian', 'sugg-host', 'indian'),
+        ('sugg-tag-veg', 'sugg-host', 'vegetarian')`,
+      []
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO meal_tags (meal_id, tag_id) VALUES
+        ('sugg-curry', 'sugg-tag-indian'),
+        ('sugg-dal', 'sugg-tag-indian'),
+        ('sugg-dal', 'sugg-tag-veg'),
+        ('sugg-salad', 'sugg-tag-veg')`,
+      []
+    );
+    // Tacos won a session three days ago, so it should sit out this week
+    runQuery(
+      `INSERT OR IGNORE INTO sessions (id, host_id, invite_code, status, selected_meal_id) VALUES
+        ('sugg-s1', 'sugg-host', 'SUGG01', 'closed', 'sugg-tacos')`,
+      []
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO session_meals (id, session_id, meal_id, display_order) VALUES
+        ('sugg-sm1', 'sugg-s1', 'sugg-tacos', 0),
+        ('sugg-sm2', 'sugg-s1', 'sugg-soup', 1)`,
+      []
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO participants (id, session_id, display_name, submitted) VALUES
+        ('sugg-p1', 'sugg-s1', 'Alice', 1)`,
+      []
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO swipes (id, participant_id, session_meal_id, vote) VALUES
+        ('sugg-v1', 'sugg-p1', 'sugg-sm1', 1),
+        ('sugg-v2', 'sugg-p1', 'sugg-sm2', 0)`,
+      []
+    );
+    runQuery(
+      `INSERT OR IGNORE INTO session_history (id, session_id, selected_meal_id, selected_at) VALUES
+        ('sugg-h1', 'sugg-s1', 'sugg-tacos', '2026-03-17 12:00:00')`,
+      []
+    );
+  });
+
+  it('should return the same pool for the same seed', () => {
+    const first = suggestMeals('sugg-host', { seed: 'tuesday', count: 4, now: NOW });
+    const second = suggestMeals('sugg-host', { seed: 'tuesday', count: 4, now: NOW });
+
+    expect(first).toHaveLength(4);
+    expect(second).toEqual(first);
+  });
+
+  it('should vary the pool across seeds', () => {
+    const pools = new Set(
+      ['a', 'b', 'c', 'd', 'e', 'f'].map(seed =>
+        suggestMeals('sugg-host', { seed, count: 3, now: NOW }).map(m => m.mealId).join(',')
+      )
+    );
+    expect(pools.size).toBeGreaterThan(1);
+  });
+
+  it('should leave out archived and temporary meals', () => {
+    const ids = suggestMeals('sugg-host', { seed: 'all', count: 50, now: NOW }).map(m => m.mealId);
+    expect(ids).toHaveLength(7);
+    expect(ids).not.toContain('sugg-old');
+    expect(ids).not.toContain('sugg-temp');
+  });
+
+  it('should hold back meals picked in the last week until the pool runs out', () => {
+    for (const seed of ['x', 'y', 'z']) {
+      const ids = suggestMeals('sugg-host', { seed, count: 6, now: NOW }).map(m => m.mealId);
+      expect(ids).not.toContain('sugg-tacos');
+    }
+
+    const all = suggestMeals('sugg-host', { seed: 'x', count: 7, now: NOW });
+    expect(all[6]).toMatchObject({ mealId: 'sugg-tacos', reasons: expect.arrayContaining(['Picked in the last week']) });
+  });
+
+  it('should filter by meal type', () => {
+    const meals = suggestMeals('sugg-host', { seed: 'out', count: 5, type: 'restaurant', now: NOW });
+    expect(meals.map(m => m.mealId)).toEqual(['sugg-diner']);
+  });
+
+  it('should favour meals with preferred tags', () => {
+    const seeds = Array.from({ length: 30 }, (_, i) => `seed-${i}`);
+    const indianFirst = (tags: string[]) =>
+      seeds.filter(seed => {
+        const [first] = suggestMeals('sugg-host', { seed, count: 1, tags, now: NOW });
+        return first.tags.includes('indian');
+      }).length;
+
+    expect(indianFirst(['Indian'])).toBeGreaterThan(indianFirst([]));
+  });
+
+  it('should explain each suggestion', () => {
+    const meals = suggestMeals('sugg-host', { seed: 'why', count: 50, tags: ['indian'], now: NOW });
+    const byId = new Map(meals.map(m => [m.mealId, m]));
+
+    expect(byId.get('sugg-curry')!.reasons).toEqual(['Not voted on yet', 'Tagged indian']);
+    expect(byId.get('sugg-soup')!.reasons).toEqual([]);
+  });
+
+  it('should spread picks across tags', () => {
+    // Curry and Dal share a tag, so after one is picked the other becomes less likely
+    const seeds = Array.from({ length: 40 }, (_, i) => `spread-${i}`);
+    const bothIndian = seeds.filter(seed => {
+      const meals = suggestMeals('sugg-host', { seed, count: 2, tags: ['indian'], now: NOW });
+      return meals.every(m => m.tags.includes('indian'));
+    }).length;
+
+    expect(bothIndian).toBeLessThan(seeds.length / 2);
+  });
+
+  it('should produce numbers in [0, 1) from a seed', () => {
+    const random = seededRandom('abc');
+    const values = Array.from({ length: 100 }, () => random());
+
+    expect(values.every(v => v >= 0 && v < 1)).toBe(true);
+    expect(seededRandom('abc')()).toBe(values[0]);
+  });
+});
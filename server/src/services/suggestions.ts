@@ -0,0 +1,150 @@
+import { getTagsForMeals, normalizeTagName } from './tags';
+import { getMealStats, parseTimestamp, MealStats } from './stats';
+
+export const DEFAULT_SUGGESTION_COUNT = 8;
+export const MAX_SUGGESTION_COUNT = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Meals picked this recently are held back unless there is nothing else to offer
+const REPEAT_WINDOW_DAYS = 7;
+// After this long since the last pick a meal counts as fully "due" again
+const FULL_RECENCY_DAYS = 28;
+// Assumed approval for meals the group has never voted on
+const NEUTRAL_APPROVAL = 0.5;
+// Each tag shared with an already-suggested meal scales the weight down by this much
+const DIVERSITY_PENALTY = 0.5;
+const PREFERRED_TAG_BOOST = 1;
+
+export interface SuggestionOptions {
+  count?: number;
+  seed: string;
+  tags?: string[]; // preferred tags: matching meals are more likely
+  type?: string; // only suggest meals of this type
+  now?: Date;
+}
+
+export interface SuggestedMeal {
+  mealId: string;
+  title: string;
+  type: string;
+  tags: string[];
+  thumbnailUrl: string | null;
+  weight: number; // relative likelihood before diversity adjustments, for the preview
+  reasons: string[];
+}
+
+interface Candidate {
+  meal: MealStats;
+  tags: string[];
+  weight: number;
+  reasons: string[];
+  recentRepeat: boolean;
+}
+
+// FNV-1a hash of the seed feeding a mulberry32 generator: small, fast and identical on every platform
+export function seededRandom(seed: string): () => number {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function scoreCandidate(meal: MealStats, tags: string[], preferredTags: string[], now: Date): Candidate {
+  const reasons: string[] = [];
+
+  const approval = meal.averageApproval !== null ? meal.averageApproval / 100 : NEUTRAL_APPROVAL;
+  if (meal.averageApproval === null) {
+    reasons.push('Not voted on yet');
+  } else if (meal.averageApproval >= 70) {
+    reasons.push(`Well liked (${meal.averageApproval}% approval)`);
+  }
+
+  let recency = 1;
+  let recentRepeat = false;
+  if (meal.lastPickedAt) {
+    const days = Math.floor((now.getTime() - parseTimestamp(meal.lastPickedAt).getTime()) / DAY_MS);
+    recency = Math.min(1, days / FULL_RECENCY_DAYS);
+    recentRepeat = days < REPEAT_WINDOW_DAYS;
+    if (days >= FULL_RECENCY_DAYS) {
+      reasons.push(`Last picked ${Math.floor(days / 7)} weeks ago`);
+    }
+  }
+
+  const matches = tags.filter(tag => preferredTags.includes(tag));
+  if (matches.length > 0) {
+    reasons.push(`Tagged ${matches.join(', ')}`);
+  }
+  const tagBoost = preferredTags.length > 0 ? 1 + PREFERRED_TAG_BOOST * (matches.length / preferredTags.length) : 1;
+
+  // Floors keep every meal possible: a disliked or just-picked meal is unlikely, never excluded outright
+  const weight = (0.2 + approval) * (0.1 + 0.9 * recency) * tagBoost;
+
+  return { meal, tags, weight, reasons, recentRepeat };
+}
+
+// Weighted sampling without replacement; shared tags with earlier picks lower a meal's odds
+function sample(candidates: Candidate[], count: number, random: () => number): Candidate[] {
+  const pool = candidates.map(candidate => ({ candidate, weight: candidate.weight }));
+  const chosen: Candidate[] = [];
+
+  while (chosen.length < count && pool.length > 0) {
+    const total = pool.reduce((sum, entry) => sum + entry.weight, 0);
+    let target = random() * total;
+    let index = pool.findIndex(entry => (target -= entry.weight) < 0);
+    if (index === -1) index = pool.length - 1; // floating point leftovers
+
+    const [{ candidate }] = pool.splice(index, 1);
+    chosen.push(candidate);
+
+    for (const entry of pool) {
+      const shared = entry.candidate.tags.filter(tag => candidate.tags.includes(tag)).length;
+      entry.weight *= Math.pow(DIVERSITY_PENALTY, shared);
+    }
+  }
+
+  return chosen;
+}
+
+// Pick a pool of meals for a new session. The same seed and data always give the same pool.
+export function suggestMeals(hostId: string, options: SuggestionOptions): SuggestedMeal[] {
+  const { count = DEFAULT_SUGGESTION_COUNT, seed, type, now = new Date() } = options;
+  const preferredTags = (options.tags ?? []).map(normalizeTagName).filter(tag => tag.length > 0);
+
+  // Sort so the sampling order does not depend on how the database returns rows
+  const meals = getMealStats(hostId)
+    .filter(meal => !type || meal.type === type)
+    .sort((a, b) => a.mealId.localeCompare(b.mealId));
+  const tagsByMeal = getTagsForMeals(meals.map(meal => meal.mealId));
+
+  const candidates = meals.map(meal => scoreCandidate(meal, tagsByMeal.get(meal.mealId) || [], preferredTags, now));
+  const random = seededRandom(seed);
+
+  // Recent picks only fill the pool when the rest of the library runs out
+  const fresh = candidates.filter(candidate => !candidate.recentRepeat);
+  const recent = candidates.filter(candidate => candidate.recentRepeat);
+  const chosen = sample(fresh, count, random);
+  if (chosen.length < count) {
+    chosen.push(...sample(recent, count - chosen.length, random).map(candidate => ({
+      ...candidate,
+      reasons: [...candidate.reasons, 'Picked in the last week'],
+    })));
+  }
+
+  return chosen.map(({ meal, tags, weight, reasons }) => ({
+    mealId: meal.mealId,
+    title: meal.title,
+    type: meal.type,
+    tags,
+    thumbnailUrl: meal.thumbnailUrl,
+    weight: Math.round(weight * 100) / 100,
+    reasons,
+  }));
+}
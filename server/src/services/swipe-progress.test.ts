@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { initializeDatabase, runQuery, getOne, getAll } from '../db/schema';
+import { Participant } from '../types';
+import { createSession } from './sessions';
+import { calculateResults } from './matching';
+import {
+  saveDeckOrder,
+  getDeckOrder,
+  saveSwipe,
+  submitSwipes,
+  getSwipeProgress,
+  getSessionProgress,
+} from './swipe-progress';
+
+const MEALS = ['progress-meal1', 'progress-meal2', 'progress-meal3'];
+
+function addParticipant(sessionId: string, id: string): Participant {
+  runQuery('INSERT INTO participants (id, session_id, display_name) VALUES (?, ?, ?)', [id, sessionId, id]);
+  return getOne<Participant>('SELECT * FROM participants WHERE id = ?', [id])!;
+}
+
+function reload(participant: Participant): Participant {
+  return getOne<Participant>('SELECT * FROM participants WHERE id = ?', [participant.id])!;
+}
+
+function sessionMealId(sessionId: string, mealId: string): string {
+  return getOne<{ id: string }>(
+    'SELECT id FROM session_meals WHERE session_id = ? AND meal_id = ?',
+    [sessionId, mealId]
+  )!.id;
+}
+
+describe('Swipe Progress Service', () => {
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('progress-host', 'progress@test.com', 'hash')`, []);
+    MEALS.forEach((id, i) => {
+      runQuery('INSERT OR IGNORE INTO meals (id, host_id, title) VALUES (?, ?, ?)', [id, 'progress-host', `Meal ${i + 1}`]);
+    });
+  });
+
+  it('should keep the dealt order, falling back to the session order', () => {
+    const { id: sessionId } = createSession('progress-host', MEALS);
+    const shuffled = addParticipant(sessionId, `progress-shuffled-${sessionId}`);
+    const creator = addParticipant(sessionId, `progress-creator-${sessionId}`);
+
+    saveDeckOrder(shuffled.id, ['progress-meal3', 'progress-meal1']);
+
+    expect(getDeckOrder(reload(shuffled))).toEqual(['progress-meal3', 'progress-meal1']);
+
+    const sessionOrder = getAll<{ meal_id: string }>(
+      'SELECT meal_id FROM session_meals WHERE session_id = ? ORDER BY display_order',
+      [sessionId]
+    ).map(sm => sm.meal_id);
+    expect(getDeckOrder(creator)).toEqual(sessionOrder);
+  });
+
+  it('should save drafts as they happen and resume at the first unswiped meal', () => {
+    const { id: sessionId } = createSession('progress-host', MEALS);
+    const joined = addParticipant(sessionId, `progress-draft-${sessionId}`);
+    saveDeckOrder(joined.id, MEALS);
+    const participant = reload(joined);
+
+    saveSwipe(participant, sessionMealId(sessionId, 'progress-meal1'), 1);
+    saveSwipe(participant, sessionMealId(sessionId, 'progress-meal1'), 2); // changed their mind
+    saveSwipe(participant, sessionMealId(sessionId, 'progress-meal3'), 0);
+
+    expect(getSwipeProgress(participant)).toEqual({
+      swipes: { 'progress-meal1': 2, 'progress-meal3': 0 },
+      position: 1,
+      swiped: 2,
+      total: 3,
+    });
+    expect(getSessionProgress(sessionId).get(participant.id)).toEqual({ swiped: 2, total: 3 });
+
+    const drafts = getAll<{ draft: number }>('SELECT draft FROM swipes WHERE participant_id = ?', [participant.id]);
+    expect(drafts).toEqual([{ draft: 1 }, { draft: 1 }]);
+  });
+
+  it('should leave drafts out of results until the participant submits', () => {
+    const { id: sessionId } = createSession('progress-host', MEALS);
+    const participant = addParticipant(sessionId, `progress-submit-${sessionId}`);
+
+    saveSwipe(participant, sessionMealId(sessionId, 'progress-meal1'), 1);
+    expect(calculateResults(sessionId)).toEqual([]);
+
+    submitSwipes(participant.id, MEALS.map(mealId => ({ sessionMealId: sessionMealId(sessionId, mealId), vote: 1 })));
+
+    const submitted = reload(participant);
+    expect(submitted.submitted).toBe(1);
+    expect(getSwipeProgress(submitted)).toMatchObject({ swiped: 3, position: 3 });
+    expect(calculateResults(sessionId)).toHaveLength(3);
+
+    // Changing a vote after submitting updates the ballot directly
+    saveSwipe(submitted, sessionMealId(sessionId, 'progress-meal2'), 0);
+    const changed = calculateResults(sessionId).find(r => r.mealId === 'progress-meal2')!;
+    expect(changed.yesCount).toBe(0);
+    expect(changed.totalVotes).toBe(1);
+  });
+});
@@ -0,0 +1,108 @@
+import { v4 as uuidv4 } from 'uuid';
+import { runQuery, getOne, getAll, runTransaction } from '../db/schema';
+import { Participant } from '../types';
+
+export const VOTES = [0, 1, 2]; // no, yes, maybe
+
+export interface SwipeProgress {
+  swipes: Record<string, number>; // mealId -> vote
+  position: number; // index of the first meal in the deck without a vote
+  swiped: number;
+  total: number;
+}
+
+// Remember the order a participant was dealt their meals, so another device shows the same deck
+export function saveDeckOrder(participantId: string, mealIds: string[]): void {
+  runQuery('UPDATE participants SET deck_order = ? WHERE id = ?', [JSON.stringify(mealIds), participantId]);
+}
+
+// The participant's meals in the order they swipe them. Participants without a saved order
+// (quick-session creators, and anyone who joined before orders were kept) follow the session's order.
+export function getDeckOrder(participant: Pick<Participant, 'session_id' | 'deck_order'>): string[] {
+  if (participant.deck_order) {
+    try {
+      const order = JSON.parse(participant.deck_order);
+      if (Array.isArray(order)) return order.filter((id): id is string => typeof id === 'string');
+    } catch {
+      // Fall through to the session's order
+    }
+  }
+
+  return getAll<{ meal_id: string }>(
+    'SELECT meal_id FROM session_meals WHERE session_id = ? ORDER BY display_order',
+    [participant.session_id]
+  ).map(sm => sm.meal_id);
+}
+
+// Save one vote as it happens. Votes stay drafts (left out of results and history) until the
+// participant submits; someone updating a submitted ballot changes it directly.
+export function saveSwipe(participant: Participant, sessionMealId: string, vote: number): void {
+  runQuery(
+    `INSERT INTO swipes (id, participant_id, session_meal_id, vote, draft)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(participant_id, session_meal_id) DO UPDATE SET vote = excluded.vote, draft = excluded.draft`,
+    [uuidv4(), participant.id, sessionMealId, vote, participant.submitted === 1 ? 0 : 1]
+  );
+}
+
+// Replace everything saved so far with the submitted ballot and make it final
+export function submitSwipes(participantId: string, swipes: Array<{ sessionMealId: string; vote: number }>): void {
+  runTransaction(() => {
+    runQuery('DELETE FROM swipes WHERE participant_id = ?', [participantId]);
+    for (const swipe of swipes) {
+      runQuery(
+        'INSERT INTO swipes (id, participant_id, session_meal_id, vote, draft) VALUES (?, ?, ?, ?, 0)',
+        [uuidv4(), participantId, swipe.sessionMealId, swipe.vote]
+      );
+    }
+    runQuery('UPDATE participants SET submitted = 1 WHERE id = ?', [participantId]);
+  });
+}
+
+export function getSwipeProgress(participant: Participant): SwipeProgress {
+  const deck = getDeckOrder(participant);
+  const votes = getAll<{ meal_id: string; vote: number }>(
+    `SELECT sm.meal_id, sw.vote
+     FROM swipes sw
+     JOIN session_meals sm ON sm.id = sw.session_meal_id
+     WHERE sw.participant_id = ?`,
+    [participant.id]
+  );
+
+  const swipes: Record<string, number> = {};
+  for (const { meal_id, vote } of votes) {
+    if (deck.includes(meal_id)) swipes[meal_id] = vote;
+  }
+
+  const position = deck.findIndex(mealId => swipes[mealId] === undefined);
+  return {
+    swipes,
+    position: position === -1 ? deck.length : position,
+    swiped: Object.keys(swipes).length,
+    total: deck.length,
+  };
+}
+
+// How far each participant in a session has got, for the host's live view
+export function getSessionProgress(sessionId: string): Map<string, { swiped: number; total: number }> {
+  const participants = getAll<Participant>('SELECT * FROM participants WHERE session_id = ?', [sessionId]);
+  const sessionMealCount = getOne<{ count: number }>(
+    'SELECT COUNT(*) as count FROM session_meals WHERE session_id = ?',
+    [sessionId]
+  )?.count ?? 0;
+  const swipeCounts = new Map(
+    getAll<{ participant_id: string; count: number }>(
+      `SELECT sw.participant_id, COUNT(*) as count
+       FROM swipes sw
+       JOIN participants p ON p.id = sw.participant_id
+       WHERE p.session_id = ?
+       GROUP BY sw.participant_id`,
+      [sessionId]
+    ).map(row => [row.participant_id, row.count])
+  );
+
+  return new Map(participants.map(p => {
+    const total = p.deck_order ? getDeckOrder(p).length : sessionMealCount;
+    return [p.id, { swiped: Math.min(swipeCounts.get(p.id) ?? 0, total), total }];
+  }));
+}
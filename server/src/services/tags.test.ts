@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { initializeDatabase, runQuery, getAll } from '../db/schema';
+import { normalizeTagName, setMealTags, getTagsForMeals, validateTagNames } from './tags';
+
+describe('Tags Service - Normalization', () => {
+  it('should trim, collapse whitespace and lowercase names', () => {
+    expect(normalizeTagName('  Quick   Dinner ')).toBe('quick dinner');
+    expect(normalizeTagName('Vegetarian')).toBe('vegetarian');
+  });
+
+  it('should validate tag name lists', () => {
+    expect(validateTagNames(['vegetarian', 'quick'])).toBeNull();
+    expect(validateTagNames('vegetarian')).toBe('Tags must be a list of names');
+    expect(validateTagNames([1])).toBe('Tags must be a list of names');
+    expect(validateTagNames(['x'.repeat(31)])).toContain('at most');
+  });
+});
+
+describe('Tags Service - Meal Tags', () => {
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('tag-host', 'tags@test.com', 'hash')`, []);
+    runQuery(`INSERT OR IGNORE INTO meals (id, host_id, title) VALUES ('tag-meal1', 'tag-host', 'Salad'), ('tag-meal2', 'tag-host', 'Omelette')`, []);
+  });
+
+  it('should create missing tags and attach them to the meal', () => {
+    const saved = setMealTags('tag-host', 'tag-meal1', ['Vegetarian', 'quick', 'vegetarian ']);
+
+    expect(saved).toEqual(['quick', 'vegetarian']);
+    expect(getTagsForMeals(['tag-meal1']).get('tag-meal1')).toEqual(['quick', 'vegetarian']);
+  });
+
+  it('should reuse existing tags across meals', () => {
+    setMealTags('tag-host', 'tag-meal1', ['vegetarian']);
+    setMealTags('tag-host', 'tag-meal2', ['Vegetarian', 'breakfast']);
+
+    const tags = getAll<{ name: string }>(
+      `SELECT name FROM tags WHERE host_id = 'tag-host' AND name = 'vegetarian'`
+    );
+    expect(tags).toHaveLength(1);
+
+    const tagsByMeal = getTagsForMeals(['tag-meal1', 'tag-meal2']);
+    expect(tagsByMeal.get('tag-meal1')).toEqual(['vegetarian']);
+    expect(tagsByMeal.get('tag-meal2')).toEqual(['breakfast', 'vegetarian']);
+  });
+
+  it('should clear tags when given an empty list', () => {
+    setMealTags('tag-host', 'tag-meal1', []);
+
+    expect(getTagsForMeals(['tag-meal1']).get('tag-meal1')).toEqual([]);
+  });
+
+  it('should return an empty map for no meals', () => {
+    expect(getTagsForMeals([]).size).toBe(0);
+  });
+});
@@ -0,0 +1,70 @@
+import { v4 as uuidv4 } from 'uuid';
+import { runQuery, getOne, getAll } from '../db/schema';
+import { Tag } from '../types';
+
+export const MAX_TAG_LENGTH = 30;
+
+// Tags are case-insensitive: "Vegetarian " and "vegetarian" are the same tag
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function findOrCreateTag(hostId: string, name: string): Tag {
+  const normalized = normalizeTagName(name);
+
+  const existing = getOne<Tag>(
+    'SELECT * FROM tags WHERE host_id = ? AND name = ?',
+    [hostId, normalized]
+  );
+  if (existing) return existing;
+
+  const id = uuidv4();
+  runQuery('INSERT INTO tags (id, host_id, name) VALUES (?, ?, ?)', [id, hostId, normalized]);
+
+  return getOne<Tag>('SELECT * FROM tags WHERE id = ?', [id])!;
+}
+
+// Replace a meal's tags, creating any the host doesn't have yet
+export function setMealTags(hostId: string, mealId: string, names: string[]): string[] {
+  const normalized = [...new Set(names.map(normalizeTagName).filter(n => n.length > 0))];
+
+  runQuery('DELETE FROM meal_tags WHERE meal_id = ?', [mealId]);
+
+  for (const name of normalized) {
+    const tag = findOrCreateTag(hostId, name);
+    runQuery('INSERT OR IGNORE INTO meal_tags (meal_id, tag_id) VALUES (?, ?)', [mealId, tag.id]);
+  }
+
+  return normalized.sort();
+}
+
+// Look up tag names for many meals in one query
+export function getTagsForMeals(mealIds: string[]): Map<string, string[]> {
+  const tagsByMeal = new Map<string, string[]>(mealIds.map(id => [id, []]));
+  if (mealIds.length === 0) return tagsByMeal;
+
+  const rows = getAll<{ meal_id: string; name: string }>(
+    `SELECT mt.meal_id, t.name
+     FROM meal_tags mt
+     JOIN tags t ON mt.tag_id = t.id
+     WHERE mt.meal_id IN (${mealIds.map(() => '?').join(',')})
+     ORDER BY t.name`,
+    mealIds
+  );
+
+  for (const row of rows) {
+    tagsByMeal.get(row.meal_id)?.push(row.name);
+  }
+
+  return tagsByMeal;
+}
+
+export function validateTagNames(names: unknown): string | null {
+  if (!Array.isArray(names) || names.some(n => typeof n !== 'string')) {
+    return 'Tags must be a list of names';
+  }
+  if (names.some(n => normalizeTagName(n).length > MAX_TAG_LENGTH)) {
+    return `Tags must be at most ${MAX_TAG_LENGTH} characters`;
+  }
+  return null;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { initializeDatabase, runQuery, getOne, getAll } from '../db/schema';
+import { Session, SessionTemplate } from '../types';
+import { resolveTemplateMealIds, runTemplate, runDueTemplates, computeNextRunAt } from './templates';
+
+function getTemplate(id: string): SessionTemplate {
+  return getOne<SessionTemplate>('SELECT * FROM session_templates WHERE id = ?', [id])!;
+}
+
+describe('Templates Service', () => {
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('tpl-host', 'templates@test.com', 'hash')`, []);
+    runQuery(
+      `INSERT OR IGNORE INTO meals (id, host_id, title, archived) VALUES
+        ('tpl-meal1', 'tpl-host', 'Sandwiches', 0),
+        ('tpl-meal2', 'tpl-host', 'Sushi', 0),
+        ('tpl-meal3', 'tpl-host', 'Closed Diner', 1)`,
+      []
+    );
+    runQuery(
+      `INSERT OR REPLACE INTO session_templates
+        (id, host_id, name, meal_ids, scoring_mode, max_participants, schedule, auto_close_minutes, active, next_run_at)
+       VALUES ('tpl-lunch', 'tpl-host', 'Office Lunch', '["tpl-meal1","tpl-meal2","tpl-meal3"]', 'veto', 8,
+               '0 11 * * 1-5', 60, 1, '2026-03-02T11:00:00.000Z')`,
+      []
+    );
+    runQuery(
+      `INSERT OR REPLACE INTO session_templates (id, host_id, name, meal_ids, active)
+       VALUES ('tpl-empty', 'tpl-host', 'Nothing Left', '["tpl-meal3"]', 1)`,
+      []
+    );
+  });
+
+  it('should drop archived meals from the pool', () => {
+    expect(resolveTemplateMealIds(getTemplate('tpl-lunch'))).toEqual(['tpl-meal1', 'tpl-meal2']);
+  });
+
+  it('should create a session carrying the template settings', () => {
+    const now = new Date('2026-03-02T11:00:00.000Z');
+    const created = runTemplate(getTemplate('tpl-lunch'), now);
+
+    expect(created).not.toBeNull();
+    expect(created!.inviteCode).toMatch(/^[A-Z0-9]{6}$/);
+
+    const session = getOne<Session>('SELECT * FROM sessions WHERE id = ?', [created!.id])!;
+    expect(session.status).toBe('open');
+    expect(session.scoring_mode).toBe('veto');
+    expect(session.template_id).toBe('tpl-lunch');
+    expect(session.max_participants).toBe(8);
+    expect(session.closes_at).toBe('2026-03-02T12:00:00.000Z');
+
+    const meals = getAll('SELECT meal_id FROM session_meals WHERE session_id = ?', [created!.id]);
+    expect(meals).toHaveLength(2);
+  });
+
+  it('should not create a session when no meals are left', () => {
+    expect(runTemplate(getTemplate('tpl-empty'))).toBeNull();
+  });
+
+  it('should run due templates and book the next run', () => {
+    const now = new Date('2026-03-02T11:00:30.000Z');
+    const created = runDueTemplates(now);
+
+    expect(created).toHaveLength(1);
+
+    const template = getTemplate('tpl-lunch');
+    expect(template.last_run_at).toBe(now.toISOString());
+    expect(template.next_run_at).toBe(computeNextRunAt(template, now));
+    expect(new Date(template.next_run_at!).getTime()).toBeGreaterThan(now.getTime());
+
+    // Nothing is due again until the next scheduled time
+    expect(runDueTemplates(now)).toHaveLength(0);
+  });
+
+  it('should not schedule inactive templates', () => {
+    expect(computeNextRunAt({ schedule: '0 11 * * 1-5', active: 0 }, new Date())).toBeNull();
+    expect(computeNextRunAt({ schedule: null, active: 1 }, new Date())).toBeNull();
+  });
+});
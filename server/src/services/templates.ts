@@ -0,0 +1,87 @@
+import { runQuery, getAll } from '../db/schema';
+import { SessionTemplate } from '../types';
+import { resolvePlaylistMealIds } from './playlists';
+import { createSession } from './sessions';
+import { getNextRun } from './schedule';
+
+export function parseTemplateMealIds(template: SessionTemplate): string[] {
+  if (!template.meal_ids) return [];
+  try {
+    const ids = JSON.parse(template.meal_ids);
+    return Array.isArray(ids) ? ids : [];
+  } catch {
+    return [];
+  }
+}
+
+// A template's meal pool, minus anything archived since it was saved
+export function resolveTemplateMealIds(template: SessionTemplate): string[] {
+  if (template.playlist_id) {
+    return resolvePlaylistMealIds(template.host_id, template.playlist_id) || [];
+  }
+
+  const mealIds = parseTemplateMealIds(template);
+  if (mealIds.length === 0) return [];
+
+  const active = getAll<{ id: string }>(
+    `SELECT id FROM meals WHERE id IN (${mealIds.map(() => '?').join(',')}) AND host_id = ? AND archived = 0`,
+    [...mealIds, template.host_id]
+  );
+  const activeIds = new Set(active.map(m => m.id));
+
+  return mealIds.filter(id => activeIds.has(id));
+}
+
+export function computeNextRunAt(template: Pick<SessionTemplate, 'schedule' | 'active'>, after: Date): string | null {
+  if (!template.schedule || !template.active) return null;
+  return getNextRun(template.schedule, after)?.toISOString() || null;
+}
+
+// Start a session from a template now. Returns null if none of its meals are left.
+export function runTemplate(template: SessionTemplate, now: Date = new Date()): { id: string; inviteCode: string } | null {
+  const mealIds = resolveTemplateMealIds(template);
+  if (mealIds.length === 0) return null;
+
+  const closesAt = template.auto_close_minutes
+    ? new Date(now.getTime() + template.auto_close_minutes * 60 * 1000).toISOString()
+    : null;
+
+  return createSession(template.host_id, mealIds, {
+    scoringMode: template.scoring_mode,
+    templateId: template.id,
+    maxParticipants: template.max_participants,
+    closesAt,
+  });
+}
+
+// Create sessions for every scheduled template that is due, then book its next run.
+// Runs missed while the server was down are collapsed into a single catch-up session.
+export function runDueTemplates(now: Date = new Date()): string[] {
+  const due = getAll<SessionTemplate>(
+    `SELECT * FROM session_templates
+     WHERE active = 1 AND schedule IS NOT NULL AND next_run_at IS NOT NULL AND next_run_at <= ?`,
+    [now.toISOString()]
+  );
+
+  const createdSessionIds: string[] = [];
+
+  for (const template of due) {
+    try {
+      const session = runTemplate(template, now);
+      if (session) {
+        createdSessionIds.push(session.id);
+      } else {
+        console.warn(`Template ${template.id} has no active meals; skipping scheduled run`);
+      }
+    } catch (error) {
+      console.error(`Scheduled run of template ${template.id} failed:`, error);
+    }
+
+    runQuery(
+      'UPDATE session_templates SET last_run_at = ?, next_run_at = ? WHERE id = ?',
+      [now.toISOString(), computeNextRunAt(template, now), template.id]
+    );
+  }
+
+  return createdSessionIds;
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { initializeDatabase, runQuery, getOne } from '../db/schema';
+import { WebhookDelivery } from '../types';
+import { createSession } from './sessions';
+import {
+  validateWebhook,
+  signPayload,
+  triggerWebhooks,
+  retryDueDeliveries,
+  getDeliveries,
+  MAX_DELIVERY_ATTEMPTS,
+} from './webhooks';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhooks Service', () => {
+  const received: ReceivedRequest[] = [];
+  let responseStatus = 200;
+  let server: http.Server;
+  let receiverUrl: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    runQuery(`INSERT OR IGNORE INTO hosts (id, email, password_hash) VALUES ('hook-host', 'hooks@test.com', 'hash')`, []);
+    runQuery(`INSERT OR IGNORE INTO meals (id, host_id, title) VALUES ('hook-meal1', 'hook-host', 'Pho')`, []);
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(responseStatus);
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    responseStatus = 200;
+    runQuery("DELETE FROM webhook_deliveries WHERE webhook_id IN (SELECT id FROM webhooks WHERE host_id = 'hook-host')", []);
+    runQuery("DELETE FROM webhooks WHERE host_id = 'hook-host'", []);
+  });
+
+  function addWebhook(id: string, events: string[] = []) {
+    runQuery(
+      "INSERT INTO webhooks (id, host_id, url, secret, events) VALUES (?, 'hook-host', ?, 'shh', ?)",
+      [id, receiverUrl, JSON.stringify(events)]
+    );
+  }
+
+  it('should validate URLs and event names', () => {
+    expect(validateWebhook({ url: 'https://example.com/hook', events: ['session.closed'] })).toBeNull();
+    expect(validateWebhook({ url: 'ftp://example.com' })).toBe('Webhook URL must be an http or https address');
+    expect(validateWebhook({ url: 'not a url' })).toBe('Webhook URL must be an http or https address');
+    expect(validateWebhook({ events: ['session.exploded' as never] })).toContain('Unknown event: session.exploded');
+    expect(validateWebhook({})).toBeNull();
+  });
+
+  it('should POST a signed JSON payload for subscribed events', async () => {
+    addWebhook('hook-joined', ['participant.joined']);
+    const { id: sessionId } = createSession('hook-host', ['hook-meal1']);
+
+    await triggerWebhooks(sessionId, 'participant.joined', { participant: { id: 'p1', displayName: 'Ana' } });
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(headers['x-mealmatch-event']).toBe('participant.joined');
+    expect(headers['x-mealmatch-signature']).toBe(signPayload('shh', Number(headers['x-mealmatch-timestamp']), body));
+
+    const payload = JSON.parse(body);
+    expect(payload.id).toBe(headers['x-mealmatch-delivery']);
+    expect(payload.session.id).toBe(sessionId);
+    expect(payload.data.participant.displayName).toBe('Ana');
+
+    const [delivery] = getDeliveries('hook-joined');
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.response_status).toBe(200);
+  });
+
+  it('should send session.created from createSession and respect event filters', async () => {
+    addWebhook('hook-closed-only', ['session.closed']);
+    addWebhook('hook-created-only', ['session.created']);
+
+    createSession('hook-host', ['hook-meal1']);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(received).toHaveLength(1);
+    expect(JSON.parse(received[0].body).data.mealCount).toBe(1);
+    expect(getDeliveries('hook-closed-only')).toHaveLength(0);
+  });
+
+  it('should retry failed deliveries with backoff and give up after the last attempt', async () => {
+    addWebhook('hook-flaky', ['meal.selected']);
+    const { id: sessionId } = createSession('hook-host', ['hook-meal1']);
+    responseStatus = 500;
+
+    const start = new Date('2026-05-01T12:00:00.000Z');
+    await triggerWebhooks(sessionId, 'meal.selected', {}, start);
+
+    let [delivery] = getDeliveries('hook-flaky');
+    expect(delivery.status).toBe('pending');
+    expect(delivery.error).toBe('Receiver responded with HTTP 500');
+    expect(delivery.next_attempt_at).toBe('2026-05-01T12:00:30.000Z');
+
+    expect(await retryDueDeliveries(new Date('2026-05-01T12:00:10.000Z'))).toBe(0);
+
+    let now = start.getTime();
+    for (let attempt = 2; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+      now += 2 * 60 * 60 * 1000;
+      expect(await retryDueDeliveries(new Date(now))).toBe(1);
+    }
+
+    [delivery] = getDeliveries('hook-flaky');
+    expect(delivery.attempts).toBe(MAX_DELIVERY_ATTEMPTS);
+    expect(delivery.status).toBe('failed');
+    expect(delivery.next_attempt_at).toBeNull();
+    expect(received).toHaveLength(MAX_DELIVERY_ATTEMPTS);
+  });
+
+  it('should mark a retried delivery delivered once the receiver recovers', async () => {
+    addWebhook('hook-recovering', ['session.closed']);
+    const { id: sessionId } = createSession('hook-host', ['hook-meal1']);
+    responseStatus = 503;
+
+    const start = new Date('2026-05-01T12:00:00.000Z');
+    await triggerWebhooks(sessionId, 'session.closed', () => ({ results: [] }), start);
+
+    responseStatus = 204;
+    await retryDueDeliveries(new Date('2026-05-01T12:01:00.000Z'));
+
+    const delivery = getOne<WebhookDelivery>("SELECT * FROM webhook_deliveries WHERE webhook_id = 'hook-recovering'")!;
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts).toBe(2);
+    expect(delivery.delivered_at).toBe('2026-05-01T12:01:00.000Z');
+  });
+
+  it('should record network errors without throwing', async () => {
+    runQuery(
+      "INSERT INTO webhooks (id, host_id, url, secret, events) VALUES ('hook-down', 'hook-host', 'http://127.0.0.1:1/nothing', 'shh', '[]')",
+      []
+    );
+    const { id: sessionId } = createSession('hook-host', ['hook-meal1']);
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    await triggerWebhooks(sessionId, 'participant.submitted', {});
+
+    const deliveries = getDeliveries('hook-down');
+    expect(deliveries.every(d => d.status === 'pending' && d.error !== null)).toBe(true);
+  });
+});
@@ -0,0 +1,263 @@
+import { v4 as uuidv4 } from 'uuid';
+import crypto from 'crypto';
+import { runQuery, getOne, getAll } from '../db/schema';
+import { Session, Webhook, WebhookDelivery, WebhookEvent, WebhookRequest } from '../types';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'session.created',
+  'participant.joined',
+  'participant.submitted',
+  'session.closed',
+  'meal.selected',
+];
+
+export const MAX_WEBHOOKS_PER_HOST = 10;
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+// Wait after each failed attempt before the next one: 30s, 2m, 10m, then 1h
+export const RETRY_DELAYS_SECONDS = [30, 120, 600, 3600];
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const DELIVERY_LOG_LIMIT = 50;
+const MAX_ERROR_LENGTH = 200;
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return WEBHOOK_EVENTS.includes(value as WebhookEvent);
+}
+
+// Validate the fields present in a create/update body
+export function validateWebhook(input: WebhookRequest): string | null {
+  const { url, events, active } = input;
+
+  if (url !== undefined) {
+    let parsed: URL | null = null;
+    try {
+      parsed = typeof url === 'string' ? new URL(url) : null;
+    } catch {
+      parsed = null;
+    }
+    if (!parsed || (parsed.protocol !== 'https:' && parsed.protocol !== 'http:')) {
+      return 'Webhook URL must be an http or https address';
+    }
+  }
+  if (events !== undefined) {
+    if (!Array.isArray(events)) {
+      return 'Events must be a list';
+    }
+    const unknown = events.find(e => !isWebhookEvent(e));
+    if (unknown !== undefined) {
+      return `Unknown event: ${unknown}. Use one of: ${WEBHOOK_EVENTS.join(', ')}`;
+    }
+  }
+  if (active !== undefined && typeof active !== 'boolean') {
+    return 'Active must be true or false';
+  }
+  return null;
+}
+
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+export function parseWebhookEvents(webhook: Pick<Webhook, 'events'>): WebhookEvent[] {
+  try {
+    const events = JSON.parse(webhook.events);
+    return Array.isArray(events) ? events.filter(isWebhookEvent) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Receivers recompute this over the timestamp header and the raw body to check a request came from us
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export function formatWebhook(webhook: Webhook) {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    secret: webhook.secret,
+    events: parseWebhookEvents(webhook),
+    active: webhook.active === 1,
+    createdAt: webhook.created_at,
+  };
+}
+
+export function formatDelivery(delivery: WebhookDelivery) {
+  return {
+    id: delivery.id,
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    responseStatus: delivery.response_status,
+    error: delivery.error,
+    nextAttemptAt: delivery.next_attempt_at,
+    createdAt: delivery.created_at,
+    deliveredAt: delivery.delivered_at,
+    payload: JSON.parse(delivery.payload),
+  };
+}
+
+export function getDeliveries(webhookId: string): WebhookDelivery[] {
+  return getAll<WebhookDelivery>(
+    'SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC LIMIT ?',
+    [webhookId, DELIVERY_LOG_LIMIT]
+  );
+}
+
+function createDelivery(
+  webhook: Webhook,
+  event: WebhookDelivery['event'],
+  body: Record<string, unknown>,
+  now: Date
+): WebhookDelivery {
+  const id = uuidv4();
+  const delivery: WebhookDelivery = {
+    id,
+    webhook_id: webhook.id,
+    event,
+    payload: JSON.stringify({ id, event, createdAt: now.toISOString(), ...body }),
+    status: 'pending',
+    attempts: 0,
+    response_status: null,
+    error: null,
+    next_attempt_at: now.toISOString(),
+    created_at: now.toISOString(),
+    delivered_at: null,
+  };
+
+  runQuery(
+    `INSERT INTO webhook_deliveries (id, webhook_id, event, payload, status, next_attempt_at, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [delivery.id, delivery.webhook_id, delivery.event, delivery.payload, delivery.status, delivery.next_attempt_at, delivery.created_at]
+  );
+
+  return delivery;
+}
+
+// POST the delivery once and record the outcome, scheduling a retry or giving up after the last attempt
+export async function attemptDelivery(
+  delivery: WebhookDelivery,
+  webhook: Pick<Webhook, 'url' | 'secret'>,
+  now: Date = new Date()
+): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1;
+
+  // Push the retry time out first so an overlapping scheduler tick leaves this attempt alone
+  runQuery(
+    'UPDATE webhook_deliveries SET next_attempt_at = ? WHERE id = ?',
+    [new Date(now.getTime() + 2 * REQUEST_TIMEOUT_MS).toISOString(), delivery.id]
+  );
+
+  const timestamp = Math.floor(now.getTime() / 1000);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'MealMatch-Webhooks',
+        'X-MealMatch-Event': delivery.event,
+        'X-MealMatch-Delivery': delivery.id,
+        'X-MealMatch-Timestamp': String(timestamp),
+        'X-MealMatch-Signature': signPayload(webhook.secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `Receiver responded with HTTP ${response.status}`;
+    }
+  } catch (err) {
+    error = (err instanceof Error ? err.message : String(err)).slice(0, MAX_ERROR_LENGTH);
+  }
+
+  const updated: WebhookDelivery = { ...delivery, attempts, response_status: responseStatus, error };
+  if (!error) {
+    updated.status = 'delivered';
+    updated.next_attempt_at = null;
+    updated.delivered_at = now.toISOString();
+  } else if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+    updated.status = 'failed';
+    updated.next_attempt_at = null;
+  } else {
+    updated.next_attempt_at = new Date(now.getTime() + RETRY_DELAYS_SECONDS[attempts - 1] * 1000).toISOString();
+  }
+
+  runQuery(
+    `UPDATE webhook_deliveries
+     SET status = ?, attempts = ?, response_status = ?, error = ?, next_attempt_at = ?, delivered_at = ?
+     WHERE id = ?`,
+    [updated.status, updated.attempts, updated.response_status, updated.error, updated.next_attempt_at, updated.delivered_at, updated.id]
+  );
+
+  return updated;
+}
+
+// Event details, or a function building them so costly details are only computed when a webhook wants them
+type WebhookData = Record<string, unknown> | (() => Record<string, unknown>);
+
+// Queue and send an event to each of the session host's active webhooks that subscribe to it
+async function deliverEvent(
+  sessionId: string,
+  event: WebhookEvent,
+  data: WebhookData,
+  now: Date
+): Promise<void> {
+  const session = getOne<Session>('SELECT id, host_id, invite_code, status FROM sessions WHERE id = ?', [sessionId]);
+  if (!session) return;
+
+  const webhooks = getAll<Webhook>('SELECT * FROM webhooks WHERE host_id = ? AND active = 1', [session.host_id])
+    .filter(webhook => {
+      const events = parseWebhookEvents(webhook);
+      return events.length === 0 || events.includes(event);
+    });
+  if (webhooks.length === 0) return;
+
+  const body = {
+    session: { id: session.id, inviteCode: session.invite_code, status: session.status },
+    data: typeof data === 'function' ? data() : data,
+  };
+
+  await Promise.all(webhooks.map(webhook => attemptDelivery(createDelivery(webhook, event, body, now), webhook, now)));
+}
+
+// Fire-and-forget from request handlers; the returned promise never rejects so callers can ignore it
+export function triggerWebhooks(
+  sessionId: string,
+  event: WebhookEvent,
+  data: WebhookData = {},
+  now: Date = new Date()
+): Promise<void> {
+  return deliverEvent(sessionId, event, data, now).catch(error => {
+    console.error('Webhook error:', error);
+  });
+}
+
+// Send a ping so the host can check their receiver and signature handling
+export async function sendTestDelivery(webhook: Webhook, now: Date = new Date()): Promise<WebhookDelivery> {
+  const delivery = createDelivery(webhook, 'ping', { session: null, data: { message: 'Webhook is set up' } }, now);
+  return attemptDelivery(delivery, webhook, now);
+}
+
+// Retry failed deliveries whose backoff has elapsed. Returns how many were attempted.
+export async function retryDueDeliveries(now: Date = new Date()): Promise<number> {
+  const due = getAll<WebhookDelivery & { url: string; secret: string }>(
+    `SELECT d.*, w.url, w.secret
+     FROM webhook_deliveries d
+     JOIN webhooks w ON w.id = d.webhook_id
+     WHERE d.status = 'pending' AND d.next_attempt_at <= ? AND w.active = 1
+     ORDER BY d.next_attempt_at`,
+    [now.toISOString()]
+  );
+
+  for (const delivery of due) {
+    await attemptDelivery(delivery, delivery, now);
+  }
+  return due.length;
+}
@@ -16,19 +16,158 @@ export interface Meal {
   pick_count: number;
   temporary: number; // SQLite boolean (0 or 1)
   creator_token: string | null;
+  ingredients: string | null; // JSON array of Ingredient
+  steps: string | null; // JSON array of strings
+  prep_minutes: number | null;
+  cook_minutes: number | null;
+  difficulty: Difficulty | null;
+  servings: number | null;
+  image_id: string | null;
+  address: string | null;
+  cuisine: string | null;
+  price_tier: number | null;
+  opening_hours: string | null; // JSON array of OpeningHours
+  phone: string | null;
+  website_url: string | null;
+  allergens: string | null; // JSON array of Allergen
   created_at: string;
 }
 
+export type MealType = Meal['type'];
+
+// What a meal contains, for dietary filtering (not exhaustive: unrecorded means unknown)
+export type Allergen =
+  | 'gluten' | 'dairy' | 'eggs' | 'nuts' | 'peanuts' | 'soy' | 'fish' | 'shellfish' | 'sesame' | 'meat';
+
+export type Diet = 'vegetarian' | 'vegan';
+
+// A participant's restriction; hard ones (allergies) rule meals out, soft ones only flag them
+export interface DietaryRestriction {
+  code: Allergen | Diet;
+  hard: boolean;
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface Ingredient {
+  quantity: number | null;
+  unit: string | null;
+  name: string;
+}
+
+// One opening period; a close time at or before the open time runs past midnight
+export interface OpeningHours {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  open: string; // HH:MM
+  close: string; // HH:MM
+}
+
+export type ScoringMode = 'approval' | 'weighted-maybe' | 'veto' | 'borda';
+
+export interface Tag {
+  id: string;
+  host_id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface MealTag {
+  meal_id: string;
+  tag_id: string;
+}
+
+export interface Playlist {
+  id: string;
+  host_id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PlaylistMeal {
+  playlist_id: string;
+  meal_id: string;
+  position: number;
+}
+
 export interface Session {
   id: string;
   host_id: string;
   invite_code: string;
-  status: 'open' | 'closed';
+  status: 'open' | 'runoff' | 'closed';
   selected_meal_id: string | null;
+  scoring_mode: ScoringMode;
+  maybe_weight: number;
+  template_id: string | null;
+  max_participants: number | null;
+  closes_at: string | null; // ISO timestamp
+  auto_close_when_complete: number; // SQLite boolean (0 or 1)
+  creator_token: string | null; // anonymous quick sessions only
   created_at: string;
   closed_at: string | null;
 }
 
+export interface SessionTemplate {
+  id: string;
+  host_id: string;
+  name: string;
+  meal_ids: string | null; // JSON array of meal IDs
+  playlist_id: string | null;
+  scoring_mode: ScoringMode;
+  max_participants: number | null;
+  schedule: string | null; // cron expression, server local time
+  auto_close_minutes: number | null;
+  active: number; // SQLite boolean (0 or 1)
+  last_run_at: string | null; // ISO timestamp
+  next_run_at: string | null; // ISO timestamp
+  created_at: string;
+}
+
+export type WebhookEvent =
+  | 'session.created'
+  | 'participant.joined'
+  | 'participant.submitted'
+  | 'session.closed'
+  | 'meal.selected';
+
+export interface Webhook {
+  id: string;
+  host_id: string;
+  url: string;
+  secret: string; // HMAC key shared with the receiver
+  events: string; // JSON array of WebhookEvent; empty means every event
+  active: number; // SQLite boolean (0 or 1)
+  created_at: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event: WebhookEvent | 'ping';
+  payload: string; // the exact JSON body that is signed and sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  next_attempt_at: string | null; // ISO timestamp; null once delivered or given up
+  created_at: string;
+  delivered_at: string | null;
+}
+
+export interface ChatSession {
+  session_id: string;
+  team_id: string;
+  channel_id: string;
+  user_id: string;
+  response_url: string; // the chat platform's callback for follow-up messages
+  creator_token: string;
+  created_at: string;
+  results_posted_at: string | null;
+}
+
 export interface SessionMeal {
   id: string;
   session_id: string;
@@ -41,15 +180,39 @@ export interface Participant {
   session_id: string;
   display_name: string;
   host_id: string | null;
+  profile_id: string | null;
+  restrictions: string | null; // JSON array of DietaryRestriction
+  deck_order: string | null; // JSON array of meal IDs in the order they were dealt
   submitted: number; // SQLite boolean (0 or 1)
   created_at: string;
 }
 
+export interface ParticipantProfile {
+  id: string;
+  token: string | null;
+  host_id: string | null;
+  display_name: string;
+  created_at: string;
+  last_seen_at: string;
+}
+
+export interface SessionInvite {
+  id: string;
+  session_id: string;
+  email: string;
+  token: string;
+  participant_id: string | null;
+  invited_at: string;
+  reminded_at: string | null;
+  results_sent_at: string | null;
+}
+
 export interface Swipe {
   id: string;
   participant_id: string;
   session_meal_id: string;
   vote: number; // 0 = no, 1 = yes, 2 = maybe
+  draft: number; // SQLite boolean: saved mid-deck, not yet submitted
   created_at: string;
 }
 
@@ -57,22 +220,53 @@ export interface SessionHistory {
   id: string;
   session_id: string;
   selected_meal_id: string;
+  selection_method: 'host' | 'runoff' | 'runoff-tiebreak';
+  tied_meal_ids: string | null; // JSON array of meal IDs tied for first
   selected_at: string;
 }
 
+export interface RunoffCandidate {
+  id: string;
+  session_id: string;
+  meal_id: string;
+  display_order: number;
+}
+
+export interface RunoffVote {
+  id: string;
+  session_id: string;
+  participant_id: string;
+  meal_id: string;
+  created_at: string;
+}
+
 // API response types
 export interface MatchResult {
   mealId: string;
   title: string;
   description: string | null;
+  imageUrl: string | null;
+  thumbnailUrl: string | null;
   yesCount: number;
   maybeCount: number;
   totalVotes: number;
-  percentage: number;
+  percentage: number; // (yes + maybe) / total, regardless of scoring mode
+  score: number; // 0-100 from the session's scoring strategy, used for ranking
+  scoringMode: ScoringMode;
   isUnanimous: boolean;
   voters?: { name: string; vote: number }[];
 }
 
+export type SessionEventType =
+  | 'participant-joined'
+  | 'participant-submitted'
+  | 'participant-progress'
+  | 'deadline-changed'
+  | 'session-closed'
+  | 'meal-selected'
+  | 'runoff-started'
+  | 'runoff-vote';
+
 export interface SessionWithDetails extends Session {
   meals: Meal[];
   participantCount: number;
@@ -80,17 +274,98 @@ export interface SessionWithDetails extends Session {
 }
 
 // API request types
-export interface CreateMealRequest {
+export interface RecipeRequest {
+  ingredients?: Ingredient[];
+  steps?: string[];
+  prepMinutes?: number | null;
+  cookMinutes?: number | null;
+  difficulty?: Difficulty | null;
+  servings?: number | null;
+}
+
+export interface RestaurantRequest {
+  address?: string | null;
+  cuisine?: string | null;
+  priceTier?: number | null;
+  hours?: OpeningHours[];
+  phone?: string | null;
+  websiteUrl?: string | null;
+}
+
+export interface DietaryRequest {
+  allergens?: Allergen[];
+}
+
+export interface CreateMealRequest extends RecipeRequest, RestaurantRequest, DietaryRequest {
+  type?: MealType;
   title: string;
   description?: string;
+  tags?: string[];
+}
+
+export type MealImportFormat = 'json' | 'csv';
+
+export interface MealImportRequest {
+  format?: MealImportFormat;
+  content?: string; // the file's text
+  dryRun?: boolean; // preview only (default true)
+  skipDuplicates?: boolean; // leave out meals whose title is already in the library or file (default true)
+}
+
+export interface RecipeImportRequest {
+  url?: string; // recipe page to fetch; with html, only used to resolve relative image links
+  html?: string; // the page's HTML, for pages the server can't reach
+  tags?: string[];
+}
+
+export interface TagRequest {
+  name: string;
+}
+
+export interface PlaylistRequest {
+  name?: string;
+  description?: string;
+  mealIds?: string[];
 }
 
 export interface CreateSessionRequest {
-  mealIds: string[];
+  mealIds?: string[];
+  playlistId?: string; // alternative to mealIds: use the playlist's active meals
+  scoringMode?: ScoringMode;
+  maybeWeight?: number;
+  closesAt?: string | null; // ISO timestamp
+  autoCloseWhenComplete?: boolean;
+  openNow?: boolean; // leave out restaurants whose opening hours say they are closed
+}
+
+export interface SessionTemplateRequest {
+  name?: string;
+  mealIds?: string[];
+  playlistId?: string | null;
+  scoringMode?: ScoringMode;
+  maxParticipants?: number | null;
+  schedule?: string | null;
+  autoCloseMinutes?: number | null;
+  active?: boolean;
 }
 
 export interface JoinSessionRequest {
   displayName: string;
+  profileToken?: string; // device token from an earlier join
+  remember?: boolean; // start a guest profile when there is no token yet
+  restrictions?: DietaryRestriction[];
+  inviteToken?: string; // from an emailed invite link
+}
+
+export interface WebhookRequest {
+  url?: string;
+  events?: WebhookEvent[];
+  active?: boolean;
+}
+
+export interface SaveSwipeRequest {
+  participantId: string;
+  vote: number;
 }
 
 export interface SubmitSwipesRequest {
@@ -108,7 +383,28 @@ export interface LoginRequest {
   password: string;
 }
 
+export interface StartRunoffRequest {
+  topN?: number;
+  creatorToken?: string;
+}
+
+export interface RunoffVoteRequest {
+  participantId: string;
+  mealId: string;
+}
+
+export interface RunoffTally {
+  mealId: string;
+  title: string;
+  description: string | null;
+  votes: number;
+}
+
 export interface QuickSessionRequest {
   creatorName: string;
   meals: { title: string; description?: string }[];
+  type?: MealType; // what the group is choosing between; applies to every option
+  scoringMode?: ScoringMode;
+  closesAt?: string | null; // ISO timestamp
+  autoCloseWhenComplete?: boolean;
 }